@@ -1,10 +1,11 @@
-import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import OutlinePane from './components/OutlinePane';
 import Workspace from './components/Workspace';
 import AgentInteractionPane from './components/AgentInteractionPane';
 import Toast from './components/Toast';
 import ProjectDashboard from './components/ProjectDashboard';
 import ProjectList from './components/ProjectList'; // New component
+import ImportConflictDialog from './components/ImportConflictDialog';
 import { 
     generateContent, 
     generateInitialDraft,
@@ -13,10 +14,38 @@ import {
     createTailoredSystemPrompt, 
     parseOutlineText,
     createOutlinerSystemPrompt,
-    createResearchAgentPrompt
+    createResearchAgentPrompt,
+    reviewSection,
+    editSelection,
+    checkConsistency,
+    type StreamOptions
 } from './services/geminiService';
-import type { OutlineItem, SectionContent, Message, ResearchResult, ContextData, Project, Flow } from './types';
-import { SectionStatus, AgentStatus } from './types';
+import { loadProjects, saveProjects, loadTemplates, saveTemplates, requestPersistentStorage, getFileId } from './services/storageService';
+import { extractFileText } from './services/extractionService';
+import { buildKnowledgeIndex, getSourceSignature, retrieveKnowledge, retryEmbeddingIndex, formatRetrievedKnowledge } from './services/retrievalService';
+import { parseMarkdownOutline, removeItem, collectItemIds } from './services/outlineService';
+import { appendVersion, checkpointManualEdits, createVersion, getExportContent, getLatestGeneration, getLatestVersion, hasUnsavedEdits } from './services/versionService';
+import { acceptHunks, createProposal, rejectHunks } from './services/proposalService';
+import { getSurroundingText, patchSelection, type SelectionRange } from './services/selectionEditService';
+import { buildExportDocument, getExportFormat } from './services/export';
+import { collectCitableSources, findUnresolvedCitations, formatCitationInstructions, getLiveSourceIds, isValidCitationKey, renameCitationKey, syncBibliography } from './services/citationService';
+import { exportProjectBundle, importProjectBundle, mergeProjects, renameImportedProject, BUNDLE_EXTENSION } from './services/bundleService';
+import type { OutlineItem, SectionContent, Message, ResearchResult, ContextData, Project, Flow, FileExtraction, ExportSource, CitationStyle, ContextBudgetSettings, ContextComponentId, KnowledgeIndex, RetrievedChunk, SectionReview, ReviewComment, RubricCriterion, ConsistencyFinding, StyleGuide, FlowTemplate } from './types';
+import type { BibliographyEntryUpdate } from './components/BibliographyPanel';
+import ContextBudgetDialog from './components/ContextBudgetDialog';
+import { planContextBudget, getKeptPieces, DEFAULT_CONTEXT_BUDGET, type ContextBudgetPlan, type ContextComponentInput } from './services/contextBudgetService';
+import { subscribeToUsage, setUsageGuard, getMonthlySpend, usageToCsv, UsageLimitError } from './services/usageService';
+import { startDraftRun, isDraftRunActive, type DraftRun, type DraftRunProgress, type DraftTaskContext } from './services/draftOrchestrator';
+import type { DraftRunControl } from './components/DraftRunPanel';
+import { DEFAULT_REVIEW_RUBRIC, formatReviewFeedback } from './services/reviewService';
+import { formatSectionsForConsistency, getCompletedSections, locateFinding, runLocalConsistencyChecks } from './services/consistencyService';
+import ConsistencyDialog from './components/ConsistencyDialog';
+import { lintContent, withStyleGuide } from './services/styleGuideService';
+import { BUILT_IN_TEMPLATES, createTemplateFromFlow, formatSectionGuidance, instantiateTemplate } from './services/templateService';
+import { cherryPickSection, duplicateFlow, getCopyName } from './services/flowCompareService';
+import { createReference, formatCrossFlowReference, getReferenceState, isSameReference, listReferenceableFlows } from './services/referenceService';
+import { cachePrompt, getCachedPrompt, getOutlinerPromptKey, getWriterPromptKey, type WriterPromptInputs } from './services/promptCacheService';
+import { SectionStatus, AgentStatus, ExtractionStatus } from './types';
 
 const findItem = (items: OutlineItem[], id: string): OutlineItem | null => {
   for (const item of items) {
@@ -48,6 +77,42 @@ const updateItemStatus = (items: OutlineItem[], id: string, status: SectionStatu
     });
 };
 
+// Budget stops are shown as they are; other agent failures get the caller's message.
+const describeAgentError = (error: unknown, fallback: string): string =>
+  error instanceof UsageLimitError ? error.message : fallback;
+
+const toFileSlug = (name: string) => name.replace(/\s+/g, '_');
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Prints an HTML document from a hidden frame, so no popup window is needed.
+const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  // No scripts run in the exported document. Same origin is kept so this window can call print().
+  frame.setAttribute('sandbox', 'allow-modals allow-same-origin');
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 1000);
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
+
+// How long to wait after the last change before autosaving to IndexedDB.
+const AUTOSAVE_DELAY_MS = 800;
+
 const DEFAULT_COORDINATOR_PROMPT = `You are the Coordinator Agent for a content authoring project. Your master instruction is to ensure all generated content is clear, coherent, and consistent. The overall goal is to produce a high-quality, professional document.`;
 
 const createNewProject = (name: string): Project => ({
@@ -58,6 +123,102 @@ const createNewProject = (name: string): Project => ({
   flows: [],
 });
 
+// A piece of Writer Agent context; chat history pieces keep their sender.
+type WriterPiece = { text: string; sender?: Message['sender'] };
+
+// A fully assembled Writer Agent request, held back while an over-budget warning is shown.
+interface WriterRequest {
+  sectionId: string;
+  prompt?: string;
+  instruction: string;
+  priorMessages: Message[];
+  retrievedChunks?: RetrievedChunk[];
+  inputs: ContextComponentInput<WriterPiece>[];
+  plan: ContextBudgetPlan<WriterPiece>;
+}
+
+// What a Writer Agent request is assembled from.
+interface WriterSource {
+  project: Project;
+  flow: Flow;
+  section: SectionContent;
+  liveSourceIds: Set<string>;
+}
+
+const formatOutlineForPrompt = (items: OutlineItem[], level = 0): string =>
+  items.map(item => {
+    const prefix = ' '.repeat(level * 2) + '- ';
+    const childrenText = item.children.length > 0 ? `\n${formatOutlineForPrompt(item.children, level + 1)}` : '';
+    return `${prefix}${item.title}${childrenText}`;
+  }).join('\n');
+
+// What the Coordinator Agent writes a section's tailored prompt from, in the flow's current state.
+const getWriterPromptInputs = (flow: Flow, item: OutlineItem): WriterPromptInputs => ({
+  documentTitle: flow.outline[0]?.title || 'Untitled Document',
+  outlineStructure: formatOutlineForPrompt(flow.outline),
+  sectionTitle: item.title,
+  coordinatorPrompt: flow.coordinatorPrompt,
+});
+
+// The Writer's system prompt: the section's tailored prompt, its template guidance and the flow's style guide.
+const buildWriterSystemPrompt = (section: SectionContent, flow: Flow, fallback = ''): string =>
+  withStyleGuide([section.systemPrompt || fallback, formatSectionGuidance(section.guidance)].filter(Boolean).join('\n\n'), flow.styleGuide, 'writer');
+
+// Builds the budget components of a Writer Agent request from a section's current state.
+const assembleWriterInputs = (source: WriterSource, options: {
+  instruction: string;
+  history: Message[];
+  contextIds: string[];
+  sessionFiles: { file: File; text: string }[];
+  retrievedChunks?: RetrievedChunk[];
+}): ContextComponentInput<WriterPiece>[] => {
+  const { project, flow, section, liveSourceIds } = source;
+
+  // Sources are labelled with their citation keys so the Writer can cite them inline.
+  const bibliography = (flow.bibliography || []).filter(entry => liveSourceIds.has(entry.sourceId));
+  const citationKeys = Object.fromEntries(bibliography.map(entry => [entry.sourceId, entry.key]));
+  const citeLabel = (sourceId: string) => (citationKeys[sourceId] ? ` [@${citationKeys[sourceId]}]` : '');
+  const citations = formatCitationInstructions(bibliography);
+
+  // Only the knowledge base passages relevant to this section and instruction are injected.
+  // Until the index has been built, the whole knowledge base is used instead.
+  const knowledge = options.retrievedChunks
+    ? options.retrievedChunks.map(chunk => formatRetrievedKnowledge([chunk], citationKeys))
+    : [project.globalKnowledgeContext].filter(Boolean);
+
+  const sessionFiles = options.sessionFiles
+    .filter(({ text }) => text)
+    .map(({ file, text }) => `--- SESSION FILE${citeLabel(getFileId(file))}: ${file.name} ---\n${text}\n--- END SESSION FILE: ${file.name} ---`);
+
+  const research = (section.research_results || [])
+    .map(r => `--- RESEARCH RESULT${citeLabel(r.id)}: ${r.title} ---\nURL: ${r.url}\nSummary: ${r.summary}`);
+
+  const references = options.contextIds.flatMap(id => {
+    const item = findItem(flow.outline, id);
+    const content = flow.contents[id]?.content;
+    return item && content ? [`--- REF: ${item.title} ---\n${content}`] : [];
+  }).concat((section.crossFlowRefs || []).map(formatCrossFlowReference));
+
+  const toPieces = (texts: string[]) => texts.map(text => ({ text }));
+  return [
+    { id: 'systemPrompt', pieces: toPieces([buildWriterSystemPrompt(section, flow)].filter(Boolean)) },
+    { id: 'citations', pieces: toPieces([citations].filter(Boolean)) },
+    { id: 'knowledge', pieces: toPieces(knowledge) },
+    { id: 'sessionFiles', pieces: toPieces(sessionFiles) },
+    { id: 'research', pieces: toPieces(research) },
+    { id: 'references', pieces: toPieces(references) },
+    { id: 'history', pieces: options.history },
+    { id: 'instruction', pieces: [{ text: options.instruction }] },
+  ];
+};
+
+// Combines all context pieces into one string. The system prompt, chat history and instruction
+// are sent separately, and the coordinator prompt is NOT included here.
+const joinWriterContext = (components: ContextComponentInput<WriterPiece>[]): string =>
+  (['citations', 'knowledge', 'sessionFiles', 'research', 'references'] as const)
+    .map(id => (components.find(c => c.id === id)?.pieces || []).map(piece => piece.text).join('\n\n'))
+    .filter(Boolean).join('\n\n');
+
 const createNewFlow = (name: string): Flow => ({
   id: Date.now().toString(),
   name,
@@ -73,6 +234,9 @@ const createNewFlow = (name: string): Flow => ({
 
 const App: React.FC = () => {
   const [projects, setProjects] = useState<Project[]>([]);
+  const [isHydrated, setIsHydrated] = useState(false);
+  // Set when the stored projects could not be read. Saving stays off, since it would delete them.
+  const [loadFailed, setLoadFailed] = useState(false);
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
   const [activeFlowId, setActiveFlowId] = useState<string | null>(null);
   const [view, setView] = useState<'projectList' | 'projectDashboard' | 'editor'>('projectList');
@@ -81,31 +245,158 @@ const App: React.FC = () => {
   const [agentStatus, setAgentStatus] = useState<AgentStatus>(AgentStatus.Idle);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [researchAgentStatus, setResearchAgentStatus] = useState<AgentStatus>(AgentStatus.Idle);
+  const [reviewAgentStatus, setReviewAgentStatus] = useState<AgentStatus>(AgentStatus.Idle);
+  const [pendingImport, setPendingImport] = useState<Project | null>(null);
+  // Flow templates saved by the user; the built-in ones are not stored.
+  const [userTemplates, setUserTemplates] = useState<FlowTemplate[]>([]);
+  // Text streamed so far by the Writer Agent, and the section it is being written for.
+  const [streaming, setStreaming] = useState<{ sectionId: string; text: string } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Extraction results for uploaded knowledge files, keyed by file id.
+  const [fileExtractions, setFileExtractions] = useState<Record<string, FileExtraction>>({});
+  const warnedFilesRef = useRef(new WeakSet<File>());
+  const [exportSource, setExportSource] = useState<ExportSource>('committed');
+  const [exportFormatId, setExportFormatId] = useState('markdown');
+  // Set after a failed finalize, so the outline editor keeps showing the draft's parse errors.
+  const [showOutlineErrors, setShowOutlineErrors] = useState(false);
+  const [pendingWriterRequest, setPendingWriterRequest] = useState<WriterRequest | null>(null);
+  // The "Draft entire document" run, if any, and the flow it drafts.
+  const [draftRun, setDraftRun] = useState<{ projectId: string; flowId: string; progress: DraftRunProgress } | null>(null);
+  const draftRunRef = useRef<DraftRun | null>(null);
+  const [isConsistencyOpen, setIsConsistencyOpen] = useState(false);
+  const [consistencyStatus, setConsistencyStatus] = useState<AgentStatus>(AgentStatus.Idle);
+  // A finding's fix request, sent to the Writer once its section is selected and ready.
+  const [pendingFix, setPendingFix] = useState<{ sectionId: string; prompt: string } | null>(null);
+  // The passage the editor should select and scroll to; the id makes repeated jumps re-run.
+  const [focusRange, setFocusRange] = useState<SelectionRange & { requestId: number } | null>(null);
 
   const activeProject = useMemo(() => projects.find(p => p.id === activeProjectId), [projects, activeProjectId]);
   const activeFlow = useMemo(() => activeProject?.flows.find(f => f.id === activeFlowId), [activeProject, activeFlowId]);
 
-  // Effect to process global files for the active project
+  const latestProjectsRef = useRef<Project[]>(projects);
+  latestProjectsRef.current = projects;
+
+  // Effect to rehydrate projects from IndexedDB on startup
+  useEffect(() => {
+    let cancelled = false;
+    loadProjects()
+      .then(storedProjects => {
+        if (cancelled) return;
+        setProjects(storedProjects);
+        setIsHydrated(true);
+      })
+      .catch(error => {
+        console.error("Failed to load saved projects:", error);
+        if (cancelled) return;
+        setLoadFailed(true);
+        setToast({ message: 'Could not load saved projects. Changes will not be saved until the app is reloaded.', type: 'error' });
+      });
+    requestPersistentStorage();
+    return () => { cancelled = true; };
+  }, []);
+
+  // Effect to load the user's flow templates on startup
+  useEffect(() => {
+    loadTemplates()
+      .then(setUserTemplates)
+      .catch(error => console.error("Failed to load flow templates:", error));
+  }, []);
+
+  // Effect to autosave projects shortly after every change
+  useEffect(() => {
+    if (!isHydrated) return;
+    const timer = setTimeout(() => {
+      saveProjects(projects).catch(error => {
+        console.error("Autosave failed:", error);
+        setToast({ message: 'Autosave failed. Recent changes may not be saved.', type: 'error' });
+      });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projects, isHydrated]);
+
+  // Effect to flush pending changes when the tab is hidden or closed
+  useEffect(() => {
+    if (!isHydrated) return;
+    const flush = () => {
+      saveProjects(latestProjectsRef.current).catch(error => console.error("Final save failed:", error));
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [isHydrated]);
+
+  // Effect to record every agent call in its project's usage log
+  useEffect(() => subscribeToUsage((scope, record) => {
+    setProjects(prev => prev.map(p => p.id === scope.projectId ? { ...p, usage: [...(p.usage || []), record] } : p));
+  }), []);
+
+  // Effect to hold agent calls to the project's monthly budget
+  useEffect(() => {
+    setUsageGuard(scope => {
+      const project = latestProjectsRef.current.find(p => p.id === scope.projectId);
+      const budget = project?.usageBudget;
+      if (!project || !budget) return;
+      const spend = getMonthlySpend(project.usage);
+      if (spend < budget.monthlyLimitUsd) return;
+      const message = `"${project.name}" has used $${spend.toFixed(2)} of its $${budget.monthlyLimitUsd.toFixed(2)} monthly budget.`;
+      if (budget.mode === 'block') throw new UsageLimitError(`${message} Raise the limit to keep using the agents.`);
+      setToast({ message, type: 'error' });
+    });
+    return () => setUsageGuard(null);
+  }, []);
+
+  // Effect to extract text from the global files of the active project
   useEffect(() => {
     if (!activeProject) return;
+    let cancelled = false;
 
     const generateContext = async () => {
         const { globalKnowledgeFiles, id } = activeProject;
         if (globalKnowledgeFiles.length === 0) {
-             updateProject(id, { globalKnowledgeContext: '' });
+             updateProject(id, { globalKnowledgeContext: '', knowledgeIndex: undefined });
             return;
         }
-        const fileContents = await Promise.all(
-            globalKnowledgeFiles.map(file => 
-                file.text().catch(e => `[Could not read file: ${file.name}]`)
-            )
+        const results = await Promise.all(
+            globalKnowledgeFiles.map(async file => {
+                const fileId = getFileId(file);
+                setFileExtractions(prev => prev[fileId] ? prev : { ...prev, [fileId]: { status: ExtractionStatus.Pending, format: '', text: '' } });
+                const result = await extractFileText(file);
+                if (!cancelled) setFileExtractions(prev => ({ ...prev, [fileId]: result }));
+                return result;
+            })
         );
-        const contextString = globalKnowledgeFiles.map((file, i) => 
-            `--- GLOBAL KNOWLEDGE SOURCE: ${file.name} ---\n${fileContents[i]}`
-        ).join('\n\n');
-        updateProject(id, { globalKnowledgeContext: contextString });
+        if (cancelled) return;
+
+        const contextString = globalKnowledgeFiles
+            .map((file, i) => results[i].text ? `--- GLOBAL KNOWLEDGE SOURCE: ${file.name} ---\n${results[i].text}` : null)
+            .filter(Boolean)
+            .join('\n\n');
+        if (contextString !== activeProject.globalKnowledgeContext) {
+            updateProject(id, { globalKnowledgeContext: contextString });
+        }
+
+        const sources = globalKnowledgeFiles.map((file, i) => ({ fileId: getFileId(file), fileName: file.name, text: results[i].text }));
+        if (activeProject.knowledgeIndex?.sourceSignature !== getSourceSignature(sources)) {
+            const knowledgeIndex = await buildKnowledgeIndex(sources);
+            if (cancelled) return;
+            updateProject(id, { knowledgeIndex });
+        }
+
+        const unreadable = globalKnowledgeFiles.filter((file, i) =>
+            results[i].status !== ExtractionStatus.Done && !warnedFilesRef.current.has(file));
+        unreadable.forEach(file => warnedFilesRef.current.add(file));
+        if (unreadable.length > 0) {
+            setToast({ message: `No text could be extracted from: ${unreadable.map(f => f.name).join(', ')}`, type: 'error' });
+        }
     };
     generateContext();
+    return () => { cancelled = true; };
   }, [activeProject?.globalKnowledgeFiles]);
 
 
@@ -114,19 +405,37 @@ const App: React.FC = () => {
       prevProjects.map(p => (p.id === projectId ? { ...p, ...updates } : p))
     );
   };
+
+  // The project's knowledge index for a retrieval, embedded now if an earlier embedding failed.
+  const getKnowledgeIndex = async (project: Project): Promise<KnowledgeIndex | undefined> => {
+    const index = project.knowledgeIndex;
+    if (!index) return undefined;
+    const retried = await retryEmbeddingIndex(index);
+    if (retried !== index) {
+      // Only replace the index it was built from; the files may have changed meanwhile.
+      setProjects(prevProjects => prevProjects.map(p => (p.knowledgeIndex === index ? { ...p, knowledgeIndex: retried } : p)));
+    }
+    return retried;
+  };
   
-  const updateActiveFlow = useCallback((updates: Partial<Flow>) => {
-      if (!activeProjectId || !activeFlowId) return;
+  // Accepts either a partial flow or a function of the latest flow state. Use the function
+  // form after an await, where the `activeFlow` captured by a callback may be stale.
+  const updateFlow = useCallback((projectId: string, flowId: string, updates: Partial<Flow> | ((flow: Flow) => Partial<Flow>)) => {
       setProjects(prevProjects => prevProjects.map(p => {
-          if (p.id === activeProjectId) {
+          if (p.id === projectId) {
               return {
                   ...p,
-                  flows: p.flows.map(f => f.id === activeFlowId ? { ...f, ...updates } : f)
+                  flows: p.flows.map(f => f.id === flowId ? { ...f, ...(typeof updates === 'function' ? updates(f) : updates) } : f)
               };
           }
           return p;
       }));
-  }, [activeProjectId, activeFlowId]);
+  }, []);
+
+  const updateActiveFlow = useCallback((updates: Partial<Flow> | ((flow: Flow) => Partial<Flow>)) => {
+      if (!activeProjectId || !activeFlowId) return;
+      updateFlow(activeProjectId, activeFlowId, updates);
+  }, [activeProjectId, activeFlowId, updateFlow]);
 
   const handleCreateProject = (name: string) => {
     const newProject = createNewProject(name);
@@ -143,18 +452,125 @@ const App: React.FC = () => {
     setView('projectDashboard');
   };
   
-  const handleCreateFlow = (name: string) => {
+  const handleExportProject = async (projectId: string) => {
+    const project = projects.find(p => p.id === projectId);
+    if (!project) return;
+    try {
+      const bundle = await exportProjectBundle(project);
+      downloadBlob(bundle, `${toFileSlug(project.name)}${BUNDLE_EXTENSION}`);
+      setToast({ message: `Project "${project.name}" exported!`, type: 'success' });
+    } catch (error) {
+      console.error("Error exporting project:", error);
+      setToast({ message: 'Failed to export project.', type: 'error' });
+    }
+  };
+
+  const handleExportUsage = (projectId: string) => {
+    const project = projects.find(p => p.id === projectId);
+    if (!project) return;
+    downloadBlob(new Blob([usageToCsv(project)], { type: 'text/csv;charset=utf-8' }), `${toFileSlug(project.name)}-usage.csv`);
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const imported = await importProjectBundle(file);
+      if (projects.some(p => p.id === imported.id)) {
+        setPendingImport(imported);
+        return;
+      }
+      setProjects(prev => [...prev, imported]);
+      setToast({ message: `Project "${imported.name}" imported!`, type: 'success' });
+    } catch (error) {
+      console.error("Error importing project:", error);
+      setToast({ message: error.message, type: 'error' });
+    }
+  };
+
+  const handleImportIntoActiveProject = async (file: File) => {
+    if (!activeProjectId) return;
+    try {
+      const imported = await importProjectBundle(file);
+      setProjects(prev => prev.map(p => (p.id === activeProjectId ? mergeProjects(p, imported) : p)));
+      setToast({ message: `Merged ${imported.flows.length} flow(s) from "${imported.name}".`, type: 'success' });
+    } catch (error) {
+      console.error("Error importing bundle:", error);
+      setToast({ message: error.message, type: 'error' });
+    }
+  };
+
+  const handleResolveImportConflict = (resolution: 'rename' | 'merge' | 'cancel') => {
+    if (!pendingImport) return;
+    if (resolution === 'rename') {
+      const renamed = renameImportedProject(pendingImport, projects);
+      setProjects(prev => [...prev, renamed]);
+      setToast({ message: `Project imported as "${renamed.name}".`, type: 'success' });
+    } else if (resolution === 'merge') {
+      setProjects(prev => prev.map(p => (p.id === pendingImport.id ? mergeProjects(p, pendingImport) : p)));
+      setToast({ message: `Project "${pendingImport.name}" merged.`, type: 'success' });
+    }
+    setPendingImport(null);
+  };
+
+  const handleCreateFlow = (name: string, templateId?: string) => {
       if (!activeProject) return;
-      const newFlow = createNewFlow(name);
+      const template = [...BUILT_IN_TEMPLATES, ...userTemplates].find(t => t.id === templateId);
+      const newFlow: Flow = template
+          ? {
+              ...createNewFlow(name),
+              ...instantiateTemplate(template),
+              outlinerMessages: [{ sender: 'agent', text: `This flow starts from the "${template.name}" template. Select a section to start writing, or edit the outline first.` }],
+          }
+          : createNewFlow(name);
       updateProject(activeProject.id, {
           flows: [...activeProject.flows, newFlow]
       });
       setToast({ message: `Flow "${name}" created!`, type: 'success' });
   };
-  
+
+  // A duplicate is an independent copy; a fork also remembers the flow it came from.
+  const handleDuplicateFlow = (flowId: string, fork: boolean) => {
+      if (!activeProject) return;
+      const index = activeProject.flows.findIndex(f => f.id === flowId);
+      if (index < 0) return;
+      const original = activeProject.flows[index];
+      const copy = duplicateFlow(original, getCopyName(original.name, fork ? 'fork' : 'copy', activeProject.flows), fork);
+      updateProject(activeProject.id, {
+          flows: [...activeProject.flows.slice(0, index + 1), copy, ...activeProject.flows.slice(index + 1)]
+      });
+      setToast({ message: `Flow "${copy.name}" created!`, type: 'success' });
+  };
+
+  const handleCherryPickSection = (sourceFlowId: string, targetFlowId: string, sectionId: string) => {
+      const source = activeProject?.flows.find(f => f.id === sourceFlowId);
+      const target = activeProject?.flows.find(f => f.id === targetFlowId);
+      if (!activeProject || !source || !target) return;
+      updateFlow(activeProject.id, targetFlowId, flow => cherryPickSection(source, flow, sectionId));
+      setToast({ message: `Section copied into "${target.name}".`, type: 'success' });
+  };
+
+  const updateUserTemplates = (templates: FlowTemplate[]) => {
+      setUserTemplates(templates);
+      saveTemplates(templates).catch(error => {
+          console.error("Failed to save flow templates:", error);
+          setToast({ message: 'Could not save the templates.', type: 'error' });
+      });
+  };
+
+  const handleSaveFlowAsTemplate = (flowId: string, name: string, description: string) => {
+      const flow = activeProject?.flows.find(f => f.id === flowId);
+      if (!flow) return;
+      updateUserTemplates([...userTemplates, createTemplateFromFlow(flow, name, description)]);
+      setToast({ message: `Template "${name}" saved.`, type: 'success' });
+  };
+
+  const handleDeleteTemplate = (templateId: string) => {
+      updateUserTemplates(userTemplates.filter(t => t.id !== templateId));
+  };
+
   const handleSelectFlow = (flowId: string) => {
       setActiveFlowId(flowId);
       setActiveSectionId(null);
+      setShowOutlineErrors(false);
       setView('editor');
   };
 
@@ -188,14 +604,76 @@ const App: React.FC = () => {
   }, [activeSectionId, activeFlow]);
 
   const activeContent = activeFlow?.contents[activeSectionId || ''] || { content: '', messages: [], sessionFiles: [], contextIds: [], research_results: [] };
+  const activeStreamingText = streaming && streaming.sectionId === activeSectionId ? streaming.text : null;
+
+  // Effect to extract text from the session files of the active section
+  useEffect(() => {
+    const sessionFiles = activeContent.sessionFiles;
+    let cancelled = false;
+    sessionFiles.forEach(async file => {
+        const fileId = getFileId(file);
+        const result = await extractFileText(file);
+        if (!cancelled) setFileExtractions(prev => prev[fileId] === result ? prev : { ...prev, [fileId]: result });
+    });
+    return () => { cancelled = true; };
+  }, [activeContent.sessionFiles]);
+
+  const citableSources = useMemo(
+    () => (activeProject && activeFlow ? collectCitableSources(activeFlow, activeProject.globalKnowledgeFiles) : []),
+    [activeProject, activeFlow]
+  );
+  const liveSourceIds = useMemo(() => getLiveSourceIds(citableSources), [citableSources]);
+  const unresolvedCitations = useMemo(
+    () => findUnresolvedCitations(activeContent.content, activeFlow?.bibliography, liveSourceIds),
+    [activeContent.content, activeFlow?.bibliography, liveSourceIds]
+  );
+
+  const styleIssues = useMemo(
+    () => lintContent(activeContent.content, activeFlow?.styleGuide),
+    [activeContent.content, activeFlow?.styleGuide]
+  );
+
+  // Every research result and knowledge file gets a bibliography entry as soon as it appears.
+  useEffect(() => {
+    if (!activeFlow) return;
+    const bibliography = syncBibliography(activeFlow.bibliography, citableSources);
+    if (bibliography) updateActiveFlow({ bibliography });
+  }, [activeFlow, citableSources, updateActiveFlow]);
   
-  const formatOutlineForPrompt = useCallback((items: OutlineItem[], level = 0): string => {
-    return items.map(item => {
-        const prefix = ' '.repeat(level * 2) + '- ';
-        const childrenText = item.children.length > 0 ? `\n${formatOutlineForPrompt(item.children, level + 1)}` : '';
-        return `${prefix}${item.title}${childrenText}`;
-    }).join('\n');
-  }, []);
+  // The tailored Writer prompt for a section. The section's own prompt is used while the
+  // coordinator prompt, outline and section title are unchanged; otherwise one cached for the
+  // current inputs, and only then is the Coordinator Agent asked. `force` always asks it.
+  const resolveSectionPrompt = useCallback(async (projectId: string, flowId: string, sectionId: string, options: {
+    force?: boolean;
+    onGenerating?: () => void;
+  } = {}): Promise<string> => {
+    const flow = latestProjectsRef.current.find(p => p.id === projectId)?.flows.find(f => f.id === flowId);
+    const item = flow && findItem(flow.outline, sectionId);
+    if (!flow || !item) throw new Error('The section no longer exists.');
+    const inputs = getWriterPromptInputs(flow, item);
+    const key = getWriterPromptKey(inputs);
+    const section = flow.contents[sectionId];
+    if (!options.force && section?.systemPrompt && section.systemPromptKey === key) return section.systemPrompt;
+
+    let text = options.force ? undefined : getCachedPrompt(flow.promptCache, key);
+    if (text === undefined) {
+        options.onGenerating?.();
+        text = await createTailoredSystemPrompt(inputs.documentTitle, inputs.outlineStructure, inputs.sectionTitle, inputs.coordinatorPrompt, { projectId, flowId, sectionId });
+    }
+    const systemPrompt = text;
+    updateFlow(projectId, flowId, f => ({
+        promptCache: cachePrompt(f.promptCache, key, systemPrompt),
+        contents: {
+            ...f.contents,
+            [sectionId]: {
+                ...(f.contents[sectionId] || { content: '', messages: [], sessionFiles: [], contextIds: [], research_results: [] }),
+                systemPrompt,
+                systemPromptKey: key,
+            },
+        },
+    }));
+    return systemPrompt;
+  }, [updateFlow]);
 
   const handleSelectSection = useCallback(async (id: string) => {
     if (!activeProject || !activeFlow) return;
@@ -205,47 +683,68 @@ const App: React.FC = () => {
 
     setActiveSectionId(id);
 
-    if (!activeFlow.contents[id]?.systemPrompt) {
-        setAgentStatus(AgentStatus.Thinking);
-        setToast({ message: 'Crafting a tailored prompt for the agent...', type: 'success' });
-        try {
-            const documentTitle = activeFlow.outline[0]?.title || 'Untitled Document';
-            const outlineStructure = formatOutlineForPrompt(activeFlow.outline);
-            const newSystemPrompt = await createTailoredSystemPrompt(
-                documentTitle,
-                outlineStructure,
-                section.title,
-                activeFlow.coordinatorPrompt
-            );
-
-            const newContents = {
-                ...activeFlow.contents,
-                [id]: {
-                    ...(activeFlow.contents[id] || { content: '', messages: [], sessionFiles: [], contextIds: [], research_results: [] }),
-                    systemPrompt: newSystemPrompt
-                },
-            };
-            updateActiveFlow({ contents: newContents });
-            setToast({ message: 'Agent is ready!', type: 'success' });
-        } catch (error) {
-            console.error("Failed to generate system prompt", error);
-            setToast({ message: 'Could not prepare the agent. Using default prompt.', type: 'error' });
+    const previousPrompt = activeFlow.contents[id]?.systemPrompt;
+    let generated = false;
+    try {
+        await resolveSectionPrompt(activeProject.id, activeFlow.id, id, {
+            onGenerating: () => {
+                generated = true;
+                setAgentStatus(AgentStatus.Thinking);
+                setToast({
+                    message: previousPrompt
+                        ? 'The outline or coordinator prompt has changed. Updating the tailored prompt...'
+                        : 'Crafting a tailored prompt for the agent...',
+                    type: 'success',
+                });
+            },
+        });
+        if (generated) setToast({ message: 'Agent is ready!', type: 'success' });
+    } catch (error) {
+        console.error("Failed to generate system prompt", error);
+        if (previousPrompt) {
+            // The outdated prompt is kept, and flagged in the Context tab.
+            setToast({ message: describeAgentError(error, 'Could not update the tailored prompt. Using the previous one.'), type: 'error' });
+        } else {
+            setToast({ message: describeAgentError(error, 'Could not prepare the agent. Using default prompt.'), type: 'error' });
             const defaultPrompt = `You are an expert academic writer. Your task is to write the content for the section "${section.title}".`;
-            const newContents = {
-                ...activeFlow.contents,
-                [id]: {
-                    ...(activeFlow.contents[id] || { content: '', messages: [], sessionFiles: [], contextIds: [], research_results: [] }),
-                    systemPrompt: defaultPrompt
+            updateActiveFlow(flow => ({
+                contents: {
+                    ...flow.contents,
+                    [id]: {
+                        ...(flow.contents[id] || { content: '', messages: [], sessionFiles: [], contextIds: [], research_results: [] }),
+                        systemPrompt: defaultPrompt
+                    },
                 },
-            };
-            updateActiveFlow({ contents: newContents });
-        } finally {
-            setAgentStatus(AgentStatus.Idle);
+            }));
         }
+    } finally {
+        if (generated) setAgentStatus(AgentStatus.Idle);
     }
-  }, [activeProject, activeFlow, formatOutlineForPrompt, updateActiveFlow]);
+  }, [activeProject, activeFlow, resolveSectionPrompt, updateActiveFlow]);
 
 
+  // Asks the Coordinator Agent for a new prompt even if the cached one is current: the Writer's
+  // for the open section, or the Outliner's while outlining.
+  const handleRegenerateSystemPrompt = useCallback(async () => {
+    if (!activeProject || !activeFlow) return;
+    setAgentStatus(AgentStatus.Thinking);
+    try {
+        if (activeSectionId) {
+            await resolveSectionPrompt(activeProject.id, activeFlow.id, activeSectionId, { force: true });
+        } else {
+            const promptKey = getOutlinerPromptKey(activeFlow.coordinatorPrompt);
+            const generated = await createOutlinerSystemPrompt(activeFlow.coordinatorPrompt, { projectId: activeProject.id, flowId: activeFlow.id });
+            updateActiveFlow(flow => ({ promptCache: cachePrompt(flow.promptCache, promptKey, generated) }));
+        }
+        setToast({ message: 'Prompt regenerated.', type: 'success' });
+    } catch (error) {
+        console.error("Failed to regenerate the system prompt:", error);
+        setToast({ message: describeAgentError(error, 'Could not regenerate the prompt.'), type: 'error' });
+    } finally {
+        setAgentStatus(AgentStatus.Idle);
+    }
+  }, [activeProject, activeFlow, activeSectionId, resolveSectionPrompt, updateActiveFlow]);
+
   const handleDeselect = useCallback(() => setActiveSectionId(null), []);
 
   const handleContentChange = useCallback((newContent: string) => {
@@ -272,16 +771,68 @@ const App: React.FC = () => {
       }
   }, [activeFlow, activeSectionId, activeContent, updateActiveFlow]);
 
+  const handleCrossFlowReferenceChange = useCallback((flowId: string, sectionId: string, isChecked: boolean) => {
+      if (!activeProject || !activeFlow || !activeSectionId) return;
+      const others = (activeContent.crossFlowRefs || []).filter(ref => !isSameReference(ref, flowId, sectionId));
+      const added = isChecked ? createReference(activeProject, flowId, sectionId) : null;
+      const crossFlowRefs = added ? [...others, added] : others;
+      updateActiveFlow({ contents: { ...activeFlow.contents, [activeSectionId]: { ...activeContent, crossFlowRefs } } });
+  }, [activeProject, activeFlow, activeSectionId, activeContent, updateActiveFlow]);
+
+  // Takes a new snapshot of a stale reference's source section.
+  const handleRefreshCrossFlowReference = useCallback((flowId: string, sectionId: string) => {
+      if (!activeProject || !activeFlow || !activeSectionId) return;
+      const refreshed = createReference(activeProject, flowId, sectionId);
+      if (!refreshed) {
+          setToast({ message: 'The referenced section is no longer completed.', type: 'error' });
+          return;
+      }
+      const crossFlowRefs = (activeContent.crossFlowRefs || []).map(ref => (isSameReference(ref, flowId, sectionId) ? refreshed : ref));
+      updateActiveFlow({ contents: { ...activeFlow.contents, [activeSectionId]: { ...activeContent, crossFlowRefs } } });
+  }, [activeProject, activeFlow, activeSectionId, activeContent, updateActiveFlow]);
+
+  const handleSectionGuidanceChange = useCallback((guidance: string) => {
+      if (!activeFlow || !activeSectionId) return;
+      updateActiveFlow({ contents: { ...activeFlow.contents, [activeSectionId]: { ...activeContent, guidance: guidance || undefined } } });
+  }, [activeFlow, activeSectionId, activeContent, updateActiveFlow]);
+
   const handleFilesChange = useCallback((files: FileList | null) => {
       if (activeFlow && activeSectionId && files) {
           const newContents = {
               ...activeFlow.contents,
-              [activeSectionId]: { ...activeContent, sessionFiles: Array.from(files) },
+              [activeSectionId]: { ...activeContent, sessionFiles: [...activeContent.sessionFiles, ...Array.from(files)] },
           };
           updateActiveFlow({ contents: newContents });
       }
   }, [activeFlow, activeSectionId, activeContent, updateActiveFlow]);
 
+  const handleToggleSessionFile = useCallback((index: number, included: boolean) => {
+      const file = activeContent.sessionFiles[index];
+      if (!activeFlow || !activeSectionId || !file) return;
+      const fileId = getFileId(file);
+      const excluded = (activeContent.excludedSessionFileIds || []).filter(id => id !== fileId);
+      const newContents = {
+          ...activeFlow.contents,
+          [activeSectionId]: { ...activeContent, excludedSessionFileIds: included ? excluded : [...excluded, fileId] },
+      };
+      updateActiveFlow({ contents: newContents });
+  }, [activeFlow, activeSectionId, activeContent, updateActiveFlow]);
+
+  const handleRemoveSessionFile = useCallback((index: number) => {
+      const file = activeContent.sessionFiles[index];
+      if (!activeFlow || !activeSectionId || !file) return;
+      const fileId = getFileId(file);
+      const newContents = {
+          ...activeFlow.contents,
+          [activeSectionId]: {
+              ...activeContent,
+              sessionFiles: activeContent.sessionFiles.filter((_, i) => i !== index),
+              excludedSessionFileIds: (activeContent.excludedSessionFileIds || []).filter(id => id !== fileId),
+          },
+      };
+      updateActiveFlow({ contents: newContents });
+  }, [activeFlow, activeSectionId, activeContent, updateActiveFlow]);
+
   const handleOutlineCommand = useCallback(async (prompt: string) => {
     if (!activeProject || !activeFlow) return;
     setAgentStatus(AgentStatus.Thinking);
@@ -289,22 +840,29 @@ const App: React.FC = () => {
     updateActiveFlow({ outlinerMessages: [...activeFlow.outlinerMessages, userMessage] });
 
     try {
-        const outlinerSystemPrompt = await createOutlinerSystemPrompt(activeFlow.coordinatorPrompt);
-        const newOutlineDraft = await generateOutline(activeFlow.outlineDraft, prompt, outlinerSystemPrompt);
+        const scope = { projectId: activeProject.id, flowId: activeFlow.id };
+        const promptKey = getOutlinerPromptKey(activeFlow.coordinatorPrompt);
+        let outlinerSystemPrompt = getCachedPrompt(activeFlow.promptCache, promptKey);
+        if (outlinerSystemPrompt === undefined) {
+            const generated = await createOutlinerSystemPrompt(activeFlow.coordinatorPrompt, scope);
+            updateActiveFlow(flow => ({ promptCache: cachePrompt(flow.promptCache, promptKey, generated) }));
+            outlinerSystemPrompt = generated;
+        }
+        const newOutlineDraft = await generateOutline(activeFlow.outlineDraft, prompt, withStyleGuide(outlinerSystemPrompt, activeFlow.styleGuide, 'outliner'), scope);
         const agentMessage: Message = { 
             sender: 'agent', 
-            text: 'I have updated the draft outline in the workspace. Edit it or give more instructions. Click "Finalize Outline" when satisfied.' 
+            text: 'I have proposed changes to the draft outline in the workspace. Accept or reject them, then edit or give more instructions. Click "Finalize Outline" when satisfied.' 
         };
-        updateActiveFlow({
-            outlineDraft: newOutlineDraft,
+        updateActiveFlow(flow => ({
+            outlineProposal: createProposal(activeFlow.outlineDraft, newOutlineDraft, flow.outlineDraft, prompt),
             outlinerMessages: [...activeFlow.outlinerMessages, userMessage, agentMessage]
-        });
-        setToast({ message: 'Outline draft updated!', type: 'success' });
+        }));
+        setToast({ message: 'Outline changes proposed.', type: 'success' });
     } catch (error) {
         console.error("Error updating outline draft:", error);
         const agentMessage: Message = { sender: 'agent', text: 'Sorry, I encountered an error.' };
         updateActiveFlow({ outlinerMessages: [...activeFlow.outlinerMessages, userMessage, agentMessage] });
-        setToast({ message: 'Failed to update outline draft.', type: 'error' });
+        setToast({ message: describeAgentError(error, 'Failed to update outline draft.'), type: 'error' });
     } finally {
         setAgentStatus(AgentStatus.Idle);
     }
@@ -314,34 +872,81 @@ const App: React.FC = () => {
       if (activeFlow) updateActiveFlow({ outlineDraft: newDraft });
   }, [activeFlow, updateActiveFlow]);
 
-  const handleFinalizeOutline = useCallback(async () => {
-    if (!activeFlow || !activeFlow.outlineDraft.trim()) return;
+  const outlineParseResult = useMemo(
+    () => (activeFlow?.outlineDraft.trim() ? parseMarkdownOutline(activeFlow.outlineDraft) : null),
+    [activeFlow?.outlineDraft]
+  );
+
+  const applyFinalizedOutline = useCallback((newOutline: OutlineItem[]) => {
+    updateActiveFlow({
+        outline: newOutline,
+        outlineDraft: '',
+        outlineProposal: undefined,
+        outlinerMessages: [{ sender: 'agent', text: "Outline finalized! Select a section to start writing." }]
+    });
+    setShowOutlineErrors(false);
+    setToast({ message: 'Outline finalized and loaded!', type: 'success' });
+  }, [updateActiveFlow]);
+
+  // Markdown lists and headings are parsed locally; the agent is only an explicit fallback.
+  const handleFinalizeOutline = useCallback(() => {
+    if (!outlineParseResult) return;
+    const { items, errors, isFreeForm } = outlineParseResult;
+    if (errors.length === 0 && items.length > 0) {
+        applyFinalizedOutline(items);
+        return;
+    }
+    setShowOutlineErrors(true);
+    setToast({
+        message: isFreeForm
+            ? 'The draft is not a Markdown outline. Fix it, or let the Outliner Agent structure it.'
+            : `The outline has ${errors.length} problem(s). Fix them, or let the Outliner Agent structure it.`,
+        type: 'error',
+    });
+  }, [outlineParseResult, applyFinalizedOutline]);
+
+  const handleFinalizeOutlineWithAgent = useCallback(async () => {
+    if (!activeProject || !activeFlow || !activeFlow.outlineDraft.trim()) return;
     setAgentStatus(AgentStatus.Thinking);
     setToast({ message: 'Finalizing outline...', type: 'success' });
 
     try {
-        const newOutline = await parseOutlineText(activeFlow.outlineDraft);
-        updateActiveFlow({
-            outline: newOutline,
-            outlineDraft: '',
-            outlinerMessages: [{ sender: 'agent', text: "Outline finalized! Select a section to start writing." }]
-        });
-        setToast({ message: 'Outline finalized and loaded!', type: 'success' });
+        const newOutline = await parseOutlineText(activeFlow.outlineDraft, { projectId: activeProject.id, flowId: activeFlow.id });
+        applyFinalizedOutline(newOutline);
     } catch (error) {
         console.error("Error finalizing outline:", error);
         setToast({ message: `Failed to finalize outline: ${error.message}`, type: 'error' });
     } finally {
         setAgentStatus(AgentStatus.Idle);
     }
-  }, [activeFlow, updateActiveFlow]);
+  }, [activeProject, activeFlow, applyFinalizedOutline]);
+
+  // Outline edits keep item ids, so contents and statuses follow the items they belong to.
+  const handleOutlineChange = useCallback((newOutline: OutlineItem[]) => {
+    updateActiveFlow({ outline: newOutline });
+  }, [updateActiveFlow]);
+
+  const handleDeleteSection = useCallback((id: string) => {
+    if (!activeFlow) return;
+    const item = findItem(activeFlow.outline, id);
+    if (!item) return;
+    const removedIds = collectItemIds(item);
+    updateActiveFlow(flow => ({
+        outline: removeItem(flow.outline, id),
+        contents: Object.fromEntries(Object.entries(flow.contents).filter(([sectionId]) => !removedIds.includes(sectionId))),
+    }));
+    if (activeSectionId && removedIds.includes(activeSectionId)) setActiveSectionId(null);
+    setToast({ message: `Deleted "${item.title}".`, type: 'success' });
+  }, [activeFlow, activeSectionId, updateActiveFlow]);
 
   const handleResearch = useCallback(async (query: string) => {
     if (!activeSectionId || !activeFlow || !activeProject) return;
     setResearchAgentStatus(AgentStatus.Thinking);
     
     try {
-        const researchPrompt = await createResearchAgentPrompt(query, activeFlow.coordinatorPrompt);
-        const results = await researchTopic(researchPrompt);
+        const scope = { projectId: activeProject.id, flowId: activeFlow.id, sectionId: activeSectionId };
+        const researchPrompt = await createResearchAgentPrompt(query, activeFlow.coordinatorPrompt, scope);
+        const results = await researchTopic(withStyleGuide(researchPrompt, activeFlow.styleGuide, 'research'), scope);
         const newContents = {
             ...activeFlow.contents,
             [activeSectionId]: { ...activeContent, research_results: results },
@@ -350,153 +955,565 @@ const App: React.FC = () => {
         setToast({ message: `Research complete for: ${query}`, type: 'success' });
     } catch (error) {
         console.error("Error researching topic:", error);
-        setToast({ message: 'Research failed.', type: 'error' });
+        setToast({ message: describeAgentError(error, 'Research failed.'), type: 'error' });
     } finally {
         setResearchAgentStatus(AgentStatus.Idle);
     }
   }, [activeSectionId, activeFlow, activeContent, updateActiveFlow, activeProject]);
 
+  const runWriterRequest = useCallback(async (request: WriterRequest, sendFullContext: boolean) => {
+    if (!activeProject || !activeFlow) return;
+    const { sectionId, prompt, instruction, priorMessages, retrievedChunks } = request;
+    const previousStatus = findItem(activeFlow.outline, sectionId)?.status || SectionStatus.Outline;
+    const components = sendFullContext ? request.inputs : request.plan.components;
+    const piecesOf = (id: ContextComponentId) => components.find(c => c.id === id)?.pieces || [];
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setAgentStatus(AgentStatus.Thinking);
+    setStreaming({ sectionId, text: '' });
+
+    const updatedOutline = updateItemStatus(activeFlow.outline, sectionId, SectionStatus.Writing);
+    updateActiveFlow({ outline: updatedOutline });
+
+    const fullContext = joinWriterContext(components);
+    const systemPromptForAgent = piecesOf('systemPrompt')[0]?.text;
+    // The stored conversation stays complete; only what is sent may be trimmed.
+    const sentMessages: Message[] = prompt
+        ? [...piecesOf('history').map(piece => ({ sender: piece.sender || 'user', text: piece.text })), { sender: 'user', text: prompt }]
+        : [];
+
+    const updateSection = (updates: Partial<SectionContent> | ((section: SectionContent) => Partial<SectionContent>)) => updateActiveFlow(flow => {
+        const section = flow.contents[sectionId] || activeContent;
+        return { contents: { ...flow.contents, [sectionId]: { ...section, ...(typeof updates === 'function' ? updates(section) : updates) } } };
+    });
+    const restoreStatus = () => updateActiveFlow(flow => ({ outline: updateItemStatus(flow.outline, sectionId, previousStatus) }));
+    updateSection(prompt ? { messages: priorMessages, retrievedChunks } : { retrievedChunks });
+
+    const streamOptions: StreamOptions = {
+        onText: text => setStreaming({ sectionId, text }),
+        signal: controller.signal,
+    };
+    const scope = { projectId: activeProject.id, flowId: activeFlow.id, sectionId };
+
+    try {
+        const responseText = prompt
+            ? await generateContent(sentMessages, fullContext, systemPromptForAgent, streamOptions, scope)
+            : await generateInitialDraft(instruction, fullContext, systemPromptForAgent, streamOptions, scope);
+        const wasStopped = controller.signal.aborted;
+
+        if (!responseText.trim()) {
+            // Nothing usable came back, so the section goes back to how it was.
+            restoreStatus();
+            setToast(wasStopped
+                ? { message: 'Generation stopped.', type: 'success' }
+                : { message: 'The agent returned an empty response.', type: 'error' });
+            return;
+        }
+
+        const agentMessage: Message = { sender: 'agent', text: wasStopped ? `${responseText}\n\n[Stopped by user]` : responseText };
+        // A follow-up answer revises the text the Writer last produced. Whatever changed since,
+        // by hand or through selection edits, is kept where the answer left it alone.
+        const current = latestProjectsRef.current.find(p => p.id === activeProject.id)?.flows.find(f => f.id === activeFlow.id)?.contents[sectionId];
+        const currentText = current?.content || '';
+        const base = prompt && current ? getLatestGeneration(current)?.content ?? currentText : currentText;
+        // The answer is not applied; it waits in the workspace as changes to accept or reject.
+        const proposal = createProposal(base, responseText, currentText, prompt || instruction);
+        updateSection(section => ({
+            proposal,
+            messages: [...priorMessages, agentMessage],
+            versions: appendVersion(checkpointManualEdits(section), createVersion('generation', responseText, prompt || instruction)),
+        }));
+        if (!proposal) {
+            setToast({ message: 'The Writer proposed no changes to the current text.', type: 'success' });
+        } else if (wasStopped) {
+            setToast({ message: 'Generation stopped. The partial text is ready for review.', type: 'success' });
+        }
+    } catch (error) {
+        console.error("Error generating content:", error);
+        setToast({ message: describeAgentError(error, prompt ? 'Failed to generate content.' : 'Failed to generate initial draft.'), type: 'error' });
+        const agentErrorMessage: Message = { sender: 'agent', text: `I'm sorry, I encountered an error: ${error.message}`};
+        updateSection({ messages: [...priorMessages, agentErrorMessage] });
+        restoreStatus();
+    } finally {
+        abortControllerRef.current = null;
+        setStreaming(null);
+        setAgentStatus(AgentStatus.Idle);
+    }
+  }, [activeProject, activeFlow, activeContent, updateActiveFlow]);
+
   const handleGenerate = useCallback(async (prompt: string | undefined, contextIds: string[]) => {
     if (!activeSectionId || !activeSection || !activeProject || !activeFlow) return;
     setAgentStatus(AgentStatus.Thinking);
-    
-    const updatedOutline = updateItemStatus(activeFlow.outline, activeSectionId, SectionStatus.Writing);
-    updateActiveFlow({ outline: updatedOutline });
+
+    // The outline or coordinator prompt may have changed since the section was selected.
+    let section = activeContent;
+    try {
+        section = { ...activeContent, systemPrompt: await resolveSectionPrompt(activeProject.id, activeFlow.id, activeSectionId) };
+    } catch (error) {
+        console.error("Failed to update the tailored prompt:", error);
+        setToast({ message: describeAgentError(error, 'Could not update the tailored prompt. Using the previous one.'), type: 'error' });
+    }
 
     // --- Centralized Context Assembly ---
-    const contextSections = contextIds.map(id => {
-      const item = findItem(activeFlow.outline, id);
-      const content = activeFlow.contents[id]?.content;
-      return item && content ? `--- REF: ${item.title} ---\n${content}` : null;
-    }).filter(Boolean).join('\n\n');
-
-    const researchContext = (activeContent.research_results || [])
-      .map(r => `--- RESEARCH RESULT: ${r.title} ---\nURL: ${r.url}\nSummary: ${r.summary}`)
-      .join('\n\n');
-
-    // Combine all context pieces into one string. CoordinatorPrompt is NOT included here.
-    const fullContext = [
-        activeProject.globalKnowledgeContext,
-        researchContext,
-        contextSections
-    ].filter(Boolean).join('\n\n');
-
-    const systemPromptForAgent = activeFlow.contents[activeSectionId]?.systemPrompt;
-
-    if (prompt) {
-        // --- BRANCH 1: Standard follow-up chat message ---
-        const userMessage: Message = { sender: 'user', text: prompt };
-        const newMessages = [...(activeContent.messages || []), userMessage];
-        let newContents = { ...activeFlow.contents, [activeSectionId]: { ...activeContent, messages: newMessages } };
-        updateActiveFlow({ contents: newContents });
+    const excludedSessionFileIds = activeContent.excludedSessionFileIds || [];
+    const includedSessionFiles = activeContent.sessionFiles.filter(file => !excludedSessionFileIds.includes(getFileId(file)));
+    const sessionExtractions = await Promise.all(includedSessionFiles.map(extractFileText));
 
-        try {
-            const responseText = await generateContent(newMessages, fullContext, systemPromptForAgent);
-            const agentMessage: Message = { sender: 'agent', text: responseText };
-            
-            newContents = {
-                ...activeFlow.contents,
-                [activeSectionId]: {
-                    ...(activeFlow.contents[activeSectionId] || activeContent),
-                    content: responseText, // Also update the main content with the latest response
-                    messages: [...newMessages, agentMessage],
-                },
-            };
-            updateActiveFlow({ contents: newContents });
-
-        } catch (error) {
-            console.error("Error generating content:", error);
-            setToast({ message: 'Failed to generate content.', type: 'error' });
-            const agentErrorMessage: Message = { sender: 'agent', text: `I'm sorry, I encountered an error: ${error.message}`};
-            newContents = { ...activeFlow.contents, [activeSectionId]: { ...(activeFlow.contents[activeSectionId] || activeContent), messages: [...newMessages, agentErrorMessage] } };
-            updateActiveFlow({ contents: newContents });
-        } finally {
-            setAgentStatus(AgentStatus.Idle);
+    const instruction = prompt || `Write the content for the section titled "${activeSection.title}".`;
+    const knowledgeIndex = await getKnowledgeIndex(activeProject);
+    const retrievedChunks = knowledgeIndex
+        ? await retrieveKnowledge(knowledgeIndex, `${activeSection.title}\n${instruction}`)
+        : undefined;
+
+    // Follow-up chat messages extend the history; "Generate Initial Draft" starts it.
+    const priorMessages: Message[] = prompt ? [...(activeContent.messages || []), { sender: 'user', text: prompt }] : [];
+    const inputs = assembleWriterInputs({ project: activeProject, flow: activeFlow, section, liveSourceIds }, {
+        instruction,
+        history: prompt ? activeContent.messages || [] : [],
+        contextIds,
+        sessionFiles: includedSessionFiles.map((file, i) => ({ file, text: sessionExtractions[i].text })),
+        retrievedChunks,
+    });
+    const request: WriterRequest = {
+        sectionId: activeSectionId,
+        prompt,
+        instruction,
+        priorMessages,
+        retrievedChunks,
+        inputs,
+        plan: planContextBudget(inputs, activeFlow.contextBudget),
+    };
+
+    // Nothing over budget is sent without the user choosing how.
+    if (request.plan.overBudget) {
+        setAgentStatus(AgentStatus.Idle);
+        setPendingWriterRequest(request);
+        return;
+    }
+    await runWriterRequest(request, false);
+  }, [activeSectionId, activeSection, activeProject, activeFlow, activeContent, liveSourceIds, resolveSectionPrompt, runWriterRequest]);
+
+  const handleResolveBudgetWarning = useCallback((choice: 'trimmed' | 'full' | 'cancel') => {
+    const request = pendingWriterRequest;
+    setPendingWriterRequest(null);
+    if (request && choice !== 'cancel') runWriterRequest(request, choice === 'full');
+  }, [pendingWriterRequest, runWriterRequest]);
+
+  // Reworks only the selected span; the rest of the section is sent as context and left as it is.
+  const handleEditSelection = useCallback(async (range: SelectionRange, instruction: string) => {
+    if (!activeProject || !activeFlow || !activeSectionId) return;
+    const sectionId = activeSectionId;
+    const original = activeContent.content.slice(range.start, range.end);
+    if (!original.trim() || !instruction.trim()) return;
+    const { before, after } = getSurroundingText(activeContent.content, range);
+    setAgentStatus(AgentStatus.Thinking);
+    try {
+        const replacement = await editSelection(before, original, after, instruction, buildWriterSystemPrompt(activeContent, activeFlow) || undefined,
+            { projectId: activeProject.id, flowId: activeFlow.id, sectionId });
+        if (!replacement.trim()) {
+            setToast({ message: 'The agent returned an empty response.', type: 'error' });
+            return;
         }
-    } else {
-        // --- BRANCH 2: "Generate Initial Draft" button click ---
-        try {
-            const initialDraftPrompt = `Write the content for the section titled "${activeSection.title}".`;
-            const responseText = await generateInitialDraft(initialDraftPrompt, fullContext, systemPromptForAgent);
-            
-            const agentMessage: Message = { sender: 'agent', text: responseText };
-            const newContents = {
-                ...activeFlow.contents,
-                [activeSectionId]: {
-                    ...(activeFlow.contents[activeSectionId] || activeContent),
-                    content: responseText,
-                    messages: [agentMessage], // This is the first and only message so far
-                },
-            };
-            updateActiveFlow({ contents: newContents });
-
-        } catch (error) {
-            console.error("Error generating initial draft:", error);
-            setToast({ message: 'Failed to generate initial draft.', type: 'error' });
-            const agentErrorMessage: Message = { sender: 'agent', text: `I'm sorry, I encountered an error: ${error.message}`};
-            const newContents = { ...activeFlow.contents, [activeSectionId]: { ...(activeFlow.contents[activeSectionId] || activeContent), messages: [agentErrorMessage] } };
-            updateActiveFlow({ contents: newContents });
-
-        } finally {
-            setAgentStatus(AgentStatus.Idle);
+        const current = latestProjectsRef.current.find(p => p.id === activeProject.id)?.flows.find(f => f.id === activeFlow.id)?.contents[sectionId];
+        const patched = current ? patchSelection(current.content, range, original, replacement) : null;
+        if (!current || patched === null) {
+            setToast({ message: 'The selected text changed while the agent was working. Select it again and retry.', type: 'error' });
+            return;
+        }
+        updateActiveFlow(flow => {
+            const section = flow.contents[sectionId] || current;
+            return { contents: { ...flow.contents, [sectionId]: {
+                ...section,
+                proposal: createProposal(current.content, patched, section.content, instruction),
+                versions: appendVersion(checkpointManualEdits(section), createVersion('edit', patched, instruction)),
+            } } };
+        });
+        setToast({ message: 'Selection edit proposed. Review it in the workspace.', type: 'success' });
+    } catch (error) {
+        console.error("Error editing selection:", error);
+        setToast({ message: describeAgentError(error, 'Failed to edit the selection.'), type: 'error' });
+    } finally {
+        setAgentStatus(AgentStatus.Idle);
+    }
+  }, [activeProject, activeFlow, activeSectionId, activeContent, updateActiveFlow]);
+
+  const handleReviewSection = useCallback(async () => {
+    if (!activeProject || !activeFlow || !activeSectionId || !activeSection || !activeContent.content.trim()) return;
+    const sectionId = activeSectionId;
+    const content = activeContent.content;
+    setReviewAgentStatus(AgentStatus.Thinking);
+    try {
+        const result = await reviewSection(
+            activeFlow.outline[0]?.title || 'Untitled Document',
+            formatOutlineForPrompt(activeFlow.outline),
+            activeSection.title,
+            activeFlow.coordinatorPrompt,
+            content,
+            activeFlow.reviewRubric || DEFAULT_REVIEW_RUBRIC,
+            { projectId: activeProject.id, flowId: activeFlow.id, sectionId }
+        );
+        const review: SectionReview = { ...result, id: `review${Date.now()}`, createdAt: Date.now(), content };
+        updateActiveFlow(flow => flow.contents[sectionId]
+            ? { contents: { ...flow.contents, [sectionId]: { ...flow.contents[sectionId], review } } }
+            : {});
+        setToast({ message: 'Review complete.', type: 'success' });
+    } catch (error) {
+        console.error("Error reviewing section:", error);
+        setToast({ message: describeAgentError(error, 'Review failed.'), type: 'error' });
+    } finally {
+        setReviewAgentStatus(AgentStatus.Idle);
+    }
+  }, [activeProject, activeFlow, activeSectionId, activeSection, activeContent, updateActiveFlow]);
+
+  // The chosen comments and the weaker scores go to the Writer as a follow-up instruction.
+  const handleSendReviewFeedback = useCallback((comments: ReviewComment[]) => {
+    if (!activeFlow || !activeContent.review) return;
+    handleGenerate(formatReviewFeedback(activeContent.review, activeFlow.reviewRubric || DEFAULT_REVIEW_RUBRIC, comments), activeContent.contextIds);
+  }, [activeFlow, activeContent, handleGenerate]);
+
+  const handleReviewRubricChange = useCallback((reviewRubric: RubricCriterion[]) => {
+    updateActiveFlow({ reviewRubric });
+  }, [updateActiveFlow]);
+
+  // Outside a section, the proposal under review is the Outliner's change to the outline draft.
+  const handleAcceptProposal = useCallback((hunks?: number[]) => {
+    if (!activeFlow) return;
+    if (!activeSectionId) {
+      if (!activeFlow.outlineProposal) return;
+      const { text, proposal } = acceptHunks(activeFlow.outlineDraft, activeFlow.outlineProposal, hunks);
+      updateActiveFlow({ outlineDraft: text, outlineProposal: proposal });
+      return;
+    }
+    if (!activeContent.proposal) return;
+    const { text, proposal } = acceptHunks(activeContent.content, activeContent.proposal, hunks);
+    updateActiveFlow({ contents: { ...activeFlow.contents, [activeSectionId]: { ...activeContent, content: text, proposal } } });
+    if (!proposal) setToast({ message: 'Changes applied.', type: 'success' });
+  }, [activeFlow, activeSectionId, activeContent, updateActiveFlow]);
+
+  const handleRejectProposal = useCallback((hunks?: number[]) => {
+    if (!activeFlow) return;
+    if (!activeSectionId) {
+      if (activeFlow.outlineProposal) updateActiveFlow({ outlineProposal: rejectHunks(activeFlow.outlineProposal, hunks) });
+      return;
+    }
+    if (!activeContent.proposal) return;
+    updateActiveFlow({ contents: { ...activeFlow.contents, [activeSectionId]: { ...activeContent, proposal: rejectHunks(activeContent.proposal, hunks) } } });
+  }, [activeFlow, activeSectionId, activeContent, updateActiveFlow]);
+
+  // Local checks always run; the agent's check of figures and claims is added when it succeeds.
+  const handleCheckConsistency = useCallback(async () => {
+    if (!activeProject || !activeFlow) return;
+    const sections = getCompletedSections(activeFlow);
+    if (sections.length === 0) {
+      setToast({ message: 'Complete some sections first. Only completed sections are checked.', type: 'error' });
+      return;
+    }
+    const projectId = activeProject.id;
+    const flowId = activeFlow.id;
+    const findings = runLocalConsistencyChecks(sections, activeFlow.outline);
+    setConsistencyStatus(AgentStatus.Thinking);
+    try {
+        findings.push(...await checkConsistency(
+            activeFlow.outline[0]?.title || 'Untitled Document',
+            activeFlow.coordinatorPrompt,
+            formatSectionsForConsistency(sections),
+            sections,
+            { projectId, flowId }
+        ));
+        setToast({ message: `Consistency check complete: ${findings.length} finding${findings.length === 1 ? '' : 's'}.`, type: 'success' });
+    } catch (error) {
+        console.error("Error checking consistency:", error);
+        setToast({ message: describeAgentError(error, 'The agent check failed. Showing the local checks only.'), type: 'error' });
+    } finally {
+        setConsistencyStatus(AgentStatus.Idle);
+    }
+    updateFlow(projectId, flowId, { consistencyReport: {
+        createdAt: Date.now(),
+        sectionIds: sections.map(s => s.id),
+        findings: findings.filter((finding, i) => findings.findIndex(f => f.id === finding.id) === i),
+    } });
+  }, [activeProject, activeFlow, updateFlow]);
+
+  const handleDismissFinding = useCallback((findingId: string) => {
+    updateActiveFlow(flow => flow.consistencyReport
+        ? { consistencyReport: { ...flow.consistencyReport, findings: flow.consistencyReport.findings.filter(f => f.id !== findingId) } }
+        : {});
+  }, [updateActiveFlow]);
+
+  const handleGoToFinding = useCallback((finding: ConsistencyFinding) => {
+    const range = locateFinding(finding, activeFlow?.contents[finding.sectionId]?.content || '');
+    if (!range) return;
+    if (finding.sectionId !== activeSectionId) handleSelectSection(finding.sectionId);
+    setFocusRange({ ...range, requestId: Date.now() });
+    setIsConsistencyOpen(false);
+  }, [activeFlow, activeSectionId, handleSelectSection]);
+
+  // The fix arrives as a proposal in the section, like any other Writer follow-up.
+  const handleFixFinding = useCallback((finding: ConsistencyFinding) => {
+    if (finding.sectionId !== activeSectionId) handleSelectSection(finding.sectionId);
+    setPendingFix({ sectionId: finding.sectionId, prompt: finding.fix });
+    handleDismissFinding(finding.id);
+    setIsConsistencyOpen(false);
+  }, [activeSectionId, handleSelectSection, handleDismissFinding]);
+
+  useEffect(() => {
+    if (!pendingFix || pendingFix.sectionId !== activeSectionId || agentStatus !== AgentStatus.Idle || !activeContent.systemPrompt) return;
+    setPendingFix(null);
+    handleGenerate(pendingFix.prompt, activeContent.contextIds);
+  }, [pendingFix, activeSectionId, agentStatus, activeContent, handleGenerate]);
+
+  const handleStopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Drafts one section of a "Draft entire document" run. Everything is read from the latest
+  // state, since the run outlives this render and the user may keep working meanwhile.
+  const draftSectionInRun = useCallback(async (projectId: string, flowId: string, sectionId: string, task: DraftTaskContext) => {
+    const getLatest = () => {
+        const project = latestProjectsRef.current.find(p => p.id === projectId);
+        const flow = project?.flows.find(f => f.id === flowId);
+        const item = flow && findItem(flow.outline, sectionId);
+        if (!project || !flow || !item) throw new Error('The section no longer exists.');
+        const section = flow.contents[sectionId] || { content: '', messages: [], sessionFiles: [], contextIds: [], research_results: [] };
+        return { project, flow, item, section };
+    };
+    const updateSection = (updates: (section: SectionContent) => Partial<SectionContent>) => updateFlow(projectId, flowId, flow => {
+        const section = flow.contents[sectionId] || { content: '', messages: [], sessionFiles: [], contextIds: [], research_results: [] };
+        return { contents: { ...flow.contents, [sectionId]: { ...section, ...updates(section) } } };
+    });
+    const scope = { projectId, flowId, sectionId };
+
+    // A prompt written for an earlier outline or coordinator prompt is replaced first.
+    const systemPrompt = await resolveSectionPrompt(projectId, flowId, sectionId);
+    if (task.signal.aborted) return;
+    task.setState('drafting');
+
+    // Read again, so sections finished while the prompt was crafted are included.
+    const { project, flow, item, section } = getLatest();
+    const orderedIds = flow.outline.flatMap(collectItemIds);
+    const previousIds = orderedIds.slice(0, orderedIds.indexOf(sectionId)).filter(id => flow.contents[id]?.content.trim());
+    const excludedSessionFileIds = section.excludedSessionFileIds || [];
+    const includedSessionFiles = section.sessionFiles.filter(file => !excludedSessionFileIds.includes(getFileId(file)));
+    const sessionExtractions = await Promise.all(includedSessionFiles.map(extractFileText));
+    const knowledgeIndex = await getKnowledgeIndex(project);
+    const retrievedChunks = knowledgeIndex
+        ? await retrieveKnowledge(knowledgeIndex, `${item.title}\nWrite the content for the section titled "${item.title}".`)
+        : undefined;
+    const instruction = previousIds.length > 0
+        ? `Write the content for the section titled "${item.title}". The sections written so far are provided as references: stay consistent with them and do not repeat what they cover.`
+        : `Write the content for the section titled "${item.title}".`;
+    const inputs = assembleWriterInputs({
+        project,
+        flow,
+        section: { ...section, systemPrompt },
+        liveSourceIds: getLiveSourceIds(collectCitableSources(flow, project.globalKnowledgeFiles)),
+    }, {
+        instruction,
+        history: [],
+        contextIds: previousIds,
+        sessionFiles: includedSessionFiles.map((file, i) => ({ file, text: sessionExtractions[i].text })),
+        retrievedChunks,
+    });
+    // Nobody is asked mid-run, so an over-budget request is sent trimmed.
+    const plan = planContextBudget(inputs, flow.contextBudget);
+    if (task.signal.aborted) return;
+
+    const restoreStatus = () => updateFlow(projectId, flowId, f => ({ outline: updateItemStatus(f.outline, sectionId, item.status) }));
+    updateFlow(projectId, flowId, f => ({ outline: updateItemStatus(f.outline, sectionId, SectionStatus.Writing) }));
+    try {
+        const responseText = await generateInitialDraft(
+            instruction,
+            joinWriterContext(plan.components),
+            getKeptPieces(plan, 'systemPrompt')[0]?.text,
+            { signal: task.signal },
+            scope
+        );
+        // A skipped or stopped section keeps nothing of what was streamed.
+        if (task.signal.aborted) {
+            restoreStatus();
+            return;
         }
+        if (!responseText.trim()) throw new Error('The agent returned an empty response.');
+        // Only empty sections are drafted, so there is nothing to review the text against.
+        updateSection(current => ({
+            content: responseText,
+            messages: [{ sender: 'agent', text: responseText }],
+            retrievedChunks,
+            versions: appendVersion(checkpointManualEdits(current), createVersion('generation', responseText, instruction)),
+        }));
+    } catch (error) {
+        restoreStatus();
+        throw error;
     }
-  }, [activeSectionId, activeSection, activeProject, activeFlow, activeContent, updateActiveFlow]);
+  }, [resolveSectionPrompt, updateFlow]);
+
+  // Drafts every section without content, in outline order.
+  const handleStartDraftRun = useCallback(() => {
+    if (!activeProject || !activeFlow) return;
+    if (draftRun && isDraftRunActive(draftRun.progress)) {
+        setToast({ message: 'A drafting run is already in progress.', type: 'error' });
+        return;
+    }
+    const sections = activeFlow.outline.flatMap(collectItemIds)
+        .filter(id => !activeFlow.contents[id]?.content.trim())
+        .map(id => ({ id, title: findItem(activeFlow.outline, id)?.title || '' }));
+    if (sections.length === 0) {
+        setToast({ message: 'Every section already has content.', type: 'success' });
+        return;
+    }
+    const projectId = activeProject.id;
+    const flowId = activeFlow.id;
+    draftRunRef.current = startDraftRun(sections, {
+        draftSection: (sectionId, task) => draftSectionInRun(projectId, flowId, sectionId, task),
+        isRetryable: error => !(error instanceof UsageLimitError),
+        onProgress: progress => {
+            setDraftRun({ projectId, flowId, progress });
+            if (progress.status === 'finished') {
+                const failed = progress.tasks.filter(task => task.state === 'failed').length;
+                setToast(failed > 0
+                    ? { message: `Drafting finished. ${failed} section(s) failed.`, type: 'error' }
+                    : { message: 'Drafting finished.', type: 'success' });
+            }
+        },
+    });
+  }, [activeProject, activeFlow, draftRun, draftSectionInRun]);
+
+  const handleDraftRunControl = useCallback((action: DraftRunControl) => {
+    const run = draftRunRef.current;
+    if (action === 'dismiss') {
+        draftRunRef.current = null;
+        setDraftRun(null);
+        return;
+    }
+    if (run) run[action]();
+  }, []);
+
+  const handleSkipDraftSection = useCallback((sectionId: string) => {
+    draftRunRef.current?.skip(sectionId);
+  }, []);
 
   const handleCommit = useCallback(() => {
     if (activeSectionId && activeFlow) {
       const newOutline = updateItemStatus(activeFlow.outline, activeSectionId, SectionStatus.Completed);
-      updateActiveFlow({ outline: newOutline });
+      const latest = getLatestVersion(activeContent);
+      const alreadyCommitted = latest?.kind === 'commit' && latest.content === activeContent.content;
+      const newContents = {
+          ...activeFlow.contents,
+          [activeSectionId]: {
+              ...activeContent,
+              versions: alreadyCommitted ? activeContent.versions : appendVersion(activeContent.versions, createVersion('commit', activeContent.content)),
+          },
+      };
+      updateActiveFlow({ outline: newOutline, contents: newContents });
       setToast({ message: 'Content committed successfully!', type: 'success' });
     }
-  }, [activeSectionId, activeFlow, updateActiveFlow]);
+  }, [activeSectionId, activeFlow, activeContent, updateActiveFlow]);
 
-  const handleExportDocument = useCallback(() => {
-    if (!activeProject || !activeFlow) return;
+  const handleSaveCheckpoint = useCallback(() => {
+    if (!activeFlow || !activeSectionId) return;
+    if (!hasUnsavedEdits(activeContent)) {
+      setToast({ message: 'No changes since the last version.', type: 'success' });
+      return;
+    }
+    const newContents = {
+        ...activeFlow.contents,
+        [activeSectionId]: { ...activeContent, versions: checkpointManualEdits(activeContent) },
+    };
+    updateActiveFlow({ contents: newContents });
+    setToast({ message: 'Checkpoint saved.', type: 'success' });
+  }, [activeFlow, activeSectionId, activeContent, updateActiveFlow]);
 
-    const buildMarkdown = (items: OutlineItem[]): string => {
-      let markdown = '';
-      for (const item of items) {
-        if (item.status === SectionStatus.Completed && activeFlow.contents[item.id]?.content) {
-          markdown += `${'#'.repeat(item.level + 1)} ${item.title}\n\n`;
-          markdown += `${activeFlow.contents[item.id].content}\n\n`;
-        }
-        if (item.children.length > 0) {
-          markdown += buildMarkdown(item.children);
-        }
-      }
-      return markdown;
+  const handleRestoreVersion = useCallback((versionId: string) => {
+    const version = activeContent.versions?.find(v => v.id === versionId);
+    if (!activeFlow || !activeSectionId || !version) return;
+    const newContents = {
+        ...activeFlow.contents,
+        [activeSectionId]: { ...activeContent, content: version.content, versions: checkpointManualEdits(activeContent) },
     };
+    updateActiveFlow({ contents: newContents });
+    setToast({ message: `Restored the version from ${new Date(version.createdAt).toLocaleString()}.`, type: 'success' });
+  }, [activeFlow, activeSectionId, activeContent, updateActiveFlow]);
+
+  const handleCitationStyleChange = useCallback((citationStyle: CitationStyle) => {
+    updateActiveFlow({ citationStyle });
+  }, [updateActiveFlow]);
 
-    const markdownContent = buildMarkdown(activeFlow.outline);
-    if (!markdownContent.trim()) {
-        setToast({ message: 'No completed content to export.', type: 'error' });
+  const handleUpdateBibliographyEntry = useCallback((key: string, updates: BibliographyEntryUpdate) => {
+    updateActiveFlow(flow => ({
+        bibliography: (flow.bibliography || []).map(entry => (entry.key === key ? { ...entry, ...updates } : entry)),
+    }));
+  }, [updateActiveFlow]);
+
+  const handleRenameCitationKey = useCallback((oldKey: string, newKey: string) => {
+    if (!activeFlow) return;
+    if (!isValidCitationKey(newKey)) {
+        setToast({ message: 'Citation keys may only contain letters, digits and - _ : .', type: 'error' });
         return;
     }
-    const blob = new Blob([markdownContent], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${activeProject.name.replace(/\s+/g, '_')}-${activeFlow.name.replace(/\s+/g, '_')}.md`;
-    a.click();
-    URL.revokeObjectURL(url);
-    setToast({ message: 'Document exported!', type: 'success' });
-  }, [activeProject, activeFlow]);
+    if ((activeFlow.bibliography || []).some(entry => entry.key === newKey)) {
+        setToast({ message: `The key "${newKey}" is already in use.`, type: 'error' });
+        return;
+    }
+    updateActiveFlow(renameCitationKey(activeFlow, oldKey, newKey));
+    setToast({ message: `Renamed @${oldKey} to @${newKey} and updated its citations.`, type: 'success' });
+  }, [activeFlow, updateActiveFlow]);
+
+  const handleRemoveBibliographyEntry = useCallback((key: string) => {
+    updateActiveFlow(flow => ({ bibliography: (flow.bibliography || []).filter(entry => entry.key !== key) }));
+  }, [updateActiveFlow]);
+
+  const handleExportDocument = useCallback(async () => {
+    if (!activeProject || !activeFlow) return;
+
+    const format = getExportFormat(exportFormatId);
+    const exportDocument = buildExportDocument(activeFlow, activeProject, exportSource);
+    if (format.content === 'bibliography' ? exportDocument.bibliography.length === 0 : exportDocument.sections.length === 0) {
+        setToast({
+            message: format.content === 'bibliography' ? 'The bibliography is empty.' : exportSource === 'committed' ? 'No committed content to export.' : 'No content to export.',
+            type: 'error',
+        });
+        return;
+    }
+    // Unresolved citations are exported as written; the author is told which ones to fix.
+    const unresolvedWarning = format.content !== 'bibliography' && exportDocument.unresolvedCitations.length > 0
+        ? ` ${exportDocument.unresolvedCitations.length} citation(s) could not be resolved: ${exportDocument.unresolvedCitations.map(c => `@${c.key}`).join(', ')}.`
+        : '';
+    try {
+        const blob = await format.render(exportDocument);
+        if (format.action === 'print') {
+            printHtml(await blob.text());
+            setToast({ message: `Choose "Save as PDF" in the print dialog.${unresolvedWarning}`, type: unresolvedWarning ? 'error' : 'success' });
+        } else {
+            downloadBlob(blob, `${toFileSlug(activeProject.name)}-${toFileSlug(activeFlow.name)}.${format.extension}`);
+            setToast({ message: `Document exported!${unresolvedWarning}`, type: unresolvedWarning ? 'error' : 'success' });
+        }
+    } catch (error) {
+        console.error("Error exporting document:", error);
+        setToast({ message: 'Failed to export document.', type: 'error' });
+    }
+  }, [activeProject, activeFlow, exportSource, exportFormatId]);
 
   const isExportDisabled = useMemo(() => {
     if (!activeFlow) return true;
-    const hasCompleted = (items: OutlineItem[]): boolean => {
-        return items.some(item => item.status === SectionStatus.Completed || hasCompleted(item.children));
+    if (getExportFormat(exportFormatId).content === 'bibliography') {
+        return !(activeFlow.bibliography || []).some(entry => liveSourceIds.has(entry.sourceId));
     }
-    return !hasCompleted(activeFlow.outline);
-  }, [activeFlow]);
+    const hasExportable = (items: OutlineItem[]): boolean => {
+        return items.some(item => !!getExportContent(item, activeFlow.contents[item.id], exportSource) || hasExportable(item.children));
+    }
+    return !hasExportable(activeFlow.outline);
+  }, [activeFlow, exportSource, exportFormatId, liveSourceIds]);
 
   const outlinerAgentContext = useMemo((): ContextData | null => {
     if (!activeProject || !activeFlow) return null;
     return {
       coordinatorPrompt: activeFlow.coordinatorPrompt,
       globalKnowledge: activeProject.globalKnowledgeFiles.map(f => f.name),
-      systemPrompt: "[This will be dynamically generated by the Coordinator Agent based on the Flow Coordinator Prompt before each command is run.]",
+      systemPrompt: withStyleGuide(
+        getCachedPrompt(activeFlow.promptCache, getOutlinerPromptKey(activeFlow.coordinatorPrompt))
+          ?? "[This will be generated by the Coordinator Agent from the Flow Coordinator Prompt on the next command, and reused until that prompt changes.]",
+        activeFlow.styleGuide, 'outliner'
+      ),
       documentOutline: activeFlow.outlineDraft || "(The outline draft is empty. Provide a topic to begin.)",
       sessionKnowledge: [], 
       selectedReferences: [],
@@ -521,31 +1538,125 @@ const App: React.FC = () => {
         const content = activeFlow.contents[id]?.content;
         return (item && content) ? { title: item.title, content } : null;
       })
-      .filter((ref): ref is { title: string; content: string } => ref !== null);
+      .filter((ref): ref is { title: string; content: string } => ref !== null)
+      .concat((activeContent.crossFlowRefs || []).map(ref => ({ title: `${ref.sectionTitle} (${ref.flowName})`, content: ref.content })));
 
     return {
       globalKnowledge: activeProject.globalKnowledgeFiles.map(f => f.name),
-      systemPrompt: activeContent.systemPrompt || "Generating tailored prompt...",
+      systemPrompt: buildWriterSystemPrompt(activeContent, activeFlow, "Generating tailored prompt..."),
       documentOutline: formatOutlineForDisplay(activeFlow.outline),
-      sessionKnowledge: activeContent.sessionFiles.map(file => file.name),
+      sessionKnowledge: activeContent.sessionFiles
+        .filter(file => !(activeContent.excludedSessionFileIds || []).includes(getFileId(file)))
+        .map(file => file.name),
       selectedReferences,
       researchContext: activeContent.research_results,
+      retrievedKnowledge: activeContent.retrievedChunks,
     };
   }, [activeSectionId, activeSection, activeProject, activeFlow, activeContent]);
 
+  // An estimate of the next Writer request, using the last retrieval and the extracted session files.
+  const contextBudgetPlan = useMemo((): ContextBudgetPlan | null => {
+    if (!activeSection || !activeProject || !activeFlow) return null;
+    const excludedSessionFileIds = activeContent.excludedSessionFileIds || [];
+    const inputs = assembleWriterInputs({ project: activeProject, flow: activeFlow, section: activeContent, liveSourceIds }, {
+        instruction: `Write the content for the section titled "${activeSection.title}".`,
+        history: activeContent.messages || [],
+        contextIds: activeContent.contextIds,
+        sessionFiles: activeContent.sessionFiles
+            .filter(file => !excludedSessionFileIds.includes(getFileId(file)))
+            .map(file => ({ file, text: fileExtractions[getFileId(file)]?.text || '' })),
+        retrievedChunks: activeContent.retrievedChunks ?? (activeProject.knowledgeIndex ? [] : undefined),
+    });
+    return planContextBudget(inputs, activeFlow.contextBudget);
+  }, [activeSection, activeFlow, activeProject, activeContent, fileExtractions, liveSourceIds]);
+
+  // Whether the shown system prompt was written from the current coordinator prompt, outline and title.
+  const systemPromptState = useMemo((): 'current' | 'stale' | 'missing' => {
+    if (!activeFlow) return 'missing';
+    if (!activeSection) return getCachedPrompt(activeFlow.promptCache, getOutlinerPromptKey(activeFlow.coordinatorPrompt)) === undefined ? 'missing' : 'current';
+    if (!activeContent.systemPrompt) return 'missing';
+    return activeContent.systemPromptKey === getWriterPromptKey(getWriterPromptInputs(activeFlow, activeSection)) ? 'current' : 'stale';
+  }, [activeFlow, activeSection, activeContent]);
+
+  const referenceableFlows = useMemo(
+    () => (activeProject && activeFlow ? listReferenceableFlows(activeProject, activeFlow.id) : []),
+    [activeProject, activeFlow]
+  );
+
+  const crossFlowReferences = useMemo(
+    () => (activeProject ? (activeContent.crossFlowRefs || []).map(ref => ({ ref, state: getReferenceState(ref, activeProject) })) : []),
+    [activeProject, activeContent]
+  );
+
+  const handleStyleGuideChange = useCallback((styleGuide: StyleGuide) => {
+    updateActiveFlow({ styleGuide });
+  }, [updateActiveFlow]);
+
+  const handleContextBudgetChange = useCallback((contextBudget: ContextBudgetSettings) => {
+    updateActiveFlow({ contextBudget });
+  }, [updateActiveFlow]);
+
+  const overlays = (
+    <>
+      {pendingImport && (
+        <ImportConflictDialog
+          importedName={pendingImport.name}
+          existingName={projects.find(p => p.id === pendingImport.id)?.name || ''}
+          onRename={() => handleResolveImportConflict('rename')}
+          onMerge={() => handleResolveImportConflict('merge')}
+          onCancel={() => handleResolveImportConflict('cancel')}
+        />
+      )}
+      {pendingWriterRequest && (
+        <ContextBudgetDialog
+          plan={pendingWriterRequest.plan}
+          onSendTrimmed={() => handleResolveBudgetWarning('trimmed')}
+          onSendFull={() => handleResolveBudgetWarning('full')}
+          onCancel={() => handleResolveBudgetWarning('cancel')}
+        />
+      )}
+      {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />}
+    </>
+  );
+
   if (view === 'projectList' || !activeProject) {
-    return <ProjectList projects={projects} onCreateProject={handleCreateProject} onSelectProject={handleSelectProject} />;
+    return (
+      <>
+        <ProjectList
+          projects={projects}
+          isLoading={!isHydrated && !loadFailed}
+          onCreateProject={handleCreateProject}
+          onSelectProject={handleSelectProject}
+          onExportProject={handleExportProject}
+          onImportProject={handleImportProject}
+        />
+        {overlays}
+      </>
+    );
   }
   
   if (view === 'projectDashboard') {
     return (
-      <ProjectDashboard
-        project={activeProject}
-        onGlobalFilesChange={handleGlobalFilesChange}
-        onSelectFlow={handleSelectFlow}
-        onCreateFlow={handleCreateFlow}
-        onBack={handleBackToProjectList}
-      />
+      <>
+        <ProjectDashboard
+          project={activeProject}
+          globalFileExtractions={activeProject.globalKnowledgeFiles.map(file => fileExtractions[getFileId(file)])}
+          onGlobalFilesChange={handleGlobalFilesChange}
+          onSelectFlow={handleSelectFlow}
+          onCreateFlow={handleCreateFlow}
+          templates={[...BUILT_IN_TEMPLATES, ...userTemplates]}
+          onSaveFlowAsTemplate={handleSaveFlowAsTemplate}
+          onDeleteTemplate={handleDeleteTemplate}
+          onDuplicateFlow={handleDuplicateFlow}
+          onCherryPickSection={handleCherryPickSection}
+          onBack={handleBackToProjectList}
+          onExportProject={() => handleExportProject(activeProject.id)}
+          onImportBundle={handleImportIntoActiveProject}
+          onUsageBudgetChange={(usageBudget) => updateProject(activeProject.id, { usageBudget })}
+          onExportUsageCsv={() => handleExportUsage(activeProject.id)}
+        />
+        {overlays}
+      </>
     );
   }
 
@@ -560,18 +1671,44 @@ const App: React.FC = () => {
               onDeselect={handleDeselect}
               onExport={handleExportDocument}
               isExportDisabled={isExportDisabled}
+              exportSource={exportSource}
+              onExportSourceChange={setExportSource}
+              exportFormatId={exportFormatId}
+              onExportFormatChange={setExportFormatId}
               onBackToDashboard={handleBackToDashboard}
+              onOutlineChange={handleOutlineChange}
+              onDeleteSection={handleDeleteSection}
+              draftRun={draftRun?.projectId === activeProject?.id && draftRun?.flowId === activeFlow.id ? draftRun.progress : null}
+              onStartDraftRun={handleStartDraftRun}
+              onDraftRunControl={handleDraftRunControl}
+              onSkipDraftSection={handleSkipDraftSection}
+              consistencyFindingCount={activeFlow.consistencyReport?.findings.length}
+              onOpenConsistency={() => setIsConsistencyOpen(true)}
           />
         </div>
         <div className="flex-grow h-full">
           <Workspace 
             activeSection={activeSection} 
-            content={activeContent.content} 
+            content={activeStreamingText ?? activeContent.content} 
+            isStreaming={activeStreamingText !== null}
             onContentChange={handleContentChange} 
             onCommit={handleCommit} 
+            versions={activeContent.versions || []}
+            onSaveCheckpoint={handleSaveCheckpoint}
+            onRestoreVersion={handleRestoreVersion}
+            onEditSelection={handleEditSelection}
+            unresolvedCitations={unresolvedCitations}
+            styleIssues={styleIssues}
+            proposal={activeSection ? activeContent.proposal : activeFlow.outlineProposal}
+            onAcceptProposal={handleAcceptProposal}
+            onRejectProposal={handleRejectProposal}
             outlineDraft={activeFlow.outlineDraft}
             onOutlineDraftChange={handleOutlineDraftChange}
             onFinalizeOutline={handleFinalizeOutline}
+            onFinalizeOutlineWithAgent={handleFinalizeOutlineWithAgent}
+            outlineErrors={showOutlineErrors ? outlineParseResult?.errors || [] : []}
+            isAgentBusy={agentStatus === AgentStatus.Thinking}
+            focusRange={focusRange}
           />
         </div>
         <div className="w-1/3 max-w-md flex-shrink-0 h-full">
@@ -580,23 +1717,72 @@ const App: React.FC = () => {
             messages={activeContent.messages} 
             agentStatus={agentStatus}
             onGenerate={handleGenerate}
+            streamingText={activeStreamingText}
+            onStopGeneration={handleStopGeneration}
             outline={activeFlow.outline}
             contextIds={activeContent.contextIds}
             onContextChange={handleContextChange}
+            referenceableFlows={referenceableFlows}
+            crossFlowReferences={crossFlowReferences}
+            onCrossFlowReferenceChange={handleCrossFlowReferenceChange}
+            onRefreshCrossFlowReference={handleRefreshCrossFlowReference}
+            systemPromptState={systemPromptState}
+            onRegenerateSystemPrompt={handleRegenerateSystemPrompt}
             sessionFiles={activeContent.sessionFiles}
+            sessionFileStates={activeContent.sessionFiles.map(file => ({
+                included: !(activeContent.excludedSessionFileIds || []).includes(getFileId(file)),
+                extraction: fileExtractions[getFileId(file)],
+            }))}
             onFilesChange={handleFilesChange}
+            onToggleSessionFile={handleToggleSessionFile}
+            onRemoveSessionFile={handleRemoveSessionFile}
             outlinerMessages={activeFlow.outlinerMessages}
             onOutlineCommand={handleOutlineCommand}
             researchAgentStatus={researchAgentStatus}
             onResearch={handleResearch}
+            review={activeContent.review}
+            currentContent={activeContent.content}
+            reviewRubric={activeFlow.reviewRubric || DEFAULT_REVIEW_RUBRIC}
+            reviewAgentStatus={reviewAgentStatus}
+            onReview={handleReviewSection}
+            onSendReviewFeedback={handleSendReviewFeedback}
+            onReviewRubricChange={handleReviewRubricChange}
             researchResults={activeContent.research_results || []}
+            bibliography={activeFlow.bibliography || []}
+            liveSourceIds={liveSourceIds}
+            citationStyle={activeFlow.citationStyle || 'apa'}
+            onCitationStyleChange={handleCitationStyleChange}
+            onUpdateBibliographyEntry={handleUpdateBibliographyEntry}
+            onRenameCitationKey={handleRenameCitationKey}
+            onRemoveBibliographyEntry={handleRemoveBibliographyEntry}
             fullAgentContext={fullAgentContext}
+            contextBudgetPlan={contextBudgetPlan}
+            contextBudgetSettings={activeFlow.contextBudget || DEFAULT_CONTEXT_BUDGET}
+            onContextBudgetChange={handleContextBudgetChange}
             outlinerAgentContext={outlinerAgentContext}
             flowCoordinatorPrompt={activeFlow.coordinatorPrompt}
             onFlowCoordinatorPromptChange={handleFlowCoordinatorPromptChange}
+            styleGuide={activeFlow.styleGuide}
+            sectionGuidance={activeContent.guidance || ''}
+            onSectionGuidanceChange={handleSectionGuidanceChange}
+            onStyleGuideChange={handleStyleGuideChange}
           />
         </div>
-        {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />}
+        {isConsistencyOpen && (
+          <ConsistencyDialog
+            report={activeFlow.consistencyReport}
+            outline={activeFlow.outline}
+            contents={activeFlow.contents}
+            isChecking={consistencyStatus === AgentStatus.Thinking}
+            isAgentBusy={agentStatus === AgentStatus.Thinking || activeStreamingText !== null}
+            onCheck={handleCheckConsistency}
+            onGoTo={handleGoToFinding}
+            onFix={handleFixFinding}
+            onDismiss={handleDismissFinding}
+            onClose={() => setIsConsistencyOpen(false)}
+          />
+        )}
+        {overlays}
       </div>
     );
   }
@@ -1,13 +1,25 @@
 import React, { useState, useRef, useCallback } from 'react';
-import type { Message, OutlineItem, ResearchResult, ContextData } from '../types';
+import type { Message, OutlineItem, ResearchResult, ContextData, FileExtraction, BibliographyEntry, CitationStyle, ContextBudgetSettings, SectionReview, ReviewComment, RubricCriterion, StyleGuide, CrossFlowReference, CrossFlowReferenceState } from '../types';
 import { AgentStatus } from '../types';
-import { SendIcon, UploadCloudIcon, CheckSquareIcon, LoaderIcon, SearchIcon, FileTextIcon, PlayIcon, BracketsIcon } from './icons';
+import { SendIcon, UploadCloudIcon, CheckSquareIcon, LoaderIcon, SearchIcon, FileTextIcon, PlayIcon, BracketsIcon, StopIcon, XIcon } from './icons';
+import ExtractionBadge from './ExtractionBadge';
+import BibliographyPanel, { type BibliographyEntryUpdate } from './BibliographyPanel';
+import ContextBudgetPanel from './ContextBudgetPanel';
+import ReviewPanel from './ReviewPanel';
+import StyleGuidePanel from './StyleGuidePanel';
+import CrossFlowReferencePicker from './CrossFlowReferencePicker';
+import type { ReferenceableFlow } from '../services/referenceService';
+import { findEntryForSource } from '../services/citationService';
+import type { ContextBudgetPlan } from '../services/contextBudgetService';
+import { getFileId } from '../services/storageService';
 
 interface AgentInteractionPaneProps {
   activeSection: OutlineItem | null;
   // Writer Agent props
   messages: Message[];
   onGenerate: (prompt: string | undefined, contextIds: string[]) => void;
+  streamingText: string | null; // Partial Writer output while a response is streaming
+  onStopGeneration: () => void;
   // Outliner Agent props
   outlinerMessages: Message[];
   onOutlineCommand: (prompt:string) => void;
@@ -17,32 +29,75 @@ interface AgentInteractionPaneProps {
   // Knowledge/Context props
   contextIds: string[];
   onContextChange: (id: string, isChecked: boolean) => void;
+  // Completed sections of the project's other flows
+  referenceableFlows: ReferenceableFlow[];
+  crossFlowReferences: { ref: CrossFlowReference; state: CrossFlowReferenceState }[];
+  onCrossFlowReferenceChange: (flowId: string, sectionId: string, isChecked: boolean) => void;
+  onRefreshCrossFlowReference: (flowId: string, sectionId: string) => void;
+  // Whether the Coordinator-written system prompt matches the flow's current inputs
+  systemPromptState: 'current' | 'stale' | 'missing';
+  onRegenerateSystemPrompt: () => void;
   sessionFiles: File[];
+  sessionFileStates: { included: boolean; extraction?: FileExtraction }[]; // Aligned with sessionFiles
   onFilesChange: (files: FileList | null) => void;
+  onToggleSessionFile: (index: number, included: boolean) => void;
+  onRemoveSessionFile: (index: number) => void;
   // Research Agent props
   researchAgentStatus: AgentStatus;
   onResearch: (query: string) => void;
   researchResults: ResearchResult[];
+  // Reviewer Agent props
+  review?: SectionReview;
+  currentContent: string; // The section's content as it is now, to tell whether the review is stale
+  reviewRubric: RubricCriterion[];
+  reviewAgentStatus: AgentStatus;
+  onReview: () => void;
+  onSendReviewFeedback: (comments: ReviewComment[]) => void;
+  onReviewRubricChange: (rubric: RubricCriterion[]) => void;
+  // Bibliography props
+  bibliography: BibliographyEntry[];
+  liveSourceIds: Set<string>;
+  citationStyle: CitationStyle;
+  onCitationStyleChange: (style: CitationStyle) => void;
+  onUpdateBibliographyEntry: (key: string, updates: BibliographyEntryUpdate) => void;
+  onRenameCitationKey: (oldKey: string, newKey: string) => void;
+  onRemoveBibliographyEntry: (key: string) => void;
   // Context Previews
   fullAgentContext: ContextData | null;
   outlinerAgentContext: ContextData;
+  contextBudgetPlan: ContextBudgetPlan | null; // Estimate for the next Writer request
+  contextBudgetSettings: ContextBudgetSettings;
+  onContextBudgetChange: (settings: ContextBudgetSettings) => void;
   // Flow Coordinator Prompt
   flowCoordinatorPrompt: string;
   onFlowCoordinatorPromptChange: (newPrompt: string) => void;
+  styleGuide?: StyleGuide;
+  onStyleGuideChange: (styleGuide: StyleGuide) => void;
+  // What the active section should cover, usually seeded from a flow template
+  sectionGuidance: string;
+  onSectionGuidanceChange: (guidance: string) => void;
 }
 
+const CitationKey: React.FC<{ entry?: BibliographyEntry; className?: string }> = ({ entry, className = '' }) =>
+  entry ? <code className={`text-xs text-blue-300 ${className}`} title="Cite this source with its key">[@{entry.key}]</code> : null;
+
 const AgentInteractionPane: React.FC<AgentInteractionPaneProps> = (props) => {
   const { 
-      activeSection, messages, onGenerate, 
+      activeSection, messages, onGenerate, streamingText, onStopGeneration,
       outlinerMessages, onOutlineCommand,
       agentStatus, outline, contextIds, onContextChange, 
-      sessionFiles, onFilesChange,
+      referenceableFlows, crossFlowReferences, onCrossFlowReferenceChange, onRefreshCrossFlowReference,
+      systemPromptState, onRegenerateSystemPrompt,
+      sessionFiles, sessionFileStates, onFilesChange, onToggleSessionFile, onRemoveSessionFile,
       researchAgentStatus, onResearch, researchResults,
-      fullAgentContext, outlinerAgentContext,
-      flowCoordinatorPrompt, onFlowCoordinatorPromptChange
+      review, currentContent, reviewRubric, reviewAgentStatus, onReview, onSendReviewFeedback, onReviewRubricChange,
+      bibliography, liveSourceIds, citationStyle, onCitationStyleChange, onUpdateBibliographyEntry, onRenameCitationKey, onRemoveBibliographyEntry,
+      fullAgentContext, outlinerAgentContext, contextBudgetPlan, contextBudgetSettings, onContextBudgetChange,
+      flowCoordinatorPrompt, onFlowCoordinatorPromptChange, styleGuide, onStyleGuideChange,
+      sectionGuidance, onSectionGuidanceChange
   } = props;
   
-  const [activeTab, setActiveTab] = useState<'chat' | 'knowledge' | 'context'>('chat');
+  const [activeTab, setActiveTab] = useState<'chat' | 'knowledge' | 'review' | 'context'>('chat');
   const [prompt, setPrompt] = useState('');
   const [researchQuery, setResearchQuery] = useState('');
 
@@ -93,12 +148,12 @@ const AgentInteractionPane: React.FC<AgentInteractionPaneProps> = (props) => {
                 {isOutlining ? "Outliner Agent" : `Writer: ${activeSection?.title}`}
             </h3>
             <nav className="flex space-x-1">
-            {(['chat', 'knowledge', 'context'] as const).map((tab) => (
+            {(['chat', 'knowledge', 'review', 'context'] as const).map((tab) => (
                 <button
                 key={tab}
                 onClick={() => setActiveTab(tab)}
                 className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${activeTab === tab ? 'bg-brand-accent text-brand-text' : 'text-brand-light hover:bg-brand-secondary'} disabled:opacity-50 disabled:cursor-not-allowed`}
-                disabled={isOutlining && tab === 'knowledge'}
+                disabled={isOutlining && (tab === 'knowledge' || tab === 'review')}
                 >
                 {tab.charAt(0).toUpperCase() + tab.slice(1)}
                 </button>
@@ -110,7 +165,7 @@ const AgentInteractionPane: React.FC<AgentInteractionPaneProps> = (props) => {
       <div className="flex-grow p-4 overflow-y-auto">
         {activeTab === 'chat' && (
            <div className="h-full flex flex-col">
-            {!isOutlining && currentMessages.length === 0 ? (
+            {!isOutlining && currentMessages.length === 0 && streamingText === null ? (
                  <div className="flex-grow flex flex-col items-center justify-center text-center p-4">
                     <h4 className="font-semibold text-lg mb-2">Ready to Write</h4>
                     <p className="text-sm text-brand-light mb-6 max-w-sm">
@@ -135,7 +190,14 @@ const AgentInteractionPane: React.FC<AgentInteractionPaneProps> = (props) => {
                         </div>
                       </div>
                     ))}
-                    {agentStatus === AgentStatus.Thinking && (
+                    {!isOutlining && streamingText ? (
+                        <div className="flex justify-start">
+                          <div className="max-w-xs lg:max-w-sm px-4 py-2 rounded-lg bg-brand-accent text-brand-text">
+                              <p className="text-sm whitespace-pre-wrap">{streamingText}</p>
+                              <LoaderIcon className="w-3 h-3 mt-1 text-brand-light" />
+                          </div>
+                        </div>
+                    ) : agentStatus === AgentStatus.Thinking && (
                         <div className="flex justify-start">
                           <div className="max-w-xs lg:max-w-sm px-4 py-2 rounded-lg bg-brand-accent text-brand-text flex items-center space-x-2">
                               <LoaderIcon className="w-4 h-4" />
@@ -153,9 +215,15 @@ const AgentInteractionPane: React.FC<AgentInteractionPaneProps> = (props) => {
                       className="flex-grow bg-brand-secondary border border-brand-accent rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-brand-light"
                       disabled={agentStatus !== AgentStatus.Idle}
                     />
-                    <button type="submit" className="bg-blue-600 p-2 rounded-lg text-white hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={agentStatus !== AgentStatus.Idle || !prompt.trim()}>
-                      <SendIcon className="w-5 h-5" />
-                    </button>
+                    {!isOutlining && streamingText !== null ? (
+                      <button type="button" onClick={onStopGeneration} className="bg-red-600 p-2 rounded-lg text-white hover:bg-red-700" title="Stop generating">
+                        <StopIcon className="w-5 h-5" />
+                      </button>
+                    ) : (
+                      <button type="submit" className="bg-blue-600 p-2 rounded-lg text-white hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={agentStatus !== AgentStatus.Idle || !prompt.trim()}>
+                        <SendIcon className="w-5 h-5" />
+                      </button>
+                    )}
                   </form>
                 </>
             )}
@@ -170,18 +238,33 @@ const AgentInteractionPane: React.FC<AgentInteractionPaneProps> = (props) => {
               <UploadCloudIcon className="w-10 h-10 mx-auto text-brand-light mb-2" />
               <label htmlFor="file-upload" className="cursor-pointer text-blue-400 hover:text-blue-300 font-semibold">
                 Upload files
-                <input id="file-upload" name="file-upload" type="file" className="sr-only" multiple onChange={(e) => onFilesChange(e.target.files)} />
+                <input id="file-upload" name="file-upload" type="file" className="sr-only" multiple onChange={(e) => { onFilesChange(e.target.files); e.target.value = ''; }} />
               </label>
-              <p className="text-xs text-gray-500 mt-1">PDF, TXT, DOCX up to 10MB</p>
+              <p className="text-xs text-gray-500 mt-1">PDF, DOCX, TXT, Markdown, HTML, CSV up to 10MB</p>
             </div>
              {sessionFiles.length > 0 && (
                 <div className="mb-6">
                     <h4 className="font-semibold text-sm">Uploaded files:</h4>
+                    <p className="text-xs text-gray-500 mt-1">Checked files are sent to the Writer Agent with every request.</p>
                     <ul className="space-y-1 text-brand-light text-sm mt-2">
                         {sessionFiles.map((file, i) => (
                           <li key={i} className="flex items-center space-x-2">
+                            <input
+                              type="checkbox"
+                              checked={sessionFileStates[i]?.included ?? true}
+                              onChange={(e) => onToggleSessionFile(i, e.target.checked)}
+                              className="h-4 w-4 rounded bg-brand-accent border-brand-light text-blue-600 focus:ring-blue-500 flex-shrink-0"
+                              title="Include this file in the agent context"
+                            />
                             <FileTextIcon className="w-4 h-4 flex-shrink-0" />
-                            <span>{file.name}</span>
+                            <div className={`flex-grow min-w-0 ${sessionFileStates[i]?.included === false ? 'opacity-50' : ''}`}>
+                              <p className="truncate">{file.name}</p>
+                              <CitationKey entry={findEntryForSource(bibliography, getFileId(file))} />
+                              <p className="text-xs"><ExtractionBadge extraction={sessionFileStates[i]?.extraction} /></p>
+                            </div>
+                            <button onClick={() => onRemoveSessionFile(i)} className="p-1 text-brand-light hover:text-red-400 flex-shrink-0" title="Remove file">
+                              <XIcon className="w-4 h-4" />
+                            </button>
                           </li>
                         ))}
                     </ul>
@@ -210,6 +293,7 @@ const AgentInteractionPane: React.FC<AgentInteractionPaneProps> = (props) => {
                         {researchResults.map(result => (
                             <div key={result.id} className="p-3 bg-brand-secondary rounded-lg">
                                 <a href={result.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline font-semibold text-sm">{result.title}</a>
+                                <CitationKey entry={findEntryForSource(bibliography, result.id)} className="block mt-1" />
                                 <p className="text-xs text-brand-light mt-1">{result.summary}</p>
                             </div>
                         ))}
@@ -217,8 +301,34 @@ const AgentInteractionPane: React.FC<AgentInteractionPaneProps> = (props) => {
                 )}
             </div>
 
+            <div className="border-t border-brand-accent pt-4 mt-4">
+                <BibliographyPanel
+                    entries={bibliography}
+                    liveSourceIds={liveSourceIds}
+                    citationStyle={citationStyle}
+                    onCitationStyleChange={onCitationStyleChange}
+                    onUpdateEntry={onUpdateBibliographyEntry}
+                    onRenameKey={onRenameCitationKey}
+                    onRemoveEntry={onRemoveBibliographyEntry}
+                />
+            </div>
           </div>
         )}
+        {activeTab === 'review' && !isOutlining && (
+          <ReviewPanel
+            review={review}
+            currentContent={currentContent}
+            rubric={reviewRubric}
+            reviewAgentStatus={reviewAgentStatus}
+            isWriterBusy={agentStatus !== AgentStatus.Idle}
+            onReview={onReview}
+            onSendFeedback={(comments) => {
+              onSendReviewFeedback(comments);
+              setActiveTab('chat');
+            }}
+            onRubricChange={onReviewRubricChange}
+          />
+        )}
         {activeTab === 'context' && (
           <div>
             <h3 className="text-lg font-semibold mb-2">Flow Coordinator Prompt</h3>
@@ -231,7 +341,37 @@ const AgentInteractionPane: React.FC<AgentInteractionPaneProps> = (props) => {
                 rows={5}
                 className="w-full p-2 mb-6 bg-brand-secondary border border-brand-accent rounded-md resize-y focus:outline-none focus:ring-2 focus:ring-brand-light text-brand-text text-sm leading-relaxed"
             />
+
+            <div className="border-t border-brand-accent pt-4 mb-6">
+              <h3 className="text-lg font-semibold mb-2">Style Guide</h3>
+              <p className="text-sm text-brand-light mb-4">
+                  Added to the Writer, Outliner and Research prompts of this flow. Sections are checked against it in the workspace.
+              </p>
+              <StyleGuidePanel styleGuide={styleGuide} onChange={onStyleGuideChange} />
+            </div>
+
+            {!isOutlining && (
+              <div className="border-t border-brand-accent pt-4 mb-6">
+                <h3 className="text-lg font-semibold mb-2">Section Guidance</h3>
+                <p className="text-sm text-brand-light mb-4">
+                    What this section should cover. Added to the Writer's system prompt for this section only.
+                </p>
+                <textarea
+                    value={sectionGuidance}
+                    onChange={(e) => onSectionGuidanceChange(e.target.value)}
+                    rows={3}
+                    placeholder="e.g. Summarize the problem, method and results in under 250 words."
+                    className="w-full p-2 bg-brand-secondary border border-brand-accent rounded-md resize-y focus:outline-none focus:ring-2 focus:ring-brand-light text-brand-text text-sm leading-relaxed"
+                />
+              </div>
+            )}
             
+            {!isOutlining && contextBudgetPlan && (
+              <div className="border-t border-brand-accent pt-4">
+                <ContextBudgetPanel plan={contextBudgetPlan} settings={contextBudgetSettings} onSettingsChange={onContextBudgetChange} />
+              </div>
+            )}
+
             {agentContextToShow && (
               <div className="border-t border-brand-accent pt-4">
                 <h3 className="text-lg font-semibold mb-2">{isOutlining ? 'Outliner Agent Context' : 'Writer Agent Context'}</h3>
@@ -259,6 +399,15 @@ const AgentInteractionPane: React.FC<AgentInteractionPaneProps> = (props) => {
                           ))}
                     </div>
                 )}
+
+                {!isOutlining && (
+                    <CrossFlowReferencePicker
+                        flows={referenceableFlows}
+                        references={crossFlowReferences}
+                        onChange={onCrossFlowReferenceChange}
+                        onRefresh={onRefreshCrossFlowReference}
+                    />
+                )}
                 
                 <div className={!isOutlining ? 'border-t border-brand-accent pt-4' : ''}>
                     <h3 className="text-lg font-semibold mb-4">Full Agent Context Preview</h3>
@@ -293,7 +442,31 @@ const AgentInteractionPane: React.FC<AgentInteractionPaneProps> = (props) => {
                             <summary className="p-2 font-semibold cursor-pointer flex items-center space-x-2">
                                 <BracketsIcon className="w-4 h-4" />
                                 <span>System Prompt (Task Specific)</span>
+                                {systemPromptState === 'stale' && (
+                                    <span
+                                        className="text-xs font-normal px-2 py-0.5 rounded-full bg-yellow-900 text-yellow-200"
+                                        title="Written for an earlier coordinator prompt, outline or section title. It is updated before the Writer's next request."
+                                    >
+                                        Out of date
+                                    </span>
+                                )}
                             </summary>
+                            <div className="flex justify-between items-center px-3 py-2 bg-brand-primary border-b border-brand-accent text-xs text-brand-light">
+                                <span>
+                                    {systemPromptState === 'missing'
+                                        ? 'Not generated yet.'
+                                        : isOutlining
+                                            ? 'Cached until the coordinator prompt changes.'
+                                            : 'Cached until the coordinator prompt, outline or section title changes.'}
+                                </span>
+                                <button
+                                    onClick={onRegenerateSystemPrompt}
+                                    disabled={agentStatus === AgentStatus.Thinking}
+                                    className="flex-shrink-0 ml-2 text-blue-400 hover:text-blue-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+                                >
+                                    Regenerate
+                                </button>
+                            </div>
                             <pre className="p-3 bg-brand-primary text-xs text-brand-light whitespace-pre-wrap font-mono">{agentContextToShow.systemPrompt}</pre>
                         </details>
 
@@ -307,6 +480,34 @@ const AgentInteractionPane: React.FC<AgentInteractionPaneProps> = (props) => {
 
                         {!isOutlining && (
                             <>
+                                <details className="bg-brand-secondary rounded-lg overflow-hidden">
+                                    <summary className="p-2 font-semibold cursor-pointer flex items-center space-x-2">
+                                        <BracketsIcon className="w-4 h-4" />
+                                        <span>Retrieved Knowledge (last generation)</span>
+                                    </summary>
+                                    <div className="p-3 bg-brand-primary text-xs text-brand-light space-y-2">
+                                        {agentContextToShow.retrievedKnowledge && agentContextToShow.retrievedKnowledge.length > 0 ? (
+                                            agentContextToShow.retrievedKnowledge.map(chunk => (
+                                                <div key={chunk.chunkId}>
+                                                    <p className="font-bold font-mono flex justify-between space-x-2">
+                                                        <span className="truncate">--- {chunk.fileName} (passage {chunk.index + 1}) ---</span>
+                                                        <span className="flex-shrink-0 text-blue-400" title={chunk.method === 'embedding' ? 'Cosine similarity' : 'BM25 keyword score'}>
+                                                            {chunk.method === 'embedding' ? 'sim' : 'bm25'} {chunk.score.toFixed(3)}
+                                                        </span>
+                                                    </p>
+                                                    <pre className="whitespace-pre-wrap font-mono text-gray-400 mt-1">{chunk.text.substring(0, 300)}{chunk.text.length > 300 ? '...' : ''}</pre>
+                                                </div>
+                                            ))
+                                        ) : (
+                                            <p className="italic">
+                                                {agentContextToShow.retrievedKnowledge
+                                                    ? 'No knowledge base passages matched the last request.'
+                                                    : 'Passages are retrieved from the Global Knowledge Base each time the Writer Agent runs.'}
+                                            </p>
+                                        )}
+                                    </div>
+                                </details>
+
                                 <details className="bg-brand-secondary rounded-lg overflow-hidden">
                                     <summary className="p-2 font-semibold cursor-pointer flex items-center space-x-2">
                                         <BracketsIcon className="w-4 h-4" />
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import type { BibliographyEntry, CitationStyle } from '../types';
+import { CITATION_STYLES } from '../services/export';
+import { ChevronRightIcon, TrashIcon } from './icons';
+
+export type BibliographyEntryUpdate = Partial<Pick<BibliographyEntry, 'title' | 'authors' | 'year' | 'publisher' | 'url'>>;
+
+interface BibliographyPanelProps {
+  entries: BibliographyEntry[];
+  liveSourceIds: Set<string>;
+  citationStyle: CitationStyle;
+  onCitationStyleChange: (style: CitationStyle) => void;
+  onUpdateEntry: (key: string, updates: BibliographyEntryUpdate) => void;
+  onRenameKey: (oldKey: string, newKey: string) => void;
+  onRemoveEntry: (key: string) => void;
+}
+
+const FIELDS: { name: keyof BibliographyEntryUpdate; label: string; placeholder: string }[] = [
+  { name: 'title', label: 'Title', placeholder: 'Title of the source' },
+  { name: 'authors', label: 'Authors', placeholder: 'Last, First; Last, First' },
+  { name: 'year', label: 'Year', placeholder: 'e.g. 2024' },
+  { name: 'publisher', label: 'Publisher', placeholder: 'Website, journal or publisher' },
+  { name: 'url', label: 'URL', placeholder: 'https://…' },
+];
+
+const BibliographyPanel: React.FC<BibliographyPanelProps> = ({
+  entries, liveSourceIds, citationStyle, onCitationStyleChange, onUpdateEntry, onRenameKey, onRemoveEntry,
+}) => {
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ key: string; draft: string } | null>(null);
+
+  const commitKey = () => {
+    if (editing && editing.draft.trim() && editing.draft.trim() !== editing.key) onRenameKey(editing.key, editing.draft.trim());
+    setEditing(null);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold">Bibliography</h3>
+        <select
+          value={citationStyle}
+          onChange={(e) => onCitationStyleChange(e.target.value as CitationStyle)}
+          className="bg-brand-secondary border border-brand-accent rounded-md px-2 py-1 text-sm text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-light"
+          title="Citation style used when exporting"
+        >
+          {CITATION_STYLES.map(style => <option key={style.id} value={style.id}>{style.label}</option>)}
+        </select>
+      </div>
+      <p className="text-sm text-brand-light mb-4">
+        Every research result and knowledge file in this flow gets a citation key. Cite it in the text as <code>[@key]</code>; references are formatted when exporting.
+      </p>
+      {entries.length === 0 ? (
+        <p className="text-sm italic text-brand-light">No sources yet. Research a topic or upload a file to add one.</p>
+      ) : (
+        <ul className="space-y-2">
+          {entries.map(entry => {
+            const isRemoved = !liveSourceIds.has(entry.sourceId);
+            const isExpanded = expandedKey === entry.key;
+            return (
+              <li key={entry.key} className={`p-2 bg-brand-secondary rounded-lg text-sm ${isRemoved ? 'border border-red-800' : ''}`}>
+                <div className="flex items-center space-x-2">
+                  <button onClick={() => setExpandedKey(isExpanded ? null : entry.key)} className="p-0.5 text-brand-light hover:text-brand-text flex-shrink-0" title="Edit details">
+                    <ChevronRightIcon className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+                  </button>
+                  {editing?.key === entry.key ? (
+                    <input
+                      autoFocus
+                      value={editing.draft}
+                      onChange={(e) => setEditing({ key: entry.key, draft: e.target.value })}
+                      onBlur={commitKey}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitKey();
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      className="w-40 bg-brand-primary border border-brand-accent rounded px-1 font-mono text-xs focus:outline-none focus:ring-1 focus:ring-brand-light"
+                    />
+                  ) : (
+                    <code
+                      onDoubleClick={() => setEditing({ key: entry.key, draft: entry.key })}
+                      className="font-mono text-xs text-blue-300 flex-shrink-0 cursor-text"
+                      title="Double-click to rename the key"
+                    >
+                      [@{entry.key}]
+                    </code>
+                  )}
+                  <span className="flex-grow min-w-0 truncate text-brand-light">{entry.title}</span>
+                  {isRemoved && (
+                    <>
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-red-900 text-red-200 flex-shrink-0" title="The research result or file this entry came from no longer exists">Source removed</span>
+                      <button onClick={() => onRemoveEntry(entry.key)} className="p-1 text-brand-light hover:text-red-400 flex-shrink-0" title="Remove entry">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+                {isExpanded && (
+                  <div className="mt-2 pl-6 space-y-1">
+                    {FIELDS.map(field => (
+                      <label key={field.name} className="flex items-center space-x-2">
+                        <span className="w-16 text-xs text-brand-light flex-shrink-0">{field.label}</span>
+                        <input
+                          value={entry[field.name] || ''}
+                          onChange={(e) => onUpdateEntry(entry.key, { [field.name]: e.target.value })}
+                          placeholder={field.placeholder}
+                          className="flex-grow bg-brand-primary border border-brand-accent rounded px-2 py-1 text-xs text-brand-text focus:outline-none focus:ring-1 focus:ring-brand-light"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BibliographyPanel;
@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface ConfirmDialogProps {
+  title: string;
+  message: React.ReactNode;
+  confirmLabel: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ title, message, confirmLabel, onConfirm, onCancel }) => {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 animate-fade-in" onClick={onCancel}>
+      <div className="w-full max-w-md bg-brand-secondary rounded-lg shadow-2xl p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold text-brand-text">{title}</h2>
+        <div className="text-sm text-brand-light">{message}</div>
+        <div className="flex justify-end space-x-2 pt-2">
+          <button onClick={onCancel} className="px-4 py-2 text-sm text-brand-light hover:text-brand-text">
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="px-4 py-2 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-opacity-50 transition-colors duration-200"
+            autoFocus
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConfirmDialog;
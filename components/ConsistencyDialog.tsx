@@ -0,0 +1,118 @@
+import React from 'react';
+import type { ConsistencyFinding, ConsistencyIssueKind, ConsistencyReport, OutlineItem, SectionContent } from '../types';
+import { CONSISTENCY_KIND_LABELS, locateFinding } from '../services/consistencyService';
+import { LoaderIcon, XIcon } from './icons';
+
+interface ConsistencyDialogProps {
+  report?: ConsistencyReport;
+  outline: OutlineItem[];
+  contents: Record<string, SectionContent>;
+  isChecking: boolean;
+  isAgentBusy: boolean; // The Writer cannot take a fix request while it is working
+  onCheck: () => void;
+  onGoTo: (finding: ConsistencyFinding) => void;
+  onFix: (finding: ConsistencyFinding) => void;
+  onDismiss: (findingId: string) => void;
+  onClose: () => void;
+}
+
+const findTitle = (items: OutlineItem[], id: string): string | null => {
+  for (const item of items) {
+    if (item.id === id) return item.title;
+    const found = findTitle(item.children, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+const FindingRow: React.FC<{ finding: ConsistencyFinding } & Omit<ConsistencyDialogProps, 'report' | 'isChecking' | 'onCheck' | 'onClose'>> = ({
+  finding, outline, contents, isAgentBusy, onGoTo, onFix, onDismiss,
+}) => {
+  const title = findTitle(outline, finding.sectionId);
+  const relatedTitle = finding.relatedSectionId ? findTitle(outline, finding.relatedSectionId) : null;
+  // The section was edited or removed since the check, so the excerpt can no longer be found.
+  const isStale = !title || !locateFinding(finding, contents[finding.sectionId]?.content || '');
+  return (
+    <li className="p-3 bg-brand-primary rounded-md space-y-1">
+      <div className="flex justify-between items-start space-x-2">
+        <p className="text-sm font-semibold text-brand-text truncate" title={title || undefined}>{title || 'Deleted section'}</p>
+        {isStale && <span className="flex-shrink-0 text-xs px-2 py-0.5 rounded-full bg-yellow-900 text-yellow-200">Text changed</span>}
+      </div>
+      <p className="text-xs font-mono text-brand-light whitespace-pre-wrap break-words line-clamp-3">"{finding.excerpt}"</p>
+      <p className="text-sm text-brand-text">{finding.message}</p>
+      {relatedTitle && <p className="text-xs text-brand-light">Compare with: {relatedTitle}</p>}
+      <div className="flex justify-end space-x-2 pt-1">
+        <button onClick={() => onDismiss(finding.id)} className="px-2 py-1 text-xs text-brand-light hover:text-brand-text">
+          Dismiss
+        </button>
+        <button
+          onClick={() => onGoTo(finding)}
+          disabled={isStale}
+          className="px-2 py-1 text-xs bg-brand-accent text-brand-text rounded hover:bg-brand-light disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Go to
+        </button>
+        <button
+          onClick={() => onFix(finding)}
+          disabled={isStale || isAgentBusy}
+          className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed"
+          title={finding.fix}
+        >
+          Ask Writer to fix
+        </button>
+      </div>
+    </li>
+  );
+};
+
+/**
+ * Lists the findings of the flow's last consistency check, grouped by kind.
+ */
+const ConsistencyDialog: React.FC<ConsistencyDialogProps> = (props) => {
+  const { report, isChecking, onCheck, onClose } = props;
+  const kinds = Object.keys(CONSISTENCY_KIND_LABELS) as ConsistencyIssueKind[];
+  const groups = kinds
+    .map(kind => ({ kind, findings: report?.findings.filter(f => f.kind === kind) || [] }))
+    .filter(group => group.findings.length > 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 animate-fade-in">
+      <div className="w-full max-w-2xl max-h-[85vh] bg-brand-secondary rounded-lg shadow-2xl p-6 flex flex-col">
+        <div className="flex-shrink-0 flex justify-between items-center mb-2">
+          <h2 className="text-xl font-bold text-brand-text">Consistency Check</h2>
+          <button onClick={onClose} className="p-1 text-brand-light hover:text-brand-text" title="Close">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="flex-shrink-0 flex justify-between items-center mb-4 text-sm text-brand-light">
+          <span>
+            {report
+              ? `${report.sectionIds.length} completed section${report.sectionIds.length === 1 ? '' : 's'} checked on ${new Date(report.createdAt).toLocaleString()}.`
+              : 'Compares the completed sections for terminology, figures, repeated passages and section references.'}
+          </span>
+          <button
+            onClick={onCheck}
+            disabled={isChecking}
+            className="flex-shrink-0 ml-4 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors duration-200 flex items-center space-x-2 disabled:bg-gray-500 disabled:cursor-not-allowed"
+          >
+            {isChecking && <LoaderIcon className="w-4 h-4" />}
+            <span>{report ? 'Check again' : 'Run check'}</span>
+          </button>
+        </div>
+        <div className="flex-grow overflow-y-auto space-y-4 min-h-0">
+          {report && groups.length === 0 && <p className="text-sm text-brand-light">No inconsistencies found.</p>}
+          {groups.map(({ kind, findings }) => (
+            <section key={kind}>
+              <h3 className="text-sm font-semibold text-brand-text mb-2">{CONSISTENCY_KIND_LABELS[kind]} ({findings.length})</h3>
+              <ul className="space-y-2">
+                {findings.map(finding => <FindingRow key={finding.id} finding={finding} {...props} />)}
+              </ul>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConsistencyDialog;
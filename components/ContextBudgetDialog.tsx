@@ -0,0 +1,52 @@
+import React from 'react';
+import type { ContextBudgetPlan } from '../services/contextBudgetService';
+import { ContextBudgetBar, formatTokens } from './ContextBudgetPanel';
+
+interface ContextBudgetDialogProps {
+  plan: ContextBudgetPlan;
+  onSendTrimmed: () => void;
+  onSendFull: () => void;
+  onCancel: () => void;
+}
+
+const ContextBudgetDialog: React.FC<ContextBudgetDialogProps> = ({ plan, onSendTrimmed, onSendFull, onCancel }) => {
+  const cut = plan.components.filter(c => c.truncated);
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 animate-fade-in">
+      <div className="w-full max-w-md bg-brand-secondary rounded-lg shadow-2xl p-6 space-y-4">
+        <h2 className="text-xl font-bold text-brand-text">Context Over Budget</h2>
+        <p className="text-sm text-brand-light">
+          This request is about <span className="text-brand-text font-semibold">{formatTokens(plan.totalTokens)}</span> tokens,
+          over the flow's budget of <span className="text-brand-text font-semibold">{formatTokens(plan.maxTokens)}</span>.
+        </p>
+        <ContextBudgetBar plan={plan} />
+        {cut.length > 0 && (
+          <p className="text-sm text-brand-light">
+            Sending it trimmed shortens: {cut.map(c => c.label.toLowerCase()).join(', ')}.
+            {plan.overBudgetAfterTrim && ' Parts set to "Always keep" still exceed the budget.'}
+          </p>
+        )}
+        <div className="flex justify-end space-x-2 pt-2">
+          <button onClick={onCancel} className="px-4 py-2 text-sm text-brand-light hover:text-brand-text">
+            Cancel
+          </button>
+          <button
+            onClick={onSendFull}
+            className="px-4 py-2 bg-brand-accent text-brand-text font-semibold rounded-lg hover:bg-brand-light transition-colors duration-200"
+          >
+            Send full context
+          </button>
+          <button
+            onClick={onSendTrimmed}
+            className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-colors duration-200"
+            autoFocus
+          >
+            Send trimmed
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContextBudgetDialog;
@@ -0,0 +1,138 @@
+import React from 'react';
+import type { ContextBudgetSettings, ContextComponentId, ContextStrategy } from '../types';
+import { CONTEXT_STRATEGIES, type ContextBudgetPlan } from '../services/contextBudgetService';
+
+const COMPONENT_COLORS: Record<ContextComponentId, string> = {
+  systemPrompt: 'bg-purple-500',
+  citations: 'bg-pink-500',
+  knowledge: 'bg-blue-500',
+  sessionFiles: 'bg-teal-500',
+  research: 'bg-yellow-500',
+  references: 'bg-green-500',
+  history: 'bg-orange-500',
+  instruction: 'bg-gray-400',
+};
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(tokens >= 10000 ? 0 : 1)}k` : String(tokens);
+
+/**
+ * A stacked bar of the tokens each component would send, scaled to the budget. Whatever the
+ * strategies cut is drawn hatched in red past the budget line.
+ */
+export const ContextBudgetBar: React.FC<{ plan: ContextBudgetPlan }> = ({ plan }) => {
+  const scale = Math.max(plan.maxTokens, plan.totalTokens) || 1;
+  const percent = (tokens: number) => `${(tokens / scale) * 100}%`;
+  return (
+    <div>
+      <div className="flex justify-between text-xs mb-1">
+        <span className={plan.overBudget ? 'text-red-300 font-semibold' : 'text-brand-light'}>
+          ~{formatTokens(plan.totalTokens)} / {formatTokens(plan.maxTokens)} tokens
+        </span>
+        {plan.overBudget && (
+          <span className="text-red-300">{plan.overBudgetAfterTrim ? 'Over budget even after trimming' : `Trimmed to ~${formatTokens(plan.keptTokens)}`}</span>
+        )}
+      </div>
+      <div className="relative h-3 w-full bg-brand-primary rounded overflow-hidden flex">
+        {plan.components.filter(c => c.keptTokens > 0).map(component => (
+          <div
+            key={component.id}
+            className={COMPONENT_COLORS[component.id]}
+            style={{ width: percent(component.keptTokens) }}
+            title={`${component.label}: ~${component.keptTokens} tokens`}
+          />
+        ))}
+        {plan.totalTokens > plan.keptTokens && (
+          <div
+            className="bg-red-700 opacity-60"
+            style={{ width: percent(plan.totalTokens - plan.keptTokens), backgroundImage: 'repeating-linear-gradient(45deg, transparent 0 3px, rgba(0,0,0,0.4) 3px 6px)' }}
+            title={`Cut to fit the budget: ~${plan.totalTokens - plan.keptTokens} tokens`}
+          />
+        )}
+        {plan.totalTokens > plan.maxTokens && (
+          <div className="absolute top-0 bottom-0 w-0.5 bg-white" style={{ left: percent(plan.maxTokens) }} title="Budget" />
+        )}
+      </div>
+      <ul className="mt-2 space-y-0.5 text-xs">
+        {plan.components.filter(c => c.tokens > 0).map(component => (
+          <li key={component.id} className="flex items-center space-x-2">
+            <span className={`w-2.5 h-2.5 rounded-sm flex-shrink-0 ${COMPONENT_COLORS[component.id]}`} />
+            <span className="flex-grow text-brand-light">{component.label}</span>
+            <span className={`font-mono ${component.truncated ? 'text-red-300' : 'text-brand-text'}`}>
+              {component.truncated
+                ? `${formatTokens(component.keptTokens)} of ${formatTokens(component.tokens)}${component.droppedPieces > 0 ? ` (${component.droppedPieces} dropped)` : ''}`
+                : formatTokens(component.tokens)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+interface ContextBudgetPanelProps {
+  plan: ContextBudgetPlan;
+  settings: ContextBudgetSettings;
+  onSettingsChange: (settings: ContextBudgetSettings) => void;
+}
+
+const ContextBudgetPanel: React.FC<ContextBudgetPanelProps> = ({ plan, settings, onSettingsChange }) => {
+  const updateComponent = (id: ContextComponentId, updates: Partial<ContextBudgetSettings['components'][ContextComponentId]>) =>
+    onSettingsChange({ ...settings, components: { ...settings.components, [id]: { ...settings.components[id], ...updates } } });
+
+  return (
+    <div className="mb-6">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold">Context Budget</h3>
+        <label className="flex items-center space-x-2 text-sm text-brand-light">
+          <span>Max tokens</span>
+          <input
+            type="number"
+            min={1000}
+            step={1000}
+            value={settings.maxTokens}
+            onChange={(e) => {
+              const maxTokens = Number(e.target.value);
+              if (maxTokens > 0) onSettingsChange({ ...settings, maxTokens });
+            }}
+            className="w-24 bg-brand-secondary border border-brand-accent rounded-md px-2 py-1 text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-light"
+          />
+        </label>
+      </div>
+      <p className="text-sm text-brand-light mb-3">
+        Estimated size of the next Writer request. Knowledge passages are estimated from the last retrieval.
+      </p>
+      <ContextBudgetBar plan={plan} />
+      <details className="mt-3 bg-brand-secondary rounded-lg overflow-hidden">
+        <summary className="p-2 text-sm font-semibold cursor-pointer">Trimming strategies</summary>
+        <div className="p-3 bg-brand-primary space-y-1 text-xs">
+          <p className="text-brand-light mb-2">Higher-priority parts get budget first; lower ones are cut by their strategy.</p>
+          {plan.components.map(component => (
+            <div key={component.id} className="flex items-center space-x-2">
+              <span className="flex-grow text-brand-light">{component.label}</span>
+              <select
+                value={settings.components[component.id].strategy}
+                onChange={(e) => updateComponent(component.id, { strategy: e.target.value as ContextStrategy })}
+                title={CONTEXT_STRATEGIES.find(s => s.id === settings.components[component.id].strategy)?.description}
+                className="bg-brand-secondary border border-brand-accent rounded px-1 py-0.5 text-brand-text focus:outline-none"
+              >
+                {CONTEXT_STRATEGIES.map(strategy => <option key={strategy.id} value={strategy.id}>{strategy.label}</option>)}
+              </select>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                value={settings.components[component.id].priority}
+                onChange={(e) => updateComponent(component.id, { priority: Number(e.target.value) })}
+                className="w-12 bg-brand-secondary border border-brand-accent rounded px-1 py-0.5 text-brand-text focus:outline-none"
+                title="Priority (higher is kept first)"
+              />
+            </div>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default ContextBudgetPanel;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import type { CrossFlowReference, CrossFlowReferenceState } from '../types';
+import type { ReferenceableFlow } from '../services/referenceService';
+import { isSameReference } from '../services/referenceService';
+import { XIcon } from './icons';
+
+interface CrossFlowReferencePickerProps {
+  flows: ReferenceableFlow[];
+  references: { ref: CrossFlowReference; state: CrossFlowReferenceState }[];
+  onChange: (flowId: string, sectionId: string, isChecked: boolean) => void;
+  onRefresh: (flowId: string, sectionId: string) => void;
+}
+
+const stateConfig: Record<Exclude<CrossFlowReferenceState, 'current'>, { label: string; title: string; className: string }> = {
+  stale: {
+    label: 'Stale',
+    title: 'The source section has changed since it was selected. The Writer still gets the selected text until you update it.',
+    className: 'bg-yellow-900 text-yellow-200',
+  },
+  broken: {
+    label: 'Broken',
+    title: 'The source section or its flow was deleted. The Writer still gets the selected text until you remove it.',
+    className: 'bg-red-900 text-red-200',
+  },
+};
+
+/**
+ * Selects completed sections of the project's other flows as context for the Writer, and
+ * lists the selected ones with their state.
+ */
+const CrossFlowReferencePicker: React.FC<CrossFlowReferencePickerProps> = ({ flows, references, onChange, onRefresh }) => {
+  const [browsedFlowId, setBrowsedFlowId] = useState('');
+  const browsed = flows.find(f => f.id === browsedFlowId) || flows[0];
+
+  return (
+    <div className="space-y-3 mb-6">
+      <h4 className="font-semibold text-brand-text">From other flows</h4>
+      {references.length > 0 && (
+        <ul className="space-y-1">
+          {references.map(({ ref, state }) => (
+            <li key={`${ref.flowId}:${ref.sectionId}`} className="flex items-center space-x-2 p-2 rounded-md bg-brand-secondary text-sm">
+              <span className="flex-grow min-w-0 truncate text-brand-text" title={`${ref.sectionTitle} (${ref.flowName})`}>
+                {ref.sectionTitle} <span className="text-brand-light">· {ref.flowName}</span>
+              </span>
+              {state !== 'current' && (
+                <span className={`flex-shrink-0 text-xs px-2 py-0.5 rounded-full ${stateConfig[state].className}`} title={stateConfig[state].title}>
+                  {stateConfig[state].label}
+                </span>
+              )}
+              {state === 'stale' && (
+                <button onClick={() => onRefresh(ref.flowId, ref.sectionId)} className="flex-shrink-0 text-xs text-blue-400 hover:text-blue-300">
+                  Update
+                </button>
+              )}
+              <button onClick={() => onChange(ref.flowId, ref.sectionId, false)} className="flex-shrink-0 p-1 text-brand-light hover:text-red-400" title="Remove reference">
+                <XIcon className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {browsed ? (
+        <div>
+          <select
+            value={browsed.id}
+            onChange={(e) => setBrowsedFlowId(e.target.value)}
+            className="w-full p-1 mb-2 bg-brand-secondary border border-brand-accent rounded-md text-brand-text text-sm focus:outline-none"
+          >
+            {flows.map(flow => <option key={flow.id} value={flow.id}>{flow.name}</option>)}
+          </select>
+          <div className="space-y-2">
+            {browsed.sections.map(section => (
+              <label key={section.id} className="flex items-center space-x-3 p-2 rounded-md hover:bg-brand-secondary cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={references.some(({ ref }) => isSameReference(ref, browsed.id, section.id))}
+                  onChange={(e) => onChange(browsed.id, section.id, e.target.checked)}
+                  className="h-4 w-4 rounded bg-brand-accent border-brand-light text-blue-600 focus:ring-blue-500"
+                />
+                <span className="text-brand-text">{section.title}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-brand-light italic">No other flow in this project has completed sections yet.</p>
+      )}
+    </div>
+  );
+};
+
+export default CrossFlowReferencePicker;
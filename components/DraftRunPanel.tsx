@@ -0,0 +1,101 @@
+import React from 'react';
+import { isDraftRunActive, type DraftRunProgress, type DraftTaskState } from '../services/draftOrchestrator';
+import { PauseIcon, PlayIcon, StopIcon, XIcon } from './icons';
+
+export type DraftRunControl = 'pause' | 'resume' | 'retryFailed' | 'cancel' | 'dismiss';
+
+export const DRAFT_STATE_CONFIG: Record<DraftTaskState, { label: string; color: string }> = {
+  queued: { label: 'Queued', color: 'text-brand-light' },
+  preparing: { label: 'Preparing prompt', color: 'text-blue-300 animate-pulse' },
+  drafting: { label: 'Drafting', color: 'text-yellow-400 animate-pulse' },
+  retrying: { label: 'Retrying', color: 'text-orange-300 animate-pulse' },
+  done: { label: 'Drafted', color: 'text-green-400' },
+  failed: { label: 'Failed', color: 'text-red-400' },
+  skipped: { label: 'Skipped', color: 'text-gray-500' },
+};
+
+const STATUS_LABELS: Record<DraftRunProgress['status'], string> = {
+  running: 'Drafting document',
+  paused: 'Paused',
+  finished: 'Drafting finished',
+  cancelled: 'Drafting stopped',
+};
+
+interface DraftRunPanelProps {
+  progress: DraftRunProgress;
+  onControl: (action: DraftRunControl) => void;
+  onSkip: (sectionId: string) => void;
+}
+
+const ControlButton: React.FC<{ title: string; onClick: () => void; children: React.ReactNode }> = ({ title, onClick, children }) => (
+  <button onClick={onClick} className="p-1 rounded text-brand-light hover:text-brand-text hover:bg-brand-accent" title={title}>
+    {children}
+  </button>
+);
+
+const DraftRunPanel: React.FC<DraftRunPanelProps> = ({ progress, onControl, onSkip }) => {
+  const { status, tasks } = progress;
+  const settled = tasks.filter(task => ['done', 'failed', 'skipped'].includes(task.state)).length;
+  const failed = tasks.filter(task => task.state === 'failed').length;
+  const active = isDraftRunActive(progress);
+  const canSkip = (state: DraftTaskState) => active && ['queued', 'preparing', 'drafting', 'retrying'].includes(state);
+
+  return (
+    <div className="flex-shrink-0 mb-4 p-3 bg-brand-secondary rounded-lg text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-semibold text-brand-text">
+          {STATUS_LABELS[status]}
+          {status === 'paused' && active && <span className="font-normal text-brand-light"> (finishing current sections)</span>}
+        </span>
+        <span className="flex items-center">
+          {status === 'running' && (
+            <ControlButton title="Pause after the sections being drafted" onClick={() => onControl('pause')}><PauseIcon className="w-4 h-4" /></ControlButton>
+          )}
+          {status === 'paused' && (
+            <ControlButton title="Resume" onClick={() => onControl('resume')}><PlayIcon className="w-4 h-4" /></ControlButton>
+          )}
+          {(status === 'running' || status === 'paused') && (
+            <ControlButton title="Stop the run" onClick={() => onControl('cancel')}><StopIcon className="w-4 h-4" /></ControlButton>
+          )}
+          {!active && (
+            <ControlButton title="Close" onClick={() => onControl('dismiss')}><XIcon className="w-4 h-4" /></ControlButton>
+          )}
+        </span>
+      </div>
+      <div className="h-1.5 w-full bg-brand-primary rounded overflow-hidden mb-1">
+        <div className="h-full bg-green-500 transition-all duration-300" style={{ width: `${(settled / (tasks.length || 1)) * 100}%` }} />
+      </div>
+      <div className="flex justify-between text-xs text-brand-light mb-2">
+        <span>{settled} of {tasks.length} sections</span>
+        {failed > 0 && status !== 'cancelled' && (
+          <button onClick={() => onControl('retryFailed')} className="text-red-300 hover:text-red-200 underline">
+            Retry {failed} failed
+          </button>
+        )}
+      </div>
+      <ul className="max-h-48 overflow-y-auto space-y-1">
+        {tasks.map(task => (
+          <li key={task.sectionId} className="group">
+            <div className="flex items-center space-x-2 text-xs">
+              <span className="flex-grow truncate text-brand-text" title={task.title}>{task.title}</span>
+              <span className={`flex-shrink-0 ${DRAFT_STATE_CONFIG[task.state].color}`}>
+                {DRAFT_STATE_CONFIG[task.state].label}
+                {task.attempts > 1 && ` (attempt ${task.attempts})`}
+              </span>
+              {canSkip(task.state) && (
+                <button onClick={() => onSkip(task.sectionId)} className="hidden group-hover:inline text-brand-light hover:text-brand-text underline flex-shrink-0">
+                  Skip
+                </button>
+              )}
+            </div>
+            {task.error && (task.state === 'failed' || task.state === 'retrying') && (
+              <p className="text-xs text-red-300 truncate" title={task.error}>{task.error}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DraftRunPanel;
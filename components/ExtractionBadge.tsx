@@ -0,0 +1,22 @@
+import React from 'react';
+import type { FileExtraction } from '../types';
+import { ExtractionStatus } from '../types';
+import { LoaderIcon } from './icons';
+
+// Shows how much text was extracted from an uploaded knowledge file, or why none was.
+const ExtractionBadge: React.FC<{ extraction: FileExtraction | undefined }> = ({ extraction }) => {
+  if (!extraction || extraction.status === ExtractionStatus.Pending) {
+    return <span className="flex items-center space-x-1 text-brand-light"><LoaderIcon className="w-3 h-3" /><span>Extracting...</span></span>;
+  }
+  const words = extraction.text.split(/\s+/).filter(Boolean).length;
+  switch (extraction.status) {
+    case ExtractionStatus.Done:
+      return <span className="text-green-400">{extraction.format.toUpperCase()} &middot; {words.toLocaleString()} words{extraction.detail ? ` · ${extraction.detail}` : ''}</span>;
+    case ExtractionStatus.Empty:
+      return <span className="text-yellow-400" title={extraction.detail}>No text found</span>;
+    case ExtractionStatus.Error:
+      return <span className="text-red-400" title={extraction.detail}>Extraction failed</span>;
+  }
+};
+
+export default ExtractionBadge;
@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import type { Flow } from '../types';
+import { diffLines, toSideBySide, summarizeDiff, type SideBySideCell } from '../services/diffService';
+import { alignSections, type SectionPair } from '../services/flowCompareService';
+import { XIcon } from './icons';
+
+interface FlowCompareDialogProps {
+  flows: Flow[];
+  initialLeftId: string;
+  initialRightId: string;
+  // Copies a section's text from one flow into the other.
+  onCherryPick: (sourceFlowId: string, targetFlowId: string, sectionId: string) => void;
+  onClose: () => void;
+}
+
+type PairState = 'same' | 'changed' | 'left' | 'right';
+
+const stateConfig: Record<PairState, { label: string; className: string }> = {
+  same: { label: 'Same', className: 'bg-brand-accent text-brand-light' },
+  changed: { label: 'Changed', className: 'bg-yellow-900 text-yellow-200' },
+  left: { label: 'Left only', className: 'bg-red-900 text-red-200' },
+  right: { label: 'Right only', className: 'bg-green-800 text-green-200' },
+};
+
+const getPairState = (pair: SectionPair): PairState => {
+  if (!pair.right) return 'left';
+  if (!pair.left) return 'right';
+  return pair.left.content === pair.right.content ? 'same' : 'changed';
+};
+
+const cellClassName = (cell?: SideBySideCell) => {
+  if (!cell) return 'bg-brand-secondary';
+  if (cell.type === 'delete') return 'bg-red-900 bg-opacity-40';
+  if (cell.type === 'insert') return 'bg-green-900 bg-opacity-40';
+  return '';
+};
+
+const DiffCell: React.FC<{ cell?: SideBySideCell }> = ({ cell }) => (
+  <div className={`flex min-w-0 ${cellClassName(cell)}`}>
+    <span className="w-10 flex-shrink-0 pr-2 text-right text-gray-500 select-none">{cell?.lineNumber ?? ''}</span>
+    <span className="flex-grow whitespace-pre-wrap break-words">{cell?.text ?? ''}</span>
+  </div>
+);
+
+const FlowSelect: React.FC<{ flows: Flow[]; value: string; onChange: (id: string) => void }> = ({ flows, value, onChange }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    className="p-1 bg-brand-primary border border-brand-accent rounded-md text-brand-text text-sm focus:outline-none"
+  >
+    {flows.map(flow => <option key={flow.id} value={flow.id}>{flow.name}</option>)}
+  </select>
+);
+
+/**
+ * Shows two flows side by side, section by section, and copies sections between them.
+ */
+const FlowCompareDialog: React.FC<FlowCompareDialogProps> = ({ flows, initialLeftId, initialRightId, onCherryPick, onClose }) => {
+  const [leftId, setLeftId] = useState(initialLeftId);
+  const [rightId, setRightId] = useState(initialRightId);
+  // The selected row, by section id on either side, so it stays selected once a section is copied.
+  const [selectedIds, setSelectedIds] = useState<{ left?: string; right?: string }>({});
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+
+  const left = flows.find(f => f.id === leftId);
+  const right = flows.find(f => f.id === rightId);
+  const pairs = useMemo(() => (left && right ? alignSections(left, right) : []), [left, right]);
+  const visible = pairs
+    .map((pair, index) => ({ pair, index, state: getPairState(pair) }))
+    .filter(row => !onlyDifferences || row.state !== 'same');
+  const selected = pairs.find(p =>
+    (!!selectedIds.left && p.left?.item.id === selectedIds.left) || (!!selectedIds.right && p.right?.item.id === selectedIds.right)) || pairs[0];
+
+  const ops = useMemo(() => diffLines(selected?.left?.content || '', selected?.right?.content || ''), [selected]);
+  const rows = useMemo(() => toSideBySide(ops), [ops]);
+  const { added, removed } = summarizeDiff(ops);
+
+  const selectFlows = (nextLeftId: string, nextRightId: string) => {
+    setLeftId(nextLeftId);
+    setRightId(nextRightId);
+    setSelectedIds({});
+  };
+  const coordinatorPromptsDiffer = !!left && !!right && left.coordinatorPrompt !== right.coordinatorPrompt;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 animate-fade-in">
+      <div className="w-full max-w-6xl h-5/6 bg-brand-secondary rounded-lg shadow-2xl p-6 flex flex-col">
+        <div className="flex-shrink-0 flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-brand-text">Compare Flows</h2>
+          <button onClick={onClose} className="p-1 text-brand-light hover:text-brand-text" title="Close">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="flex-shrink-0 flex items-center space-x-2 mb-4 text-sm text-brand-light">
+          <FlowSelect flows={flows} value={leftId} onChange={(id) => selectFlows(id, rightId)} />
+          <button onClick={() => selectFlows(rightId, leftId)} className="px-2 text-brand-light hover:text-brand-text" title="Swap sides">
+            &harr;
+          </button>
+          <FlowSelect flows={flows} value={rightId} onChange={(id) => selectFlows(leftId, id)} />
+          <label className="flex items-center space-x-2 pl-4">
+            <input
+              type="checkbox"
+              checked={onlyDifferences}
+              onChange={(e) => setOnlyDifferences(e.target.checked)}
+              className="h-4 w-4 rounded bg-brand-accent border-brand-light text-blue-600 focus:ring-blue-500"
+            />
+            <span>Only differences</span>
+          </label>
+          {coordinatorPromptsDiffer && <span className="pl-4 text-yellow-300">The coordinator prompts differ.</span>}
+        </div>
+        {leftId === rightId ? (
+          <p className="text-sm text-brand-light">Choose two different flows to compare.</p>
+        ) : (
+          <div className="flex-grow flex space-x-4 min-h-0">
+            <ul className="w-72 flex-shrink-0 overflow-y-auto space-y-1">
+              {visible.length === 0 && <li className="text-sm text-brand-light">No differences.</li>}
+              {visible.map(({ pair, index, state }) => {
+                const side = pair.left || pair.right!;
+                return (
+                  <li key={index}>
+                    <button
+                      onClick={() => setSelectedIds({ left: pair.left?.item.id, right: pair.right?.item.id })}
+                      className={`w-full text-left p-2 rounded-md transition-colors duration-200 ${pair === selected ? 'bg-brand-accent' : 'hover:bg-brand-primary'}`}
+                      style={{ paddingLeft: `${0.5 + side.depth}rem` }}
+                    >
+                      <p className="text-sm text-brand-text truncate" title={side.item.title}>{side.item.title}</p>
+                      {pair.left && pair.right && pair.left.item.title !== pair.right.item.title && (
+                        <p className="text-xs text-brand-light truncate" title={pair.right.item.title}>&rarr; {pair.right.item.title}</p>
+                      )}
+                      <span className={`inline-block text-xs px-2 py-0.5 mt-1 rounded-full ${stateConfig[state].className}`}>{stateConfig[state].label}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+            {selected && (
+              <div className="flex-grow flex flex-col min-w-0">
+                <div className="flex-shrink-0 flex justify-between items-center mb-2 text-sm">
+                  <div className="flex items-center space-x-2 text-brand-light">
+                    <span className="text-green-400">+{added}</span>
+                    <span className="text-red-400">-{removed}</span>
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => onCherryPick(rightId, leftId, selected.right!.item.id)}
+                      disabled={!selected.right || selected.left?.content === selected.right.content}
+                      className="px-3 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors duration-200 disabled:bg-gray-500 disabled:cursor-not-allowed"
+                      title={`Copy this section into "${left?.name}"`}
+                    >
+                      &larr; Use right
+                    </button>
+                    <button
+                      onClick={() => onCherryPick(leftId, rightId, selected.left!.item.id)}
+                      disabled={!selected.left || selected.left.content === selected.right?.content}
+                      className="px-3 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors duration-200 disabled:bg-gray-500 disabled:cursor-not-allowed"
+                      title={`Copy this section into "${right?.name}"`}
+                    >
+                      Use left &rarr;
+                    </button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 text-xs font-semibold text-brand-light mb-1">
+                  <span className="truncate">{left?.name}: {selected.left?.item.title ?? 'not in this flow'}</span>
+                  <span className="truncate">{right?.name}: {selected.right?.item.title ?? 'not in this flow'}</span>
+                </div>
+                <div className="flex-grow overflow-y-auto bg-brand-primary border border-brand-accent rounded-md font-mono text-xs text-brand-text">
+                  {rows.map((row, i) => (
+                    <div key={i} className="grid grid-cols-2 divide-x divide-brand-accent">
+                      <DiffCell cell={row.left} />
+                      <DiffCell cell={row.right} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FlowCompareDialog;
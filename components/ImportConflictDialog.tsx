@@ -0,0 +1,46 @@
+import React from 'react';
+
+interface ImportConflictDialogProps {
+  importedName: string;
+  existingName: string;
+  onRename: () => void;
+  onMerge: () => void;
+  onCancel: () => void;
+}
+
+const ImportConflictDialog: React.FC<ImportConflictDialogProps> = ({ importedName, existingName, onRename, onMerge, onCancel }) => {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 animate-fade-in">
+      <div className="w-full max-w-md bg-brand-secondary rounded-lg shadow-2xl p-6 space-y-4">
+        <h2 className="text-xl font-bold text-brand-text">Project Already Exists</h2>
+        <p className="text-sm text-brand-light">
+          The bundle "<span className="text-brand-text font-semibold">{importedName}</span>" has the same ID as your
+          project "<span className="text-brand-text font-semibold">{existingName}</span>". Nothing will be overwritten.
+        </p>
+        <ul className="text-sm text-brand-light list-disc list-inside space-y-1">
+          <li><span className="font-semibold text-brand-text">Import as copy</span> adds it as a separate project.</li>
+          <li><span className="font-semibold text-brand-text">Merge</span> adds its flows and files to the existing project.</li>
+        </ul>
+        <div className="flex justify-end space-x-2 pt-2">
+          <button onClick={onCancel} className="px-4 py-2 text-sm text-brand-light hover:text-brand-text">
+            Cancel
+          </button>
+          <button
+            onClick={onMerge}
+            className="px-4 py-2 bg-brand-accent text-brand-text font-semibold rounded-lg hover:bg-brand-light transition-colors duration-200"
+          >
+            Merge
+          </button>
+          <button
+            onClick={onRename}
+            className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-colors duration-200"
+          >
+            Import as copy
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportConflictDialog;
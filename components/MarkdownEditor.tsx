@@ -0,0 +1,376 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  applyTextChange,
+  continueList,
+  editTable,
+  findMatches,
+  findTableAt,
+  highlightMarkdown,
+  insertCodeBlock,
+  insertLink,
+  insertTable,
+  isListLine,
+  moveTableCell,
+  replaceMatches,
+  shiftListLines,
+  toggleLinePrefix,
+  toggleWrap,
+  type MarkdownTokenKind,
+  type TableAction,
+  type TextChange,
+  type TextRange,
+} from '../services/markdownEditService';
+import MarkdownPreview from './MarkdownPreview';
+import { IndentIcon, OutdentIcon, SearchIcon, XIcon } from './icons';
+
+type ViewMode = 'edit' | 'split' | 'preview';
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  textareaRef: React.RefObject<HTMLTextAreaElement | null>;
+  // The outline draft only needs list editing; sections get the full toolbar and the preview.
+  variant: 'document' | 'outline';
+  readOnly?: boolean;
+  placeholder?: string;
+  onSelectionChange?: () => void;
+  // Spans to underline, such as style guide violations, sorted by start.
+  flaggedRanges?: TextRange[];
+}
+
+const TOKEN_CLASSES: Record<MarkdownTokenKind, string> = {
+  text: '',
+  heading: 'text-blue-300',
+  marker: 'text-yellow-300',
+  strong: 'text-orange-200',
+  emphasis: 'text-pink-200',
+  code: 'text-green-300',
+  link: 'text-cyan-300',
+  citation: 'text-purple-300',
+  quote: 'text-brand-light',
+  table: 'text-yellow-300',
+};
+
+// The highlighted copy sits under a transparent textarea, so both must lay text out identically.
+// Colors are all the highlighting does; weights or styles would shift the text.
+const SURFACE_CLASSES = 'absolute inset-0 w-full h-full m-0 p-4 border font-sans text-base leading-relaxed whitespace-pre-wrap break-words overflow-y-scroll';
+
+// An underline does not move the text, unlike a border or padding would.
+const FLAGGED_CLASSES = 'underline decoration-wavy decoration-orange-400';
+
+const ToolbarButton: React.FC<{ label: React.ReactNode; title: string; onClick: () => void; disabled?: boolean; active?: boolean }> = ({ label, title, onClick, disabled, active }) => (
+  <button
+    type="button"
+    onMouseDown={(e) => e.preventDefault()} // keeps the editor's selection
+    onClick={onClick}
+    disabled={disabled}
+    title={title}
+    className={`min-w-[1.75rem] px-1.5 py-1 rounded text-sm hover:bg-brand-accent disabled:opacity-40 disabled:cursor-not-allowed ${active ? 'bg-brand-accent text-brand-text' : 'text-brand-light'}`}
+  >
+    {label}
+  </button>
+);
+
+// Splits pieces of text at the edges of the ranges, which must be sorted by start. Each piece is
+// tagged with the index of the range it lies in, or -1.
+const splitAtRanges = <T extends { text: string }>(pieces: T[], ranges: TextRange[]): (T & { range: number })[] => {
+  const result: (T & { range: number })[] = [];
+  let offset = 0;
+  let m = 0;
+  for (const piece of pieces) {
+    let start = 0;
+    while (start < piece.text.length) {
+      const position = offset + start;
+      while (m < ranges.length && ranges[m].end <= position) m++;
+      const range = ranges[m];
+      const inRange = !!range && range.start <= position;
+      const boundary = inRange ? range.end : range ? range.start : Infinity;
+      const end = Math.min(piece.text.length, boundary - offset);
+      result.push({ ...piece, text: piece.text.slice(start, end), range: inRange ? m : -1 });
+      start = end;
+    }
+    offset += piece.text.length;
+  }
+  return result;
+};
+
+// Marks find matches and flagged ranges on the highlighted tokens.
+const decorate = (tokens: { text: string; kind: MarkdownTokenKind }[], matches: TextRange[], current: number, flagged: TextRange[]) =>
+  splitAtRanges(
+    splitAtRanges(tokens, matches).map(({ range, ...piece }) => ({ ...piece, match: range < 0 ? -1 : range === current ? 1 : 0 })),
+    flagged
+  ).map(({ range, ...piece }) => ({ ...piece, flagged: range >= 0 }));
+
+const NO_RANGES: TextRange[] = [];
+
+const MarkdownEditor: React.FC<MarkdownEditorProps> = ({ value, onChange, textareaRef, variant, readOnly, placeholder, onSelectionChange, flaggedRanges = NO_RANGES }) => {
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const findInputRef = useRef<HTMLInputElement>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>('edit');
+  const [inTable, setInTable] = useState(false);
+  const [isFindOpen, setIsFindOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [matchCase, setMatchCase] = useState(false);
+  const [currentMatch, setCurrentMatch] = useState(0);
+
+  const isDocument = variant === 'document';
+  const showEditor = !isDocument || viewMode !== 'preview';
+  const showPreview = isDocument && viewMode !== 'edit';
+  const matches = useMemo(() => (isFindOpen ? findMatches(value, query, matchCase) : []), [isFindOpen, value, query, matchCase]);
+  const activeMatch = matches.length > 0 ? Math.min(currentMatch, matches.length - 1) : -1;
+  const pieces = useMemo(() => decorate(highlightMarkdown(value), matches, activeMatch, flaggedRanges), [value, matches, activeMatch, flaggedRanges]);
+
+  const syncScroll = () => {
+    if (highlightRef.current && textareaRef.current) highlightRef.current.scrollTop = textareaRef.current.scrollTop;
+  };
+  useEffect(syncScroll, [value]);
+  // The editor's selection goes away with the editor itself.
+  useEffect(() => onSelectionChange?.(), [viewMode]);
+
+  // Scrolls the current match into view without taking focus from the find bar.
+  useEffect(() => {
+    const mark = highlightRef.current?.querySelector<HTMLElement>('mark[data-current]');
+    const textarea = textareaRef.current;
+    if (!mark || !textarea) return;
+    if (mark.offsetTop < textarea.scrollTop || mark.offsetTop > textarea.scrollTop + textarea.clientHeight - 40) {
+      textarea.scrollTop = mark.offsetTop - textarea.clientHeight / 3;
+    }
+  }, [activeMatch, query]);
+
+  const trackSelection = () => {
+    const textarea = textareaRef.current;
+    if (textarea) setInTable(isDocument && !!findTableAt(textarea.value, textarea.selectionStart));
+    onSelectionChange?.();
+  };
+
+  const applyChange = (change: TextChange | null, keepFocus = true) => {
+    const textarea = textareaRef.current;
+    if (!change || !textarea || readOnly) return;
+    const active = document.activeElement as HTMLElement | null;
+    textarea.focus();
+    textarea.setSelectionRange(change.from, change.to);
+    // Going through the browser keeps the edit on its undo stack; otherwise the value is set directly.
+    const applied = document.execCommand(change.insert ? 'insertText' : 'delete', false, change.insert);
+    if (applied) {
+      textarea.setSelectionRange(change.selectionStart, change.selectionEnd);
+    } else {
+      onChange(applyTextChange(textarea.value, change));
+      requestAnimationFrame(() => textarea.setSelectionRange(change.selectionStart, change.selectionEnd));
+    }
+    if (!keepFocus) active?.focus();
+    trackSelection();
+  };
+
+  const withSelection = (edit: (text: string, start: number, end: number) => TextChange | null) => () => {
+    const textarea = textareaRef.current;
+    if (textarea) applyChange(edit(textarea.value, textarea.selectionStart, textarea.selectionEnd));
+  };
+
+  const bold = withSelection((text, start, end) => toggleWrap(text, start, end, '**', 'bold text'));
+  const italic = withSelection((text, start, end) => toggleWrap(text, start, end, '*', 'italic text'));
+  const code = withSelection((text, start, end) => toggleWrap(text, start, end, '`', 'code'));
+  const link = withSelection(insertLink);
+  const indent = withSelection((text, start, end) => shiftListLines(text, start, end, false));
+  const outdent = withSelection((text, start, end) => shiftListLines(text, start, end, true));
+  const tableAction = (action: TableAction) => withSelection((text, start) => editTable(text, start, action))();
+
+  const openFind = () => {
+    const textarea = textareaRef.current;
+    const selected = textarea ? textarea.value.slice(textarea.selectionStart, textarea.selectionEnd) : '';
+    if (selected && !selected.includes('\n')) setQuery(selected);
+    setIsFindOpen(true);
+    requestAnimationFrame(() => findInputRef.current?.select());
+  };
+
+  const stepMatch = (step: number) => {
+    if (matches.length > 0) setCurrentMatch((activeMatch + step + matches.length) % matches.length);
+  };
+
+  const replaceCurrent = () => {
+    if (activeMatch < 0) return;
+    applyChange(replaceMatches(value, [matches[activeMatch]], replacement), false);
+  };
+
+  const replaceAll = () => applyChange(replaceMatches(value, matches, replacement), false);
+
+  // Shortcuts only apply while the editor has focus, so they never reach the agent chat.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget;
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const mod = e.ctrlKey || e.metaKey;
+
+    if (mod && !e.altKey && e.key.toLowerCase() === 'f') {
+      e.preventDefault();
+      openFind();
+      return;
+    }
+    if (e.key === 'Escape' && isFindOpen) {
+      setIsFindOpen(false);
+      return;
+    }
+    if (readOnly) return;
+
+    if (mod && !e.altKey && !e.shiftKey) {
+      const shortcut = isDocument ? { b: bold, i: italic, k: link, e: code }[e.key.toLowerCase()] : undefined;
+      if (shortcut) {
+        e.preventDefault();
+        shortcut();
+      }
+      return;
+    }
+    if (e.key === 'Tab' && !mod && !e.altKey) {
+      const line = value.slice(value.lastIndexOf('\n', start - 1) + 1, value.indexOf('\n', start) < 0 ? value.length : value.indexOf('\n', start));
+      const change = (isDocument ? moveTableCell(value, start, e.shiftKey) : null)
+        ?? (!isDocument || isListLine(line) ? shiftListLines(value, start, end, e.shiftKey) : null);
+      // Inside lists and tables Tab never moves focus out of the editor, even when nothing can move.
+      if (change || !isDocument || isListLine(line)) e.preventDefault();
+      applyChange(change);
+      return;
+    }
+    if (e.key === 'Enter' && !e.shiftKey && !e.altKey && start === end) {
+      const change = continueList(value, start);
+      if (change) {
+        e.preventDefault();
+        applyChange(change);
+      }
+    }
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      <div className="flex-shrink-0 flex flex-wrap items-center gap-0.5 mb-2">
+        {isDocument && (
+          <>
+            <ToolbarButton label={<b>B</b>} title="Bold (Ctrl+B)" onClick={bold} disabled={readOnly || !showEditor} />
+            <ToolbarButton label={<i>I</i>} title="Italic (Ctrl+I)" onClick={italic} disabled={readOnly || !showEditor} />
+            <ToolbarButton label={<span className="font-mono">{'<>'}</span>} title="Inline code (Ctrl+E)" onClick={code} disabled={readOnly || !showEditor} />
+            <ToolbarButton label="Link" title="Link (Ctrl+K)" onClick={link} disabled={readOnly || !showEditor} />
+            <span className="w-px h-5 mx-1 bg-brand-accent" />
+          </>
+        )}
+        <ToolbarButton label="H" title="Heading" onClick={withSelection((text, start, end) => toggleLinePrefix(text, start, end, 'heading'))} disabled={readOnly || !showEditor} />
+        <ToolbarButton label="•" title="Bulleted list" onClick={withSelection((text, start, end) => toggleLinePrefix(text, start, end, 'bullet'))} disabled={readOnly || !showEditor} />
+        <ToolbarButton label="1." title="Numbered list" onClick={withSelection((text, start, end) => toggleLinePrefix(text, start, end, 'numbered'))} disabled={readOnly || !showEditor} />
+        <ToolbarButton label={<OutdentIcon className="w-4 h-4" />} title="Outdent list item (Shift+Tab)" onClick={outdent} disabled={readOnly || !showEditor} />
+        <ToolbarButton label={<IndentIcon className="w-4 h-4" />} title="Indent list item (Tab)" onClick={indent} disabled={readOnly || !showEditor} />
+        {isDocument && (
+          <>
+            <ToolbarButton label="❝" title="Quote" onClick={withSelection((text, start, end) => toggleLinePrefix(text, start, end, 'quote'))} disabled={readOnly || !showEditor} />
+            <ToolbarButton label="Code block" title="Code block" onClick={withSelection(insertCodeBlock)} disabled={readOnly || !showEditor} />
+            <ToolbarButton label="Table" title="Insert a table" onClick={withSelection((text, start, end) => insertTable(text, start, end))} disabled={readOnly || !showEditor} />
+            {inTable && showEditor && (
+              <span className="flex items-center gap-0.5 ml-1 pl-1 border-l border-brand-accent">
+                <ToolbarButton label="+Row" title="Add a row below" onClick={() => tableAction('addRow')} disabled={readOnly} />
+                <ToolbarButton label="−Row" title="Delete this row" onClick={() => tableAction('deleteRow')} disabled={readOnly} />
+                <ToolbarButton label="+Col" title="Add a column to the right" onClick={() => tableAction('addColumn')} disabled={readOnly} />
+                <ToolbarButton label="−Col" title="Delete this column" onClick={() => tableAction('deleteColumn')} disabled={readOnly} />
+                <ToolbarButton label="Align" title="Line up the columns" onClick={() => tableAction('format')} disabled={readOnly} />
+              </span>
+            )}
+          </>
+        )}
+        <span className="w-px h-5 mx-1 bg-brand-accent" />
+        <ToolbarButton label={<SearchIcon className="w-4 h-4" />} title="Find and replace (Ctrl+F)" onClick={openFind} active={isFindOpen} disabled={!showEditor} />
+        {isDocument && (
+          <span className="ml-auto flex items-center gap-0.5">
+            {(['edit', 'split', 'preview'] as ViewMode[]).map(mode => (
+              <ToolbarButton key={mode} label={mode[0].toUpperCase() + mode.slice(1)} title={`${mode[0].toUpperCase() + mode.slice(1)} view`} onClick={() => setViewMode(mode)} active={viewMode === mode} />
+            ))}
+          </span>
+        )}
+      </div>
+
+      {isFindOpen && showEditor && (
+        <div
+          className="flex-shrink-0 flex flex-wrap items-center gap-2 mb-2 p-2 bg-brand-primary border border-brand-accent rounded-md text-sm"
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') {
+              setIsFindOpen(false);
+              textareaRef.current?.focus();
+            }
+          }}
+        >
+          <input
+            ref={findInputRef}
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setCurrentMatch(0); }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                stepMatch(e.shiftKey ? -1 : 1);
+              }
+            }}
+            placeholder="Find"
+            className="w-40 px-2 py-1 bg-brand-secondary border border-brand-accent rounded text-brand-text focus:outline-none"
+          />
+          <span className="text-xs text-brand-light w-16">{query ? `${activeMatch + 1} of ${matches.length}` : ''}</span>
+          <ToolbarButton label="↑" title="Previous match (Shift+Enter)" onClick={() => stepMatch(-1)} disabled={matches.length === 0} />
+          <ToolbarButton label="↓" title="Next match (Enter)" onClick={() => stepMatch(1)} disabled={matches.length === 0} />
+          <label className="flex items-center space-x-1 text-xs text-brand-light cursor-pointer">
+            <input type="checkbox" checked={matchCase} onChange={(e) => setMatchCase(e.target.checked)} className="form-checkbox h-3.5 w-3.5 bg-brand-primary border-brand-accent rounded text-blue-500" />
+            <span>Match case</span>
+          </label>
+          <input
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            placeholder="Replace with"
+            disabled={readOnly}
+            className="w-40 px-2 py-1 bg-brand-secondary border border-brand-accent rounded text-brand-text focus:outline-none disabled:opacity-50"
+          />
+          <ToolbarButton label="Replace" title="Replace the current match" onClick={replaceCurrent} disabled={readOnly || activeMatch < 0} />
+          <ToolbarButton label="All" title="Replace every match" onClick={replaceAll} disabled={readOnly || matches.length === 0} />
+          <button onClick={() => setIsFindOpen(false)} className="ml-auto p-1 text-brand-light hover:text-brand-text" title="Close (Esc)">
+            <XIcon className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex-grow min-h-0 flex gap-2">
+        {showEditor && (
+          <div className={`relative h-full ${showPreview ? 'w-1/2' : 'w-full'} bg-brand-primary rounded-md`}>
+            <pre ref={highlightRef} aria-hidden className={`${SURFACE_CLASSES} border-transparent text-brand-text pointer-events-none`}>
+              {pieces.map((piece, i) => {
+                const className = [TOKEN_CLASSES[piece.kind], piece.flagged ? FLAGGED_CLASSES : ''].filter(Boolean).join(' ');
+                if (piece.match >= 0) {
+                  return (
+                    <mark key={i} data-current={piece.match === 1 || undefined} className={`${className || 'text-brand-text'} rounded-sm ${piece.match === 1 ? 'bg-yellow-600' : 'bg-yellow-800'}`}>
+                      {piece.text}
+                    </mark>
+                  );
+                }
+                return className ? <span key={i} className={className}>{piece.text}</span> : piece.text;
+              })}
+              {/* A trailing line break only takes up a line if something follows it. */}
+              {' '}
+            </pre>
+            <textarea
+              ref={textareaRef}
+              value={value}
+              readOnly={readOnly}
+              spellCheck
+              onChange={(e) => {
+                onChange(e.target.value);
+                trackSelection();
+              }}
+              onKeyDown={handleKeyDown}
+              onScroll={syncScroll}
+              onSelect={trackSelection}
+              onMouseUp={trackSelection}
+              onKeyUp={trackSelection}
+              placeholder={placeholder}
+              className={`${SURFACE_CLASSES} border-brand-accent rounded-md resize-none bg-transparent text-transparent caret-brand-text placeholder:text-brand-light selection:bg-blue-400/30 selection:text-transparent focus:outline-none focus:ring-2 focus:ring-brand-light`}
+            />
+          </div>
+        )}
+        {showPreview && (
+          <div className={showEditor ? 'w-1/2 h-full' : 'w-full h-full'}>
+            <MarkdownPreview markdown={value} placeholder={placeholder} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MarkdownEditor;
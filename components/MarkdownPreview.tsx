@@ -0,0 +1,83 @@
+import React from 'react';
+import { isSafeHref, parseMarkdownBlocks } from '../services/export/markdownParser';
+import type { Block, InlineRun, ListBlock } from '../services/export/types';
+
+const Runs: React.FC<{ runs: InlineRun[] }> = ({ runs }) => (
+  <>
+    {runs.map((run, i) => {
+      let node: React.ReactNode = run.text;
+      if (run.code) node = <code className="px-1 rounded bg-brand-secondary font-mono text-[0.9em]">{node}</code>;
+      if (run.italic) node = <em>{node}</em>;
+      if (run.bold) node = <strong>{node}</strong>;
+      if (run.href) {
+        node = isSafeHref(run.href)
+          ? <a href={run.href} target="_blank" rel="noopener noreferrer" className="text-blue-300 underline">{node}</a>
+          : <span className="text-blue-300 underline">{node}</span>;
+      }
+      return <React.Fragment key={i}>{node}</React.Fragment>;
+    })}
+  </>
+);
+
+const List: React.FC<{ list: ListBlock }> = ({ list }) => {
+  const Tag = list.ordered ? 'ol' : 'ul';
+  return (
+    <Tag className={`${list.ordered ? 'list-decimal' : 'list-disc'} pl-6 my-2 space-y-1`}>
+      {list.items.map((item, i) => (
+        <li key={i}>
+          <Runs runs={item.runs} />
+          {item.children.map((child, j) => <List key={j} list={child} />)}
+        </li>
+      ))}
+    </Tag>
+  );
+};
+
+// Section content starts at level 1; the section title itself is not part of it.
+const HEADING_CLASSES = ['text-2xl', 'text-xl', 'text-lg', 'text-base', 'text-base', 'text-sm'];
+
+const BlockView: React.FC<{ block: Block }> = ({ block }) => {
+  switch (block.type) {
+    case 'heading': {
+      const level = Math.min(Math.max(block.level, 1), 6);
+      const Tag = `h${level}` as 'h1';
+      return <Tag className={`${HEADING_CLASSES[level - 1]} font-bold mt-4 mb-2`}><Runs runs={block.runs} /></Tag>;
+    }
+    case 'paragraph': return <p className="my-2"><Runs runs={block.runs} /></p>;
+    case 'list': return <List list={block} />;
+    case 'code': return <pre className="my-2 p-3 rounded bg-brand-secondary overflow-x-auto font-mono text-sm">{block.text}</pre>;
+    case 'quote': return <blockquote className="my-2 pl-3 border-l-4 border-brand-accent text-brand-light"><Runs runs={block.runs} /></blockquote>;
+    case 'table': return (
+      <div className="my-2 overflow-x-auto">
+        <table className="border-collapse text-sm">
+          <thead>
+            <tr>{block.header.map((cell, i) => <th key={i} className="border border-brand-accent px-2 py-1 bg-brand-secondary text-left"><Runs runs={cell} /></th>)}</tr>
+          </thead>
+          <tbody>
+            {block.rows.map((row, i) => (
+              <tr key={i}>{row.map((cell, j) => <td key={j} className="border border-brand-accent px-2 py-1 align-top"><Runs runs={cell} /></td>)}</tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+    case 'rule': return <hr className="my-4 border-brand-accent" />;
+  }
+};
+
+/**
+ * Renders section Markdown with the same parser the document export uses, so the preview shows
+ * what an export will contain.
+ */
+const MarkdownPreview: React.FC<{ markdown: string; placeholder?: string }> = ({ markdown, placeholder }) => {
+  const blocks = React.useMemo(() => parseMarkdownBlocks(markdown, 0), [markdown]);
+  return (
+    <div className="w-full h-full overflow-y-auto p-4 bg-brand-primary border border-brand-accent rounded-md text-brand-text leading-relaxed break-words">
+      {blocks.length === 0
+        ? <p className="text-brand-light italic">{placeholder || 'Nothing to preview yet.'}</p>
+        : blocks.map((block, i) => <BlockView key={i} block={block} />)}
+    </div>
+  );
+};
+
+export default MarkdownPreview;
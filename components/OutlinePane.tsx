@@ -1,7 +1,23 @@
-import React from 'react';
-import type { OutlineItem } from '../types';
+import React, { useState } from 'react';
+import type { OutlineItem, ExportSource } from '../types';
 import { SectionStatus } from '../types';
-import { CircleIcon, CheckCircleIcon, Edit3Icon, ChevronRightIcon, DownloadIcon } from './icons';
+import {
+  addChildItem,
+  addSiblingItem,
+  appendItem,
+  createOutlineItem,
+  indentItem,
+  moveItem,
+  outdentItem,
+  renameItem,
+  stripNumbering,
+  type DropPosition,
+} from '../services/outlineService';
+import { EXPORT_FORMATS } from '../services/export';
+import { isDraftRunActive, type DraftRunProgress, type DraftTaskState } from '../services/draftOrchestrator';
+import ConfirmDialog from './ConfirmDialog';
+import DraftRunPanel, { DRAFT_STATE_CONFIG, type DraftRunControl } from './DraftRunPanel';
+import { CircleIcon, CheckCircleIcon, Edit3Icon, ChevronRightIcon, DownloadIcon, PlusIcon, CornerDownRightIcon, TrashIcon, IndentIcon, OutdentIcon, PlayIcon, SearchIcon } from './icons';
 
 interface OutlinePaneProps {
   outline: OutlineItem[];
@@ -10,7 +26,19 @@ interface OutlinePaneProps {
   onDeselect: () => void;
   onExport: () => void;
   isExportDisabled: boolean;
+  exportSource: ExportSource;
+  onExportSourceChange: (source: ExportSource) => void;
+  exportFormatId: string;
+  onExportFormatChange: (formatId: string) => void;
   onBackToDashboard: () => void; // New prop for navigation
+  onOutlineChange: (outline: OutlineItem[]) => void;
+  onDeleteSection: (id: string) => void; // Also discards the content of the section and its subsections
+  draftRun: DraftRunProgress | null; // The "Draft entire document" run of this flow, if any
+  onStartDraftRun: () => void;
+  onDraftRunControl: (action: DraftRunControl) => void;
+  onSkipDraftSection: (id: string) => void;
+  consistencyFindingCount?: number; // Open findings of the last consistency check, if one was run
+  onOpenConsistency: () => void;
 }
 
 const statusConfig = {
@@ -19,30 +47,115 @@ const statusConfig = {
   [SectionStatus.Completed]: { icon: CheckCircleIcon, color: 'text-green-400', label: 'Completed' },
 };
 
-const OutlineNode: React.FC<{ item: OutlineItem; activeSectionId: string | null; onSelectSection: (id: string) => void; }> = ({ item, activeSectionId, onSelectSection }) => {
+// Shared by every node of the tree, so the editing state lives in one place.
+interface OutlineEditor {
+  activeSectionId: string | null;
+  editingId: string | null;
+  draftStates: Record<string, DraftTaskState>;
+  dropTarget: { id: string; position: DropPosition } | null;
+  onSelectSection: (id: string) => void;
+  onStartRename: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onCancelRename: () => void;
+  onAddChild: (id: string) => void;
+  onAddSibling: (id: string) => void;
+  onIndent: (id: string) => void;
+  onOutdent: (id: string) => void;
+  onRequestDelete: (item: OutlineItem) => void;
+  onDragStart: (id: string) => void;
+  onDragOver: (id: string, position: DropPosition) => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+}
+
+// The top and bottom quarters of a row drop before/after it; the middle drops inside it.
+const getDropPosition = (e: React.DragEvent<HTMLElement>): DropPosition => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const offset = (e.clientY - rect.top) / rect.height;
+  return offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside';
+};
+
+const NodeAction: React.FC<{ title: string; onClick: () => void; icon: React.FC<React.SVGProps<SVGSVGElement>>; danger?: boolean }> = ({ title, onClick, icon: Icon, danger }) => (
+  <button
+    onClick={(e) => { e.stopPropagation(); onClick(); }}
+    className={`p-1 rounded text-brand-light ${danger ? 'hover:text-red-400' : 'hover:text-brand-text'}`}
+    title={title}
+  >
+    <Icon className="w-3.5 h-3.5" />
+  </button>
+);
+
+const RenameInput: React.FC<{ item: OutlineItem; onRename: (id: string, title: string) => void; onCancel: () => void }> = ({ item, onRename, onCancel }) => {
+  const [value, setValue] = useState(stripNumbering(item.title));
+  const save = () => (value.trim() ? onRename(item.id, value.trim()) : onCancel());
+  return (
+    <input
+      autoFocus
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onClick={(e) => e.stopPropagation()}
+      onBlur={save}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') save();
+        if (e.key === 'Escape') onCancel();
+      }}
+      className="flex-grow min-w-0 px-1 bg-brand-primary border border-brand-light rounded text-brand-text text-sm focus:outline-none"
+    />
+  );
+};
+
+const OutlineNode: React.FC<{ item: OutlineItem; editor: OutlineEditor }> = ({ item, editor }) => {
   const { icon: Icon, color, label } = statusConfig[item.status];
-  const isActive = item.id === activeSectionId;
+  const isActive = item.id === editor.activeSectionId;
+  const isEditing = item.id === editor.editingId;
+  const dropPosition = editor.dropTarget?.id === item.id ? editor.dropTarget.position : null;
+  const draftState = editor.draftStates[item.id];
 
   return (
     <div>
       <div
-        onClick={() => onSelectSection(item.id)}
-        className={`flex items-center space-x-2 p-2 rounded-md cursor-pointer transition-colors duration-200 ${isActive ? 'bg-brand-accent' : 'hover:bg-brand-secondary'}`}
+        onClick={() => !isEditing && editor.onSelectSection(item.id)}
+        onDoubleClick={() => editor.onStartRename(item.id)}
+        draggable={!isEditing}
+        onDragStart={(e) => { e.stopPropagation(); e.dataTransfer.effectAllowed = 'move'; editor.onDragStart(item.id); }}
+        onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); editor.onDragOver(item.id, getDropPosition(e)); }}
+        onDrop={(e) => { e.preventDefault(); e.stopPropagation(); editor.onDrop(); }}
+        onDragEnd={editor.onDragEnd}
+        className={`group flex items-center space-x-2 p-2 rounded-md cursor-pointer transition-colors duration-200 border-2 ${isActive ? 'bg-brand-accent' : 'hover:bg-brand-secondary'} ${
+          dropPosition === 'inside' ? 'border-blue-500' : 'border-transparent'
+        } ${dropPosition === 'before' ? 'border-t-blue-500' : ''} ${dropPosition === 'after' ? 'border-b-blue-500' : ''}`}
         style={{ paddingLeft: `${item.level * 1.5 + 0.5}rem` }}
       >
         {/* FIX: Use a <title> child element for accessibility instead of a `title` prop to fix the type error. */}
         <Icon className={`w-4 h-4 ${color} flex-shrink-0`}>
           <title>{label}</title>
         </Icon>
-        <span className={`flex-grow truncate ${isActive ? 'font-semibold' : ''}`}>
-          {item.title}
-        </span>
-        {isActive && <ChevronRightIcon className="w-5 h-5 text-brand-text flex-shrink-0" />}
+        {isEditing ? (
+          <RenameInput item={item} onRename={editor.onRename} onCancel={editor.onCancelRename} />
+        ) : (
+          <span className={`flex-grow truncate ${isActive ? 'font-semibold' : ''}`}>
+            {item.title}
+          </span>
+        )}
+        {draftState && !isEditing && (draftState !== 'done' && draftState !== 'skipped') && (
+          <span className={`text-xs flex-shrink-0 group-hover:hidden ${DRAFT_STATE_CONFIG[draftState].color}`}>{DRAFT_STATE_CONFIG[draftState].label}</span>
+        )}
+        {!isEditing && (
+          <span className="hidden group-hover:flex items-center flex-shrink-0">
+            <NodeAction title="Rename" icon={Edit3Icon} onClick={() => editor.onStartRename(item.id)} />
+            <NodeAction title="Add sibling section below" icon={PlusIcon} onClick={() => editor.onAddSibling(item.id)} />
+            <NodeAction title="Add subsection" icon={CornerDownRightIcon} onClick={() => editor.onAddChild(item.id)} />
+            <NodeAction title="Outdent" icon={OutdentIcon} onClick={() => editor.onOutdent(item.id)} />
+            <NodeAction title="Indent" icon={IndentIcon} onClick={() => editor.onIndent(item.id)} />
+            <NodeAction title="Delete" icon={TrashIcon} onClick={() => editor.onRequestDelete(item)} danger />
+          </span>
+        )}
+        {isActive && !isEditing && <ChevronRightIcon className="w-5 h-5 text-brand-text flex-shrink-0 group-hover:hidden" />}
       </div>
       {item.children.length > 0 && (
         <div className="mt-1">
           {item.children.map(child => (
-            <OutlineNode key={child.id} item={child} activeSectionId={activeSectionId} onSelectSection={onSelectSection} />
+            <OutlineNode key={child.id} item={child} editor={editor} />
           ))}
         </div>
       )}
@@ -51,7 +164,53 @@ const OutlineNode: React.FC<{ item: OutlineItem; activeSectionId: string | null;
 };
 
 
-const OutlinePane: React.FC<OutlinePaneProps> = ({ outline, activeSectionId, onSelectSection, onDeselect, onExport, isExportDisabled, onBackToDashboard }) => {
+const OutlinePane: React.FC<OutlinePaneProps> = ({ outline, activeSectionId, onSelectSection, onDeselect, onExport, isExportDisabled, exportSource, onExportSourceChange, exportFormatId, onExportFormatChange, onBackToDashboard, onOutlineChange, onDeleteSection, draftRun, onStartDraftRun, onDraftRunControl, onSkipDraftSection, consistencyFindingCount, onOpenConsistency }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<OutlineItem | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<OutlineEditor['dropTarget']>(null);
+
+  // New sections start in rename mode so they can be titled straight away.
+  const addAndRename = (update: (newItem: OutlineItem) => OutlineItem[]) => {
+    const newItem = createOutlineItem('New section');
+    onOutlineChange(update(newItem));
+    setEditingId(newItem.id);
+  };
+
+  const editor: OutlineEditor = {
+    activeSectionId,
+    editingId,
+    draftStates: Object.fromEntries((draftRun?.tasks || []).map(task => [task.sectionId, task.state])),
+    dropTarget,
+    onSelectSection,
+    onStartRename: setEditingId,
+    onRename: (id, title) => {
+      onOutlineChange(renameItem(outline, id, title));
+      setEditingId(null);
+    },
+    onCancelRename: () => setEditingId(null),
+    onAddChild: id => addAndRename(newItem => addChildItem(outline, id, newItem)),
+    onAddSibling: id => addAndRename(newItem => addSiblingItem(outline, id, newItem)),
+    onIndent: id => onOutlineChange(indentItem(outline, id)),
+    onOutdent: id => onOutlineChange(outdentItem(outline, id)),
+    onRequestDelete: setPendingDelete,
+    onDragStart: setDraggedId,
+    onDragOver: (id, position) => {
+      if (draggedId && (dropTarget?.id !== id || dropTarget.position !== position)) setDropTarget({ id, position });
+    },
+    onDrop: () => {
+      if (draggedId && dropTarget && draggedId !== dropTarget.id) {
+        onOutlineChange(moveItem(outline, draggedId, dropTarget.id, dropTarget.position));
+      }
+      setDraggedId(null);
+      setDropTarget(null);
+    },
+    onDragEnd: () => {
+      setDraggedId(null);
+      setDropTarget(null);
+    },
+  };
+
   return (
     <aside className="w-full h-full bg-brand-primary p-4 overflow-y-auto border-r border-brand-accent flex flex-col">
       <div className="flex-shrink-0 mb-4 flex justify-between items-center">
@@ -64,6 +223,32 @@ const OutlinePane: React.FC<OutlinePaneProps> = ({ outline, activeSectionId, onS
             Dashboard
         </button>
       </div>
+      {draftRun && <DraftRunPanel progress={draftRun} onControl={onDraftRunControl} onSkip={onSkipDraftSection} />}
+      {outline.length > 0 && !(draftRun && isDraftRunActive(draftRun)) && (
+        <button
+          onClick={onStartDraftRun}
+          className="flex-shrink-0 mb-4 flex items-center justify-center space-x-2 px-4 py-2 bg-brand-accent text-brand-text font-semibold rounded-lg hover:bg-brand-light transition-colors duration-200"
+          title="Draft every section that has no content yet, in outline order"
+        >
+          <PlayIcon className="w-4 h-4" />
+          <span>Draft Entire Document</span>
+        </button>
+      )}
+      {outline.length > 0 && (
+        <button
+          onClick={onOpenConsistency}
+          className="flex-shrink-0 mb-4 flex items-center justify-center space-x-2 px-4 py-2 bg-brand-accent text-brand-text font-semibold rounded-lg hover:bg-brand-light transition-colors duration-200"
+          title="Check the completed sections against each other"
+        >
+          <SearchIcon className="w-4 h-4" />
+          <span>Check Consistency</span>
+          {consistencyFindingCount !== undefined && (
+            <span className={`text-xs px-2 py-0.5 rounded-full ${consistencyFindingCount > 0 ? 'bg-yellow-900 text-yellow-200' : 'bg-green-800 text-green-200'}`}>
+              {consistencyFindingCount}
+            </span>
+          )}
+        </button>
+      )}
       <div className="flex-grow">
         {outline.length === 0 ? (
           <div className="h-full flex items-center justify-center text-center p-4">
@@ -74,13 +259,38 @@ const OutlinePane: React.FC<OutlinePaneProps> = ({ outline, activeSectionId, onS
             </p>
           </div>
         ) : (
-          <nav className="space-y-1">
+          <nav className="space-y-1" onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null); }}>
             {outline.map(item => (
-              <OutlineNode key={item.id} item={item} activeSectionId={activeSectionId} onSelectSection={onSelectSection} />
+              <OutlineNode key={item.id} item={item} editor={editor} />
             ))}
           </nav>
         )}
       </div>
+      <button
+        onClick={() => addAndRename(newItem => appendItem(outline, newItem))}
+        className="flex-shrink-0 my-2 flex items-center space-x-1 text-sm text-brand-light hover:text-brand-text"
+      >
+        <PlusIcon className="w-4 h-4" />
+        <span>Add section</span>
+      </button>
+      {pendingDelete && (
+        <ConfirmDialog
+          title="Delete Section"
+          message={
+            <p>
+              Delete "<span className="text-brand-text font-semibold">{pendingDelete.title}</span>"
+              {pendingDelete.children.length > 0 ? ' and all of its subsections' : ''}? Any content written for
+              {pendingDelete.children.length > 0 ? ' them' : ' it'} will be discarded.
+            </p>
+          }
+          confirmLabel="Delete"
+          onConfirm={() => {
+            onDeleteSection(pendingDelete.id);
+            setPendingDelete(null);
+          }}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
        <div className="flex-shrink-0 pt-4 border-t border-brand-accent space-y-2">
          {activeSectionId && (
             <button 
@@ -91,6 +301,25 @@ const OutlinePane: React.FC<OutlinePaneProps> = ({ outline, activeSectionId, onS
                 Return to Outline Editor
             </button>
         )}
+        <select
+          value={exportSource}
+          onChange={(e) => onExportSourceChange(e.target.value as ExportSource)}
+          className="w-full p-2 bg-brand-secondary border border-brand-accent rounded-md text-sm text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-light"
+          title="Which version of each section to export"
+        >
+          <option value="committed">Export last committed versions</option>
+          <option value="latest">Export latest drafts</option>
+        </select>
+        <select
+          value={exportFormatId}
+          onChange={(e) => onExportFormatChange(e.target.value)}
+          className="w-full p-2 bg-brand-secondary border border-brand-accent rounded-md text-sm text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-light"
+          title="Export format"
+        >
+          {EXPORT_FORMATS.map(format => (
+            <option key={format.id} value={format.id}>{format.label}</option>
+          ))}
+        </select>
         <button
           onClick={onExport}
           disabled={isExportDisabled}
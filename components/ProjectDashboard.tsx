@@ -1,31 +1,84 @@
 import React, { useState } from 'react';
-import type { Project, Flow } from '../types';
-import { UploadCloudIcon, PlayIcon, FileTextIcon, BracketsIcon } from './icons';
+import type { Project, Flow, FileExtraction, UsageBudget, FlowTemplate } from '../types';
+import { UploadCloudIcon, PlayIcon, FileTextIcon, BracketsIcon, DownloadIcon, SaveIcon, TrashIcon } from './icons';
+import FlowCompareDialog from './FlowCompareDialog';
+import ExtractionBadge from './ExtractionBadge';
+import UsagePanel from './UsagePanel';
+import { BUNDLE_EXTENSION } from '../services/bundleService';
+import { countTemplateSections } from '../services/templateService';
 
 interface ProjectDashboardProps {
   project: Project;
+  globalFileExtractions: (FileExtraction | undefined)[]; // Aligned with project.globalKnowledgeFiles
   onGlobalFilesChange: (files: FileList | null) => void;
   onSelectFlow: (flowId: string) => void;
-  onCreateFlow: (name: string) => void;
+  onCreateFlow: (name: string, templateId?: string) => void; // Without a template the flow starts blank
+  templates: FlowTemplate[]; // Built-in templates first, then the user's
+  onSaveFlowAsTemplate: (flowId: string, name: string, description: string) => void;
+  onDeleteTemplate: (templateId: string) => void;
+  onDuplicateFlow: (flowId: string, fork: boolean) => void; // A fork remembers the flow it was copied from
+  onCherryPickSection: (sourceFlowId: string, targetFlowId: string, sectionId: string) => void;
   onBack: () => void; // For returning to the project list
+  onExportProject: () => void;
+  onImportBundle: (file: File) => void; // Merges a bundle's flows and files into this project
+  onUsageBudgetChange: (budget: UsageBudget | undefined) => void;
+  onExportUsageCsv: () => void;
 }
 
 const ProjectDashboard: React.FC<ProjectDashboardProps> = ({
   project,
+  globalFileExtractions,
   onGlobalFilesChange,
   onSelectFlow,
   onCreateFlow,
+  templates,
+  onSaveFlowAsTemplate,
+  onDeleteTemplate,
+  onDuplicateFlow,
+  onCherryPickSection,
   onBack,
+  onExportProject,
+  onImportBundle,
+  onUsageBudgetChange,
+  onExportUsageCsv,
 }) => {
   const [newFlowName, setNewFlowName] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  // The flow whose "Save as Template" form is open
+  const [savingFlowId, setSavingFlowId] = useState<string | null>(null);
+  const [templateName, setTemplateName] = useState('');
+  const [templateDescription, setTemplateDescription] = useState('');
+  const [comparing, setComparing] = useState<{ leftId: string; rightId: string } | null>(null);
+
+  const selectedTemplate = templates.find(t => t.id === templateId);
+  const userTemplates = templates.filter(t => !t.builtIn);
 
   const handleCreateFlow = () => {
     if (newFlowName.trim()) {
-      onCreateFlow(newFlowName.trim());
+      onCreateFlow(newFlowName.trim(), templateId || undefined);
       setNewFlowName('');
     }
   };
+
+  const openSaveForm = (flow: Flow) => {
+    setSavingFlowId(flow.id);
+    setTemplateName(flow.name);
+    setTemplateDescription('');
+  };
+
+  const handleSaveTemplate = () => {
+    if (!savingFlowId || !templateName.trim()) return;
+    onSaveFlowAsTemplate(savingFlowId, templateName.trim(), templateDescription.trim());
+    setSavingFlowId(null);
+  };
   
+  // A fork is compared with the flow it came from, if that still exists; otherwise with a neighbour.
+  const openCompare = (flow: Flow) => {
+    const parent = project.flows.find(f => f.id === flow.forkedFrom?.flowId);
+    const other = parent || project.flows.find(f => f.id !== flow.id);
+    if (other) setComparing({ leftId: other.id, rightId: flow.id });
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleCreateFlow();
@@ -43,6 +96,27 @@ const ProjectDashboard: React.FC<ProjectDashboardProps> = ({
             &larr; All Projects
         </button>
 
+        <div className="absolute top-4 right-4 flex items-center space-x-3 text-sm">
+            <label className="flex items-center space-x-1 text-brand-light hover:text-brand-text cursor-pointer" title={`Merge flows and files from a ${BUNDLE_EXTENSION} bundle into this project`}>
+                <UploadCloudIcon className="w-4 h-4" />
+                <span className="underline">Import Bundle</span>
+                <input
+                    type="file"
+                    className="sr-only"
+                    accept={BUNDLE_EXTENSION}
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) onImportBundle(file);
+                        e.target.value = '';
+                    }}
+                />
+            </label>
+            <button onClick={onExportProject} className="flex items-center space-x-1 text-brand-light hover:text-brand-text" title={`Download this project as a ${BUNDLE_EXTENSION} bundle`}>
+                <DownloadIcon className="w-4 h-4" />
+                <span className="underline">Export Project</span>
+            </button>
+        </div>
+
         <header className="text-center border-b border-brand-accent pb-4 pt-4">
           <h1 className="text-4xl font-bold text-brand-text">{project.name}</h1>
           <p className="text-brand-light mt-2">Project Management Dashboard</p>
@@ -55,38 +129,150 @@ const ProjectDashboard: React.FC<ProjectDashboardProps> = ({
           </p>
           <div className="space-y-3">
               {project.flows.map(flow => (
-                <div key={flow.id} className="p-4 bg-brand-primary rounded-lg flex items-center justify-between group">
-                    <div className="flex items-center space-x-3">
-                        <BracketsIcon className="w-6 h-6 text-brand-light" />
-                        <span className="font-semibold text-lg">{flow.name}</span>
+                <div key={flow.id} className="p-4 bg-brand-primary rounded-lg group">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3 min-w-0">
+                            <BracketsIcon className="w-6 h-6 flex-shrink-0 text-brand-light" />
+                            <div className="min-w-0">
+                                <span className="font-semibold text-lg">{flow.name}</span>
+                                {flow.forkedFrom && (
+                                    <p className="text-xs text-brand-light truncate">
+                                        Forked from {project.flows.find(f => f.id === flow.forkedFrom!.flowId)?.name ?? `${flow.forkedFrom.flowName} (deleted)`} on {new Date(flow.forkedFrom.createdAt).toLocaleDateString()}
+                                    </p>
+                                )}
+                            </div>
+                        </div>
+                        <div className="flex items-center space-x-2 flex-shrink-0">
+                            <button
+                                onClick={() => onDuplicateFlow(flow.id, false)}
+                                className="px-2 py-2 text-sm text-brand-light hover:text-brand-text"
+                                title="Copy the outline, sections, chats and research into a new, independent flow"
+                            >
+                                Duplicate
+                            </button>
+                            <button
+                                onClick={() => onDuplicateFlow(flow.id, true)}
+                                className="px-2 py-2 text-sm text-brand-light hover:text-brand-text"
+                                title="Copy this flow as it is now, to try another outline or coordinator prompt and compare the two later"
+                            >
+                                Fork from here
+                            </button>
+                            <button
+                                onClick={() => openCompare(flow)}
+                                disabled={project.flows.length < 2}
+                                className="px-2 py-2 text-sm text-brand-light hover:text-brand-text disabled:opacity-50 disabled:cursor-not-allowed"
+                                title={flow.forkedFrom ? 'Compare with the flow this was forked from' : 'Compare with another flow'}
+                            >
+                                Compare
+                            </button>
+                            <button
+                                onClick={() => (savingFlowId === flow.id ? setSavingFlowId(null) : openSaveForm(flow))}
+                                className="flex items-center space-x-1 px-3 py-2 text-sm text-brand-light hover:text-brand-text"
+                                title="Save this flow's outline, prompts and style guide as a reusable template"
+                            >
+                                <SaveIcon className="w-4 h-4" />
+                                <span>Save as Template</span>
+                            </button>
+                            <button 
+                                onClick={() => onSelectFlow(flow.id)}
+                                className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-colors duration-200"
+                            >
+                                <PlayIcon className="w-5 h-5" />
+                                <span>Open Editor</span>
+                            </button>
+                        </div>
                     </div>
-                    <button 
-                        onClick={() => onSelectFlow(flow.id)}
-                        className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-colors duration-200"
-                    >
-                        <PlayIcon className="w-5 h-5" />
-                        <span>Open Editor</span>
-                    </button>
+                    {savingFlowId === flow.id && (
+                        <div className="mt-3 pt-3 border-t border-brand-accent space-y-2">
+                            <input
+                                type="text"
+                                value={templateName}
+                                onChange={(e) => setTemplateName(e.target.value)}
+                                placeholder="Template name"
+                                className="w-full bg-brand-secondary border border-brand-accent rounded-lg p-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-light"
+                            />
+                            <input
+                                type="text"
+                                value={templateDescription}
+                                onChange={(e) => setTemplateDescription(e.target.value)}
+                                placeholder="Short description (optional)"
+                                className="w-full bg-brand-secondary border border-brand-accent rounded-lg p-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-light"
+                            />
+                            <div className="flex justify-between items-center">
+                                <span className="text-xs text-brand-light">Keeps the outline, section guidance, coordinator prompt and style guide. Written content is not included.</span>
+                                <div className="flex-shrink-0 flex space-x-2 ml-4">
+                                    <button onClick={() => setSavingFlowId(null)} className="px-3 py-1 text-sm text-brand-light hover:text-brand-text">Cancel</button>
+                                    <button
+                                        onClick={handleSaveTemplate}
+                                        disabled={!templateName.trim()}
+                                        className="px-3 py-1 text-sm bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:bg-gray-500"
+                                    >
+                                        Save Template
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    )}
                 </div>
               ))}
           </div>
-           <div className="mt-4 flex space-x-2 p-3 bg-brand-primary rounded-lg">
-                <input
-                    type="text"
-                    value={newFlowName}
-                    onChange={(e) => setNewFlowName(e.target.value)}
-                    onKeyDown={handleKeyDown}
-                    placeholder="Enter name for new authoring flow..."
-                    className="flex-grow bg-brand-secondary border border-brand-accent rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-brand-light"
-                />
-                <button
-                    onClick={handleCreateFlow}
-                    disabled={!newFlowName.trim()}
-                    className="px-4 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-opacity-50 transition-colors duration-200 disabled:bg-gray-500"
-                >
-                    + Create Flow
-                </button>
+           <div className="mt-4 p-3 bg-brand-primary rounded-lg space-y-2">
+                <div className="flex space-x-2">
+                    <input
+                        type="text"
+                        value={newFlowName}
+                        onChange={(e) => setNewFlowName(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        placeholder="Enter name for new authoring flow..."
+                        className="flex-grow bg-brand-secondary border border-brand-accent rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-brand-light"
+                    />
+                    <select
+                        value={templateId}
+                        onChange={(e) => setTemplateId(e.target.value)}
+                        className="bg-brand-secondary border border-brand-accent rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-brand-light"
+                        title="Start from a template"
+                    >
+                        <option value="">Blank flow</option>
+                        <optgroup label="Built-in templates">
+                            {templates.filter(t => t.builtIn).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                        </optgroup>
+                        {userTemplates.length > 0 && (
+                            <optgroup label="Your templates">
+                                {userTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                            </optgroup>
+                        )}
+                    </select>
+                    <button
+                        onClick={handleCreateFlow}
+                        disabled={!newFlowName.trim()}
+                        className="px-4 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-opacity-50 transition-colors duration-200 disabled:bg-gray-500"
+                    >
+                        + Create Flow
+                    </button>
+                </div>
+                {selectedTemplate && (
+                    <p className="text-xs text-brand-light">
+                        {selectedTemplate.description || 'No description.'} {countTemplateSections(selectedTemplate.outline)} sections.
+                    </p>
+                )}
             </div>
+            {userTemplates.length > 0 && (
+              <div className="mt-4">
+                <h3 className="font-semibold text-brand-light">Your Templates:</h3>
+                <ul className="space-y-2 text-sm mt-2 bg-brand-primary p-3 rounded-md">
+                  {userTemplates.map(t => (
+                    <li key={t.id} className="flex items-center space-x-2">
+                      <span className="font-semibold flex-shrink-0">{t.name}</span>
+                      <span className="flex-grow truncate text-brand-light" title={t.description}>{t.description}</span>
+                      <span className="text-xs flex-shrink-0 text-brand-light">{countTemplateSections(t.outline)} sections</span>
+                      <button onClick={() => onDeleteTemplate(t.id)} className="p-1 text-brand-light hover:text-red-400" title="Delete template">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
         </section>
 
         <section className="border-t border-brand-accent pt-6">
@@ -100,22 +286,42 @@ const ProjectDashboard: React.FC<ProjectDashboardProps> = ({
               Upload global documents
               <input id="global-file-upload" name="global-file-upload" type="file" className="sr-only" multiple onChange={(e) => onGlobalFilesChange(e.target.files)} />
             </label>
-            <p className="text-xs text-gray-500 mt-1">PDF, TXT, DOCX supported</p>
+            <p className="text-xs text-gray-500 mt-1">PDF, DOCX, TXT, Markdown, HTML and CSV supported</p>
           </div>
           {project.globalKnowledgeFiles.length > 0 && (
             <div className="mt-4">
-              <h3 className="font-semibold text-brand-light">Uploaded Global Files:</h3>
+              <div className="flex justify-between items-baseline">
+                <h3 className="font-semibold text-brand-light">Uploaded Global Files:</h3>
+                <span className="text-xs text-brand-light">
+                  {project.knowledgeIndex
+                    ? `Index: ${project.knowledgeIndex.chunks.length} passages · ${project.knowledgeIndex.method === 'embedding' ? `embeddings (${project.knowledgeIndex.embeddingModel})` : 'BM25 keyword search'}`
+                    : 'Building retrieval index...'}
+                </span>
+              </div>
               <ul className="space-y-2 text-brand-text text-sm mt-2 bg-brand-primary p-3 rounded-md">
                 {project.globalKnowledgeFiles.map((file, i) => (
                   <li key={i} className="flex items-center space-x-2">
                     <FileTextIcon className="w-4 h-4 flex-shrink-0 text-brand-light" />
-                    <span>{file.name}</span>
+                    <span className="flex-grow truncate">{file.name}</span>
+                    <span className="text-xs flex-shrink-0"><ExtractionBadge extraction={globalFileExtractions[i]} /></span>
                   </li>
                 ))}
               </ul>
             </div>
           )}
         </section>
+
+        <UsagePanel project={project} onBudgetChange={onUsageBudgetChange} onExportCsv={onExportUsageCsv} />
+
+        {comparing && (
+          <FlowCompareDialog
+            flows={project.flows}
+            initialLeftId={comparing.leftId}
+            initialRightId={comparing.rightId}
+            onCherryPick={onCherryPickSection}
+            onClose={() => setComparing(null)}
+          />
+        )}
       </div>
     </div>
   );
@@ -1,14 +1,18 @@
 import React, { useState } from 'react';
 import type { Project } from '../types';
-import { FileTextIcon } from './icons';
+import { FileTextIcon, LoaderIcon, DownloadIcon, UploadCloudIcon } from './icons';
+import { BUNDLE_EXTENSION } from '../services/bundleService';
 
 interface ProjectListProps {
   projects: Project[];
+  isLoading: boolean;
   onCreateProject: (name: string) => void;
   onSelectProject: (id: string) => void;
+  onExportProject: (id: string) => void;
+  onImportProject: (file: File) => void;
 }
 
-const ProjectList: React.FC<ProjectListProps> = ({ projects, onCreateProject, onSelectProject }) => {
+const ProjectList: React.FC<ProjectListProps> = ({ projects, isLoading, onCreateProject, onSelectProject, onExportProject, onImportProject }) => {
   const [newProjectName, setNewProjectName] = useState('');
   const [isCreating, setIsCreating] = useState(false);
 
@@ -39,7 +43,14 @@ const ProjectList: React.FC<ProjectListProps> = ({ projects, onCreateProject, on
         </header>
 
         <div className="mt-8 space-y-4">
-          {projects.length === 0 && !isCreating && (
+          {isLoading && (
+            <div className="text-center py-10 flex items-center justify-center space-x-2 text-brand-light">
+              <LoaderIcon className="w-5 h-5" />
+              <span>Loading saved projects...</span>
+            </div>
+          )}
+
+          {!isLoading && projects.length === 0 && !isCreating && (
             <div className="text-center py-10">
               <p className="text-brand-light">You have no projects yet.</p>
             </div>
@@ -55,7 +66,19 @@ const ProjectList: React.FC<ProjectListProps> = ({ projects, onCreateProject, on
                 <FileTextIcon className="w-6 h-6 text-brand-light group-hover:text-brand-text" />
                 <span className="font-semibold text-lg">{project.name}</span>
               </div>
-              <span className="text-sm text-brand-light group-hover:text-brand-text">&rarr;</span>
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onExportProject(project.id);
+                  }}
+                  className="p-1 text-brand-light hover:text-brand-text opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Export project bundle"
+                >
+                  <DownloadIcon className="w-5 h-5" />
+                </button>
+                <span className="text-sm text-brand-light group-hover:text-brand-text">&rarr;</span>
+              </div>
             </div>
           ))}
           
@@ -78,14 +101,32 @@ const ProjectList: React.FC<ProjectListProps> = ({ projects, onCreateProject, on
 
         </div>
 
-        <footer className="text-center border-t border-brand-accent pt-6 mt-8">
+        <footer className="text-center border-t border-brand-accent pt-6 mt-8 flex items-center justify-center space-x-3">
           <button
             onClick={() => setIsCreating(true)}
-            disabled={isCreating}
+            disabled={isCreating || isLoading}
             className="px-6 py-3 bg-blue-600 text-white font-bold rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-colors duration-200 disabled:bg-gray-500"
           >
             + Create New Project
           </button>
+          <label
+            className={`flex items-center space-x-2 px-6 py-3 bg-brand-accent text-brand-text font-bold rounded-lg transition-colors duration-200 ${isLoading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-brand-light'}`}
+            title={`Import a ${BUNDLE_EXTENSION} project bundle`}
+          >
+            <UploadCloudIcon className="w-5 h-5" />
+            <span>Import Project</span>
+            <input
+              type="file"
+              className="sr-only"
+              accept={BUNDLE_EXTENSION}
+              disabled={isLoading}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportProject(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
         </footer>
       </div>
     </div>
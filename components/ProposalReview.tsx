@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import type { ProposedChange } from '../types';
+import { getProposalBlocks } from '../services/proposalService';
+import { summarizeDiff, diffLines } from '../services/diffService';
+import { CheckIcon, XIcon } from './icons';
+
+interface ProposalReviewProps {
+  proposal: ProposedChange;
+  agentName: string;
+  disabled: boolean;
+  onAccept: (hunks?: number[]) => void; // All hunks when called without any
+  onReject: (hunks?: number[]) => void;
+}
+
+// Blank lines would collapse to nothing inside the diff, so they are kept one line high.
+const renderLine = (line: string) => line || ' ';
+
+const ProposalReview: React.FC<ProposalReviewProps> = ({ proposal, agentName, disabled, onAccept, onReject }) => {
+  const blocks = useMemo(() => getProposalBlocks(proposal), [proposal]);
+  const { added, removed } = useMemo(() => summarizeDiff(diffLines(proposal.base, proposal.proposed)), [proposal]);
+  const hunkCount = blocks.filter(block => block.type === 'change').length;
+
+  return (
+    <div className="w-full h-full flex flex-col bg-brand-primary border border-brand-accent rounded-md overflow-hidden">
+      <div className="flex-shrink-0 px-4 py-2 border-b border-brand-accent flex items-center justify-between text-sm">
+        <div className="min-w-0">
+          <span className="font-semibold">{agentName} proposed {hunkCount} change{hunkCount === 1 ? '' : 's'}</span>
+          <span className="ml-2 text-green-400">+{added}</span>
+          <span className="ml-1 text-red-400">-{removed}</span>
+          {proposal.prompt && <p className="text-xs text-brand-light truncate" title={proposal.prompt}>{proposal.prompt}</p>}
+        </div>
+        <div className="flex items-center space-x-2 flex-shrink-0">
+          <button
+            onClick={() => onReject()}
+            disabled={disabled}
+            className="px-3 py-1 bg-brand-accent text-brand-text rounded-md hover:bg-brand-light disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Reject all
+          </button>
+          <button
+            onClick={() => onAccept()}
+            disabled={disabled}
+            className="px-3 py-1 bg-green-600 text-white font-semibold rounded-md hover:bg-green-700 disabled:bg-gray-500 disabled:cursor-not-allowed"
+          >
+            Accept all
+          </button>
+        </div>
+      </div>
+      <div className="flex-grow overflow-y-auto p-4 leading-relaxed whitespace-pre-wrap break-words text-brand-text">
+        {blocks.map((block, i) => block.type === 'equal' ? (
+          <div key={i}>{block.lines.map((line, j) => <div key={j}>{renderLine(line)}</div>)}</div>
+        ) : (
+          <div key={i} className="group relative my-1 pr-16 rounded border-l-2 border-blue-500 bg-brand-secondary">
+            {block.removed.map((line, j) => (
+              <div key={`r${j}`} className="px-2 bg-red-900 bg-opacity-40 text-red-200 line-through">{renderLine(line)}</div>
+            ))}
+            {block.added.map((line, j) => (
+              <div key={`a${j}`} className="px-2 bg-green-900 bg-opacity-40 text-green-200">{renderLine(line)}</div>
+            ))}
+            <div className="absolute top-0.5 right-1 flex space-x-1">
+              <button
+                onClick={() => onAccept([block.hunk])}
+                disabled={disabled}
+                className="p-1 rounded text-green-400 hover:bg-brand-accent disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Accept this change"
+              >
+                <CheckIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onReject([block.hunk])}
+                disabled={disabled}
+                className="p-1 rounded text-red-400 hover:bg-brand-accent disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Reject this change"
+              >
+                <XIcon className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProposalReview;
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import type { ReviewComment, RubricCriterion, SectionReview } from '../types';
+import { AgentStatus } from '../types';
+import { MAX_SCORE, averageScore, getReviewedLines, isReviewStale } from '../services/reviewService';
+import { LoaderIcon, PlusIcon, SendIcon, TrashIcon } from './icons';
+
+interface ReviewPanelProps {
+  review?: SectionReview;
+  currentContent: string;
+  rubric: RubricCriterion[];
+  reviewAgentStatus: AgentStatus;
+  isWriterBusy: boolean;
+  onReview: () => void;
+  onSendFeedback: (comments: ReviewComment[]) => void;
+  onRubricChange: (rubric: RubricCriterion[]) => void;
+}
+
+const scoreColor = (score: number) => (score >= 4 ? 'bg-green-500' : score >= 3 ? 'bg-yellow-500' : 'bg-red-500');
+
+const RubricEditor: React.FC<{ rubric: RubricCriterion[]; onChange: (rubric: RubricCriterion[]) => void }> = ({ rubric, onChange }) => {
+  const update = (index: number, changes: Partial<RubricCriterion>) =>
+    onChange(rubric.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion)));
+  const addCriterion = () => {
+    const taken = new Set(rubric.map(c => c.id));
+    let n = rubric.length + 1;
+    while (taken.has(`criterion-${n}`)) n++;
+    onChange([...rubric, { id: `criterion-${n}`, label: 'New criterion', description: '' }]);
+  };
+
+  return (
+    <details className="bg-brand-secondary rounded-lg overflow-hidden">
+      <summary className="p-2 text-sm font-semibold cursor-pointer">Rubric ({rubric.length} criteria)</summary>
+      <div className="p-3 bg-brand-primary space-y-3 text-xs">
+        {rubric.map((criterion, i) => (
+          <div key={criterion.id} className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <input
+                value={criterion.label}
+                onChange={(e) => update(i, { label: e.target.value })}
+                className="flex-grow bg-brand-secondary border border-brand-accent rounded px-2 py-1 text-brand-text font-semibold focus:outline-none"
+              />
+              <button
+                onClick={() => onChange(rubric.filter((_, j) => j !== i))}
+                disabled={rubric.length === 1}
+                className="p-1 text-brand-light hover:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Remove criterion"
+              >
+                <TrashIcon className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <textarea
+              value={criterion.description}
+              onChange={(e) => update(i, { description: e.target.value })}
+              rows={2}
+              placeholder="What the reviewer should look for"
+              className="w-full bg-brand-secondary border border-brand-accent rounded px-2 py-1 text-brand-text focus:outline-none resize-y"
+            />
+          </div>
+        ))}
+        <button onClick={addCriterion} className="flex items-center space-x-1 text-brand-light hover:text-brand-text">
+          <PlusIcon className="w-3.5 h-3.5" />
+          <span>Add criterion</span>
+        </button>
+      </div>
+    </details>
+  );
+};
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ review, currentContent, rubric, reviewAgentStatus, isWriterBusy, onReview, onSendFeedback, onRubricChange }) => {
+  // Indexes of the comments to pass on to the Writer; all of them by default.
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  useEffect(() => {
+    setSelected(new Set(review?.comments.map((_, i) => i)));
+  }, [review?.id]);
+
+  const isReviewing = reviewAgentStatus === AgentStatus.Thinking;
+  const stale = review ? isReviewStale(review, currentContent) : false;
+  const average = review ? averageScore(review) : null;
+  const labelOf = (id?: string) => rubric.find(criterion => criterion.id === id)?.label;
+  const toggle = (index: number) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(index)) next.delete(index);
+    else next.add(index);
+    return next;
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Reviewer Agent</h3>
+        <button
+          onClick={onReview}
+          disabled={isReviewing || !currentContent.trim()}
+          className="flex items-center space-x-2 px-3 py-1.5 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed"
+          title={currentContent.trim() ? 'Score the current content against the rubric' : 'Write some content first'}
+        >
+          {isReviewing && <LoaderIcon className="w-4 h-4" />}
+          <span>{review ? 'Review again' : 'Review section'}</span>
+        </button>
+      </div>
+      <RubricEditor rubric={rubric} onChange={onRubricChange} />
+
+      {!review ? (
+        <p className="text-sm text-brand-light italic">
+          No review yet. The Reviewer scores the section against the coordinator prompt and its place in the outline.
+        </p>
+      ) : (
+        <>
+          {stale && (
+            <p className="p-2 text-xs text-yellow-200 bg-yellow-900 bg-opacity-40 rounded-md">
+              The content has changed since this review. Line numbers refer to the reviewed version.
+            </p>
+          )}
+          <div className="bg-brand-secondary rounded-lg p-3 space-y-2">
+            <div className="flex justify-between text-xs text-brand-light">
+              <span>Reviewed {new Date(review.createdAt).toLocaleString()}</span>
+              {average !== null && <span className="text-brand-text font-semibold">Average {average.toFixed(1)} / {MAX_SCORE}</span>}
+            </div>
+            {review.scores.map(score => (
+              <div key={score.criterionId} title={score.rationale}>
+                <div className="flex justify-between text-sm">
+                  <span>{labelOf(score.criterionId) || score.criterionId}</span>
+                  <span className="font-mono">{score.score}/{MAX_SCORE}</span>
+                </div>
+                <div className="h-1.5 w-full bg-brand-primary rounded overflow-hidden">
+                  <div className={`h-full ${scoreColor(score.score)}`} style={{ width: `${(score.score / MAX_SCORE) * 100}%` }} />
+                </div>
+                {score.rationale && <p className="text-xs text-brand-light mt-0.5">{score.rationale}</p>}
+              </div>
+            ))}
+            {review.summary && <p className="text-sm text-brand-text pt-1 border-t border-brand-accent">{review.summary}</p>}
+          </div>
+
+          <div>
+            <h4 className="font-semibold mb-2">Comments ({review.comments.length})</h4>
+            {review.comments.length === 0 ? (
+              <p className="text-sm text-brand-light italic">The reviewer left no line comments.</p>
+            ) : (
+              <ul className="space-y-2">
+                {review.comments.map((comment, i) => (
+                  <li key={i} className="bg-brand-secondary rounded-lg p-2 text-sm">
+                    <label className="flex items-start space-x-2 cursor-pointer">
+                      <input type="checkbox" checked={selected.has(i)} onChange={() => toggle(i)} className="mt-1 form-checkbox h-4 w-4 bg-brand-primary border-brand-accent rounded text-blue-500 focus:ring-blue-500" />
+                      <div className="flex-grow min-w-0">
+                        <div className="text-xs text-brand-light mb-1">
+                          {comment.startLine === comment.endLine ? `Line ${comment.startLine}` : `Lines ${comment.startLine}–${comment.endLine}`}
+                          {labelOf(comment.criterionId) && <span className="ml-2 px-1.5 py-0.5 bg-brand-accent rounded">{labelOf(comment.criterionId)}</span>}
+                        </div>
+                        <blockquote className="text-xs text-brand-light border-l-2 border-brand-accent pl-2 mb-1 whitespace-pre-wrap line-clamp-3">
+                          {getReviewedLines(review, comment)}
+                        </blockquote>
+                        <p>{comment.comment}</p>
+                        {comment.suggestion && (
+                          <p className="mt-1 text-xs text-green-300 whitespace-pre-wrap">
+                            <span className="font-semibold">Suggested: </span>{comment.suggestion}
+                          </p>
+                        )}
+                      </div>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <button
+            onClick={() => onSendFeedback(review.comments.filter((_, i) => selected.has(i)))}
+            disabled={isWriterBusy}
+            className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 disabled:bg-gray-500 disabled:cursor-not-allowed"
+            title="Ask the Writer Agent to revise the section using this feedback"
+          >
+            <SendIcon className="w-4 h-4" />
+            <span>Send feedback to Writer{review.comments.length > 0 ? ` (${selected.size} comments)` : ''}</span>
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReviewPanel;
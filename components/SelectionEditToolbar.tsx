@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { SELECTION_ACTIONS, TONE_OPTIONS, getSelectionInstruction, type SelectionAction } from '../services/selectionEditService';
+import { SendIcon } from './icons';
+
+interface SelectionEditToolbarProps {
+  selectedText: string;
+  disabled: boolean;
+  onRun: (instruction: string) => void;
+}
+
+const SelectionEditToolbar: React.FC<SelectionEditToolbarProps> = ({ selectedText, disabled, onRun }) => {
+  const [tone, setTone] = useState(TONE_OPTIONS[0]);
+  const [custom, setCustom] = useState('');
+  const run = (action: SelectionAction, detail?: string) => onRun(getSelectionInstruction(action, detail));
+  const words = selectedText.trim().split(/\s+/).filter(Boolean).length;
+
+  return (
+    <div
+      className="flex-shrink-0 mb-2 p-2 bg-brand-primary border border-brand-accent rounded-md flex flex-wrap items-center gap-2 text-sm"
+      // Keeps the textarea's selection while a toolbar button is clicked.
+      onMouseDown={(e) => {
+        if ((e.target as HTMLElement).tagName === 'BUTTON') e.preventDefault();
+      }}
+    >
+      <span className="text-xs text-brand-light">{words} word{words === 1 ? '' : 's'} selected:</span>
+      {SELECTION_ACTIONS.filter(action => action.id !== 'tone' && action.id !== 'custom').map(action => (
+        <button
+          key={action.id}
+          onClick={() => run(action.id)}
+          disabled={disabled}
+          className="px-2 py-1 bg-brand-accent text-brand-text rounded hover:bg-brand-light disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {action.label}
+        </button>
+      ))}
+      <span className="flex items-center">
+        <button
+          onClick={() => run('tone', tone)}
+          disabled={disabled}
+          className="px-2 py-1 bg-brand-accent text-brand-text rounded-l hover:bg-brand-light disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Tone:
+        </button>
+        <select
+          value={tone}
+          onChange={(e) => setTone(e.target.value)}
+          className="py-1 bg-brand-secondary border border-brand-accent rounded-r text-brand-text focus:outline-none"
+        >
+          {TONE_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+      </span>
+      <form
+        className="flex items-center flex-grow min-w-[12rem]"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (custom.trim()) {
+            run('custom', custom);
+            setCustom('');
+          }
+        }}
+      >
+        <input
+          value={custom}
+          onChange={(e) => setCustom(e.target.value)}
+          placeholder="Custom instruction for the selection..."
+          className="flex-grow min-w-0 px-2 py-1 bg-brand-secondary border border-brand-accent rounded-l text-brand-text focus:outline-none"
+        />
+        <button type="submit" disabled={disabled || !custom.trim()} className="p-1.5 bg-blue-600 text-white rounded-r hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed">
+          <SendIcon className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default SelectionEditToolbar;
@@ -0,0 +1,122 @@
+import React from 'react';
+import type { GlossaryTerm, HeadingCase, NarrativePerson, SpellingLocale, StyleGuide } from '../types';
+import { EMPTY_STYLE_GUIDE, HEADING_CASES, NARRATIVE_PERSONS, SPELLING_LOCALES } from '../services/styleGuideService';
+import { PlusIcon, TrashIcon } from './icons';
+
+interface StyleGuidePanelProps {
+  styleGuide?: StyleGuide;
+  onChange: (styleGuide: StyleGuide) => void;
+}
+
+const FIELD_CLASSES = 'bg-brand-secondary border border-brand-accent rounded px-2 py-1 text-brand-text focus:outline-none';
+
+const OptionSelect = <T extends string>({ label, value, options, onChange }: {
+  label: string;
+  value?: T;
+  options: { id: T; label: string }[];
+  onChange: (value: T | undefined) => void;
+}) => (
+  <label className="flex items-center justify-between space-x-2">
+    <span className="text-brand-light">{label}</span>
+    <select value={value || ''} onChange={(e) => onChange((e.target.value || undefined) as T | undefined)} className={FIELD_CLASSES}>
+      <option value="">No rule</option>
+      {options.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+    </select>
+  </label>
+);
+
+/**
+ * Edits the flow's style guide. The rules are added to the Writer, Outliner and Research
+ * prompts, and the checkable ones are flagged in the workspace.
+ */
+const StyleGuidePanel: React.FC<StyleGuidePanelProps> = ({ styleGuide = EMPTY_STYLE_GUIDE, onChange }) => {
+  const update = (changes: Partial<StyleGuide>) => onChange({ ...styleGuide, ...changes });
+  const updateTerm = (index: number, changes: Partial<GlossaryTerm>) =>
+    update({ glossary: styleGuide.glossary.map((term, i) => (i === index ? { ...term, ...changes } : term)) });
+  const addTerm = () =>
+    update({ glossary: [...styleGuide.glossary, { id: `term-${Date.now()}`, preferred: '', forbidden: [] }] });
+
+  return (
+    <div className="space-y-4 text-xs">
+      <div className="space-y-2">
+        <OptionSelect<SpellingLocale> label="Spelling" value={styleGuide.locale} options={SPELLING_LOCALES} onChange={(locale) => update({ locale })} />
+        <OptionSelect<NarrativePerson> label="Person" value={styleGuide.person} options={NARRATIVE_PERSONS} onChange={(person) => update({ person })} />
+        <OptionSelect<HeadingCase> label="Headings" value={styleGuide.headingCase} options={HEADING_CASES} onChange={(headingCase) => update({ headingCase })} />
+        <label className="flex items-center space-x-2 text-brand-light">
+          <input
+            type="checkbox"
+            checked={!!styleGuide.activeVoice}
+            onChange={(e) => update({ activeVoice: e.target.checked || undefined })}
+            className="h-4 w-4 rounded bg-brand-accent border-brand-light text-blue-600 focus:ring-blue-500"
+          />
+          <span>Prefer the active voice</span>
+        </label>
+      </div>
+
+      <div>
+        <h4 className="font-semibold text-brand-text mb-1">Glossary</h4>
+        <div className="space-y-2">
+          {styleGuide.glossary.map((term, i) => (
+            <div key={term.id} className="flex items-start space-x-2">
+              <div className="flex-grow grid grid-cols-2 gap-1">
+                <input
+                  value={term.preferred}
+                  onChange={(e) => updateTerm(i, { preferred: e.target.value })}
+                  placeholder="Preferred term"
+                  className={`${FIELD_CLASSES} font-semibold`}
+                />
+                <input
+                  value={term.forbidden.join(', ')}
+                  onChange={(e) => updateTerm(i, { forbidden: e.target.value.split(',').map(v => v.trimStart()) })}
+                  placeholder="Forbidden variants, comma-separated"
+                  className={FIELD_CLASSES}
+                />
+                <input
+                  value={term.note || ''}
+                  onChange={(e) => updateTerm(i, { note: e.target.value || undefined })}
+                  placeholder="Note for the agents (optional)"
+                  className={`${FIELD_CLASSES} col-span-2`}
+                />
+              </div>
+              <button
+                onClick={() => update({ glossary: styleGuide.glossary.filter((_, j) => j !== i) })}
+                className="p-1 text-brand-light hover:text-red-400"
+                title="Remove term"
+              >
+                <TrashIcon className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <button onClick={addTerm} className="flex items-center space-x-1 text-brand-light hover:text-brand-text">
+            <PlusIcon className="w-3.5 h-3.5" />
+            <span>Add term</span>
+          </button>
+        </div>
+      </div>
+
+      <label className="block">
+        <span className="font-semibold text-brand-text">Banned phrases</span>
+        <textarea
+          value={styleGuide.bannedPhrases.join('\n')}
+          onChange={(e) => update({ bannedPhrases: e.target.value ? e.target.value.split('\n') : [] })}
+          rows={3}
+          placeholder="One phrase per line"
+          className={`${FIELD_CLASSES} w-full mt-1 resize-y`}
+        />
+      </label>
+
+      <label className="block">
+        <span className="font-semibold text-brand-text">Other rules</span>
+        <textarea
+          value={styleGuide.notes || ''}
+          onChange={(e) => update({ notes: e.target.value || undefined })}
+          rows={3}
+          placeholder="Passed to the agents as written; not checked in the workspace"
+          className={`${FIELD_CLASSES} w-full mt-1 resize-y`}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default StyleGuidePanel;
@@ -0,0 +1,127 @@
+import React from 'react';
+import type { Project, UsageBudget } from '../types';
+import type { AgentRole } from '../services/llm/types';
+import { AGENT_LABELS, getMonthlySpend, summarizeUsage, type UsageTotals } from '../services/usageService';
+import { DownloadIcon } from './icons';
+
+interface UsagePanelProps {
+  project: Project;
+  onBudgetChange: (budget: UsageBudget | undefined) => void;
+  onExportCsv: () => void;
+}
+
+const formatUsd = (amount: number) => `$${amount < 1 && amount > 0 ? amount.toFixed(4) : amount.toFixed(2)}`;
+
+const UsageTable: React.FC<{ title: string; rows: [string, UsageTotals][] }> = ({ title, rows }) => (
+  <div className="bg-brand-primary rounded-md p-3">
+    <h3 className="font-semibold text-brand-light mb-2">{title}</h3>
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-xs text-brand-light text-left">
+          <th className="font-normal pb-1"></th>
+          <th className="font-normal pb-1 text-right">Calls</th>
+          <th className="font-normal pb-1 text-right">Tokens in / out</th>
+          <th className="font-normal pb-1 text-right">Cost</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(([label, totals]) => (
+          <tr key={label}>
+            <td className="truncate max-w-[10rem]" title={label}>{label}</td>
+            <td className="text-right font-mono">{totals.calls}</td>
+            <td className="text-right font-mono">{totals.inputTokens.toLocaleString()} / {totals.outputTokens.toLocaleString()}</td>
+            <td className="text-right font-mono">{formatUsd(totals.costUsd)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ project, onBudgetChange, onExportCsv }) => {
+  const records = project.usage || [];
+  const budget = project.usageBudget;
+  const monthlySpend = getMonthlySpend(records);
+  const total = summarizeUsage(records, () => 'all').get('all');
+  const perFlow = [...summarizeUsage(records, record => record.flowId || '')]
+    .map(([flowId, totals]): [string, UsageTotals] => [
+      flowId ? project.flows.find(f => f.id === flowId)?.name ?? '(deleted flow)' : 'Project-wide',
+      totals,
+    ]);
+  const perAgent = [...summarizeUsage(records, record => record.agent)]
+    .map(([agent, totals]): [string, UsageTotals] => [AGENT_LABELS[agent as AgentRole] || agent, totals]);
+  const overBudget = !!budget && monthlySpend >= budget.monthlyLimitUsd;
+
+  return (
+    <section className="border-t border-brand-accent pt-6">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-2xl font-semibold">Usage &amp; Cost</h2>
+        <button
+          onClick={onExportCsv}
+          disabled={records.length === 0}
+          className="flex items-center space-x-1 text-sm text-brand-light hover:text-brand-text disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Download every recorded agent call as CSV"
+        >
+          <DownloadIcon className="w-4 h-4" />
+          <span className="underline">Export CSV</span>
+        </button>
+      </div>
+      <p className="text-sm text-brand-light mb-4">
+        Every agent call is recorded with its token counts, model, latency and estimated cost. Calls whose
+        token counts the provider did not report are estimated from their text.
+      </p>
+      <div className="flex flex-wrap items-center gap-4 p-3 bg-brand-primary rounded-md mb-4 text-sm">
+        <div>
+          <span className="text-brand-light">This month: </span>
+          <span className={`font-semibold ${overBudget ? 'text-red-300' : 'text-brand-text'}`}>{formatUsd(monthlySpend)}</span>
+          {budget && <span className="text-brand-light"> of {formatUsd(budget.monthlyLimitUsd)}</span>}
+        </div>
+        <div className="text-brand-light">
+          All time: <span className="text-brand-text">{formatUsd(total?.costUsd || 0)}</span> over {total?.calls || 0} calls
+        </div>
+        <div className="flex items-center space-x-2 ml-auto">
+          <label className="flex items-center space-x-1 text-brand-light">
+            <span>Monthly budget $</span>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={budget?.monthlyLimitUsd ?? ''}
+              placeholder="None"
+              onChange={(e) => {
+                const limit = e.target.value === '' ? NaN : Number(e.target.value);
+                onBudgetChange(limit >= 0 ? { monthlyLimitUsd: limit, mode: budget?.mode || 'warn' } : undefined);
+              }}
+              className="w-20 bg-brand-secondary border border-brand-accent rounded-md px-2 py-1 text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-light"
+            />
+          </label>
+          <select
+            value={budget?.mode || 'warn'}
+            disabled={!budget}
+            onChange={(e) => budget && onBudgetChange({ ...budget, mode: e.target.value as UsageBudget['mode'] })}
+            className="bg-brand-secondary border border-brand-accent rounded-md px-2 py-1 text-brand-text focus:outline-none disabled:opacity-50"
+            title="What happens to new agent calls once the budget is used up"
+          >
+            <option value="warn">Warn</option>
+            <option value="block">Block</option>
+          </select>
+        </div>
+      </div>
+      {overBudget && (
+        <p className="text-sm text-red-300 mb-4">
+          The monthly budget is used up. {budget?.mode === 'block' ? 'New agent calls are blocked.' : 'New agent calls show a warning.'}
+        </p>
+      )}
+      {records.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">No agent calls recorded yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <UsageTable title="Per flow" rows={perFlow} />
+          <UsageTable title="Per agent" rows={perAgent} />
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default UsagePanel;
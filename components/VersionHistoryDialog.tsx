@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import type { SectionVersion, SectionVersionKind } from '../types';
+import { diffLines, toSideBySide, summarizeDiff, type SideBySideCell } from '../services/diffService';
+import { XIcon } from './icons';
+
+interface VersionHistoryDialogProps {
+  versions: SectionVersion[];
+  currentContent: string;
+  onRestore: (versionId: string) => void;
+  onClose: () => void;
+}
+
+const kindConfig: Record<SectionVersionKind, { label: string; className: string }> = {
+  generation: { label: 'AI generation', className: 'bg-blue-900 text-blue-200' },
+  edit: { label: 'AI edit', className: 'bg-purple-900 text-purple-200' },
+  manual: { label: 'Manual checkpoint', className: 'bg-brand-accent text-brand-text' },
+  commit: { label: 'Committed', className: 'bg-green-800 text-green-200' },
+};
+
+const cellClassName = (cell?: SideBySideCell) => {
+  if (!cell) return 'bg-brand-secondary';
+  if (cell.type === 'delete') return 'bg-red-900 bg-opacity-40';
+  if (cell.type === 'insert') return 'bg-green-900 bg-opacity-40';
+  return '';
+};
+
+const DiffCell: React.FC<{ cell?: SideBySideCell }> = ({ cell }) => (
+  <div className={`flex min-w-0 ${cellClassName(cell)}`}>
+    <span className="w-10 flex-shrink-0 pr-2 text-right text-gray-500 select-none">{cell?.lineNumber ?? ''}</span>
+    <span className="flex-grow whitespace-pre-wrap break-words">{cell?.text ?? ''}</span>
+  </div>
+);
+
+const VersionHistoryDialog: React.FC<VersionHistoryDialogProps> = ({ versions, currentContent, onRestore, onClose }) => {
+  const newestFirst = useMemo(() => [...versions].reverse(), [versions]);
+  const [selectedId, setSelectedId] = useState<string | null>(newestFirst[0]?.id ?? null);
+  const [compareTo, setCompareTo] = useState<'current' | 'previous'>('current');
+
+  const selectedIndex = versions.findIndex(v => v.id === selectedId);
+  const selected = selectedIndex >= 0 ? versions[selectedIndex] : null;
+  // The selected version is always on the left; the right side is what it changed into.
+  const [baseText, otherText, otherLabel] = compareTo === 'current'
+    ? [selected?.content ?? '', currentContent, 'Current draft']
+    : [versions[selectedIndex - 1]?.content ?? '', selected?.content ?? '', 'This version'];
+  const leftLabel = compareTo === 'current' ? 'This version' : 'Previous version';
+
+  const ops = useMemo(() => diffLines(baseText, otherText), [baseText, otherText]);
+  const rows = useMemo(() => toSideBySide(ops), [ops]);
+  const { added, removed } = summarizeDiff(ops);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 animate-fade-in">
+      <div className="w-full max-w-6xl h-5/6 bg-brand-secondary rounded-lg shadow-2xl p-6 flex flex-col">
+        <div className="flex-shrink-0 flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-brand-text">Version History</h2>
+          <button onClick={onClose} className="p-1 text-brand-light hover:text-brand-text" title="Close">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        {versions.length === 0 ? (
+          <p className="text-sm text-brand-light">
+            No versions yet. A version is saved for every agent generation, every commit, and whenever you save a checkpoint.
+          </p>
+        ) : (
+          <div className="flex-grow flex space-x-4 min-h-0">
+            <ul className="w-64 flex-shrink-0 overflow-y-auto space-y-1">
+              {newestFirst.map(version => (
+                <li key={version.id}>
+                  <button
+                    onClick={() => setSelectedId(version.id)}
+                    className={`w-full text-left p-2 rounded-md transition-colors duration-200 ${version.id === selectedId ? 'bg-brand-accent' : 'hover:bg-brand-primary'}`}
+                  >
+                    <span className={`inline-block text-xs px-2 py-0.5 rounded-full ${kindConfig[version.kind].className}`}>
+                      {kindConfig[version.kind].label}
+                    </span>
+                    <p className="text-xs text-brand-light mt-1">{new Date(version.createdAt).toLocaleString()}</p>
+                    {version.prompt && <p className="text-xs text-brand-text mt-1 truncate" title={version.prompt}>{version.prompt}</p>}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {selected && (
+              <div className="flex-grow flex flex-col min-w-0">
+                <div className="flex-shrink-0 flex justify-between items-center mb-2 text-sm">
+                  <div className="flex items-center space-x-2 text-brand-light">
+                    <span>Compare with</span>
+                    <select
+                      value={compareTo}
+                      onChange={(e) => setCompareTo(e.target.value as 'current' | 'previous')}
+                      className="p-1 bg-brand-primary border border-brand-accent rounded-md text-brand-text focus:outline-none"
+                    >
+                      <option value="current">current draft</option>
+                      <option value="previous">previous version</option>
+                    </select>
+                    <span className="text-green-400">+{added}</span>
+                    <span className="text-red-400">-{removed}</span>
+                  </div>
+                  <button
+                    onClick={() => { onRestore(selected.id); onClose(); }}
+                    disabled={selected.content === currentContent}
+                    className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-colors duration-200 disabled:bg-gray-500 disabled:cursor-not-allowed"
+                  >
+                    Restore this version
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 text-xs font-semibold text-brand-light mb-1">
+                  <span>{leftLabel}</span>
+                  <span>{otherLabel}</span>
+                </div>
+                <div className="flex-grow overflow-y-auto bg-brand-primary border border-brand-accent rounded-md font-mono text-xs text-brand-text">
+                  {rows.map((row, i) => (
+                    <div key={i} className="grid grid-cols-2 divide-x divide-brand-accent">
+                      <DiffCell cell={row.left} />
+                      <DiffCell cell={row.right} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistoryDialog;
@@ -1,30 +1,112 @@
 
 
-import React from 'react';
-import type { OutlineItem } from '../types';
-import { CheckSquareIcon } from './icons';
+import React, { useEffect, useRef, useState } from 'react';
+import type { OutlineItem, ProposedChange, SectionVersion } from '../types';
+import type { OutlineParseError } from '../services/outlineService';
+import type { UnresolvedCitation } from '../services/citationService';
+import { applyStyleSuggestion, STYLE_RULE_LABELS, type StyleIssue } from '../services/styleGuideService';
+import { CheckSquareIcon, HistoryIcon } from './icons';
+import VersionHistoryDialog from './VersionHistoryDialog';
+import SelectionEditToolbar from './SelectionEditToolbar';
+import ProposalReview from './ProposalReview';
+import MarkdownEditor from './MarkdownEditor';
+import type { SelectionRange } from '../services/selectionEditService';
 
 interface WorkspaceProps {
   activeSection: OutlineItem | null;
   content: string;
+  isStreaming: boolean; // True while the Writer Agent is streaming into `content`
   onContentChange: (newContent: string) => void;
   onCommit: () => void;
+  versions: SectionVersion[];
+  onSaveCheckpoint: () => void;
+  onRestoreVersion: (versionId: string) => void;
+  onEditSelection: (range: SelectionRange, instruction: string) => void; // Has the Writer rework only the selected span
+  unresolvedCitations: UnresolvedCitation[]; // Citations in `content` that no longer match a source
+  styleIssues: StyleIssue[]; // Style guide violations in `content`
+  proposal?: ProposedChange; // Agent output awaiting review, for the section or the outline draft
+  onAcceptProposal: (hunks?: number[]) => void;
+  onRejectProposal: (hunks?: number[]) => void;
   // New props for outlining mode
   outlineDraft: string;
   onOutlineDraftChange: (newDraft: string) => void;
   onFinalizeOutline: () => void;
+  onFinalizeOutlineWithAgent: () => void;
+  outlineErrors: OutlineParseError[]; // Problems found in the draft by the local parser
+  isAgentBusy: boolean;
+  focusRange?: SelectionRange & { requestId: number } | null; // A passage to select and scroll to, such as a consistency finding
 }
 
 const Workspace: React.FC<WorkspaceProps> = ({ 
     activeSection, 
     content, 
+    isStreaming,
     onContentChange, 
     onCommit,
+    versions,
+    onSaveCheckpoint,
+    onRestoreVersion,
+    onEditSelection,
+    unresolvedCitations,
+    styleIssues,
+    proposal,
+    onAcceptProposal,
+    onRejectProposal,
     outlineDraft,
     onOutlineDraftChange,
-    onFinalizeOutline
+    onFinalizeOutline,
+    onFinalizeOutlineWithAgent,
+    outlineErrors,
+    isAgentBusy,
+    focusRange
 }) => {
   const isOutlining = !activeSection;
+  const isReviewing = !!proposal && !isStreaming;
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [selection, setSelection] = useState<SelectionRange | null>(null);
+
+  const trackSelection = () => {
+    const textarea = textareaRef.current;
+    if (isOutlining) return;
+    if (!textarea) {
+      setSelection(null);
+      return;
+    }
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    setSelection(prev => (end > start ? (prev?.start === start && prev.end === end ? prev : { start, end }) : null));
+  };
+
+  // A selection only makes sense for the text it was made in.
+  useEffect(() => setSelection(null), [activeSection?.id]);
+  const selectedText = selection ? content.slice(selection.start, selection.end) : '';
+
+  // Focusing after the selection is set scrolls it into view.
+  const selectRange = (range: SelectionRange) => {
+    const textarea = textareaRef.current;
+    if (!textarea || isOutlining) return;
+    textarea.blur();
+    textarea.setSelectionRange(range.start, range.end);
+    textarea.focus();
+    trackSelection();
+  };
+
+  // Select a passage picked elsewhere, such as a consistency finding.
+  useEffect(() => {
+    if (focusRange) selectRange(focusRange);
+  }, [focusRange]);
+
+  const applySuggestion = (issue: StyleIssue) => {
+    const fixed = applyStyleSuggestion(content, issue);
+    if (fixed !== null) onContentChange(fixed);
+  };
+
+  // Keep the newest streamed text in view.
+  useEffect(() => {
+    if (isStreaming && textareaRef.current) {
+      textareaRef.current.scrollTop = textareaRef.current.scrollHeight;
+    }
+  }, [isStreaming, content]);
 
   return (
     <main className="w-full h-full bg-brand-secondary flex flex-col p-6 overflow-hidden">
@@ -36,33 +118,140 @@ const Workspace: React.FC<WorkspaceProps> = ({
             <button
                 onClick={onFinalizeOutline}
                 className="px-4 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-opacity-50 transition-colors duration-200 flex items-center space-x-2 disabled:bg-gray-500 disabled:cursor-not-allowed"
-                disabled={!outlineDraft.trim()}
+                disabled={!outlineDraft.trim() || isAgentBusy || isReviewing}
+                title={isReviewing ? 'Accept or reject the proposed changes first' : undefined}
             >
                 <CheckSquareIcon className="w-5 h-5" />
                 <span>Finalize Outline</span>
             </button>
         ) : (
+          <div className="flex items-center space-x-2 flex-shrink-0">
+            <button
+                onClick={() => setIsHistoryOpen(true)}
+                className="px-3 py-2 bg-brand-accent text-brand-text font-semibold rounded-lg hover:bg-brand-light transition-colors duration-200 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={isStreaming}
+                title="Browse, compare and restore earlier versions"
+            >
+                <HistoryIcon className="w-5 h-5" />
+                <span>History ({versions.length})</span>
+            </button>
+            <button
+                onClick={onSaveCheckpoint}
+                className="px-3 py-2 bg-brand-accent text-brand-text font-semibold rounded-lg hover:bg-brand-light transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={!content || isStreaming}
+                title="Save the current text as a version"
+            >
+                Checkpoint
+            </button>
             <button
                 onClick={onCommit}
                 className="px-4 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-opacity-50 transition-colors duration-200 flex items-center space-x-2 disabled:bg-gray-500 disabled:cursor-not-allowed"
-                disabled={!content}
+                disabled={!content || isStreaming || isReviewing}
+                title={isReviewing ? 'Accept or reject the proposed changes first' : undefined}
             >
                 <CheckSquareIcon className="w-5 h-5" />
                 <span>Commit to Document</span>
             </button>
+          </div>
         )}
       </div>
-      <div className="flex-grow overflow-y-auto">
-        <textarea
-          value={isOutlining ? outlineDraft : content}
-          onChange={(e) => isOutlining ? onOutlineDraftChange(e.target.value) : onContentChange(e.target.value)}
-          placeholder={isOutlining 
-            ? "The AI-generated outline will appear here. Edit as needed, using hyphens and indentation for structure." 
-            : "AI-generated content will appear here. You can edit it directly."
-          }
-          className="w-full h-full p-4 bg-brand-primary border border-brand-accent rounded-md resize-none focus:outline-none focus:ring-2 focus:ring-brand-light text-brand-text leading-relaxed"
+      {!isOutlining && !isStreaming && !isReviewing && selectedText.trim() && (
+        <SelectionEditToolbar
+          selectedText={selectedText}
+          disabled={isAgentBusy}
+          onRun={(instruction) => selection && onEditSelection(selection, instruction)}
         />
+      )}
+      <div className="flex-grow min-h-0">
+        {isReviewing && proposal ? (
+          <ProposalReview
+            proposal={proposal}
+            agentName={isOutlining ? 'The Outliner Agent' : 'The Writer Agent'}
+            disabled={isAgentBusy}
+            onAccept={onAcceptProposal}
+            onReject={onRejectProposal}
+          />
+        ) : (
+          <MarkdownEditor
+            key={isOutlining ? 'outline' : 'section'}
+            textareaRef={textareaRef}
+            variant={isOutlining ? 'outline' : 'document'}
+            value={isOutlining ? outlineDraft : content}
+            readOnly={!isOutlining && isStreaming}
+            onChange={isOutlining ? onOutlineDraftChange : onContentChange}
+            onSelectionChange={trackSelection}
+            flaggedRanges={isOutlining || isStreaming ? undefined : styleIssues}
+            placeholder={isOutlining 
+              ? "The AI-generated outline will appear here. Edit as needed, using Markdown lists (-, *, 1.) with indentation and # headings for structure. Tab and Shift+Tab nest list items." 
+              : "AI-generated content will appear here. You can edit it directly."
+            }
+          />
+        )}
       </div>
+      {!isOutlining && unresolvedCitations.length > 0 && (
+        <div className="flex-shrink-0 mt-4 p-3 bg-yellow-900 bg-opacity-30 border border-yellow-700 rounded-md text-sm text-yellow-200">
+          <h3 className="font-semibold text-yellow-300 mb-1">Unresolved citations</h3>
+          <p>
+            {unresolvedCitations.map((citation, i) => (
+              <span key={citation.key}>
+                {i > 0 && ', '}
+                <code className="font-mono">[@{citation.key}]</code> ({citation.reason === 'removed' ? 'source removed' : 'not in the bibliography'})
+              </span>
+            ))}
+          </p>
+        </div>
+      )}
+      {!isOutlining && !isStreaming && !isReviewing && styleIssues.length > 0 && (
+        <details className="flex-shrink-0 mt-4 p-3 bg-orange-900 bg-opacity-30 border border-orange-700 rounded-md text-sm text-orange-200">
+          <summary className="font-semibold text-orange-300 cursor-pointer">Style guide ({styleIssues.length} issue{styleIssues.length === 1 ? '' : 's'})</summary>
+          <ul className="mt-2 max-h-32 overflow-y-auto space-y-1">
+            {styleIssues.map(issue => (
+              <li key={`${issue.rule}-${issue.start}-${issue.end}`} className="flex items-center justify-between space-x-2">
+                <button onClick={() => selectRange(issue)} className="text-left min-w-0 truncate hover:text-orange-100" title="Select in the editor">
+                  <span className="font-semibold">{STYLE_RULE_LABELS[issue.rule]}:</span> {issue.message}
+                </button>
+                {issue.suggestion !== undefined && (
+                  <button
+                    onClick={() => applySuggestion(issue)}
+                    className="flex-shrink-0 px-2 py-0.5 text-xs bg-brand-accent text-brand-text rounded hover:bg-brand-light"
+                    title={`Replace with "${issue.suggestion}"`}
+                  >
+                    Fix
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {isOutlining && outlineErrors.length > 0 && (
+        <div className="flex-shrink-0 mt-4 p-3 bg-red-900 bg-opacity-30 border border-red-700 rounded-md text-sm">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="font-semibold text-red-300">The outline could not be parsed</h3>
+            <button
+                onClick={onFinalizeOutlineWithAgent}
+                disabled={isAgentBusy}
+                className="px-3 py-1 bg-brand-accent text-brand-text rounded-md hover:bg-brand-light transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Let the Outliner Agent structure free-form text"
+            >
+                Structure with Outliner Agent
+            </button>
+          </div>
+          <ul className="max-h-32 overflow-y-auto space-y-1 text-red-200">
+            {outlineErrors.map((error, i) => (
+              <li key={i}><span className="font-mono">Line {error.line}:</span> {error.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {isHistoryOpen && !isOutlining && (
+        <VersionHistoryDialog
+          versions={versions}
+          currentContent={content}
+          onRestore={onRestoreVersion}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
     </main>
   );
 };
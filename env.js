@@ -3,5 +3,11 @@
 var process = {
   env: {
     API_KEY: "YOUR_API_KEY_HERE",
+    // Optional: choose the LLM backend. One of "gemini" (default), "openai-compatible" or "mock".
+    // LLM_PROVIDER: "openai-compatible",
+    // LLM_BASE_URL: "http://localhost:11434/v1", // e.g. a local Ollama or llama.cpp server
+    // LLM_MODEL: "llama3.1",
+    // LLM_EMBEDDING_MODEL: "nomic-embed-text", // enables embedding search; otherwise keyword (BM25) search is used
+    // LLM_API_KEY: "", // only if the endpoint requires one
   },
 };
@@ -0,0 +1,408 @@
+import { SectionStatus, type Project, type Flow } from '../types';
+import { createZip, readZip, type ZipEntry } from './zip';
+import {
+  CURRENT_SCHEMA_VERSION,
+  serializeProject,
+  migrateProjectRecord,
+  hydrateProject,
+  collectFiles,
+  getFileId,
+  registerFileId,
+  type StoredProject,
+  type StoredFileRef,
+} from './storageService';
+
+// A .maswriter bundle is a ZIP archive containing `manifest.json` (the serialized project
+// plus an index of its files) and the raw bytes of every referenced file under `files/`.
+export const BUNDLE_EXTENSION = '.maswriter';
+const BUNDLE_FORMAT = 'maswriter-bundle';
+const BUNDLE_FORMAT_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+interface BundleFileEntry extends StoredFileRef {
+  path: string;
+  size: number;
+}
+
+interface BundleManifest {
+  format: string;
+  formatVersion: number;
+  schemaVersion: number;
+  exportedAt: string;
+  project: StoredProject;
+  files: BundleFileEntry[];
+}
+
+/**
+ * Packs a project, including all of its flows and knowledge files, into a single archive.
+ * @param project The project to export.
+ * @returns The .maswriter archive as a Blob.
+ */
+export const exportProjectBundle = async (project: Project): Promise<Blob> => {
+  const uniqueFiles = new Map<string, File>();
+  for (const file of collectFiles(project)) {
+    uniqueFiles.set(getFileId(file), file);
+  }
+
+  const entries: ZipEntry[] = [];
+  const fileIndex: BundleFileEntry[] = [];
+  for (const [id, file] of uniqueFiles) {
+    const path = `files/${id}`;
+    entries.push({ name: path, data: new Uint8Array(await file.arrayBuffer()) });
+    fileIndex.push({ id, name: file.name, type: file.type, lastModified: file.lastModified, path, size: file.size });
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    // The retrieval index is rebuilt from the files on import, so it is not worth shipping.
+    project: { ...serializeProject(project), knowledgeIndex: undefined },
+    files: fileIndex,
+  };
+  entries.unshift({ name: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+
+  return createZip(entries, 'application/x-maswriter');
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isStringArray = (value: unknown): boolean => Array.isArray(value) && value.every(isString);
+const SECTION_STATUSES = Object.values(SectionStatus) as string[];
+const VERSION_KINDS = ['generation', 'edit', 'manual', 'commit'];
+const SOURCE_TYPES = ['research', 'file'];
+const USAGE_STATUSES = ['ok', 'aborted', 'error'];
+const CITATION_STYLES = ['apa', 'ieee', 'chicago'];
+const CONSISTENCY_KINDS = ['terminology', 'figure', 'duplicate', 'reference'];
+const SPELLING_LOCALES = ['en-US', 'en-GB'];
+const NARRATIVE_PERSONS = ['first-singular', 'first-plural', 'second', 'third'];
+const HEADING_CASES = ['sentence', 'title'];
+
+const validateMessages = (messages: unknown, path: string, errors: string[]) => {
+  if (!Array.isArray(messages)) {
+    errors.push(`${path} must be an array.`);
+    return;
+  }
+  messages.forEach((msg: any, i) => {
+    if (msg?.sender !== 'user' && msg?.sender !== 'agent') errors.push(`${path}[${i}].sender must be "user" or "agent".`);
+    if (!isString(msg?.text)) errors.push(`${path}[${i}].text must be a string.`);
+  });
+};
+
+const validateOutline = (items: unknown, path: string, errors: string[]) => {
+  if (!Array.isArray(items)) {
+    errors.push(`${path} must be an array.`);
+    return;
+  }
+  items.forEach((item: any, i) => {
+    const itemPath = `${path}[${i}]`;
+    if (!isString(item?.id)) errors.push(`${itemPath}.id must be a string.`);
+    if (!isString(item?.title)) errors.push(`${itemPath}.title must be a string.`);
+    if (typeof item?.level !== 'number') errors.push(`${itemPath}.level must be a number.`);
+    if (!SECTION_STATUSES.includes(item?.status)) errors.push(`${itemPath}.status must be one of ${SECTION_STATUSES.join(', ')}.`);
+    validateOutline(item?.children, `${itemPath}.children`, errors);
+  });
+};
+
+const validateFileRefs = (refs: unknown, path: string, knownIds: Set<string>, errors: string[]) => {
+  if (!Array.isArray(refs)) {
+    errors.push(`${path} must be an array.`);
+    return;
+  }
+  refs.forEach((ref: any, i) => {
+    if (!isString(ref?.id) || !knownIds.has(ref.id)) errors.push(`${path}[${i}] refers to a file missing from the bundle.`);
+  });
+};
+
+const validateProposal = (proposal: any, path: string, errors: string[]) => {
+  if (proposal === undefined) return;
+  if (![proposal?.id, proposal?.base, proposal?.proposed].every(isString) || typeof proposal?.createdAt !== 'number') {
+    errors.push(`${path} must have string id, base and proposed, and a numeric createdAt.`);
+  }
+};
+
+/**
+ * Checks that a migrated project record matches the shapes declared in `types.ts`.
+ * @returns A list of human-readable problems; empty if the record is valid.
+ */
+export const validateProjectRecord = (record: StoredProject, fileIds: Set<string>): string[] => {
+  const errors: string[] = [];
+  if (!isString(record.id)) errors.push('project.id must be a string.');
+  if (!isString(record.name)) errors.push('project.name must be a string.');
+  validateFileRefs(record.globalKnowledgeFiles, 'project.globalKnowledgeFiles', fileIds, errors);
+  if (record.usage !== undefined) {
+    if (!Array.isArray(record.usage)) {
+      errors.push('project.usage must be an array.');
+    } else {
+      record.usage.forEach((entry: any, i: number) => {
+        const counts = [entry?.timestamp, entry?.inputTokens, entry?.outputTokens, entry?.latencyMs, entry?.costUsd];
+        if (![entry?.id, entry?.agent, entry?.provider, entry?.model].every(isString) || !counts.every(n => typeof n === 'number') || !USAGE_STATUSES.includes(entry?.status)) {
+          errors.push(`project.usage[${i}] must have string id, agent, provider and model, numeric counts and cost, and a status of ${USAGE_STATUSES.join(', ')}.`);
+        }
+      });
+    }
+  }
+  if (record.usageBudget !== undefined && (typeof record.usageBudget?.monthlyLimitUsd !== 'number' || !['warn', 'block'].includes(record.usageBudget?.mode))) {
+    errors.push('project.usageBudget must have a numeric monthlyLimitUsd and a mode of warn or block.');
+  }
+  if (!Array.isArray(record.flows)) {
+    errors.push('project.flows must be an array.');
+    return errors;
+  }
+
+  record.flows.forEach((flow: any, f) => {
+    const flowPath = `flows[${f}]`;
+    if (!isString(flow?.id)) errors.push(`${flowPath}.id must be a string.`);
+    if (!isString(flow?.name)) errors.push(`${flowPath}.name must be a string.`);
+    if (!isString(flow?.coordinatorPrompt)) errors.push(`${flowPath}.coordinatorPrompt must be a string.`);
+    if (!isString(flow?.outlineDraft)) errors.push(`${flowPath}.outlineDraft must be a string.`);
+    validateOutline(flow?.outline, `${flowPath}.outline`, errors);
+    validateMessages(flow?.outlinerMessages, `${flowPath}.outlinerMessages`, errors);
+    validateProposal(flow?.outlineProposal, `${flowPath}.outlineProposal`, errors);
+    if (flow?.citationStyle !== undefined && !CITATION_STYLES.includes(flow.citationStyle)) {
+      errors.push(`${flowPath}.citationStyle must be one of ${CITATION_STYLES.join(', ')}.`);
+    }
+    if (flow?.contextBudget !== undefined && (typeof flow.contextBudget?.maxTokens !== 'number' || typeof flow.contextBudget?.components !== 'object')) {
+      errors.push(`${flowPath}.contextBudget must have a numeric maxTokens and a components object.`);
+    }
+    if (flow?.bibliography !== undefined) {
+      if (!Array.isArray(flow.bibliography)) {
+        errors.push(`${flowPath}.bibliography must be an array.`);
+      } else {
+        flow.bibliography.forEach((entry: any, i: number) => {
+          if (![entry?.key, entry?.sourceId, entry?.title].every(isString) || !SOURCE_TYPES.includes(entry?.sourceType) || typeof entry?.addedAt !== 'number') {
+            errors.push(`${flowPath}.bibliography[${i}] must have string key, sourceId and title, numeric addedAt and a sourceType of ${SOURCE_TYPES.join(', ')}.`);
+          }
+        });
+      }
+    }
+    if (flow?.reviewRubric !== undefined) {
+      if (!Array.isArray(flow.reviewRubric)) {
+        errors.push(`${flowPath}.reviewRubric must be an array.`);
+      } else {
+        flow.reviewRubric.forEach((criterion: any, i: number) => {
+          if (![criterion?.id, criterion?.label, criterion?.description].every(isString)) {
+            errors.push(`${flowPath}.reviewRubric[${i}] must have string id, label and description.`);
+          }
+        });
+      }
+    }
+    if (flow?.consistencyReport !== undefined) {
+      const report = flow.consistencyReport;
+      if (typeof report?.createdAt !== 'number' || !isStringArray(report?.sectionIds) || !Array.isArray(report?.findings)) {
+        errors.push(`${flowPath}.consistencyReport must have a numeric createdAt, an array of string sectionIds and a findings array.`);
+      } else {
+        report.findings.forEach((finding: any, i: number) => {
+          if (![finding?.id, finding?.sectionId, finding?.excerpt, finding?.message, finding?.fix].every(isString) ||
+              typeof finding?.start !== 'number' || typeof finding?.end !== 'number' || !CONSISTENCY_KINDS.includes(finding?.kind)) {
+            errors.push(`${flowPath}.consistencyReport.findings[${i}] must have string id, sectionId, excerpt, message and fix, numeric start and end, and a kind of ${CONSISTENCY_KINDS.join(', ')}.`);
+          }
+        });
+      }
+    }
+    if (flow?.styleGuide !== undefined) {
+      const guide = flow.styleGuide;
+      if (!Array.isArray(guide?.glossary) || !isStringArray(guide?.bannedPhrases)) {
+        errors.push(`${flowPath}.styleGuide must have a glossary array and an array of string bannedPhrases.`);
+      } else {
+        guide.glossary.forEach((term: any, i: number) => {
+          if (![term?.id, term?.preferred].every(isString) || !isStringArray(term?.forbidden)) {
+            errors.push(`${flowPath}.styleGuide.glossary[${i}] must have string id and preferred, and an array of string forbidden variants.`);
+          }
+        });
+      }
+      if (guide?.locale !== undefined && !SPELLING_LOCALES.includes(guide.locale)) errors.push(`${flowPath}.styleGuide.locale must be one of ${SPELLING_LOCALES.join(', ')}.`);
+      if (guide?.person !== undefined && !NARRATIVE_PERSONS.includes(guide.person)) errors.push(`${flowPath}.styleGuide.person must be one of ${NARRATIVE_PERSONS.join(', ')}.`);
+      if (guide?.headingCase !== undefined && !HEADING_CASES.includes(guide.headingCase)) errors.push(`${flowPath}.styleGuide.headingCase must be one of ${HEADING_CASES.join(', ')}.`);
+    }
+
+    if (flow?.promptCache !== undefined) {
+      if (typeof flow.promptCache !== 'object' || flow.promptCache === null || Array.isArray(flow.promptCache)) {
+        errors.push(`${flowPath}.promptCache must be an object.`);
+      } else {
+        Object.entries(flow.promptCache).forEach(([key, entry]: [string, any]) => {
+          if (!isString(entry?.text) || typeof entry?.createdAt !== 'number') {
+            errors.push(`${flowPath}.promptCache["${key}"] must have a string text and a numeric createdAt.`);
+          }
+        });
+      }
+    }
+    if (flow?.forkedFrom !== undefined) {
+      const lineage = flow.forkedFrom;
+      if (!isString(lineage?.flowId) || !isString(lineage?.flowName) || typeof lineage?.createdAt !== 'number') {
+        errors.push(`${flowPath}.forkedFrom must have string flowId and flowName and a numeric createdAt.`);
+      }
+    }
+    Object.entries(flow?.contents || {}).forEach(([id, content]: [string, any]) => {
+      const contentPath = `${flowPath}.contents["${id}"]`;
+      if (!isString(content?.content)) errors.push(`${contentPath}.content must be a string.`);
+      if (content?.systemPrompt !== undefined && !isString(content.systemPrompt)) errors.push(`${contentPath}.systemPrompt must be a string.`);
+      if (content?.systemPromptKey !== undefined && !isString(content.systemPromptKey)) errors.push(`${contentPath}.systemPromptKey must be a string.`);
+      if (content?.guidance !== undefined && !isString(content.guidance)) errors.push(`${contentPath}.guidance must be a string.`);
+      if (!isStringArray(content?.contextIds)) errors.push(`${contentPath}.contextIds must be an array of strings.`);
+      if (content?.crossFlowRefs !== undefined) {
+        if (!Array.isArray(content.crossFlowRefs)) {
+          errors.push(`${contentPath}.crossFlowRefs must be an array.`);
+        } else {
+          content.crossFlowRefs.forEach((ref: any, i: number) => {
+            if (![ref?.flowId, ref?.sectionId, ref?.flowName, ref?.sectionTitle, ref?.content].every(isString) || typeof ref?.selectedAt !== 'number') {
+              errors.push(`${contentPath}.crossFlowRefs[${i}] must have string flowId, sectionId, flowName, sectionTitle and content, and a numeric selectedAt.`);
+            }
+          });
+        }
+      }
+      validateMessages(content?.messages, `${contentPath}.messages`, errors);
+      validateFileRefs(content?.sessionFiles, `${contentPath}.sessionFiles`, fileIds, errors);
+      if (content?.excludedSessionFileIds !== undefined && !isStringArray(content.excludedSessionFileIds)) {
+        errors.push(`${contentPath}.excludedSessionFileIds must be an array of strings.`);
+      }
+      if (content?.versions !== undefined) {
+        if (!Array.isArray(content.versions)) {
+          errors.push(`${contentPath}.versions must be an array.`);
+        } else {
+          content.versions.forEach((v: any, i: number) => {
+            if (!isString(v?.id) || !isString(v?.content) || typeof v?.createdAt !== 'number' || !VERSION_KINDS.includes(v?.kind)) {
+              errors.push(`${contentPath}.versions[${i}] must have string id and content, numeric createdAt and a kind of ${VERSION_KINDS.join(', ')}.`);
+            }
+          });
+        }
+      }
+      if (content?.research_results !== undefined) {
+        if (!Array.isArray(content.research_results)) {
+          errors.push(`${contentPath}.research_results must be an array.`);
+        } else {
+          content.research_results.forEach((r: any, i: number) => {
+            if (![r?.id, r?.title, r?.url, r?.summary].every(isString)) {
+              errors.push(`${contentPath}.research_results[${i}] must have string id, title, url and summary.`);
+            }
+          });
+        }
+      }
+      if (content?.review !== undefined) {
+        const review = content.review;
+        if (![review?.id, review?.summary, review?.content].every(isString) || typeof review?.createdAt !== 'number' || !Array.isArray(review?.scores) || !Array.isArray(review?.comments)) {
+          errors.push(`${contentPath}.review must have string id, summary and content, numeric createdAt, and scores and comments arrays.`);
+        }
+      }
+      validateProposal(content?.proposal, `${contentPath}.proposal`, errors);
+    });
+  });
+  return errors;
+};
+
+/**
+ * Reads and validates a .maswriter archive.
+ * @param bundle The archive file chosen by the user.
+ * @returns The project it contains, with its files restored as File objects.
+ */
+export const importProjectBundle = async (bundle: Blob): Promise<Project> => {
+  let archive: Map<string, Uint8Array>;
+  let manifest: BundleManifest;
+  try {
+    archive = await readZip(bundle);
+    const manifestBytes = archive.get(MANIFEST_PATH);
+    if (!manifestBytes) throw new Error("The archive has no manifest.");
+    manifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch (error) {
+    console.error("Failed to read project bundle:", error);
+    throw new Error("This file is not a readable MAS-Writer bundle.");
+  }
+
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new Error("This file is not a MAS-Writer bundle.");
+  }
+  if (manifest.formatVersion > BUNDLE_FORMAT_VERSION) {
+    throw new Error("This bundle was created by a newer version of MAS-Writer.");
+  }
+
+  const record = migrateProjectRecord({ ...manifest.project, schemaVersion: manifest.schemaVersion });
+  if (!record) {
+    throw new Error("This bundle was created by a newer version of MAS-Writer.");
+  }
+
+  const files = new Map<string, File>();
+  for (const entry of manifest.files || []) {
+    const data = archive.get(entry.path);
+    if (!data) continue;
+    const file = new File([data as BlobPart], entry.name, { type: entry.type, lastModified: entry.lastModified });
+    // Keep the original id so settings keyed by file id (e.g. excluded session files) still apply.
+    registerFileId(file, entry.id);
+    files.set(entry.id, file);
+  }
+
+  const errors = validateProjectRecord(record, new Set(files.keys()));
+  if (errors.length > 0) {
+    console.error("Project bundle failed validation:", errors);
+    const shown = errors.slice(0, 3).join(' ');
+    throw new Error(`Invalid project bundle: ${shown}${errors.length > 3 ? ` (and ${errors.length - 3} more)` : ''}`);
+  }
+
+  return hydrateProject(record, files);
+};
+
+const uniqueName = (name: string, takenNames: string[]): string => {
+  let candidate = `${name} (imported)`;
+  for (let n = 2; takenNames.includes(candidate); n++) {
+    candidate = `${name} (imported ${n})`;
+  }
+  return candidate;
+};
+
+/**
+ * Gives an imported project a fresh id (and a distinct name) so it can sit alongside an
+ * existing project with the same id.
+ */
+export const renameImportedProject = (project: Project, existingProjects: Project[]): Project => ({
+  ...project,
+  id: Date.now().toString(),
+  name: uniqueName(project.name, existingProjects.map(p => p.name)),
+});
+
+/**
+ * Merges an imported project into an existing one without overwriting anything:
+ * flows whose ids collide are added as renamed copies, and knowledge files already
+ * present (same name, size and modification time) are skipped. The imported usage
+ * records are added to the project's own, except those whose id it already has; they
+ * and the references between the imported flows follow the flows' new ids.
+ */
+export const mergeProjects = (target: Project, incoming: Project): Project => {
+  const takenFlowIds = new Set(target.flows.map(f => f.id));
+  const takenFlowNames = target.flows.map(f => f.name);
+  const newFlowIds = new Map<string, string>(); // imported id -> id in the merged project
+  const renamedFlows: Flow[] = incoming.flows.map((flow, index) => {
+    if (!takenFlowIds.has(flow.id)) return flow;
+    const name = uniqueName(flow.name, takenFlowNames);
+    takenFlowNames.push(name);
+    const id = `${Date.now()}${index}`;
+    newFlowIds.set(flow.id, id);
+    return { ...flow, id, name };
+  });
+  const remapFlowId = (flowId: string) => newFlowIds.get(flowId) ?? flowId;
+  const mergedFlows = newFlowIds.size === 0 ? renamedFlows : renamedFlows.map(flow => ({
+    ...flow,
+    ...(flow.forkedFrom ? { forkedFrom: { ...flow.forkedFrom, flowId: remapFlowId(flow.forkedFrom.flowId) } } : {}),
+    contents: Object.fromEntries(Object.entries(flow.contents).map(([sectionId, content]) => [
+      sectionId,
+      content.crossFlowRefs
+        ? { ...content, crossFlowRefs: content.crossFlowRefs.map(ref => ({ ...ref, flowId: remapFlowId(ref.flowId) })) }
+        : content,
+    ])),
+  }));
+
+  const fileKey = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+  const existingFiles = new Set(target.globalKnowledgeFiles.map(fileKey));
+  const newFiles = incoming.globalKnowledgeFiles.filter(file => !existingFiles.has(fileKey(file)));
+
+  const existingUsageIds = new Set((target.usage || []).map(record => record.id));
+  const newUsage = (incoming.usage || []).filter(record => !existingUsageIds.has(record.id));
+
+  return {
+    ...target,
+    globalKnowledgeFiles: [...target.globalKnowledgeFiles, ...newFiles],
+    flows: [...target.flows, ...mergedFlows],
+    usage: [
+      ...(target.usage || []),
+      ...newUsage.map(record => (record.flowId ? { ...record, flowId: remapFlowId(record.flowId) } : record)),
+    ],
+  };
+};
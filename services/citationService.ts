@@ -0,0 +1,158 @@
+import type { BibliographyEntry, Flow } from '../types';
+import { getFileId } from './storageService';
+
+// A single key inside a citation, e.g. `@smith-climate` in `[@smith-climate; @ipcc-report]`.
+const KEY_PATTERN = '[A-Za-z0-9](?:[\\w:.\\-]*[A-Za-z0-9_])?';
+const CITATION_PATTERN = new RegExp(`\\[(@${KEY_PATTERN}(?:\\s*;\\s*@${KEY_PATTERN})*)\\]`, 'g');
+const MAX_KEY_WORDS = 3;
+const KEY_STOPWORDS = new Set('a an and are as at by for from in of on or the to with'.split(' '));
+
+/**
+ * Something in the project that can be cited: a research result of one of the flow's sections,
+ * or a global or session knowledge file.
+ */
+export interface CitableSource {
+  sourceType: BibliographyEntry['sourceType'];
+  sourceId: string;
+  title: string;
+  url?: string;
+}
+
+export interface UnresolvedCitation {
+  key: string;
+  reason: 'unknown' | 'removed';
+}
+
+export const isValidCitationKey = (key: string): boolean => new RegExp(`^${KEY_PATTERN}$`).test(key);
+
+/**
+ * Lists every source the flow can cite, in a stable order and without duplicates.
+ */
+export const collectCitableSources = (flow: Flow, globalFiles: File[]): CitableSource[] => {
+  const sources = new Map<string, CitableSource>();
+  const add = (source: CitableSource) => {
+    const id = `${source.sourceType}:${source.sourceId}`;
+    if (!sources.has(id)) sources.set(id, source);
+  };
+  globalFiles.forEach(file => add({ sourceType: 'file', sourceId: getFileId(file), title: file.name }));
+  Object.values(flow.contents).forEach(section => {
+    (section.sessionFiles || []).forEach(file => add({ sourceType: 'file', sourceId: getFileId(file), title: file.name }));
+    (section.research_results || []).forEach(result => add({
+      sourceType: 'research',
+      sourceId: result.id,
+      title: result.title,
+      ...(result.url && result.url !== '#' ? { url: result.url } : {}),
+    }));
+  });
+  return [...sources.values()];
+};
+
+export const getLiveSourceIds = (sources: CitableSource[]): Set<string> =>
+  new Set(sources.map(source => source.sourceId));
+
+/**
+ * Builds a readable key from a title, e.g. "Climate Change Impacts.pdf" -> "climate-change-impacts".
+ * Numeric suffixes keep it unique among `takenKeys`.
+ */
+export const makeCitationKey = (title: string, takenKeys: Set<string>): string => {
+  const words = title
+    .replace(/\.[a-z0-9]{1,5}$/i, '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[đĐ]/g, 'd')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  const significant = words.filter(word => !KEY_STOPWORDS.has(word));
+  const base = (significant.length ? significant : words).slice(0, MAX_KEY_WORDS).join('-') || 'source';
+  let key = base;
+  for (let n = 2; takenKeys.has(key); n++) key = `${base}-${n}`;
+  return key;
+};
+
+/**
+ * Adds a bibliography entry for every source that does not have one yet. A research result
+ * that is found again under a new id (same URL) keeps its existing entry and key.
+ * @returns The updated bibliography, or null when nothing changed.
+ */
+export const syncBibliography = (entries: BibliographyEntry[] = [], sources: CitableSource[]): BibliographyEntry[] | null => {
+  const liveIds = getLiveSourceIds(sources);
+  const next = [...entries];
+  const takenKeys = new Set(entries.map(entry => entry.key));
+  let changed = false;
+  sources.forEach(source => {
+    if (next.some(entry => entry.sourceType === source.sourceType && entry.sourceId === source.sourceId)) return;
+    const relinkIndex = source.url
+      ? next.findIndex(entry => entry.sourceType === 'research' && entry.url === source.url && !liveIds.has(entry.sourceId))
+      : -1;
+    if (relinkIndex >= 0) {
+      next[relinkIndex] = { ...next[relinkIndex], sourceId: source.sourceId };
+    } else {
+      const key = makeCitationKey(source.title, takenKeys);
+      takenKeys.add(key);
+      next.push({ key, sourceType: source.sourceType, sourceId: source.sourceId, title: source.title, ...(source.url ? { url: source.url } : {}), addedAt: Date.now() });
+    }
+    changed = true;
+  });
+  return changed ? next : null;
+};
+
+export const findEntryForSource = (entries: BibliographyEntry[] | undefined, sourceId: string): BibliographyEntry | undefined =>
+  entries?.find(entry => entry.sourceId === sourceId);
+
+/**
+ * Replaces every citation group in the text, e.g. `[@a; @b]`.
+ * @param replace Receives the keys of a group and returns its replacement.
+ */
+export const replaceCitations = (text: string, replace: (keys: string[], original: string) => string): string =>
+  text.replace(CITATION_PATTERN, (original, group: string) => replace(group.split(';').map(key => key.trim().slice(1)), original));
+
+/**
+ * The distinct citation keys used in the text, in order of first use.
+ */
+export const extractCitationKeys = (text: string): string[] => {
+  const keys: string[] = [];
+  replaceCitations(text, (groupKeys, original) => {
+    groupKeys.forEach(key => { if (!keys.includes(key)) keys.push(key); });
+    return original;
+  });
+  return keys;
+};
+
+/**
+ * The citations in the text that cannot be rendered: keys missing from the bibliography, and
+ * keys whose research result or file has since been removed from the project.
+ */
+export const findUnresolvedCitations = (text: string, entries: BibliographyEntry[] = [], liveSourceIds: Set<string>): UnresolvedCitation[] =>
+  extractCitationKeys(text).flatMap((key): UnresolvedCitation[] => {
+    const entry = entries.find(e => e.key === key);
+    if (!entry) return [{ key, reason: 'unknown' }];
+    return liveSourceIds.has(entry.sourceId) ? [] : [{ key, reason: 'removed' }];
+  });
+
+/**
+ * Renames a citation key and rewrites every citation of it in the flow's sections.
+ */
+export const renameCitationKey = (flow: Flow, oldKey: string, newKey: string): Pick<Flow, 'bibliography' | 'contents'> => {
+  const rename = (text: string) => replaceCitations(text, keys => `[${keys.map(key => `@${key === oldKey ? newKey : key}`).join('; ')}]`);
+  return {
+    bibliography: (flow.bibliography || []).map(entry => (entry.key === oldKey ? { ...entry, key: newKey } : entry)),
+    contents: Object.fromEntries(Object.entries(flow.contents).map(([id, section]) => [
+      id,
+      section.content && extractCitationKeys(section.content).includes(oldKey) ? { ...section, content: rename(section.content) } : section,
+    ])),
+  };
+};
+
+/**
+ * The list of citable sources and citation rules given to the Writer Agent.
+ */
+export const formatCitationInstructions = (entries: BibliographyEntry[]): string => {
+  if (entries.length === 0) return '';
+  return [
+    '--- CITABLE SOURCES ---',
+    ...entries.map(entry => `[@${entry.key}] ${entry.title}${entry.url ? ` (${entry.url})` : ''}`),
+    '--- END CITABLE SOURCES ---',
+    'When a statement relies on one of these sources, cite it inline with its key, e.g. [@key], or [@key1; @key2] for several sources. Only use the keys listed above and never invent new ones.',
+  ].join('\n');
+};
@@ -0,0 +1,352 @@
+import { SectionStatus, type ConsistencyFinding, type ConsistencyIssueKind, type Flow, type OutlineItem } from '../types';
+import { stripNumbering } from './outlineService';
+
+export interface CheckedSection {
+  id: string;
+  title: string;
+  content: string;
+}
+
+export const CONSISTENCY_KIND_LABELS: Record<ConsistencyIssueKind, string> = {
+  terminology: 'Terminology',
+  figure: 'Figures, dates and claims',
+  duplicate: 'Duplicated passages',
+  reference: 'Section references',
+};
+
+// Sentences shorter than this are too generic to count as duplicated passages.
+const MIN_DUPLICATE_WORDS = 8;
+// Share of words two sentences must have in common to count as the same passage.
+const DUPLICATE_SIMILARITY = 0.8;
+// Terms whose only difference is capitalization are flagged from this length on.
+const MIN_CASE_VARIANT_LENGTH = 5;
+const OUTLINE_NUMBER_PATTERN = /^(\d+(?:\.\d+)*)\.?\s/;
+// Short words that form legitimate two-word phrases next to their one-word forms ("may be", "in to").
+const PHRASE_STOPWORDS = new Set(['a', 'an', 'the', 'in', 'on', 'to', 'at', 'by', 'of', 'for', 'and', 'or', 'any', 'every', 'some', 'no', 'may', 'be', 'all', 'one', 'can', 'not', 'there', 'where', 'what', 'how', 'who', 'it', 'its', 'up', 'out', 'with', 'into', 'onto', 'over', 'under', 'day', 'time', 'way', 'ways', 'thing', 'body', 'self']);
+
+const flattenOutline = (items: OutlineItem[]): OutlineItem[] => items.flatMap(item => [item, ...flattenOutline(item.children)]);
+
+/**
+ * The completed sections that have content, in outline order.
+ */
+export const getCompletedSections = (flow: Pick<Flow, 'outline' | 'contents'>): CheckedSection[] =>
+  flattenOutline(flow.outline)
+    .filter(item => item.status === SectionStatus.Completed && flow.contents[item.id]?.content.trim())
+    .map(item => ({ id: item.id, title: item.title, content: flow.contents[item.id].content }));
+
+const blank = (match: string) => match.replace(/[^\n]/g, ' ');
+
+/**
+ * Blanks out code, URLs, link targets and citation keys, which are not prose. Every other
+ * character keeps its offset, so matches in the result are matches in the original.
+ */
+export const maskNonProse = (text: string): string =>
+  text
+    .replace(/(```|~~~)[\s\S]*?(\1|$)/g, blank)
+    .replace(/`[^`\n]*`/g, blank)
+    .replace(/\]\([^)\n]*\)/g, blank)
+    .replace(/\[@[^\]\n]*\]/g, blank)
+    .replace(/https?:\/\/\S+/g, blank);
+
+const shorten = (text: string, max = 160) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.slice(0, max - 3)}...` : flat;
+};
+
+const findingId = (kind: ConsistencyIssueKind, sectionId: string, start: number, end: number) => `${kind}-${sectionId}-${start}-${end}`;
+
+interface TermOccurrence {
+  sectionId: string;
+  start: number;
+  end: number;
+  form: string;
+}
+
+const WORD_PATTERN = /[A-Za-z][A-Za-z0-9]*(?:[-'’][A-Za-z0-9]+)*/g;
+
+const collectTerms = (sections: CheckedSection[]): Map<string, TermOccurrence[]> => {
+  const terms = new Map<string, TermOccurrence[]>();
+  const add = (occurrence: TermOccurrence) => {
+    const key = occurrence.form.toLowerCase().replace(/[-\s]/g, '');
+    if (key.length < 3) return;
+    terms.set(key, [...(terms.get(key) || []), occurrence]);
+  };
+  for (const section of sections) {
+    const words = [...maskNonProse(section.content).matchAll(WORD_PATTERN)]
+      .map(match => ({ sectionId: section.id, start: match.index!, end: match.index! + match[0].length, form: match[0] }));
+    words.forEach((word, i) => {
+      add(word);
+      // Two-word spellings of compounds, such as "data set" next to "dataset".
+      const next = words[i + 1];
+      if (
+        next && section.content.slice(word.end, next.start) === ' ' &&
+        !word.form.includes('-') && !next.form.includes('-') &&
+        !PHRASE_STOPWORDS.has(word.form.toLowerCase()) && !PHRASE_STOPWORDS.has(next.form.toLowerCase())
+      ) {
+        add({ sectionId: section.id, start: word.start, end: next.end, form: `${word.form} ${next.form}` });
+      }
+    });
+  }
+  return terms;
+};
+
+const mostCommonForm = (occurrences: TermOccurrence[]): string => {
+  const counts = new Map<string, number>();
+  occurrences.forEach(o => counts.set(o.form, (counts.get(o.form) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+};
+
+/**
+ * Finds terms spelled in more than one way across the sections: with and without hyphens or
+ * spaces ("e-mail", "email"), or with different capitalization ("JavaScript", "Javascript").
+ * Each section using a minority spelling gets one finding, at its first use.
+ */
+export const findTerminologyIssues = (sections: CheckedSection[]): ConsistencyFinding[] => {
+  const findings: ConsistencyFinding[] = [];
+  for (const [key, occurrences] of collectTerms(sections)) {
+    const byLower = new Map<string, TermOccurrence[]>();
+    occurrences.forEach(o => byLower.set(o.form.toLowerCase(), [...(byLower.get(o.form.toLowerCase()) || []), o]));
+    // A two-word phrase alone is just two words; it only matters next to a compound spelling.
+    if (![...byLower.keys()].some(form => !form.includes(' '))) continue;
+
+    let variants: Map<string, TermOccurrence[]>;
+    if (byLower.size > 1) {
+      variants = byLower;
+    } else if (key.length >= MIN_CASE_VARIANT_LENGTH) {
+      // Only capitalized forms are compared, since a lowercase word may just start a sentence elsewhere.
+      variants = new Map();
+      occurrences.filter(o => /^[A-Z]/.test(o.form)).forEach(o => variants.set(o.form, [...(variants.get(o.form) || []), o]));
+    } else {
+      continue;
+    }
+    if (variants.size < 2) continue;
+
+    const ranked = [...variants.values()].sort((a, b) => b.length - a.length);
+    const preferred = ranked[0];
+    const preferredForm = mostCommonForm(preferred);
+    for (const minority of ranked.slice(1)) {
+      const seen = new Set<string>();
+      for (const occurrence of minority) {
+        if (seen.has(occurrence.sectionId)) continue;
+        seen.add(occurrence.sectionId);
+        const related = preferred.find(o => o.sectionId !== occurrence.sectionId) || preferred[0];
+        findings.push({
+          id: findingId('terminology', occurrence.sectionId, occurrence.start, occurrence.end),
+          kind: 'terminology',
+          sectionId: occurrence.sectionId,
+          start: occurrence.start,
+          end: occurrence.end,
+          excerpt: occurrence.form,
+          message: `"${occurrence.form}" is written "${preferredForm}" elsewhere (${preferred.length} time${preferred.length === 1 ? '' : 's'}).`,
+          fix: `Spell "${occurrence.form}" as "${preferredForm}" throughout this section, to match the rest of the document. Change nothing else.`,
+          ...(related.sectionId !== occurrence.sectionId ? { relatedSectionId: related.sectionId } : {}),
+        });
+      }
+    }
+  }
+  return findings;
+};
+
+interface Sentence {
+  sectionIndex: number;
+  start: number;
+  end: number;
+  words: string[];
+}
+
+const SENTENCE_PATTERN = /[^\n.!?]*[^\s.!?][^\n.!?]*(?:[.!?]+["')\]]*)?/g;
+
+const splitSentences = (section: CheckedSection, sectionIndex: number): Sentence[] =>
+  [...maskNonProse(section.content).matchAll(SENTENCE_PATTERN)].flatMap(match => {
+    const leading = match[0].length - match[0].trimStart().length;
+    const start = match.index! + leading;
+    const end = match.index! + match[0].trimEnd().length;
+    // Headings, list markers and table pipes are not part of the passage.
+    const words = section.content.slice(start, end).toLowerCase().replace(/^[#>*+\-\d.)\s|]+/, '').match(/[\p{L}\p{N}]+/gu) || [];
+    return words.length >= MIN_DUPLICATE_WORDS ? [{ sectionIndex, start, end, words }] : [];
+  });
+
+const similarity = (a: string[], b: string[]): number => {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  let shared = 0;
+  setA.forEach(word => { if (setB.has(word)) shared++; });
+  return shared / (setA.size + setB.size - shared);
+};
+
+/**
+ * Finds sentences that repeat, word for word or nearly so, a sentence of an earlier section.
+ * Consecutive repeated sentences are reported as one passage, on the later section.
+ */
+export const findDuplicatePassages = (sections: CheckedSection[]): ConsistencyFinding[] => {
+  const sentences = sections.flatMap(splitSentences);
+  // Sentences sharing a three-word run are the only candidates worth comparing.
+  const index = new Map<string, number[]>();
+  sentences.forEach((sentence, i) => {
+    for (let w = 0; w + 3 <= sentence.words.length; w++) {
+      const shingle = sentence.words.slice(w, w + 3).join(' ');
+      const list = index.get(shingle) || [];
+      if (list[list.length - 1] !== i) list.push(i);
+      index.set(shingle, list);
+    }
+  });
+
+  const matches: { sentence: Sentence; original: Sentence }[] = [];
+  sentences.forEach((sentence, i) => {
+    const candidates = new Set<number>();
+    for (let w = 0; w + 3 <= sentence.words.length; w++) {
+      index.get(sentence.words.slice(w, w + 3).join(' '))?.forEach(j => {
+        if (j < i && sentences[j].sectionIndex < sentence.sectionIndex) candidates.add(j);
+      });
+    }
+    const original = [...candidates].sort((a, b) => a - b).find(j => similarity(sentence.words, sentences[j].words) >= DUPLICATE_SIMILARITY);
+    if (original !== undefined) matches.push({ sentence, original: sentences[original] });
+  });
+
+  const findings: ConsistencyFinding[] = [];
+  let previous: { finding: ConsistencyFinding; sectionIndex: number; originalIndex: number } | null = null;
+  for (const { sentence, original } of matches) {
+    const section = sections[sentence.sectionIndex];
+    const gap = previous && previous.sectionIndex === sentence.sectionIndex && previous.originalIndex === original.sectionIndex
+      ? section.content.slice(previous.finding.end, sentence.start)
+      : null;
+    if (previous && gap !== null && !gap.trim()) {
+      previous.finding.end = sentence.end;
+      previous.finding.excerpt = section.content.slice(previous.finding.start, sentence.end);
+      continue;
+    }
+    const related = sections[original.sectionIndex];
+    const finding: ConsistencyFinding = {
+      id: '',
+      kind: 'duplicate',
+      sectionId: section.id,
+      start: sentence.start,
+      end: sentence.end,
+      excerpt: section.content.slice(sentence.start, sentence.end),
+      message: `Repeats a passage from "${related.title}".`,
+      fix: '',
+      relatedSectionId: related.id,
+    };
+    findings.push(finding);
+    previous = { finding, sectionIndex: sentence.sectionIndex, originalIndex: original.sectionIndex };
+  }
+  return findings.map(finding => {
+    const related = sections.find(s => s.id === finding.relatedSectionId)!;
+    return {
+      ...finding,
+      id: findingId('duplicate', finding.sectionId, finding.start, finding.end),
+      fix: `The passage "${shorten(finding.excerpt)}" repeats what the section "${related.title}" already says. Remove it, or rewrite it so it adds something new and refers back to that section.`,
+    };
+  });
+};
+
+const SECTION_NUMBER_REFERENCE = /\b(?:[Ss]ections?|[Cc]hapters?|§)\s*(\d+(?:\.\d+)*)\b/g;
+const SECTION_TITLE_REFERENCES = [/\b[Ss]ection\s+["“]([^"”\n]{2,80})["”]/g, /["“]([^"”\n]{2,80})["”]\s+section\b/g];
+
+/**
+ * Finds references to sections that are not in the outline, by number ("Section 4.2") or by
+ * quoted title ('the "Methods" section').
+ */
+export const findBrokenSectionReferences = (sections: CheckedSection[], outline: OutlineItem[]): ConsistencyFinding[] => {
+  const items = flattenOutline(outline);
+  const numbers = new Set(items.map(item => item.title.match(OUTLINE_NUMBER_PATTERN)?.[1]).filter(Boolean));
+  const titles = new Set(items.map(item => stripNumbering(item.title).toLowerCase()));
+  const listing = items.map(item => item.title).join('; ');
+  const findings: ConsistencyFinding[] = [];
+  const report = (section: CheckedSection, start: number, end: number, target: string) => findings.push({
+    id: findingId('reference', section.id, start, end),
+    kind: 'reference',
+    sectionId: section.id,
+    start,
+    end,
+    excerpt: section.content.slice(start, end),
+    message: `Refers to ${target}, which is not in the outline.`,
+    fix: `The text refers to ${target} ("${section.content.slice(start, end)}"), which does not exist. The sections of the document are: ${listing}. Point the reference at the right section, or remove it.`,
+  });
+
+  for (const section of sections) {
+    const text = maskNonProse(section.content);
+    for (const match of text.matchAll(SECTION_NUMBER_REFERENCE)) {
+      if (!numbers.has(match[1])) report(section, match.index!, match.index! + match[0].length, `section ${match[1]}`);
+    }
+    for (const pattern of SECTION_TITLE_REFERENCES) {
+      for (const match of text.matchAll(pattern)) {
+        const title = stripNumbering(match[1]).toLowerCase();
+        if (![...titles].some(t => t === title || t.startsWith(title))) {
+          report(section, match.index!, match.index! + match[0].length, `the section "${match[1]}"`);
+        }
+      }
+    }
+  }
+  return findings;
+};
+
+/**
+ * Runs the checks that need no agent.
+ */
+export const runLocalConsistencyChecks = (sections: CheckedSection[], outline: OutlineItem[]): ConsistencyFinding[] => [
+  ...findTerminologyIssues(sections),
+  ...findDuplicatePassages(sections),
+  ...findBrokenSectionReferences(sections, outline),
+];
+
+/**
+ * Lays the sections out for the consistency agent, each under a header carrying its id.
+ */
+export const formatSectionsForConsistency = (sections: CheckedSection[]): string =>
+  sections.map(section => `=== [${section.id}] ${section.title} ===\n${section.content.trim()}`).join('\n\n');
+
+// Finds a quote in the content, tolerating differences in case and whitespace.
+const locateQuote = (content: string, quote: string): { start: number; end: number } | null => {
+  const exact = content.indexOf(quote);
+  if (exact >= 0) return { start: exact, end: exact + quote.length };
+  const words = quote.trim().split(/\s+/).filter(Boolean).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (words.length === 0) return null;
+  const match = content.match(new RegExp(words.join('\\s+'), 'i'));
+  return match ? { start: match.index!, end: match.index! + match[0].length } : null;
+};
+
+/**
+ * Reads the consistency agent's JSON answer. Findings are kept only if their quote can be found
+ * in the section they name.
+ */
+export const parseConsistencyResponse = (text: string, sections: CheckedSection[]): ConsistencyFinding[] => {
+  let jsonString = text.trim();
+  // The model might still wrap the JSON in ```json ... ```, so we clean it.
+  const fenced = jsonString.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  if (fenced) jsonString = fenced[1];
+  const parsed = JSON.parse(jsonString);
+  if (!parsed || !Array.isArray(parsed.findings)) throw new Error('The consistency check returned no findings list.');
+
+  return parsed.findings.flatMap((f: any): ConsistencyFinding[] => {
+    const section = sections.find(s => s.id === f?.sectionId);
+    const range = section && typeof f.quote === 'string' && f.quote.trim() ? locateQuote(section.content, f.quote.trim()) : null;
+    if (!section || !range || typeof f.message !== 'string') return [];
+    const related = sections.find(s => s.id === f.otherSectionId && s.id !== section.id);
+    const excerpt = section.content.slice(range.start, range.end);
+    const otherQuote = typeof f.otherQuote === 'string' ? f.otherQuote.trim() : '';
+    return [{
+      id: findingId('figure', section.id, range.start, range.end),
+      kind: 'figure',
+      sectionId: section.id,
+      ...range,
+      excerpt,
+      message: f.message.trim(),
+      fix: typeof f.fix === 'string' && f.fix.trim()
+        ? f.fix.trim()
+        : `"${shorten(excerpt)}" contradicts ${related ? `the section "${related.title}"${otherQuote ? ` ("${shorten(otherQuote)}")` : ''}` : 'another section'}. ${f.message.trim()} Make this section consistent with it.`,
+      ...(related ? { relatedSectionId: related.id } : {}),
+    }];
+  });
+};
+
+/**
+ * Where a finding's excerpt is in the section's current content: at its recorded offsets if the
+ * text there is unchanged, otherwise wherever the excerpt now occurs.
+ * @returns The range, or null if the excerpt is gone.
+ */
+export const locateFinding = (finding: ConsistencyFinding, content: string): { start: number; end: number } | null => {
+  if (content.slice(finding.start, finding.end) === finding.excerpt) return { start: finding.start, end: finding.end };
+  const start = content.indexOf(finding.excerpt);
+  return start >= 0 ? { start, end: start + finding.excerpt.length } : null;
+};
@@ -0,0 +1,175 @@
+import type { ContextBudgetSettings, ContextComponentId, ContextStrategy } from '../types';
+
+// A rough, model-independent estimate: English prose averages about four characters per token.
+const CHARS_PER_TOKEN = 4;
+// A piece is only cut down if at least this much of it would survive; otherwise it is dropped.
+const MIN_TRUNCATED_TOKENS = 50;
+export const TRUNCATION_MARKER = '\n[... truncated to fit the context budget]';
+
+/**
+ * The parts of a Writer Agent request, in the order they are sent.
+ */
+export const CONTEXT_COMPONENTS: { id: ContextComponentId; label: string }[] = [
+  { id: 'systemPrompt', label: 'System prompt' },
+  { id: 'citations', label: 'Citable sources' },
+  { id: 'knowledge', label: 'Global knowledge' },
+  { id: 'sessionFiles', label: 'Session files' },
+  { id: 'research', label: 'Research results' },
+  { id: 'references', label: 'Selected references' },
+  { id: 'history', label: 'Chat history' },
+  { id: 'instruction', label: 'Instruction' },
+];
+
+export const CONTEXT_STRATEGIES: { id: ContextStrategy; label: string; description: string }[] = [
+  { id: 'keep', label: 'Always keep', description: 'Never shortened, even when over budget.' },
+  { id: 'trim-end', label: 'Trim from end', description: 'Keeps the first items and cuts the rest.' },
+  { id: 'trim-start', label: 'Trim from start', description: 'Keeps the most recent items and cuts the oldest.' },
+  { id: 'drop', label: 'All or nothing', description: 'Left out entirely when it does not fit.' },
+];
+
+/**
+ * Components with a higher priority are given budget first. The system prompt and the
+ * instruction are always sent; bulky reference material is cut before the conversation.
+ */
+export const DEFAULT_CONTEXT_BUDGET: ContextBudgetSettings = {
+  maxTokens: 32000,
+  components: {
+    systemPrompt: { strategy: 'keep', priority: 10 },
+    instruction: { strategy: 'keep', priority: 10 },
+    citations: { strategy: 'trim-end', priority: 8 },
+    history: { strategy: 'trim-start', priority: 7 },
+    references: { strategy: 'trim-end', priority: 6 },
+    sessionFiles: { strategy: 'trim-end', priority: 5 },
+    research: { strategy: 'trim-end', priority: 4 },
+    knowledge: { strategy: 'trim-end', priority: 3 },
+  },
+};
+
+/**
+ * One item of a component, e.g. a single session file or chat message.
+ */
+export interface ContextPiece {
+  text: string;
+}
+
+export interface ContextComponentInput<P extends ContextPiece = ContextPiece> {
+  id: ContextComponentId;
+  pieces: P[];
+}
+
+export interface ComponentBudget<P extends ContextPiece = ContextPiece> {
+  id: ContextComponentId;
+  label: string;
+  /** Estimated tokens of the component as assembled. */
+  tokens: number;
+  /** Estimated tokens after the strategy was applied. */
+  keptTokens: number;
+  /** The pieces that are sent; the first or last may have been shortened. */
+  pieces: P[];
+  droppedPieces: number;
+  truncated: boolean;
+}
+
+export interface ContextBudgetPlan<P extends ContextPiece = ContextPiece> {
+  maxTokens: number;
+  totalTokens: number;
+  keptTokens: number;
+  /** Whether the context as assembled is larger than the budget. */
+  overBudget: boolean;
+  /** Whether it is still too large after trimming, because of components that are always kept. */
+  overBudgetAfterTrim: boolean;
+  components: ComponentBudget<P>[];
+}
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const truncateText = (text: string, tokens: number, fromStart: boolean): string => {
+  const chars = Math.max(0, tokens * CHARS_PER_TOKEN - TRUNCATION_MARKER.length);
+  return fromStart
+    ? `${TRUNCATION_MARKER.trim()}\n${text.slice(text.length - chars)}`
+    : `${text.slice(0, chars)}${TRUNCATION_MARKER}`;
+};
+
+/**
+ * Fits pieces into a token allowance, keeping them from the start (`trim-end`) or from the
+ * end (`trim-start`). The piece that crosses the limit is shortened when enough of it fits.
+ */
+const fitPieces = <P extends ContextPiece>(pieces: P[], allowance: number, fromStart: boolean): P[] => {
+  const ordered = fromStart ? [...pieces].reverse() : pieces;
+  const kept: P[] = [];
+  let used = 0;
+  for (const piece of ordered) {
+    const tokens = estimateTokens(piece.text);
+    if (used + tokens <= allowance) {
+      kept.push(piece);
+      used += tokens;
+      continue;
+    }
+    const left = allowance - used;
+    if (left >= MIN_TRUNCATED_TOKENS) kept.push({ ...piece, text: truncateText(piece.text, left, fromStart) });
+    break;
+  }
+  return fromStart ? kept.reverse() : kept;
+};
+
+const sumTokens = (pieces: ContextPiece[]) => pieces.reduce((total, piece) => total + estimateTokens(piece.text), 0);
+
+/**
+ * Estimates every component and decides what is sent. Components are served in priority
+ * order: `keep` components always go in full, the others get what is left of the budget and
+ * are cut according to their strategy.
+ * @returns The plan, with components in their original order.
+ */
+export const planContextBudget = <P extends ContextPiece>(
+  inputs: ContextComponentInput<P>[],
+  settings: ContextBudgetSettings = DEFAULT_CONTEXT_BUDGET
+): ContextBudgetPlan<P> => {
+  const configFor = (id: ContextComponentId) => settings.components[id] || DEFAULT_CONTEXT_BUDGET.components[id];
+  const totals = inputs.map(input => sumTokens(input.pieces));
+  const totalTokens = totals.reduce((a, b) => a + b, 0);
+
+  // Always-kept components are reserved up front so lower-priority parts cannot crowd them out.
+  let remaining = settings.maxTokens - inputs.reduce((sum, input, i) => sum + (configFor(input.id).strategy === 'keep' ? totals[i] : 0), 0);
+  const kept = new Map<ContextComponentId, P[]>();
+  inputs
+    .map((input, i) => ({ input, tokens: totals[i], config: configFor(input.id) }))
+    .sort((a, b) => b.config.priority - a.config.priority)
+    .forEach(({ input, tokens, config }) => {
+      if (config.strategy === 'keep') {
+        kept.set(input.id, input.pieces);
+        return;
+      }
+      const allowance = Math.max(0, remaining);
+      const pieces = tokens <= allowance ? input.pieces
+        : config.strategy === 'drop' ? []
+        : fitPieces(input.pieces, allowance, config.strategy === 'trim-start');
+      kept.set(input.id, pieces);
+      remaining -= sumTokens(pieces);
+    });
+
+  const components = inputs.map((input, i): ComponentBudget<P> => {
+    const pieces = kept.get(input.id) || [];
+    const keptTokens = sumTokens(pieces);
+    return {
+      id: input.id,
+      label: CONTEXT_COMPONENTS.find(c => c.id === input.id)?.label || input.id,
+      tokens: totals[i],
+      keptTokens,
+      pieces,
+      droppedPieces: input.pieces.length - pieces.length,
+      truncated: keptTokens < totals[i],
+    };
+  });
+  const keptTokens = components.reduce((sum, c) => sum + c.keptTokens, 0);
+  return {
+    maxTokens: settings.maxTokens,
+    totalTokens,
+    keptTokens,
+    overBudget: totalTokens > settings.maxTokens,
+    overBudgetAfterTrim: keptTokens > settings.maxTokens,
+    components,
+  };
+};
+
+export const getKeptPieces = <P extends ContextPiece>(plan: ContextBudgetPlan<P>, id: ContextComponentId): P[] =>
+  plan.components.find(c => c.id === id)?.pieces || [];
@@ -0,0 +1,242 @@
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp {
+  type: DiffOpType;
+  text: string;
+}
+
+export interface SideBySideCell {
+  lineNumber: number;
+  text: string;
+  type: DiffOpType;
+}
+
+// One row of a two-column diff. A missing cell means the line only exists on the other side.
+export interface SideBySideRow {
+  left?: SideBySideCell;
+  right?: SideBySideCell;
+}
+
+const splitLines = (text: string): string[] => (text ? text.replace(/\r\n/g, '\n').split('\n') : []);
+
+/**
+ * Computes a line-based diff using the longest common subsequence of the two texts.
+ * @param oldText The original text.
+ * @param newText The changed text.
+ * @returns The edit script, in order, with one entry per line.
+ */
+export const diffLines = (oldText: string, newText: string): DiffOp[] => {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Lines shared at the start and end never need the quadratic table.
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+  // lcs[i * (m + 1) + j] is the LCS length of midA[i..] and midB[j..].
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = a.slice(0, prefix).map(text => ({ type: 'equal', text }));
+  let i = 0, j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      ops.push({ type: 'equal', text: midA[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      ops.push({ type: 'delete', text: midA[i++] });
+    } else {
+      ops.push({ type: 'insert', text: midB[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: 'delete', text: midA[i++] });
+  while (j < m) ops.push({ type: 'insert', text: midB[j++] });
+  ops.push(...a.slice(a.length - suffix).map(text => ({ type: 'equal' as const, text })));
+  return ops;
+};
+
+/**
+ * Lays out a diff as two columns, pairing each run of deleted lines with the inserted lines
+ * that replaced it.
+ */
+export const toSideBySide = (ops: DiffOp[]): SideBySideRow[] => {
+  const rows: SideBySideRow[] = [];
+  let leftLine = 1, rightLine = 1;
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].type === 'equal') {
+      rows.push({
+        left: { lineNumber: leftLine++, text: ops[k].text, type: 'equal' },
+        right: { lineNumber: rightLine++, text: ops[k].text, type: 'equal' },
+      });
+      k++;
+      continue;
+    }
+    const deleted: string[] = [];
+    const inserted: string[] = [];
+    while (k < ops.length && ops[k].type !== 'equal') {
+      (ops[k].type === 'delete' ? deleted : inserted).push(ops[k].text);
+      k++;
+    }
+    for (let r = 0; r < Math.max(deleted.length, inserted.length); r++) {
+      rows.push({
+        left: r < deleted.length ? { lineNumber: leftLine++, text: deleted[r], type: 'delete' } : undefined,
+        right: r < inserted.length ? { lineNumber: rightLine++, text: inserted[r], type: 'insert' } : undefined,
+      });
+    }
+  }
+  return rows;
+};
+
+/**
+ * Counts the lines added and removed by a diff.
+ */
+export const summarizeDiff = (ops: DiffOp[]): { added: number; removed: number } => ({
+  added: ops.filter(op => op.type === 'insert').length,
+  removed: ops.filter(op => op.type === 'delete').length,
+});
+
+// A stretch of a diff: unchanged lines, or one changed hunk with the lines it removes and adds.
+export type DiffBlock =
+  | { type: 'equal'; lines: string[] }
+  | { type: 'change'; hunk: number; removed: string[]; added: string[] };
+
+/**
+ * Groups a diff into unchanged stretches and numbered hunks of changed lines, in order.
+ */
+export const toDiffBlocks = (ops: DiffOp[]): DiffBlock[] => {
+  const blocks: DiffBlock[] = [];
+  let hunk = 0;
+  for (const op of ops) {
+    const last = blocks[blocks.length - 1];
+    if (op.type === 'equal') {
+      if (last?.type === 'equal') last.lines.push(op.text);
+      else blocks.push({ type: 'equal', lines: [op.text] });
+    } else {
+      const block = last?.type === 'change' ? last : { type: 'change' as const, hunk: hunk++, removed: [], added: [] };
+      if (block !== last) blocks.push(block);
+      (op.type === 'delete' ? block.removed : block.added).push(op.text);
+    }
+  }
+  return blocks;
+};
+
+// A run of changed lines: base lines [start, end) replaced by `lines`.
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+const toHunks = (ops: DiffOp[]): Hunk[] => {
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  let position = 0;
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      if (current) hunks.push(current);
+      current = null;
+      position++;
+      continue;
+    }
+    if (!current) current = { start: position, end: position, lines: [] };
+    if (op.type === 'delete') {
+      current.end++;
+      position++;
+    } else {
+      current.lines.push(op.text);
+    }
+  }
+  if (current) hunks.push(current);
+  return hunks;
+};
+
+const applyHunks = (base: string[], hunks: Hunk[], start: number, end: number): string[] => {
+  const lines: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    lines.push(...base.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  }
+  return [...lines, ...base.slice(position, end)];
+};
+
+/**
+ * Merges two independent edits of the same text line by line. Changes that touch different
+ * lines are combined; where both sides changed the same or adjacent lines, `theirs` wins.
+ * @param base The text both sides started from.
+ * @param ours One edited version, e.g. with the user's manual changes.
+ * @param theirs The other edited version, e.g. the agent's rewrite.
+ * @returns The merged text and the number of places where `ours` was overridden.
+ */
+export const mergeLines = (base: string, ours: string, theirs: string): { text: string; conflicts: number } => {
+  const baseLines = splitLines(base);
+  const ourHunks = toHunks(diffLines(base, ours));
+  const theirHunks = toHunks(diffLines(base, theirs));
+  const merged: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let i = 0, j = 0;
+
+  while (i < ourHunks.length || j < theirHunks.length) {
+    // Start a group at the earliest hunk, then pull in every hunk that overlaps or touches it.
+    const first = j >= theirHunks.length || (i < ourHunks.length && ourHunks[i].start <= theirHunks[j].start)
+      ? ourHunks[i] : theirHunks[j];
+    const start = first.start;
+    let end = first.end;
+    const ourGroup: Hunk[] = [];
+    const theirGroup: Hunk[] = [];
+    for (;;) {
+      if (i < ourHunks.length && ourHunks[i].start <= end) {
+        end = Math.max(end, ourHunks[i].end);
+        ourGroup.push(ourHunks[i++]);
+      } else if (j < theirHunks.length && theirHunks[j].start <= end) {
+        end = Math.max(end, theirHunks[j].end);
+        theirGroup.push(theirHunks[j++]);
+      } else {
+        break;
+      }
+    }
+
+    merged.push(...baseLines.slice(position, start));
+    const theirLines = applyHunks(baseLines, theirGroup, start, end);
+    if (ourGroup.length === 0) {
+      merged.push(...theirLines);
+    } else if (theirGroup.length === 0) {
+      merged.push(...applyHunks(baseLines, ourGroup, start, end));
+    } else {
+      const ourLines = applyHunks(baseLines, ourGroup, start, end);
+      if (ourLines.join('\n') !== theirLines.join('\n')) conflicts++;
+      merged.push(...theirLines);
+    }
+    position = end;
+  }
+  merged.push(...baseLines.slice(position));
+  return { text: merged.join('\n'), conflicts };
+};
+
+/**
+ * Applies some of the changes between two texts and leaves the others out.
+ * @param base The original text.
+ * @param changed The fully changed text.
+ * @param hunks Indexes of the hunks to apply, numbered as in `toDiffBlocks`.
+ */
+export const applySelectedHunks = (base: string, changed: string, hunks: number[]): string => {
+  const baseLines = splitLines(base);
+  const chosen = new Set(hunks);
+  const selected = toHunks(diffLines(base, changed)).filter((_, i) => chosen.has(i));
+  return applyHunks(baseLines, selected, 0, baseLines.length).join('\n');
+};
@@ -0,0 +1,178 @@
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_ATTEMPTS = 3;
+// Waits this long before the second attempt, twice as long before the third, and so on.
+const DEFAULT_RETRY_DELAY_MS = 2000;
+
+export type DraftTaskState = 'queued' | 'preparing' | 'drafting' | 'retrying' | 'done' | 'failed' | 'skipped';
+export type DraftRunStatus = 'running' | 'paused' | 'finished' | 'cancelled';
+
+export interface DraftTaskProgress {
+  sectionId: string;
+  title: string;
+  state: DraftTaskState;
+  attempts: number;
+  /** The last error, kept while retrying and after the task failed. */
+  error?: string;
+}
+
+export interface DraftRunProgress {
+  status: DraftRunStatus;
+  tasks: DraftTaskProgress[];
+}
+
+export interface DraftTaskContext {
+  signal: AbortSignal;
+  attempt: number;
+  /** Reports the step a task has reached, e.g. once its system prompt is ready. */
+  setState: (state: 'preparing' | 'drafting') => void;
+}
+
+export interface DraftRunOptions {
+  concurrency?: number;
+  maxAttempts?: number;
+  retryDelayMs?: number;
+  /** Drafts and saves one section. It should save nothing once the signal is aborted. */
+  draftSection: (sectionId: string, context: DraftTaskContext) => Promise<void>;
+  /** Errors for which another attempt would not help are recorded straight away. */
+  isRetryable?: (error: unknown) => boolean;
+  onProgress: (progress: DraftRunProgress) => void;
+}
+
+export interface DraftRun {
+  /** Starts no new sections; those already being drafted are finished. */
+  pause: () => void;
+  resume: () => void;
+  /** Skips a queued section, or stops one being drafted without saving it. */
+  skip: (sectionId: string) => void;
+  /** Queues the failed sections again, restarting the run if it had finished. */
+  retryFailed: () => void;
+  /** Stops every section being drafted and ends the run; queued sections stay undrafted. */
+  cancel: () => void;
+}
+
+const isActive = (state: DraftTaskState) => state === 'preparing' || state === 'drafting' || state === 'retrying';
+
+export const isDraftRunActive = (progress: DraftRunProgress): boolean =>
+  progress.status === 'running' || (progress.status === 'paused' && progress.tasks.some(task => isActive(task.state)));
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+/**
+ * Drafts sections in the given order, a few at a time. A section that fails is retried with
+ * a growing delay and, once out of attempts, recorded as failed while the run goes on.
+ * Sections are started in order, so each one can use every earlier section that has finished.
+ */
+export const startDraftRun = (sections: { id: string; title: string }[], options: DraftRunOptions): DraftRun => {
+  const {
+    concurrency = DEFAULT_CONCURRENCY,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    draftSection,
+    isRetryable = () => true,
+    onProgress,
+  } = options;
+  let status: DraftRunStatus = 'running';
+  let tasks: DraftTaskProgress[] = sections.map(section => ({ sectionId: section.id, title: section.title, state: 'queued', attempts: 0 }));
+  const controllers = new Map<string, AbortController>();
+
+  const report = () => onProgress({ status, tasks });
+  const updateTask = (sectionId: string, changes: Partial<DraftTaskProgress>) => {
+    tasks = tasks.map(task => (task.sectionId === sectionId ? { ...task, ...changes } : task));
+    report();
+  };
+
+  // An aborted task was either skipped or stopped with the whole run, in which case it stays queued.
+  const stopped = (sectionId: string) => updateTask(sectionId, status === 'cancelled' ? { state: 'queued', error: undefined } : { state: 'skipped', error: undefined });
+
+  const runTask = async (sectionId: string) => {
+    const controller = new AbortController();
+    controllers.set(sectionId, controller);
+    for (let attempt = 1; ; attempt++) {
+      updateTask(sectionId, { state: 'preparing', attempts: attempt });
+      try {
+        await draftSection(sectionId, {
+          signal: controller.signal,
+          attempt,
+          setState: state => {
+            if (!controller.signal.aborted) updateTask(sectionId, { state });
+          },
+        });
+        if (controller.signal.aborted) stopped(sectionId);
+        else updateTask(sectionId, { state: 'done', error: undefined });
+        break;
+      } catch (error) {
+        if (controller.signal.aborted) {
+          stopped(sectionId);
+          break;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        if (attempt >= maxAttempts || !isRetryable(error)) {
+          updateTask(sectionId, { state: 'failed', error: message });
+          break;
+        }
+        updateTask(sectionId, { state: 'retrying', error: message });
+        await wait(retryDelayMs * attempt, controller.signal);
+        if (controller.signal.aborted) {
+          stopped(sectionId);
+          break;
+        }
+      }
+    }
+    controllers.delete(sectionId);
+    pump();
+  };
+
+  const pump = () => {
+    if (status !== 'running') return;
+    while (controllers.size < concurrency) {
+      const next = tasks.find(task => task.state === 'queued');
+      if (!next) break;
+      runTask(next.sectionId);
+    }
+    if (controllers.size === 0 && !tasks.some(task => task.state === 'queued')) {
+      status = 'finished';
+      report();
+    }
+  };
+
+  pump();
+
+  return {
+    pause: () => {
+      if (status !== 'running') return;
+      status = 'paused';
+      report();
+    },
+    resume: () => {
+      if (status !== 'paused') return;
+      status = 'running';
+      report();
+      pump();
+    },
+    skip: sectionId => {
+      const controller = controllers.get(sectionId);
+      if (controller) controller.abort();
+      else if (tasks.some(task => task.sectionId === sectionId && task.state === 'queued')) updateTask(sectionId, { state: 'skipped' });
+      if (status === 'running') pump();
+    },
+    retryFailed: () => {
+      if (status === 'cancelled') return;
+      tasks = tasks.map(task => (task.state === 'failed' ? { ...task, state: 'queued', attempts: 0, error: undefined } : task));
+      if (status === 'finished') status = 'running';
+      report();
+      pump();
+    },
+    cancel: () => {
+      if (status === 'finished' || status === 'cancelled') return;
+      status = 'cancelled';
+      report();
+      controllers.forEach(controller => controller.abort());
+    },
+  };
+};
@@ -0,0 +1,37 @@
+import type { BibliographyEntry } from '../../types';
+import type { ExportFormat } from './types';
+
+// Braces are kept balanced by escaping them; the other LaTeX specials are escaped so titles
+// compile as written.
+const escapeBibtex = (text: string): string =>
+  text.replace(/\\/g, '\\textbackslash{}').replace(/([{}&%$#_])/g, '\\$1').replace(/~/g, '\\textasciitilde{}').replace(/\^/g, '\\textasciicircum{}');
+
+const bibtexAuthors = (authors: string): string =>
+  authors.split(';').map(name => name.trim()).filter(Boolean).join(' and ');
+
+export const renderBibtexEntry = (entry: BibliographyEntry): string => {
+  const fields: [string, string | undefined][] = [
+    // Double braces keep BibTeX styles from changing the title's capitalisation.
+    ['title', `{${escapeBibtex(entry.title)}}`],
+    ['author', entry.authors ? escapeBibtex(bibtexAuthors(entry.authors)) : undefined],
+    ['year', entry.year ? escapeBibtex(entry.year) : undefined],
+    ['publisher', entry.publisher ? escapeBibtex(entry.publisher) : undefined],
+    ['howpublished', entry.url ? `\\url{${entry.url}}` : undefined],
+    ['url', entry.url],
+    ['note', entry.sourceType === 'file' ? 'Knowledge file' : undefined],
+  ];
+  const body = fields
+    .filter((field): field is [string, string] => !!field[1])
+    .map(([name, value]) => `  ${name} = {${value}}`);
+  return `@misc{${entry.key},\n${body.join(',\n')}\n}`;
+};
+
+export const bibtexFormat: ExportFormat = {
+  id: 'bibtex',
+  label: 'BibTeX bibliography (.bib)',
+  extension: 'bib',
+  mimeType: 'application/x-bibtex',
+  action: 'download',
+  content: 'bibliography',
+  render: doc => new Blob([doc.bibliography.map(renderBibtexEntry).join('\n\n') + '\n'], { type: 'application/x-bibtex' }),
+};
@@ -0,0 +1,123 @@
+import type { BibliographyEntry, CitationStyle } from '../../types';
+import type { InlineRun } from './types';
+
+export const CITATION_STYLES: { id: CitationStyle; label: string }[] = [
+  { id: 'apa', label: 'APA (7th)' },
+  { id: 'ieee', label: 'IEEE' },
+  { id: 'chicago', label: 'Chicago (author-date)' },
+];
+
+interface PersonName {
+  first: string;
+  last: string;
+}
+
+// Authors are entered as "Last, First" or "First Last", separated by semicolons.
+const parseAuthors = (authors?: string): PersonName[] =>
+  (authors || '').split(';').map(name => name.trim()).filter(Boolean).map(name => {
+    if (name.includes(',')) {
+      const [last, ...rest] = name.split(',');
+      return { last: last.trim(), first: rest.join(',').trim() };
+    }
+    const parts = name.split(/\s+/);
+    return { last: parts.pop() || name, first: parts.join(' ') };
+  });
+
+const initials = (first: string): string =>
+  first.split(/[\s-]+/).filter(Boolean).map(part => `${part[0].toUpperCase()}.`).join(' ');
+
+const joinNames = (names: string[], conjunction: string, serialComma = true): string => {
+  if (names.length <= 1) return names[0] || '';
+  if (names.length === 2) return `${names[0]}${serialComma ? ',' : ''} ${conjunction} ${names[1]}`;
+  return `${names.slice(0, -1).join(', ')}${serialComma ? ',' : ''} ${conjunction} ${names[names.length - 1]}`;
+};
+
+const shortTitle = (title: string): string => {
+  const words = title.split(/\s+/);
+  return words.length > 4 ? `${words.slice(0, 4).join(' ')}…` : title;
+};
+
+// The name used in author-date citations: "Smith", "Smith & Doe" or "Smith et al.".
+const citationName = (entry: BibliographyEntry, conjunction: string): string => {
+  const authors = parseAuthors(entry.authors);
+  if (authors.length === 0) return `“${shortTitle(entry.title)}”`;
+  if (authors.length === 1) return authors[0].last;
+  if (authors.length === 2) return `${authors[0].last} ${conjunction} ${authors[1].last}`;
+  return `${authors[0].last} et al.`;
+};
+
+/**
+ * The inline form of a citation group, e.g. "(Smith, 2020; Doe, n.d.)" in APA or "[1], [3]" in IEEE.
+ * @param numbers The reference number of each key, used by IEEE.
+ */
+export const formatInlineCitation = (entries: BibliographyEntry[], style: CitationStyle, numbers: Map<string, number>): string => {
+  switch (style) {
+    case 'ieee':
+      return entries.map(entry => `[${numbers.get(entry.key)}]`).join(', ');
+    case 'chicago':
+      return `(${entries.map(entry => `${citationName(entry, 'and')} ${entry.year || 'n.d.'}`).join('; ')})`;
+    case 'apa':
+      return `(${entries.map(entry => `${citationName(entry, '&')}, ${entry.year || 'n.d.'}`).join('; ')})`;
+  }
+};
+
+const withPeriod = (text: string): string => (/[.?!]$/.test(text) ? text : `${text}.`);
+
+const referenceRuns = (entry: BibliographyEntry, style: CitationStyle, number: number): InlineRun[] => {
+  const authors = parseAuthors(entry.authors);
+  const url: InlineRun[] = entry.url ? [{ text: entry.url, href: entry.url }] : [];
+  switch (style) {
+    case 'apa': {
+      const names = joinNames(authors.map(a => (a.first ? `${a.last}, ${initials(a.first)}` : a.last)), '&');
+      const date = `(${entry.year || 'n.d.'}).`;
+      return [
+        { text: names ? `${withPeriod(names)} ${date} ` : '' },
+        { text: withPeriod(entry.title), italic: true },
+        { text: `${names ? '' : ` ${date}`}${entry.publisher ? ` ${withPeriod(entry.publisher)}` : ''}${url.length ? ' ' : ''}` },
+        ...url,
+      ];
+    }
+    case 'ieee': {
+      const names = joinNames(authors.map(a => (a.first ? `${initials(a.first)} ${a.last}` : a.last)), 'and', authors.length > 2);
+      const details = [entry.publisher, entry.year].filter(Boolean).join(', ');
+      const titleEnd = details || url.length ? ',' : '.';
+      return [
+        { text: `[${number}] ${names ? `${names}, ` : ''}“${entry.title}${titleEnd}” ` },
+        ...(details ? [{ text: `${details}. ` }] : []),
+        ...(url.length ? [{ text: '[Online]. Available: ' }, ...url] : []),
+      ];
+    }
+    case 'chicago': {
+      const names = joinNames(authors.map((a, i) => (i === 0 ? [a.last, a.first].filter(Boolean).join(', ') : [a.first, a.last].filter(Boolean).join(' '))), 'and');
+      const date = withPeriod(entry.year || 'n.d.');
+      return [
+        { text: names ? `${withPeriod(names)} ${date} ` : '' },
+        { text: `“${withPeriod(entry.title)}” ` },
+        { text: `${names ? '' : `${date} `}${entry.publisher ? `${withPeriod(entry.publisher)} ` : ''}` },
+        ...url,
+      ];
+    }
+  }
+};
+
+/**
+ * A formatted reference list entry. Titles are italicised as each style requires for web
+ * pages and standalone documents.
+ * @param number The reference number, shown by IEEE.
+ */
+export const formatReference = (entry: BibliographyEntry, style: CitationStyle, number: number): InlineRun[] => {
+  const runs = referenceRuns(entry, style, number).filter(run => run.text);
+  const last = runs[runs.length - 1];
+  if (last) runs[runs.length - 1] = { ...last, text: last.text.trimEnd() };
+  return runs;
+};
+
+/**
+ * Orders the cited entries for the reference list: by first citation for IEEE, alphabetically
+ * by first author (or title) otherwise.
+ */
+export const sortReferences = (entries: BibliographyEntry[], style: CitationStyle): BibliographyEntry[] => {
+  if (style === 'ieee') return entries;
+  const sortKey = (entry: BibliographyEntry) => (parseAuthors(entry.authors)[0]?.last || entry.title).toLowerCase();
+  return [...entries].sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+};
@@ -0,0 +1,84 @@
+import type { BibliographyEntry, ExportSource, Flow, OutlineItem, Project } from '../../types';
+import { getExportContent } from '../versionService';
+import { stripNumbering } from '../outlineService';
+import { collectCitableSources, extractCitationKeys, findUnresolvedCitations, getLiveSourceIds, replaceCitations } from '../citationService';
+import { formatInlineCitation, formatReference, sortReferences } from './citationStyles';
+import { parseMarkdownBlocks } from './markdownParser';
+import type { DocumentSection, ExportDocument } from './types';
+
+const sectionNumber = (title: string): string => title.match(/^(\d+(?:\.\d+)*)\.?\s/)?.[1] || '';
+
+// Formatted citations are inserted into Markdown, so characters the inline parser would read as
+// formatting are escaped.
+const escapeMarkdown = (text: string): string => text.replace(/[\\`*_[\]]/g, char => `\\${char}`);
+
+/**
+ * Builds the format-independent document for a flow. `[@key]` citations are rendered in the
+ * flow's citation style and the cited sources are listed in a closing "References" section.
+ * @param flow The flow to export.
+ * @param project The project the flow belongs to, whose knowledge files can be cited.
+ * @param source Whether to use each section's last committed version or its latest draft.
+ * @returns The document, with a section for every outline item that has content or has a
+ * descendant with content.
+ */
+export const buildExportDocument = (flow: Flow, project: Project, source: ExportSource): ExportDocument => {
+  const style = flow.citationStyle || 'apa';
+  const liveSourceIds = getLiveSourceIds(collectCitableSources(flow, project.globalKnowledgeFiles));
+  const bibliography = (flow.bibliography || []).filter(entry => liveSourceIds.has(entry.sourceId));
+
+  const collect = (items: OutlineItem[]): { item: OutlineItem; content: string }[] =>
+    items.flatMap(item => {
+      const content = getExportContent(item, flow.contents[item.id], source).trim();
+      const descendants = collect(item.children);
+      return content || descendants.length > 0 ? [{ item, content }, ...descendants] : [];
+    });
+  const collected = collect(flow.outline);
+
+  // References are numbered in order of first citation, which IEEE uses for its labels.
+  const allContent = collected.map(({ content }) => content).join('\n\n');
+  const cited = extractCitationKeys(allContent)
+    .map(key => bibliography.find(entry => entry.key === key))
+    .filter((entry): entry is BibliographyEntry => !!entry);
+  const numbers = new Map(cited.map((entry, i) => [entry.key, i + 1]));
+  const renderCitations = (content: string) => replaceCitations(content, (keys, original) => {
+    const resolved = keys.map(key => cited.find(entry => entry.key === key)).filter((entry): entry is BibliographyEntry => !!entry);
+    if (resolved.length < keys.length) return original;
+    return escapeMarkdown(formatInlineCitation(resolved, style, numbers));
+  });
+
+  const sections: DocumentSection[] = collected.map(({ item, content }) => {
+    const markdown = content ? renderCitations(content) : '';
+    return {
+      id: item.id,
+      title: stripNumbering(item.title),
+      number: sectionNumber(item.title),
+      level: item.level,
+      blocks: markdown ? parseMarkdownBlocks(markdown, item.level) : [],
+      markdown,
+    };
+  });
+  if (cited.length > 0) {
+    sections.push({
+      id: 'references',
+      title: 'References',
+      number: '',
+      level: 0,
+      blocks: sortReferences(cited, style).map(entry => ({ type: 'paragraph', runs: formatReference(entry, style, numbers.get(entry.key)!) })),
+    });
+  }
+
+  return {
+    title: flow.name,
+    projectName: project.name,
+    createdAt: new Date(),
+    sections,
+    bibliography,
+    unresolvedCitations: findUnresolvedCitations(allContent, flow.bibliography, liveSourceIds),
+  };
+};
+
+/**
+ * The section title with its outline number, e.g. "1.2. Scope".
+ */
+export const formatSectionTitle = (section: DocumentSection): string =>
+  section.number ? `${section.number}. ${section.title}` : section.title;
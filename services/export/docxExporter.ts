@@ -0,0 +1,209 @@
+import { createZip } from '../zip';
+import { formatSectionTitle } from './documentModel';
+import { isSafeHref } from './markdownParser';
+import type { Block, ExportDocument, ExportFormat, InlineRun, ListBlock } from './types';
+
+// A minimal WordprocessingML package: document, styles, list numbering, hyperlink
+// relationships and core properties. Headings use Word's built-in "Heading N" styles so
+// the navigation pane and generated tables of contents work.
+
+const MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const BULLET_ABSTRACT_ID = 0;
+const DECIMAL_ABSTRACT_ID = 1;
+const BULLET_NUM_ID = 1;
+const LIST_LEVELS = 9;
+
+const escapeXml = (text: string): string =>
+  text
+    // Control characters are not allowed in XML 1.0.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const textRun = (text: string, properties = ''): string =>
+  `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+const headingStyle = (level: number) => `Heading${Math.min(level + 1, 6)}`;
+
+const HEADING_SIZES = [32, 28, 26, 24, 22, 22]; // half-points
+
+const STYLES_XML = `${XML_HEADER}
+<w:styles xmlns:w="${W_NS}">
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="80"/></w:pPr><w:rPr><w:rFonts w:ascii="Calibri Light" w:hAnsi="Calibri Light"/><w:sz w:val="56"/><w:szCs w:val="56"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:rPr><w:color w:val="5A5A5A"/><w:sz w:val="24"/></w:rPr></w:style>
+${HEADING_SIZES.map((size, i) => `<w:style w:type="paragraph" w:styleId="Heading${i + 1}"><w:name w:val="heading ${i + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/><w:pPr><w:keepNext/><w:keepLines/><w:spacing w:before="${i === 0 ? 360 : 240}" w:after="80"/><w:outlineLvl w:val="${i}"/></w:pPr><w:rPr><w:b/><w:color w:val="1F3864"/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`).join('\n')}
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:left="720" w:right="720"/></w:pPr><w:rPr><w:i/><w:color w:val="404040"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/><w:spacing w:after="160" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/><w:sz w:val="20"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="InlineCode"><w:name w:val="Inline Code"/><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/><w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/></w:rPr></w:style>
+<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/>`).join('')}</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>`;
+
+const abstractNumbering = (id: number, ordered: boolean): string => {
+  const levels = Array.from({ length: LIST_LEVELS }, (_, level) => {
+    const format = ordered ? 'decimal' : 'bullet';
+    const text = ordered ? `%${level + 1}.` : ['•', '◦', '▪'][level % 3];
+    return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+  });
+  return `<w:abstractNum w:abstractNumId="${id}"><w:multiLevelType w:val="hybridMultilevel"/>${levels.join('')}</w:abstractNum>`;
+};
+
+/**
+ * Renders the document as an Office Open XML (.docx) package.
+ */
+export const renderDocx = (doc: ExportDocument): Blob => {
+  const hyperlinks: string[] = [];
+  // Each ordered list gets its own numbering instance so that it restarts at 1.
+  const orderedNumIds: number[] = [];
+
+  const hyperlinkId = (href: string) => {
+    hyperlinks.push(href);
+    return `rIdLink${hyperlinks.length}`;
+  };
+
+  const renderRuns = (runs: InlineRun[], forceBold = false): string =>
+    runs.map(run => {
+      const href = run.href && isSafeHref(run.href) ? run.href : undefined;
+      const properties = [
+        href ? '<w:rStyle w:val="Hyperlink"/>' : run.code ? '<w:rStyle w:val="InlineCode"/>' : '',
+        run.bold || forceBold ? '<w:b/>' : '',
+        run.italic ? '<w:i/>' : '',
+      ].join('');
+      const xml = textRun(run.text, properties);
+      return href ? `<w:hyperlink r:id="${hyperlinkId(href)}" w:history="1">${xml}</w:hyperlink>` : xml;
+    }).join('');
+
+  const paragraph = (content: string, style?: string, extraProperties = '') =>
+    `<w:p>${style || extraProperties ? `<w:pPr>${style ? `<w:pStyle w:val="${style}"/>` : ''}${extraProperties}</w:pPr>` : ''}${content}</w:p>`;
+
+  const renderList = (list: ListBlock, depth = 0): string => {
+    let numId = BULLET_NUM_ID;
+    if (list.ordered) {
+      numId = BULLET_NUM_ID + 1 + orderedNumIds.length;
+      orderedNumIds.push(numId);
+    }
+    return list.items.map(item =>
+      paragraph(renderRuns(item.runs), 'ListParagraph', `<w:numPr><w:ilvl w:val="${Math.min(depth, LIST_LEVELS - 1)}"/><w:numId w:val="${numId}"/></w:numPr>`) +
+      item.children.map(child => renderList(child, depth + 1)).join('')
+    ).join('');
+  };
+
+  const renderTable = (header: InlineRun[][], rows: InlineRun[][][]): string => {
+    const columns = Math.max(header.length, ...rows.map(row => row.length));
+    const cell = (runs: InlineRun[], bold: boolean) =>
+      `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${paragraph(renderRuns(runs, bold), undefined, '<w:spacing w:after="0"/>')}</w:tc>`;
+    const row = (cells: InlineRun[][], isHeader: boolean) =>
+      `<w:tr>${isHeader ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${Array.from({ length: columns }, (_, i) => cell(cells[i] || [], isHeader)).join('')}</w:tr>`;
+    return [
+      '<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>',
+      `<w:tblGrid>${'<w:gridCol/>'.repeat(columns)}</w:tblGrid>`,
+      row(header, true),
+      ...rows.map(r => row(r, false)),
+      '</w:tbl>',
+      // Word merges a table with a directly following one, so always separate them.
+      paragraph(''),
+    ].join('');
+  };
+
+  const renderBlock = (block: Block): string => {
+    switch (block.type) {
+      case 'heading': return paragraph(renderRuns(block.runs), headingStyle(block.level));
+      case 'paragraph': return paragraph(renderRuns(block.runs));
+      case 'list': return renderList(block);
+      case 'code': return paragraph(
+        block.text.split('\n').map((line, i) => `${i > 0 ? '<w:r><w:br/></w:r>' : ''}${textRun(line)}`).join(''),
+        'Code'
+      );
+      case 'quote': return paragraph(renderRuns(block.runs), 'Quote');
+      case 'table': return renderTable(block.header, block.rows);
+      case 'rule': return paragraph('', undefined, '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="BFBFBF"/></w:pBdr>');
+    }
+  };
+
+  const body = [
+    paragraph(textRun(doc.title), 'Title'),
+    paragraph(textRun(`${doc.projectName} · ${doc.createdAt.toLocaleDateString()}`), 'Subtitle'),
+    ...doc.sections.flatMap(section => [
+      paragraph(textRun(formatSectionTitle(section)), headingStyle(section.level)),
+      ...section.blocks.map(renderBlock),
+    ]),
+  ].join('\n');
+
+  const documentXml = `${XML_HEADER}
+<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}">
+<w:body>
+${body}
+<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>
+</w:body>
+</w:document>`;
+
+  const numberingXml = `${XML_HEADER}
+<w:numbering xmlns:w="${W_NS}">
+${abstractNumbering(BULLET_ABSTRACT_ID, false)}
+${abstractNumbering(DECIMAL_ABSTRACT_ID, true)}
+<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="${BULLET_ABSTRACT_ID}"/></w:num>
+${orderedNumIds.map(id => `<w:num w:numId="${id}"><w:abstractNumId w:val="${DECIMAL_ABSTRACT_ID}"/>${Array.from({ length: LIST_LEVELS }, (_, level) => `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="1"/></w:lvlOverride>`).join('')}</w:num>`).join('\n')}
+</w:numbering>`;
+
+  const documentRels = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rIdStyles" Type="${R_NS}/styles" Target="styles.xml"/>
+<Relationship Id="rIdNumbering" Type="${R_NS}/numbering" Target="numbering.xml"/>
+${hyperlinks.map((href, i) => `<Relationship Id="rIdLink${i + 1}" Type="${R_NS}/hyperlink" Target="${escapeXml(href)}" TargetMode="External"/>`).join('\n')}
+</Relationships>`;
+
+  const contentTypes = `${XML_HEADER}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+  const packageRels = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="${R_NS}/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+  const coreXml = `${XML_HEADER}
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(doc.title)}</dc:title>
+<dc:subject>${escapeXml(doc.projectName)}</dc:subject>
+<dc:creator>MAS-Writer</dc:creator>
+<dcterms:created xsi:type="dcterms:W3CDTF">${doc.createdAt.toISOString().replace(/\.\d{3}Z$/, 'Z')}</dcterms:created>
+</cp:coreProperties>`;
+
+  const encoder = new TextEncoder();
+  return createZip([
+    { name: '[Content_Types].xml', data: encoder.encode(contentTypes) },
+    { name: '_rels/.rels', data: encoder.encode(packageRels) },
+    { name: 'word/document.xml', data: encoder.encode(documentXml) },
+    { name: 'word/styles.xml', data: encoder.encode(STYLES_XML) },
+    { name: 'word/numbering.xml', data: encoder.encode(numberingXml) },
+    { name: 'word/_rels/document.xml.rels', data: encoder.encode(documentRels) },
+    { name: 'docProps/core.xml', data: encoder.encode(coreXml) },
+  ], MIME_TYPE);
+};
+
+export const docxFormat: ExportFormat = {
+  id: 'docx',
+  label: 'Word (.docx)',
+  extension: 'docx',
+  mimeType: MIME_TYPE,
+  action: 'download',
+  render: renderDocx,
+};
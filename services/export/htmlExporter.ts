@@ -0,0 +1,133 @@
+import { formatSectionTitle } from './documentModel';
+import { isSafeHref } from './markdownParser';
+import type { Block, ExportDocument, ExportFormat, InlineRun, ListBlock } from './types';
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderRuns = (runs: InlineRun[]): string =>
+  runs.map(run => {
+    let html = escapeHtml(run.text);
+    if (run.code) html = `<code>${html}</code>`;
+    if (run.italic) html = `<em>${html}</em>`;
+    if (run.bold) html = `<strong>${html}</strong>`;
+    return run.href && isSafeHref(run.href) ? `<a href="${escapeHtml(run.href)}">${html}</a>` : html;
+  }).join('');
+
+const headingTag = (level: number) => `h${Math.min(level + 2, 6)}`; // h1 is the document title
+
+const renderList = (list: ListBlock): string => {
+  const tag = list.ordered ? 'ol' : 'ul';
+  const items = list.items.map(item => `<li>${renderRuns(item.runs)}${item.children.map(renderList).join('')}</li>`);
+  return `<${tag}>${items.join('')}</${tag}>`;
+};
+
+const renderBlock = (block: Block): string => {
+  switch (block.type) {
+    case 'heading': return `<${headingTag(block.level)}>${renderRuns(block.runs)}</${headingTag(block.level)}>`;
+    case 'paragraph': return `<p>${renderRuns(block.runs)}</p>`;
+    case 'list': return renderList(block);
+    case 'code': return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+    case 'quote': return `<blockquote>${renderRuns(block.runs)}</blockquote>`;
+    case 'table': return [
+      '<table><thead><tr>',
+      ...block.header.map(cell => `<th>${renderRuns(cell)}</th>`),
+      '</tr></thead><tbody>',
+      ...block.rows.map(row => `<tr>${row.map(cell => `<td>${renderRuns(cell)}</td>`).join('')}</tr>`),
+      '</tbody></table>',
+    ].join('');
+    case 'rule': return '<hr>';
+  }
+};
+
+const anchorId = (sectionId: string) => `section-${sectionId.replace(/[^\w-]/g, '-')}`;
+
+const renderToc = (doc: ExportDocument): string => [
+  '<nav class="toc"><h2>Contents</h2><ul>',
+  ...doc.sections.map(section =>
+    `<li style="margin-left:${section.level * 1.25}em"><a href="#${anchorId(section.id)}">${escapeHtml(formatSectionTitle(section))}</a></li>`),
+  '</ul></nav>',
+].join('\n');
+
+const SCREEN_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; line-height: 1.6; color: #1f2937; max-width: 48rem; margin: 3rem auto; padding: 0 1.5rem; }
+  h1, h2, h3, h4, h5, h6 { font-family: 'Helvetica Neue', Arial, sans-serif; color: #111827; line-height: 1.25; }
+  h1 { font-size: 2.25rem; margin-bottom: 0.25rem; }
+  .subtitle { color: #6b7280; margin-top: 0; }
+  .toc { background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 1rem 1.5rem; margin: 2rem 0; }
+  .toc h2 { margin-top: 0; font-size: 1.1rem; }
+  .toc ul { list-style: none; padding: 0; margin: 0; }
+  .toc a { color: #1d4ed8; text-decoration: none; }
+  a { color: #1d4ed8; }
+  code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; background: #f3f4f6; padding: 0.1em 0.3em; border-radius: 0.25rem; }
+  pre { background: #f3f4f6; padding: 1rem; overflow-x: auto; border-radius: 0.375rem; }
+  pre code { background: none; padding: 0; }
+  blockquote { border-left: 4px solid #d1d5db; margin: 1rem 0; padding-left: 1rem; color: #4b5563; }
+  table { border-collapse: collapse; margin: 1rem 0; width: 100%; }
+  th, td { border: 1px solid #d1d5db; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+`;
+
+const PRINT_STYLES = `
+  @page { size: A4; margin: 2.5cm 2cm; }
+  body { max-width: none; margin: 0; padding: 0; font-size: 11pt; }
+  .toc { background: none; border: none; padding: 0; page-break-after: always; }
+  h1, h2, h3, h4, h5, h6 { page-break-after: avoid; break-after: avoid; }
+  pre, blockquote, table, tr { page-break-inside: avoid; break-inside: avoid; }
+  section.top-level { page-break-before: always; break-before: page; }
+  section.top-level:first-of-type { page-break-before: auto; break-before: auto; }
+  a { color: inherit; text-decoration: none; }
+`;
+
+/**
+ * Renders a standalone HTML page with a table of contents.
+ * @param options.print Adds paged-media styles: A4 margins, a page break after the contents
+ * and before each top-level section.
+ */
+export const renderHtmlDocument = (doc: ExportDocument, options: { print?: boolean } = {}): string => {
+  const sections = doc.sections.map(section => {
+    const tag = headingTag(section.level);
+    return [
+      `<section id="${anchorId(section.id)}"${section.level === 0 ? ' class="top-level"' : ''}>`,
+      `<${tag}>${escapeHtml(formatSectionTitle(section))}</${tag}>`,
+      ...section.blocks.map(renderBlock),
+      '</section>',
+    ].join('\n');
+  });
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(doc.title)}</title>
+<style>${SCREEN_STYLES}${options.print ? PRINT_STYLES : ''}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(doc.title)}</h1>
+<p class="subtitle">${escapeHtml(doc.projectName)} &middot; ${escapeHtml(doc.createdAt.toLocaleDateString())}</p>
+</header>
+${renderToc(doc)}
+${sections.join('\n')}
+</body>
+</html>
+`;
+};
+
+export const htmlFormat: ExportFormat = {
+  id: 'html',
+  label: 'HTML with table of contents (.html)',
+  extension: 'html',
+  mimeType: 'text/html',
+  action: 'download',
+  render: doc => new Blob([renderHtmlDocument(doc)], { type: 'text/html' }),
+};
+
+export const printFormat: ExportFormat = {
+  id: 'pdf',
+  label: 'PDF (print dialog)',
+  extension: 'html',
+  mimeType: 'text/html',
+  action: 'print',
+  render: doc => new Blob([renderHtmlDocument(doc, { print: true })], { type: 'text/html' }),
+};
@@ -0,0 +1,18 @@
+import type { ExportFormat } from './types';
+import { markdownFormat } from './markdownExporter';
+import { docxFormat } from './docxExporter';
+import { htmlFormat, printFormat } from './htmlExporter';
+import { latexFormat } from './latexExporter';
+import { bibtexFormat } from './bibtexExporter';
+
+export type * from './types';
+export { buildExportDocument } from './documentModel';
+export { CITATION_STYLES } from './citationStyles';
+
+/**
+ * Every available export format, in the order they are offered. Adding a format only
+ * requires implementing `ExportFormat` and listing it here.
+ */
+export const EXPORT_FORMATS: ExportFormat[] = [markdownFormat, docxFormat, htmlFormat, latexFormat, printFormat, bibtexFormat];
+
+export const getExportFormat = (id: string): ExportFormat => EXPORT_FORMATS.find(format => format.id === id) || markdownFormat;
@@ -0,0 +1,98 @@
+import type { Block, ExportFormat, InlineRun, ListBlock } from './types';
+import { isSafeHref } from './markdownParser';
+
+// OutlineItem.level 0 maps to \section; levels past \subparagraph are flattened into it.
+const SECTION_COMMANDS = ['section', 'subsection', 'subsubsection', 'paragraph', 'subparagraph'];
+
+const LATEX_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  '$': '\\$',
+  '&': '\\&',
+  '#': '\\#',
+  '%': '\\%',
+  '_': '\\_',
+  '^': '\\textasciicircum{}',
+  '~': '\\textasciitilde{}',
+};
+
+export const escapeLatex = (text: string): string => text.replace(/[\\{}$&#%_^~]/g, char => LATEX_ESCAPES[char]);
+
+const sectionCommand = (level: number) => SECTION_COMMANDS[Math.min(Math.max(level, 0), SECTION_COMMANDS.length - 1)];
+
+const renderRuns = (runs: InlineRun[]): string =>
+  runs.map(run => {
+    let tex = escapeLatex(run.text);
+    if (run.code) tex = `\\texttt{${tex}}`;
+    if (run.italic) tex = `\\emph{${tex}}`;
+    if (run.bold) tex = `\\textbf{${tex}}`;
+    return run.href && isSafeHref(run.href) ? `\\href{${run.href.replace(/[\\{}%#]/g, char => `\\${char}`)}}{${tex}}` : tex;
+  }).join('');
+
+const renderList = (list: ListBlock): string => {
+  const env = list.ordered ? 'enumerate' : 'itemize';
+  const items = list.items.map(item => `  \\item ${renderRuns(item.runs)}${item.children.map(child => `\n${renderList(child)}`).join('')}`);
+  return `\\begin{${env}}\n${items.join('\n')}\n\\end{${env}}`;
+};
+
+const renderBlock = (block: Block): string => {
+  switch (block.type) {
+    case 'heading': return `\\${sectionCommand(block.level)}*{${renderRuns(block.runs)}}`;
+    case 'paragraph': return renderRuns(block.runs);
+    case 'list': return renderList(block);
+    case 'code': return `\\begin{verbatim}\n${block.text}\n\\end{verbatim}`;
+    case 'quote': return `\\begin{quote}\n${renderRuns(block.runs)}\n\\end{quote}`;
+    case 'table': {
+      const columns = Math.max(block.header.length, ...block.rows.map(row => row.length));
+      const row = (cells: InlineRun[][]) => `${Array.from({ length: columns }, (_, i) => renderRuns(cells[i] || [])).join(' & ')} \\\\`;
+      return [
+        '\\begin{center}',
+        `\\begin{tabular}{${'l'.repeat(columns)}}`,
+        '\\toprule',
+        row(block.header),
+        '\\midrule',
+        ...block.rows.map(row),
+        '\\bottomrule',
+        '\\end{tabular}',
+        '\\end{center}',
+      ].join('\n');
+    }
+    case 'rule': return '\\noindent\\rule{\\linewidth}{0.4pt}';
+  }
+};
+
+export const latexFormat: ExportFormat = {
+  id: 'latex',
+  label: 'LaTeX (.tex)',
+  extension: 'tex',
+  mimeType: 'application/x-tex',
+  action: 'download',
+  render: doc => {
+    const body = doc.sections.map(section =>
+      [`\\${sectionCommand(section.level)}{${escapeLatex(section.title)}}`, ...section.blocks.map(renderBlock)].join('\n\n'));
+    const tex = [
+      '\\documentclass[11pt]{article}',
+      '\\usepackage[utf8]{inputenc}',
+      '\\usepackage[T1]{fontenc}',
+      '\\usepackage{booktabs}',
+      '\\usepackage{hyperref}',
+      '\\setcounter{secnumdepth}{5}',
+      '\\setcounter{tocdepth}{3}',
+      '',
+      `\\title{${escapeLatex(doc.title)}}`,
+      `\\author{${escapeLatex(doc.projectName)}}`,
+      '\\date{\\today}',
+      '',
+      '\\begin{document}',
+      '\\maketitle',
+      '\\tableofcontents',
+      '',
+      body.join('\n\n'),
+      '',
+      '\\end{document}',
+      '',
+    ].join('\n');
+    return new Blob([tex], { type: 'application/x-tex' });
+  },
+};
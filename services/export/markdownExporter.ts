@@ -0,0 +1,48 @@
+import { formatSectionTitle } from './documentModel';
+import type { Block, ExportFormat, InlineRun, ListBlock } from './types';
+
+const renderRuns = (runs: InlineRun[]): string =>
+  runs.map(run => {
+    let text = run.code ? `\`${run.text}\`` : run.text;
+    if (run.italic) text = `*${text}*`;
+    if (run.bold) text = `**${text}**`;
+    return run.href ? `[${text}](${run.href})` : text;
+  }).join('');
+
+const renderList = (list: ListBlock, depth = 0): string =>
+  list.items.map((item, i) => [
+    `${'    '.repeat(depth)}${list.ordered ? `${i + 1}.` : '-'} ${renderRuns(item.runs)}`,
+    ...item.children.map(child => renderList(child, depth + 1)),
+  ].join('\n')).join('\n');
+
+const renderBlock = (block: Block): string => {
+  switch (block.type) {
+    case 'heading': return `${'#'.repeat(Math.min(block.level + 1, 6))} ${renderRuns(block.runs)}`;
+    case 'paragraph': return renderRuns(block.runs);
+    case 'list': return renderList(block);
+    case 'code': return `\`\`\`${block.language || ''}\n${block.text}\n\`\`\``;
+    case 'quote': return `> ${renderRuns(block.runs)}`;
+    case 'table': {
+      const row = (cells: InlineRun[][]) => `| ${cells.map(renderRuns).join(' | ')} |`;
+      return [row(block.header), `| ${block.header.map(() => '---').join(' | ')} |`, ...block.rows.map(row)].join('\n');
+    }
+    case 'rule': return '---';
+  }
+};
+
+export const markdownFormat: ExportFormat = {
+  id: 'markdown',
+  label: 'Markdown (.md)',
+  extension: 'md',
+  mimeType: 'text/markdown',
+  action: 'download',
+  render: doc => new Blob([
+    doc.sections
+      .map(section => [
+        `${'#'.repeat(Math.min(section.level + 1, 6))} ${formatSectionTitle(section)}`,
+        // Section text is written out as it is; only generated sections are rendered from blocks.
+        ...(section.markdown !== undefined ? [section.markdown].filter(Boolean) : section.blocks.map(renderBlock)),
+      ].join('\n\n'))
+      .join('\n\n') + '\n',
+  ], { type: 'text/markdown' }),
+};
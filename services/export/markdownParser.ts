@@ -0,0 +1,183 @@
+import type { Block, InlineRun, ListBlock } from './types';
+
+const TAB_WIDTH = 4;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_DIVIDER_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+type RunStyle = Omit<InlineRun, 'text'>;
+
+// Only web, mail and in-document links are kept as links; anything else (javascript:, data:...)
+// is shown and exported as plain text.
+export const isSafeHref = (href: string): boolean => /^(https?:|mailto:|#)/i.test(href);
+
+// Inline tokens, tried in order at each position.
+const INLINE_PATTERNS: { pattern: RegExp; apply: (match: RegExpMatchArray, style: RunStyle) => InlineRun[] }[] = [
+  { pattern: /^`([^`]+)`/, apply: (m, style) => [{ ...style, text: m[1], code: true }] },
+  { pattern: /^\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/, apply: (m, style) => parseInline(m[1], { ...style, href: m[2] }) },
+  { pattern: /^(\*\*|__)(?=\S)([\s\S]*?\S)\1/, apply: (m, style) => parseInline(m[2], { ...style, bold: true }) },
+  { pattern: /^(\*|_)(?=\S)([\s\S]*?\S)\1(?![\w*])/, apply: (m, style) => parseInline(m[2], { ...style, italic: true }) },
+];
+
+const mergeRuns = (runs: InlineRun[]): InlineRun[] =>
+  runs.reduce<InlineRun[]>((merged, run) => {
+    const last = merged[merged.length - 1];
+    if (last && last.bold === run.bold && last.italic === run.italic && last.code === run.code && last.href === run.href) {
+      last.text += run.text;
+    } else if (run.text) {
+      merged.push({ ...run });
+    }
+    return merged;
+  }, []);
+
+/**
+ * Splits inline Markdown (bold, italic, code and links) into formatted runs.
+ */
+export const parseInline = (text: string, style: RunStyle = {}): InlineRun[] => {
+  const runs: InlineRun[] = [];
+  let plain = '';
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+    // Only try the patterns where a token could start.
+    const token = /^[`[*_]/.test(rest) && (i === 0 || rest[0] !== '_' || !/\w/.test(text[i - 1]))
+      ? INLINE_PATTERNS.map(({ pattern, apply }) => ({ match: rest.match(pattern), apply })).find(t => t.match)
+      : undefined;
+    if (token?.match) {
+      if (plain) runs.push({ ...style, text: plain });
+      plain = '';
+      runs.push(...token.apply(token.match, style));
+      i += token.match[0].length;
+    } else {
+      plain += text[i] === '\\' && i + 1 < text.length ? text[++i] : text[i];
+      i++;
+    }
+  }
+  if (plain) runs.push({ ...style, text: plain });
+  return mergeRuns(runs);
+};
+
+const measureIndent = (whitespace: string): number =>
+  [...whitespace].reduce((width, char) => (char === '\t' ? width + TAB_WIDTH - (width % TAB_WIDTH) : width + 1), 0);
+
+const splitTableRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const parseList = (lines: string[]): ListBlock => {
+  const root: ListBlock = { type: 'list', ordered: /^\s*\d/.test(lines[0]), items: [] };
+  const stack: { indent: number; list: ListBlock }[] = [];
+  for (const line of lines) {
+    const match = line.match(LIST_ITEM_PATTERN);
+    if (!match) {
+      // A continuation line belongs to the previous item.
+      const last = stack[stack.length - 1]?.list.items.slice(-1)[0];
+      if (last) last.runs.push(...parseInline(` ${line.trim()}`));
+      continue;
+    }
+    const indent = measureIndent(match[1]);
+    while (stack.length > 0 && stack[stack.length - 1].indent > indent) stack.pop();
+    let list: ListBlock;
+    if (stack.length === 0) {
+      stack.push({ indent, list: root });
+      list = root;
+    } else if (stack[stack.length - 1].indent < indent) {
+      const parentItem = stack[stack.length - 1].list.items.slice(-1)[0];
+      list = { type: 'list', ordered: /\d/.test(match[2]), items: [] };
+      if (parentItem) parentItem.children.push(list);
+      stack.push({ indent, list });
+    } else {
+      list = stack[stack.length - 1].list;
+    }
+    list.items.push({ runs: parseInline(match[3]), children: [] });
+  }
+  return root;
+};
+
+/**
+ * Parses a section's Markdown content into blocks.
+ * @param markdown The section content.
+ * @param baseLevel The document level of the section; its headings are nested below it.
+ */
+export const parseMarkdownBlocks = (markdown: string, baseLevel: number): Block[] => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const headingDepths = lines.map(line => line.match(/^(#{1,6})\s/)?.[1].length).filter((d): d is number => !!d);
+  const minDepth = headingDepths.length > 0 ? Math.min(...headingDepths) : 1;
+
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      i++;
+      continue;
+    }
+
+    const fence = trimmed.match(/^(```|~~~)\s*(\S*)/);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', language: fence[2] || undefined, text: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      blocks.push({ type: 'heading', level: baseLevel + 1 + heading[1].length - minDepth, runs: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (trimmed.startsWith('|') && i + 1 < lines.length && TABLE_DIVIDER_PATTERN.test(lines[i + 1])) {
+      const header = splitTableRow(line).map(cell => parseInline(cell));
+      const rows: InlineRun[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith('|')) {
+        rows.push(splitTableRow(lines[i++]).map(cell => parseInline(cell)));
+      }
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    if (trimmed.startsWith('>')) {
+      const body: string[] = [];
+      while (i < lines.length && lines[i].trim().startsWith('>')) body.push(lines[i++].trim().replace(/^>\s?/, ''));
+      blocks.push({ type: 'quote', runs: parseInline(body.join(' ')) });
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && lines[i].trim() && (LIST_ITEM_PATTERN.test(lines[i]) || /^\s+\S/.test(lines[i]))) {
+        body.push(lines[i++]);
+      }
+      blocks.push(parseList(body));
+      continue;
+    }
+
+    // The first line always belongs to the paragraph, even if it merely looks like a table row.
+    const body: string[] = [lines[i++].trim()];
+    while (
+      i < lines.length && lines[i].trim() &&
+      !/^(#{1,6}\s|```|~~~|>|\|)/.test(lines[i].trim()) &&
+      !LIST_ITEM_PATTERN.test(lines[i])
+    ) {
+      body.push(lines[i++].trim());
+    }
+    blocks.push({ type: 'paragraph', runs: parseInline(body.join(' ')) });
+  }
+  return blocks;
+};
+
+/**
+ * The plain text of a list of runs.
+ */
+export const runsToText = (runs: InlineRun[]): string => runs.map(run => run.text).join('');
@@ -0,0 +1,80 @@
+import type { BibliographyEntry } from '../../types';
+import type { UnresolvedCitation } from '../citationService';
+
+/**
+ * A run of text with uniform formatting. Inline Markdown is flattened into runs so every
+ * format only has to handle one level of styling.
+ */
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+export interface ListItem {
+  runs: InlineRun[];
+  /** Nested lists under this item. */
+  children: ListBlock[];
+}
+
+export interface ListBlock {
+  type: 'list';
+  ordered: boolean;
+  items: ListItem[];
+}
+
+export type Block =
+  /** `level` is the absolute heading level in the document (0 = top-level section). */
+  | { type: 'heading'; level: number; runs: InlineRun[] }
+  | { type: 'paragraph'; runs: InlineRun[] }
+  | ListBlock
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'quote'; runs: InlineRun[] }
+  | { type: 'table'; header: InlineRun[][]; rows: InlineRun[][][] }
+  | { type: 'rule' };
+
+export interface DocumentSection {
+  id: string;
+  /** The title without its outline number. */
+  title: string;
+  /** The outline number, e.g. "1.2". */
+  number: string;
+  /** 0 for top-level sections, mirroring `OutlineItem.level`. */
+  level: number;
+  blocks: Block[];
+  /** The section text as written, with citations rendered. Unset for generated sections such as "References". */
+  markdown?: string;
+}
+
+/**
+ * The intermediate model every export format renders from. Sections are flattened in
+ * document order; parents appear whenever one of their descendants has content.
+ */
+export interface ExportDocument {
+  title: string;
+  projectName: string;
+  createdAt: Date;
+  /** Includes a trailing "References" section when the content cites sources. */
+  sections: DocumentSection[];
+  /** Every bibliography entry whose source still exists in the project. */
+  bibliography: BibliographyEntry[];
+  /** Citations left as written because their key is unknown or its source was removed. */
+  unresolvedCitations: UnresolvedCitation[];
+}
+
+/**
+ * An export format. `download` formats are saved as a file; `print` formats render HTML that
+ * is opened in a new window and sent to the browser's print dialog (e.g. to save as PDF).
+ */
+export interface ExportFormat {
+  id: string;
+  label: string;
+  extension: string;
+  mimeType: string;
+  action: 'download' | 'print';
+  /** What the format renders; 'bibliography' formats ignore the sections. Defaults to 'document'. */
+  content?: 'document' | 'bibliography';
+  render(doc: ExportDocument): Blob | Promise<Blob>;
+}
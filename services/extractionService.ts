@@ -0,0 +1,258 @@
+import { ExtractionStatus, type FileExtraction } from '../types';
+import { readZip } from './zip';
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const PLAIN_TEXT_EXTENSIONS = ['txt', 'text', 'json', 'xml', 'yaml', 'yml', 'log', 'tex', 'rst'];
+const BLOCK_TAGS = new Set(['P', 'DIV', 'BR', 'LI', 'TR', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'PRE', 'BLOCKQUOTE', 'TABLE', 'UL', 'OL']);
+
+// Extraction is expensive (especially for PDFs), and File objects are immutable, so each
+// file is only ever extracted once per session.
+const cache = new WeakMap<File, Promise<FileExtraction>>();
+
+const getExtension = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+/**
+ * Renders rows of cells as a Markdown table, using the first row as the header.
+ */
+export const rowsToMarkdownTable = (rows: string[][]): string => {
+  if (rows.length === 0) return '';
+  const width = Math.max(...rows.map(row => row.length));
+  const format = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => (row[i] || '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim()).join(' | ')} |`;
+  return [format(rows[0]), `| ${Array(width).fill('---').join(' | ')} |`, ...rows.slice(1).map(format)].join('\n');
+};
+
+const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const extractCsv = async (file: File, extension: string): Promise<string> => {
+  const text = await file.text();
+  const firstLine = text.split('\n', 1)[0];
+  const delimiter = extension === 'tsv' ? '\t' : (firstLine.split(';').length > firstLine.split(',').length ? ';' : ',');
+  return rowsToMarkdownTable(parseDelimited(text, delimiter));
+};
+
+const extractMarkdown = async (file: File): Promise<string> => {
+  const text = await file.text();
+  return text
+    .replace(/^```.*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s{0,3}>\s?/gm, '')
+    .replace(/^\s*([-*_])\s*(\1\s*){2,}$/gm, '')
+    .replace(/(\*\*|\b__)(.+?)\1/g, '$2')
+    .replace(/\*(\S.*?)\*/g, '$1')
+    .replace(/\b_(\S.*?)_\b/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+const extractHtml = async (file: File): Promise<string> => {
+  const doc = new DOMParser().parseFromString(await file.text(), 'text/html');
+  doc.querySelectorAll('script, style, noscript, template').forEach(el => el.remove());
+
+  let text = '';
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent?.replace(/\s+/g, ' ') || '';
+      return;
+    }
+    if (!(node instanceof Element)) return;
+    if (node.tagName === 'TABLE') {
+      const rows = Array.from(node.querySelectorAll('tr')).map(tr =>
+        Array.from(tr.querySelectorAll('th, td')).map(cell => cell.textContent?.trim() || ''));
+      text += `\n${rowsToMarkdownTable(rows)}\n`;
+      return;
+    }
+    const isBlock = BLOCK_TAGS.has(node.tagName);
+    if (isBlock) text += '\n';
+    if (node.tagName === 'LI') text += '- ';
+    node.childNodes.forEach(walk);
+    if (isBlock) text += '\n';
+  };
+  walk(doc.body);
+  return text.split('\n').map(line => line.trim()).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const wordChildren = (el: Element, localName: string) =>
+  Array.from(el.children).filter(child => child.namespaceURI === WORD_NS && child.localName === localName);
+
+const docxParagraphText = (paragraph: Element): string => {
+  let text = '';
+  paragraph.querySelectorAll('*').forEach(node => {
+    if (node.namespaceURI !== WORD_NS) return;
+    if (node.localName === 't') text += node.textContent || '';
+    else if (node.localName === 'tab') text += '\t';
+    else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+  });
+  return text;
+};
+
+const docxParagraph = (paragraph: Element): string => {
+  const text = docxParagraphText(paragraph).trim();
+  if (!text) return '';
+  const properties = wordChildren(paragraph, 'pPr')[0];
+  const style = properties && wordChildren(properties, 'pStyle')[0]?.getAttributeNS(WORD_NS, 'val');
+  const heading = style?.match(/^Heading(\d)$/i);
+  if (style === 'Title') return `# ${text}`;
+  if (heading) return `${'#'.repeat(Math.min(Number(heading[1]) + 1, 6))} ${text}`;
+  if (properties && wordChildren(properties, 'numPr').length > 0) return `- ${text}`;
+  return text;
+};
+
+const extractDocx = async (file: File): Promise<string> => {
+  const archive = await readZip(file);
+  const documentXml = archive.get('word/document.xml');
+  if (!documentXml) throw new Error("The file has no word/document.xml; it may not be a DOCX document.");
+  const doc = new DOMParser().parseFromString(new TextDecoder().decode(documentXml), 'application/xml');
+  const body = doc.getElementsByTagNameNS(WORD_NS, 'body')[0];
+  if (!body) return '';
+
+  const blocks: string[] = [];
+  for (const child of Array.from(body.children)) {
+    if (child.namespaceURI !== WORD_NS) continue;
+    if (child.localName === 'p') {
+      blocks.push(docxParagraph(child));
+    } else if (child.localName === 'tbl') {
+      const rows = wordChildren(child, 'tr').map(tr =>
+        wordChildren(tr, 'tc').map(tc => wordChildren(tc, 'p').map(docxParagraphText).join(' ')));
+      blocks.push(rowsToMarkdownTable(rows));
+    }
+  }
+  return blocks.filter(Boolean).join('\n\n');
+};
+
+// pdf.js is large, so it is only loaded the first time a PDF is extracted. Its worker module
+// is registered on `globalThis`, which makes pdf.js run it on the main thread; that works the
+// same under Vite and under the import map in index.html.
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+const loadPdfjs = () => {
+  pdfjsPromise ??= Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs'),
+  ]).then(([pdfjs, worker]) => {
+    (globalThis as any).pdfjsWorker = worker;
+    return pdfjs;
+  });
+  return pdfjsPromise;
+};
+
+const extractPdf = async (file: File): Promise<{ text: string; pageCount: number }> => {
+  const pdfjs = await loadPdfjs();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const pageText = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('')
+        .replace(/[ \t]+\n/g, '\n')
+        .trim();
+      if (pageText) pages.push(`--- Page ${pageNumber} ---\n${pageText}`);
+    }
+    return { text: pages.join('\n\n'), pageCount: pdf.numPages };
+  } finally {
+    pdf.destroy();
+  }
+};
+
+const runExtraction = async (file: File): Promise<FileExtraction> => {
+  const extension = getExtension(file.name);
+  let format = extension || 'unknown';
+  try {
+    let text: string;
+    let detail: string | undefined;
+    if (extension === 'pdf' || file.type === 'application/pdf') {
+      format = 'pdf';
+      const result = await extractPdf(file);
+      text = result.text;
+      detail = `${result.pageCount} page(s)`;
+    } else if (extension === 'docx') {
+      text = await extractDocx(file);
+    } else if (extension === 'md' || extension === 'markdown') {
+      format = 'markdown';
+      text = await extractMarkdown(file);
+    } else if (extension === 'html' || extension === 'htm' || file.type === 'text/html') {
+      format = 'html';
+      text = await extractHtml(file);
+    } else if (extension === 'csv' || extension === 'tsv') {
+      text = await extractCsv(file, extension);
+    } else if (PLAIN_TEXT_EXTENSIONS.includes(extension) || file.type.startsWith('text/')) {
+      format = 'text';
+      text = await file.text();
+    } else {
+      return { status: ExtractionStatus.Error, format, text: '', detail: `Unsupported file type ".${extension}".` };
+    }
+
+    text = text.trim();
+    if (!text) {
+      return {
+        status: ExtractionStatus.Empty,
+        format,
+        text: '',
+        detail: format === 'pdf' ? 'No text layer found; the PDF may be scanned images.' : 'The file contains no text.',
+      };
+    }
+    return { status: ExtractionStatus.Done, format, text, detail };
+  } catch (error) {
+    console.error(`Text extraction failed for ${file.name}:`, error);
+    return { status: ExtractionStatus.Error, format, text: '', detail: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Extracts plain text from an uploaded knowledge file.
+ * PDFs yield text per page, DOCX yields paragraphs with Markdown headings, Markdown and HTML
+ * are stripped to text, and CSV/TSV are rendered as Markdown tables. Never rejects: failures
+ * are reported through the returned status.
+ * @param file The uploaded file.
+ * @returns The extraction result, cached per File.
+ */
+export const extractFileText = (file: File): Promise<FileExtraction> => {
+  let result = cache.get(file);
+  if (!result) {
+    result = runExtraction(file);
+    cache.set(file, result);
+  }
+  return result;
+};
@@ -0,0 +1,167 @@
+import { SectionStatus, type Flow, type OutlineItem, type SectionContent } from '../types';
+import { addChildItem, addSiblingItem, appendItem, createOutlineItem, moveItem, stripNumbering } from './outlineService';
+import { checkpointManualEdits } from './versionService';
+
+export interface ComparedSection {
+  item: OutlineItem;
+  depth: number;
+  content: string;
+}
+
+// One row of a flow comparison. A missing side means the section only exists in the other flow.
+export interface SectionPair {
+  left?: ComparedSection;
+  right?: ComparedSection;
+}
+
+// Ids from a finalized Markdown outline are positions like "1.2", so the same id in two flows
+// only means the same section if the title matches too.
+const POSITIONAL_ID = /^\d+(\.\d+)*$/;
+
+const normalizeTitle = (title: string): string => stripNumbering(title).toLowerCase().replace(/\s+/g, ' ');
+
+const flatten = (flow: Flow, items: OutlineItem[] = flow.outline, depth = 0): ComparedSection[] =>
+  items.flatMap(item => [
+    { item, depth, content: flow.contents[item.id]?.content || '' },
+    ...flatten(flow, item.children, depth + 1),
+  ]);
+
+/**
+ * Copies a flow with a new id and name. The copy shares nothing mutable with the original, so
+ * either can be edited, restructured or deleted without affecting the other.
+ */
+export const duplicateFlow = (flow: Flow, name: string, forked = false): Flow => ({
+  ...structuredClone(flow),
+  id: Date.now().toString(),
+  name,
+  forkedFrom: forked ? { flowId: flow.id, flowName: flow.name, createdAt: Date.now() } : flow.forkedFrom,
+});
+
+/**
+ * Picks a name that no other flow in the project uses: "Draft (copy)", "Draft (copy 2)" and so on.
+ */
+export const getCopyName = (name: string, suffix: string, flows: Flow[]): string => {
+  const taken = new Set(flows.map(f => f.name));
+  let candidate = `${name} (${suffix})`;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${name} (${suffix} ${n})`;
+  return candidate;
+};
+
+/**
+ * Pairs up the sections of two flows, in the order of the left flow. Sections match by id and
+ * title, then by title alone, then by a non-positional id (a renamed section). Sections that only
+ * exist in the right flow are placed before the next matched section that follows them there.
+ */
+export const alignSections = (left: Flow, right: Flow): SectionPair[] => {
+  const lefts = flatten(left);
+  const rights = flatten(right);
+  const match = new Map<number, number>(); // left index -> right index
+  const taken = new Set<number>();
+
+  const pass = (isMatch: (l: ComparedSection, r: ComparedSection) => boolean) => {
+    lefts.forEach((l, i) => {
+      if (match.has(i)) return;
+      const j = rights.findIndex((r, k) => !taken.has(k) && isMatch(l, r));
+      if (j >= 0) {
+        match.set(i, j);
+        taken.add(j);
+      }
+    });
+  };
+  pass((l, r) => l.item.id === r.item.id && normalizeTitle(l.item.title) === normalizeTitle(r.item.title));
+  pass((l, r) => normalizeTitle(l.item.title) === normalizeTitle(r.item.title));
+  pass((l, r) => l.item.id === r.item.id && !POSITIONAL_ID.test(l.item.id));
+
+  const pairs: SectionPair[] = [];
+  const emitted = new Set<number>();
+  const emitRightOnly = (until: number) => {
+    for (let k = 0; k < until; k++) {
+      if (!taken.has(k) && !emitted.has(k)) {
+        pairs.push({ right: rights[k] });
+        emitted.add(k);
+      }
+    }
+  };
+  lefts.forEach((l, i) => {
+    const j = match.get(i);
+    if (j === undefined) {
+      pairs.push({ left: l });
+      return;
+    }
+    emitRightOnly(j);
+    pairs.push({ left: l, right: rights[j] });
+  });
+  emitRightOnly(rights.length);
+  return pairs;
+};
+
+const findParent = (items: OutlineItem[], id: string, parent: OutlineItem | null = null): { parent: OutlineItem | null; siblings: OutlineItem[] } | null => {
+  const index = items.findIndex(item => item.id === id);
+  if (index >= 0) return { parent, siblings: items };
+  for (const item of items) {
+    const found = findParent(item.children, id, item);
+    if (found) return found;
+  }
+  return null;
+};
+
+const updateStatus = (items: OutlineItem[], id: string, status: SectionStatus): OutlineItem[] =>
+  items.map(item => (item.id === id ? { ...item, status } : { ...item, children: updateStatus(item.children, id, status) }));
+
+/**
+ * Copies one section's text from `source` into `target`. A matched section keeps its chat and
+ * history, with its previous text saved as a checkpoint. A section the target does not have is
+ * added next to its nearest matched sibling, under its matched parent, or at the end.
+ * @returns The target flow's new outline and contents.
+ */
+export const cherryPickSection = (source: Flow, target: Flow, sectionId: string): Pick<Flow, 'outline' | 'contents'> => {
+  const pairs = alignSections(source, target);
+  const targetIdOf = (id?: string) => (id ? pairs.find(p => p.left?.item.id === id)?.right?.item.id : undefined);
+  const pair = pairs.find(p => p.left?.item.id === sectionId);
+  if (!pair?.left) return { outline: target.outline, contents: target.contents };
+  const sourceSection = source.contents[sectionId];
+  const text = pair.left.content;
+
+  if (pair.right) {
+    const targetId = pair.right.item.id;
+    const existing: SectionContent = target.contents[targetId] || { content: '', messages: [], sessionFiles: [], contextIds: [], research_results: [] };
+    return {
+      outline: pair.right.item.status === SectionStatus.Outline && text.trim()
+        ? updateStatus(target.outline, targetId, SectionStatus.Writing)
+        : target.outline,
+      contents: { ...target.contents, [targetId]: { ...existing, content: text, versions: checkpointManualEdits(existing) } },
+    };
+  }
+
+  const item: OutlineItem = {
+    ...createOutlineItem(stripNumbering(pair.left.item.title)),
+    status: text.trim() ? SectionStatus.Writing : SectionStatus.Outline,
+  };
+  const location = findParent(source.outline, sectionId);
+  const index = location ? location.siblings.findIndex(s => s.id === sectionId) : -1;
+  const previousId = targetIdOf(location?.siblings[index - 1]?.id);
+  const nextId = targetIdOf(location?.siblings[index + 1]?.id);
+  const parentId = targetIdOf(location?.parent?.id);
+  const outline = previousId
+    ? addSiblingItem(target.outline, previousId, item)
+    : nextId
+      ? moveItem(appendItem(target.outline, item), item.id, nextId, 'before')
+      : parentId
+        ? addChildItem(target.outline, parentId, item)
+        : appendItem(target.outline, item);
+
+  return {
+    outline,
+    contents: {
+      ...target.contents,
+      [item.id]: {
+        content: text,
+        messages: [],
+        sessionFiles: [],
+        contextIds: [],
+        research_results: structuredClone(sourceSection?.research_results || []),
+        ...(sourceSection?.guidance ? { guidance: sourceSection.guidance } : {}),
+      },
+    },
+  };
+};
@@ -1,9 +1,42 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { SectionStatus, type OutlineItem, type ResearchResult, type Message } from '../types';
-
+import { SectionStatus, type ConsistencyFinding, type OutlineItem, type ResearchResult, type Message, type RubricCriterion } from '../types';
+import { getLLMProvider, type LLMMessage, type UsageScope } from './llm';
+import { UsageLimitError } from './usageService';
+import { renumberOutline } from './outlineService';
+import { parseConsistencyResponse, type CheckedSection } from './consistencyService';
+import { formatRubric, numberLines, parseReviewResponse, MIN_SCORE, MAX_SCORE, type ReviewResult } from './reviewService';
+
+// Every agent call goes through the configured LLM provider (Gemini by default).
 // In a real application, the API key would be securely managed.
 // For this environment, we assume process.env.API_KEY is available.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+export interface StreamOptions {
+  /** Called with the full text received so far each time a new chunk arrives. */
+  onText?: (textSoFar: string) => void;
+  /** Stops generation early. The text received up to that point is returned instead of throwing. */
+  signal?: AbortSignal;
+}
+
+// Budget refusals are passed through as-is so the user sees why nothing was generated.
+const agentError = (error: unknown, message: string): Error =>
+  error instanceof UsageLimitError ? error : new Error(message);
+
+/**
+ * Drains a provider stream into a single string, reporting progress along the way.
+ * If the stream is aborted through `signal`, the partial text is returned.
+ */
+const collectStream = async (stream: AsyncIterable<string>, { onText, signal }: StreamOptions = {}): Promise<string> => {
+  let text = '';
+  try {
+    for await (const chunk of stream) {
+      text += chunk;
+      onText?.(text);
+      if (signal?.aborted) break;
+    }
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+  }
+  return text;
+};
 
 /**
  * Generates initial content for a section when there is no prior chat history.
@@ -11,10 +44,12 @@ const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
  * @param initialPrompt The instruction for generation (e.g., "Write content for 'Introduction'").
  * @param fullContext A single string containing all contextual information (global knowledge, research, other sections).
  * @param systemInstruction A specific system prompt for the agent.
- * @returns The generated content as a string.
+ * @param options Streaming callbacks and an abort signal.
+ * @param scope What the call is accounted to in usage tracking.
+ * @returns The generated content as a string (partial if aborted).
  */
-export const generateInitialDraft = async (initialPrompt: string, fullContext: string, systemInstruction?: string): Promise<string> => {
-  console.log("Calling Gemini API for Writer Agent (Initial Draft).");
+export const generateInitialDraft = async (initialPrompt: string, fullContext: string, systemInstruction?: string, options?: StreamOptions, scope?: UsageScope): Promise<string> => {
+  console.log("Calling LLM provider for Writer Agent (Initial Draft).");
 
   try {
     // We construct a single, comprehensive prompt for the model.
@@ -25,18 +60,17 @@ export const generateInitialDraft = async (initialPrompt: string, fullContext: s
       User instruction: "${initialPrompt}"
     `;
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      // The `contents` array contains just this single, comprehensive prompt.
-      contents: [{ role: 'user', parts: [{ text: comprehensivePrompt }] }],
-      config: {
-        systemInstruction,
-      },
+    const stream = getLLMProvider().generateStream({
+      agent: 'writer',
+      scope,
+      prompt: comprehensivePrompt,
+      systemInstruction,
+      signal: options?.signal,
     });
-    return response.text;
+    return await collectStream(stream, options);
   } catch (error) {
-    console.error("Gemini API call for generateInitialDraft failed:", error);
-    throw new Error("Failed to generate initial draft from AI Agent.");
+    console.error("LLM call for generateInitialDraft failed:", error);
+    throw agentError(error, "Failed to generate initial draft from AI Agent.");
   }
 };
 
@@ -46,27 +80,29 @@ export const generateInitialDraft = async (initialPrompt: string, fullContext: s
  * @param messages The entire conversation history for the current section.
  * @param fullContext A single string containing all contextual information (global knowledge, research, other sections).
  * @param systemInstruction A specific system prompt for the agent (which includes coordinator instructions).
- * @returns The generated content as a string.
+ * @param options Streaming callbacks and an abort signal.
+ * @param scope What the call is accounted to in usage tracking.
+ * @returns The generated content as a string (partial if aborted).
  */
-export const generateContent = async (messages: Message[], fullContext: string, systemInstruction?: string): Promise<string> => {
-  console.log("Calling Gemini API for Writer Agent with conversation history.");
+export const generateContent = async (messages: Message[], fullContext: string, systemInstruction?: string, options?: StreamOptions, scope?: UsageScope): Promise<string> => {
+  console.log("Calling LLM provider for Writer Agent with conversation history.");
   
   if (messages.length === 0) {
     throw new Error("Cannot generate content with an empty message history.");
   }
 
   try {
-    // Convert our app's Message format to the Gemini API's Content format.
-    const geminiHistory = messages.map(msg => ({
+    // Convert our app's Message format to the provider's message format.
+    const history: LLMMessage[] = messages.map(msg => ({
       role: msg.sender === 'user' ? 'user' : 'model',
-      parts: [{ text: msg.text }],
+      text: msg.text,
     }));
 
     // The last message is the user's current prompt. We need to prepend the context to it.
-    const lastMessage = geminiHistory[geminiHistory.length - 1];
+    const lastMessage = history[history.length - 1];
     if (lastMessage.role === 'user') {
-        const originalPrompt = lastMessage.parts[0].text;
-        lastMessage.parts[0].text = `
+        const originalPrompt = lastMessage.text;
+        lastMessage.text = `
           ${fullContext}
     
           ---
@@ -74,17 +110,61 @@ export const generateContent = async (messages: Message[], fullContext: string,
         `;
     }
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: geminiHistory,
-      config: {
-        systemInstruction,
-      },
+    const stream = getLLMProvider().chatStream({
+      agent: 'writer',
+      scope,
+      messages: history,
+      systemInstruction,
+      signal: options?.signal,
+    });
+    return await collectStream(stream, options);
+  } catch (error) {
+    console.error("LLM call for generateContent failed:", error);
+    throw agentError(error, "Failed to generate content from AI Agent.");
+  }
+};
+
+/**
+ * Has the Writer Agent rework only a selected span of a section. The text around it is sent
+ * as context so the replacement fits in, but only the replacement is returned.
+ * @param before The section text preceding the selection.
+ * @param selection The selected text.
+ * @param after The section text following the selection.
+ * @param instruction What to do with the selection (e.g., "Shorten the selected text").
+ * @param systemInstruction The section's Writer system prompt.
+ * @param scope What the call is accounted to in usage tracking.
+ * @returns The replacement for the selected text.
+ */
+export const editSelection = async (before: string, selection: string, after: string, instruction: string, systemInstruction?: string, scope?: UsageScope): Promise<string> => {
+  console.log("Calling LLM provider for Writer Agent (selection edit).");
+
+  const prompt = `
+      The author selected part of the section and wants only that part changed.
+
+      --- TEXT BEFORE THE SELECTION ---
+${before}
+      --- SELECTED TEXT ---
+${selection}
+      --- TEXT AFTER THE SELECTION ---
+${after}
+      --- END ---
+
+      User instruction: "${instruction}"
+
+      Respond with only the new text that replaces the selected text. Do not repeat the surrounding text, add commentary or wrap the answer in quotes. Keep the formatting of the selection and make sure the result reads on seamlessly from the text before it into the text after it.
+    `;
+
+  try {
+    const response = await getLLMProvider().generate({
+      agent: 'writer',
+      scope,
+      prompt,
+      systemInstruction,
     });
     return response.text;
   } catch (error) {
-    console.error("Gemini API call for generateContent failed:", error);
-    throw new Error("Failed to generate content from AI Agent.");
+    console.error("LLM call for editSelection failed:", error);
+    throw agentError(error, "Failed to edit the selection.");
   }
 };
 
@@ -111,10 +191,11 @@ const addMetadataToOutline = (items: any[], level = 0, parentId = ''): OutlineIt
  * Creates a tailored system prompt for the Outliner Agent based on the flow's coordinator prompt.
  * This function acts as the "Coordinator Agent".
  * @param coordinatorPrompt The master prompt for the entire flow.
+ * @param scope What the call is accounted to in usage tracking.
  * @returns A tailored system prompt for the Outliner Agent as a string.
  */
-export const createOutlinerSystemPrompt = async (coordinatorPrompt: string): Promise<string> => {
-  console.log("Calling Gemini API to create a tailored system prompt for the Outliner");
+export const createOutlinerSystemPrompt = async (coordinatorPrompt: string, scope?: UsageScope): Promise<string> => {
+  console.log("Calling LLM provider to create a tailored system prompt for the Outliner");
 
   const prompt = `
     A high-level master instruction for an entire authoring project has been provided:
@@ -133,14 +214,15 @@ export const createOutlinerSystemPrompt = async (coordinatorPrompt: string): Pro
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
+    const response = await getLLMProvider().generate({
+      agent: 'coordinator',
+      scope,
+      prompt,
     });
     return response.text.trim();
   } catch (error) {
-    console.error("Gemini API call for createOutlinerSystemPrompt failed:", error);
-    throw new Error("Failed to create a tailored system prompt for the Outliner.");
+    console.error("LLM call for createOutlinerSystemPrompt failed:", error);
+    throw agentError(error, "Failed to create a tailored system prompt for the Outliner.");
   }
 };
 
@@ -150,10 +232,11 @@ export const createOutlinerSystemPrompt = async (coordinatorPrompt: string): Pro
  * @param currentOutlineText The existing outline structure as a Markdown string.
  * @param prompt The user's instruction for modification.
  * @param systemInstruction The dynamically generated system prompt that guides the agent.
+ * @param scope What the call is accounted to in usage tracking.
  * @returns The new, updated outline as a Markdown string.
  */
-export const generateOutline = async (currentOutlineText: string, prompt: string, systemInstruction: string): Promise<string> => {
-    console.log("Calling Gemini API for Outliner Agent (Text Mode)");
+export const generateOutline = async (currentOutlineText: string, prompt: string, systemInstruction: string, scope?: UsageScope): Promise<string> => {
+    console.log("Calling LLM provider for Outliner Agent (Text Mode)");
 
     const fullPrompt = `
       Please process the user's command regarding the document outline.
@@ -166,49 +249,48 @@ export const generateOutline = async (currentOutlineText: string, prompt: string
     `;
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: fullPrompt,
-            config: {
-                systemInstruction: systemInstruction,
-            }
+        const response = await getLLMProvider().generate({
+            agent: 'outliner',
+            scope,
+            prompt: fullPrompt,
+            systemInstruction: systemInstruction,
         });
 
         return response.text.trim();
     } catch (error) {
-        console.error("Gemini API call for generateOutline (Text Mode) failed:", error);
-        throw new Error("Failed to generate outline from AI Agent.");
+        console.error("LLM call for generateOutline (Text Mode) failed:", error);
+        throw agentError(error, "Failed to generate outline from AI Agent.");
     }
 };
 
 /**
- * Parses a text-based (Markdown) outline into a structured JSON format.
- * @param outlineText The Markdown string of the outline.
+ * Asks the agent to structure a free-form outline. Well-formed Markdown outlines are parsed
+ * locally by `parseMarkdownOutline`; this is only the fallback for text it cannot handle.
+ * @param outlineText The outline draft.
+ * @param scope What the call is accounted to in usage tracking.
  * @returns A structured outline.
  */
-export const parseOutlineText = async (outlineText: string): Promise<OutlineItem[]> => {
-    console.log("Calling Gemini API to parse outline text to JSON");
+export const parseOutlineText = async (outlineText: string, scope?: UsageScope): Promise<OutlineItem[]> => {
+    console.log("Calling LLM provider to parse outline text to JSON");
     
     const systemInstruction = `You are a content structure specialist. Your task is to convert a Markdown-formatted outline into a structured JSON array.
 The JSON structure for each node is: { "title": string, "children": [...] }.
-Crucially, for each "title", you MUST prepend a clear hierarchical numbering scheme (e.g., "1.", "1.1.", "1.1.1."). Choose a scheme that is appropriate for a formal document and apply it consistently.
+Keep the titles and their order exactly as written, and do not add numbering; it is added automatically.
 Do NOT add any explanatory text, markdown formatting, or anything else before or after the JSON output. Your entire response must be only the JSON array.`;
 
     const fullPrompt = `
-      Please convert the following Markdown outline to the specified JSON format. Ensure you add hierarchical numbering to each title.
+      Please convert the following outline to the specified JSON format.
 
       Markdown Outline:
       ${outlineText}
     `;
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: fullPrompt,
-            config: {
-                systemInstruction: systemInstruction,
-                responseMimeType: "application/json",
-            }
+        const response = await getLLMProvider().generateJSON({
+            agent: 'outlineParser',
+            scope,
+            prompt: fullPrompt,
+            systemInstruction: systemInstruction,
         });
 
         let jsonString = response.text.trim();
@@ -223,10 +305,10 @@ Do NOT add any explanatory text, markdown formatting, or anything else before or
             throw new Error("AI response is not a valid JSON array for the outline.");
         }
         
-        return addMetadataToOutline(parsedOutline);
+        return renumberOutline(addMetadataToOutline(parsedOutline));
     } catch (error) {
-        console.error("Gemini API call for parseOutlineText failed:", error);
-        throw new Error("Failed to parse outline from AI Agent.");
+        console.error("LLM call for parseOutlineText failed:", error);
+        throw agentError(error, "Failed to parse outline from AI Agent.");
     }
 };
 
@@ -236,10 +318,11 @@ Do NOT add any explanatory text, markdown formatting, or anything else before or
  * This function acts as the "Coordinator Agent".
  * @param query The user's research query.
  * @param coordinatorPrompt The master prompt for the entire flow.
+ * @param scope What the call is accounted to in usage tracking.
  * @returns A tailored prompt for the Research Agent as a string.
  */
-export const createResearchAgentPrompt = async (query: string, coordinatorPrompt: string): Promise<string> => {
-  console.log("Calling Gemini API to create a tailored prompt for the Research Agent");
+export const createResearchAgentPrompt = async (query: string, coordinatorPrompt: string, scope?: UsageScope): Promise<string> => {
+  console.log("Calling LLM provider to create a tailored prompt for the Research Agent");
 
   const metaPrompt = `
     You are a master coordinator for an AI authoring system. Your primary role is to craft the perfect prompts for other specialized AI agents.
@@ -265,14 +348,15 @@ export const createResearchAgentPrompt = async (query: string, coordinatorPrompt
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: metaPrompt,
+    const response = await getLLMProvider().generate({
+      agent: 'coordinator',
+      scope,
+      prompt: metaPrompt,
     });
     return response.text.trim();
   } catch (error) {
-    console.error("Gemini API call for createResearchAgentPrompt failed:", error);
-    throw new Error("Failed to create a tailored prompt for the Research agent.");
+    console.error("LLM call for createResearchAgentPrompt failed:", error);
+    throw agentError(error, "Failed to create a tailored prompt for the Research agent.");
   }
 };
 
@@ -280,21 +364,20 @@ export const createResearchAgentPrompt = async (query: string, coordinatorPrompt
 /**
  * Researches a topic using the Research Agent with Google Search grounding.
  * @param generatedPrompt The full, tailored prompt generated by the Coordinator Agent.
+ * @param scope What the call is accounted to in usage tracking.
  * @returns A list of research results with titles, URLs, and summaries.
  */
-export const researchTopic = async (generatedPrompt: string): Promise<ResearchResult[]> => {
-    console.log("Calling Gemini API for Research Agent with Google Search");
+export const researchTopic = async (generatedPrompt: string, scope?: UsageScope): Promise<ResearchResult[]> => {
+    console.log("Calling LLM provider for Research Agent with web search");
     
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: generatedPrompt,
-            config: {
-                tools: [{ googleSearch: {} }],
-            },
+        const response = await getLLMProvider().searchGrounded({
+            agent: 'research',
+            scope,
+            prompt: generatedPrompt,
         });
 
-        const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+        const sources = response.sources;
         const responseText = response.text;
 
         // A more robust regex to capture various title/summary formats
@@ -317,18 +400,18 @@ export const researchTopic = async (generatedPrompt: string): Promise<ResearchRe
         
         // Combine parsed text with grounding metadata URLs
         return results.slice(0, 3).map((result, index) => {
-            const chunk = groundingChunks[index]?.web;
+            const source = sources[index];
             return {
                 id: `res${Date.now()}${index}`,
-                title: chunk?.title || result.title,
-                url: chunk?.uri || '#',
+                title: source?.title || result.title,
+                url: source?.uri || '#',
                 summary: result.summary,
             };
         });
 
     } catch (error) {
-        console.error("Gemini API call for researchTopic failed:", error);
-        throw new Error("Failed to research topic with AI Agent.");
+        console.error("LLM call for researchTopic failed:", error);
+        throw agentError(error, "Failed to research topic with AI Agent.");
     }
 };
 
@@ -339,15 +422,17 @@ export const researchTopic = async (generatedPrompt: string): Promise<ResearchRe
  * @param outlineStructure A string representation of the document's outline.
  * @param currentSectionTitle The title of the section being written.
  * @param coordinatorPrompt The master prompt for the entire project.
+ * @param scope What the call is accounted to in usage tracking.
  * @returns A tailored system prompt as a string.
  */
 export const createTailoredSystemPrompt = async (
   documentTitle: string,
   outlineStructure: string,
   currentSectionTitle: string,
-  coordinatorPrompt: string
+  coordinatorPrompt: string,
+  scope?: UsageScope
 ): Promise<string> => {
-  console.log("Calling Gemini API to create a tailored system prompt");
+  console.log("Calling LLM provider to create a tailored system prompt");
 
   const prompt = `
     A high-level Coordinator Agent has provided the following master instruction for the entire project:
@@ -370,15 +455,129 @@ export const createTailoredSystemPrompt = async (
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
+    const response = await getLLMProvider().generate({
+      agent: 'coordinator',
+      scope,
+      prompt,
     });
     // This function acts as the "Coordinator Agent", creating a tailored prompt based on the master instruction.
     // The result is the final, specific system prompt for the Writer Agent.
     return response.text.trim();
   } catch (error) {
-    console.error("Gemini API call for createTailoredSystemPrompt failed:", error);
-    throw new Error("Failed to create a tailored system prompt.");
+    console.error("LLM call for createTailoredSystemPrompt failed:", error);
+    throw agentError(error, "Failed to create a tailored system prompt.");
+  }
+};
+/**
+ * Has the Reviewer Agent score a section against the flow's rubric and comment on it.
+ * The content is sent with numbered lines so every comment can be anchored to them.
+ * @param documentTitle The main title of the document.
+ * @param outlineStructure A string representation of the document's outline.
+ * @param sectionTitle The title of the section under review.
+ * @param coordinatorPrompt The master prompt for the entire flow.
+ * @param content The section's current content.
+ * @param rubric The criteria to score the section on.
+ * @param scope What the call is accounted to in usage tracking.
+ * @returns The scores, a summary and line-anchored comments.
+ */
+export const reviewSection = async (
+  documentTitle: string,
+  outlineStructure: string,
+  sectionTitle: string,
+  coordinatorPrompt: string,
+  content: string,
+  rubric: RubricCriterion[],
+  scope?: UsageScope
+): Promise<ReviewResult> => {
+  console.log("Calling LLM provider for Reviewer Agent");
+
+  const systemInstruction = `You are a meticulous editor reviewing one section of a larger document. Judge the section against the coordinator's master instruction and the role the section plays in the outline.
+Score each rubric criterion from ${MIN_SCORE} (poor) to ${MAX_SCORE} (excellent) with a one-sentence rationale.
+Anchor every comment to the numbered lines it concerns. When you propose a rewrite, give the full replacement text for those lines, without line numbers.
+Respond with only a JSON object of the form:
+{ "scores": [{ "criterionId": string, "score": number, "rationale": string }], "summary": string, "comments": [{ "startLine": number, "endLine": number, "criterionId": string, "comment": string, "suggestion": string }] }`;
+
+  const prompt = `
+    --- COORDINATOR PROMPT ---
+    ${coordinatorPrompt}
+    --- END COORDINATOR PROMPT ---
+
+    **Overall Document Title:** "${documentTitle}"
+
+    **Document Outline Structure:**
+    ${outlineStructure}
+
+    **Section Under Review:** "${sectionTitle}"
+
+    **Rubric:**
+${formatRubric(rubric)}
+
+    **Section Content (numbered lines):**
+${numberLines(content)}
+  `;
+
+  try {
+    const response = await getLLMProvider().generateJSON({
+      agent: 'reviewer',
+      scope,
+      prompt,
+      systemInstruction,
+    });
+    return parseReviewResponse(response.text, rubric, content);
+  } catch (error) {
+    console.error("LLM call for reviewSection failed:", error);
+    throw agentError(error, "Failed to review the section.");
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Has the Consistency Agent read the completed sections side by side and report statements that
+ * contradict each other, such as different figures, dates or claims about the same thing.
+ * Spelling, duplication and section references are checked locally and are not asked for.
+ * @param documentTitle The main title of the document.
+ * @param coordinatorPrompt The master prompt for the entire flow.
+ * @param sectionsText The sections, as laid out by `formatSectionsForConsistency`.
+ * @param sections The sections the text was built from, to anchor the findings.
+ * @param scope What the call is accounted to in usage tracking.
+ * @returns The findings whose quotes could be found in their sections.
+ */
+export const checkConsistency = async (
+  documentTitle: string,
+  coordinatorPrompt: string,
+  sectionsText: string,
+  sections: CheckedSection[],
+  scope?: UsageScope
+): Promise<ConsistencyFinding[]> => {
+  console.log("Calling LLM provider for Consistency Agent");
+
+  const systemInstruction = `You are a fact-checking editor reading every section of a document side by side. Find places where two sections contradict each other: different figures, dates, names, counts or claims about the same thing.
+Report only real contradictions between sections, not style, wording or repetition. Report each contradiction once, on the section that should change.
+Copy each quote verbatim from the section text, keeping it short: a phrase or a sentence.
+Respond with only a JSON object of the form:
+{ "findings": [{ "sectionId": string, "quote": string, "otherSectionId": string, "otherQuote": string, "message": string, "fix": string }] }
+where "message" explains the contradiction in one sentence and "fix" is an instruction to the writer of that section. If there are none, respond with { "findings": [] }.`;
+
+  const prompt = `
+    --- COORDINATOR PROMPT ---
+    ${coordinatorPrompt}
+    --- END COORDINATOR PROMPT ---
+
+    **Overall Document Title:** "${documentTitle}"
+
+    **Sections (each headed by its id in brackets):**
+${sectionsText}
+  `;
+
+  try {
+    const response = await getLLMProvider().generateJSON({
+      agent: 'consistency',
+      scope,
+      prompt,
+      systemInstruction,
+    });
+    return parseConsistencyResponse(response.text, sections);
+  } catch (error) {
+    console.error("LLM call for checkConsistency failed:", error);
+    throw agentError(error, "Failed to check the document for consistency.");
+  }
+};
@@ -0,0 +1,118 @@
+import { GoogleGenAI } from "@google/genai";
+import type { LLMProvider, LLMMessage, ProviderConfig, TokenUsage } from './types';
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-004';
+
+interface UsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+}
+
+// Thinking tokens are billed as output.
+const toTokenUsage = (metadata: UsageMetadata): TokenUsage => ({
+  inputTokens: metadata.promptTokenCount || 0,
+  outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+});
+
+/**
+ * Creates an adapter for the Google Gemini API via `@google/genai`.
+ * The SDK client is only constructed on first use, so other providers work without a Gemini key.
+ */
+export const createGeminiProvider = (config: ProviderConfig): LLMProvider => {
+  const model = config.model || DEFAULT_GEMINI_MODEL;
+  const embeddingModel = config.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+  let client: GoogleGenAI | null = null;
+  const ai = () => (client ??= new GoogleGenAI({ apiKey: config.apiKey }));
+
+  const toContents = (messages: LLMMessage[]) =>
+    messages.map(msg => ({ role: msg.role, parts: [{ text: msg.text }] }));
+
+  // Each chunk carries the usage so far, so the last one holds the totals.
+  async function* stream(messages: LLMMessage[], systemInstruction?: string, signal?: AbortSignal, onUsage?: (usage: TokenUsage) => void) {
+    const response = await ai().models.generateContentStream({
+      model,
+      contents: toContents(messages),
+      config: { systemInstruction, abortSignal: signal },
+    });
+    let usage: UsageMetadata | undefined;
+    try {
+      for await (const chunk of response) {
+        if (chunk.usageMetadata) usage = chunk.usageMetadata;
+        if (chunk.text) yield chunk.text;
+      }
+    } finally {
+      if (usage) onUsage?.(toTokenUsage(usage));
+    }
+  }
+
+  return {
+    name: 'Gemini',
+    model,
+    embeddingModel,
+
+    generate: async ({ prompt, systemInstruction, signal, onUsage }) => {
+      const response = await ai().models.generateContent({
+        model,
+        contents: toContents([{ role: 'user', text: prompt }]),
+        config: { systemInstruction, abortSignal: signal },
+      });
+      if (response.usageMetadata) onUsage?.(toTokenUsage(response.usageMetadata));
+      return { text: response.text ?? '' };
+    },
+
+    chat: async ({ messages, systemInstruction, signal, onUsage }) => {
+      const response = await ai().models.generateContent({
+        model,
+        contents: toContents(messages),
+        config: { systemInstruction, abortSignal: signal },
+      });
+      if (response.usageMetadata) onUsage?.(toTokenUsage(response.usageMetadata));
+      return { text: response.text ?? '' };
+    },
+
+    generateStream: ({ prompt, systemInstruction, signal, onUsage }) =>
+      stream([{ role: 'user', text: prompt }], systemInstruction, signal, onUsage),
+
+    chatStream: ({ messages, systemInstruction, signal, onUsage }) =>
+      stream(messages, systemInstruction, signal, onUsage),
+
+    generateJSON: async ({ prompt, systemInstruction, signal, onUsage }) => {
+      const response = await ai().models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          systemInstruction,
+          abortSignal: signal,
+          responseMimeType: "application/json",
+        },
+      });
+      if (response.usageMetadata) onUsage?.(toTokenUsage(response.usageMetadata));
+      return { text: response.text ?? '' };
+    },
+
+    searchGrounded: async ({ prompt, systemInstruction, signal, onUsage }) => {
+      const response = await ai().models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          systemInstruction,
+          abortSignal: signal,
+          tools: [{ googleSearch: {} }],
+        },
+      });
+      if (response.usageMetadata) onUsage?.(toTokenUsage(response.usageMetadata));
+      const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+      return {
+        text: response.text ?? '',
+        sources: groundingChunks.map(chunk => ({ title: chunk.web?.title || '', uri: chunk.web?.uri || '' })),
+      };
+    },
+
+    embed: async (texts) => {
+      const response = await ai().models.embedContent({ model: embeddingModel, contents: texts });
+      return (response.embeddings || []).map(embedding => embedding.values || []);
+    },
+  };
+};
@@ -0,0 +1,49 @@
+import type { LLMProvider, ProviderConfig, ProviderKind } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createMockProvider } from './mockProvider';
+import { withUsageMetering } from './usageMetering';
+
+export type * from './types';
+
+const PROVIDER_FACTORIES: Record<ProviderKind, (config: ProviderConfig) => LLMProvider> = {
+  'gemini': createGeminiProvider,
+  'openai-compatible': createOpenAICompatibleProvider,
+  'mock': createMockProvider,
+};
+
+/**
+ * Reads the provider configuration from the environment (see `env.js` / `.env.local`).
+ * Defaults to Gemini with `API_KEY`, matching the app's original behaviour.
+ */
+export const getProviderConfigFromEnv = (): ProviderConfig => {
+  const kind = (process.env.LLM_PROVIDER || 'gemini') as ProviderKind;
+  if (!(kind in PROVIDER_FACTORIES)) {
+    console.warn(`Unknown LLM_PROVIDER "${kind}", falling back to Gemini.`);
+    return { kind: 'gemini', apiKey: process.env.API_KEY, model: process.env.LLM_MODEL };
+  }
+  return {
+    kind,
+    model: process.env.LLM_MODEL || undefined,
+    embeddingModel: process.env.LLM_EMBEDDING_MODEL || undefined,
+    baseUrl: process.env.LLM_BASE_URL || undefined,
+    apiKey: kind === 'gemini' ? process.env.API_KEY : process.env.LLM_API_KEY || undefined,
+  };
+};
+
+export const createProvider = (config: ProviderConfig): LLMProvider => PROVIDER_FACTORIES[config.kind](config);
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Returns the provider every agent call goes through, creating it from the environment on first use.
+ * Calls through it are metered for usage accounting.
+ */
+export const getLLMProvider = (): LLMProvider => (activeProvider ??= withUsageMetering(createProvider(getProviderConfigFromEnv())));
+
+/**
+ * Replaces the active provider, e.g. to switch to the mock provider at runtime.
+ */
+export const setLLMProvider = (provider: LLMProvider) => {
+  activeProvider = withUsageMetering(provider);
+};
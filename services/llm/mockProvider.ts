@@ -0,0 +1,142 @@
+import type { LLMProvider, AgentRole, GenerateRequest, ChatRequest, ProviderConfig } from './types';
+
+const SAMPLE_OUTLINE = `- Introduction
+  - Background
+  - Goals
+- Main Discussion
+  - Key Concepts
+  - Examples
+- Conclusion`;
+
+const MOCK_LATENCY_MS = 300;
+const MOCK_TOKEN_INTERVAL_MS = 40;
+
+// FNV-1a, so the same input always yields the same "random" choices.
+const hash = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+const extractListLines = (text: string): string[] =>
+  text.split('\n').filter(line => /^\s*(?:[-*]|\d+\.)\s+\S/.test(line));
+
+const listToJSON = (lines: string[]) => {
+  interface Node { title: string; children: Node[] }
+  const root: Node[] = [];
+  const stack: { indent: number; children: Node[] }[] = [{ indent: -1, children: root }];
+  for (const line of lines) {
+    const indent = line.search(/\S/);
+    const title = line.trim().replace(/^(?:[-*]|\d+\.)\s+/, '');
+    while (stack.length > 1 && stack[stack.length - 1].indent >= indent) stack.pop();
+    const node: Node = { title, children: [] };
+    stack[stack.length - 1].children.push(node);
+    stack.push({ indent, children: node.children });
+  }
+  const number = (nodes: Node[], prefix = ''): Node[] =>
+    nodes.map((node, i) => {
+      const label = `${prefix}${i + 1}.`;
+      return { title: `${label} ${node.title}`, children: number(node.children, label) };
+    });
+  return number(root);
+};
+
+const respond = (agent: AgentRole, prompt: string, systemInstruction = ''): string => {
+  const seed = hash(`${agent}\n${systemInstruction}\n${prompt}`).toString(16);
+  switch (agent) {
+    case 'coordinator':
+      return `You are a mock agent (${seed}). Follow the user's instructions precisely and write in a clear, professional tone.`;
+    case 'outliner': {
+      const existing = extractListLines(prompt);
+      return existing.length > 0 ? existing.join('\n') : SAMPLE_OUTLINE;
+    }
+    case 'outlineParser':
+      return JSON.stringify(listToJSON(extractListLines(prompt)));
+    case 'research':
+      return [1, 2, 3]
+        .map(n => `${n}. **Mock source ${n} (${seed})**\nSummary: Deterministic placeholder summary number ${n}.`)
+        .join('\n');
+    case 'reviewer': {
+      const criteria = [...prompt.matchAll(/^\s*- ([\w-]+) \(/gm)].map(match => match[1]);
+      const lines = prompt.match(/^\d+\| .*$/gm) || [];
+      return JSON.stringify({
+        scores: criteria.map((criterionId, i) => ({ criterionId, score: (hash(seed + criterionId) % 3) + 3 - (i % 2), rationale: `Mock rationale for ${criterionId}.` })),
+        summary: `Mock review (${seed}).`,
+        comments: lines.length > 0 ? [{ startLine: 1, endLine: 1, criterionId: criteria[0], comment: 'Mock comment on the opening line.', suggestion: lines[0].replace(/^\d+\| /, '') }] : [],
+      });
+    }
+    case 'consistency': {
+      // Flags the first number that one section states and the next one contradicts.
+      const sections = [...prompt.matchAll(/^=== \[([^\]]+)\] .* ===\n([\s\S]*?)(?=^=== \[|(?![\s\S]))/gm)]
+        .map(match => ({ id: match[1], numbers: [...match[2].matchAll(/\b\d+(?:[.,]\d+)?%?/g)].map(n => n[0]) }));
+      for (let i = 1; i < sections.length; i++) {
+        const previous = sections[i - 1];
+        const number = sections[i].numbers.find(n => previous.numbers.length > 0 && !previous.numbers.includes(n));
+        if (number) {
+          return JSON.stringify({ findings: [{
+            sectionId: sections[i].id, quote: number, otherSectionId: previous.id, otherQuote: previous.numbers[0],
+            message: `Mock finding (${seed}): ${number} does not match ${previous.numbers[0]}.`, fix: '',
+          }] });
+        }
+      }
+      return JSON.stringify({ findings: [] });
+    }
+    case 'writer':
+    default: {
+      const instruction = prompt.trim().split('\n').pop()?.trim() || '';
+      return `[Mock draft ${seed}]\n\nThis placeholder text was produced offline by the mock provider in response to: ${instruction.slice(0, 200)}`;
+    }
+  }
+};
+
+/**
+ * Creates a deterministic, offline provider. Responses depend only on the request, which
+ * makes the app usable without network access and keeps manual testing reproducible.
+ */
+export const createMockProvider = (config: ProviderConfig): LLMProvider => {
+  const answer = async ({ agent, prompt, systemInstruction, signal }: GenerateRequest) => {
+    await delay(MOCK_LATENCY_MS, signal);
+    return { text: respond(agent, prompt, systemInstruction) };
+  };
+
+  // Emits the same answer word by word, to exercise the streaming UI offline.
+  async function* streamAnswer(request: GenerateRequest) {
+    const { text } = await answer(request);
+    for (const token of text.split(/(?<=\s)/)) {
+      await delay(MOCK_TOKEN_INTERVAL_MS, request.signal);
+      yield token;
+    }
+  }
+
+  const lastMessageRequest = ({ agent, messages, systemInstruction, signal }: ChatRequest): GenerateRequest =>
+    ({ agent, systemInstruction, signal, prompt: messages[messages.length - 1]?.text || '' });
+
+  return {
+    name: 'Mock',
+    model: config.model || 'mock-1',
+    generate: answer,
+    generateJSON: answer,
+    chat: (request) => answer(lastMessageRequest(request)),
+    generateStream: streamAnswer,
+    chatStream: (request) => streamAnswer(lastMessageRequest(request)),
+    searchGrounded: async (request) => {
+      const { text } = await answer(request);
+      return {
+        text,
+        sources: [1, 2, 3].map(n => ({ title: `Mock source ${n}`, uri: `https://example.com/mock-source-${n}` })),
+      };
+    },
+  };
+};
@@ -0,0 +1,129 @@
+import type { LLMProvider, LLMMessage, ProviderConfig, TokenUsage } from './types';
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp's server listens on :8080/v1 instead.
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'llama3.1';
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+const toTokenUsage = (usage: { prompt_tokens?: number; completion_tokens?: number }): TokenUsage => ({
+  inputTokens: usage.prompt_tokens || 0,
+  outputTokens: usage.completion_tokens || 0,
+});
+
+const toChatMessages = (messages: LLMMessage[], systemInstruction?: string): ChatCompletionMessage[] => [
+  ...(systemInstruction ? [{ role: 'system' as const, content: systemInstruction }] : []),
+  ...messages.map(msg => ({ role: msg.role === 'model' ? 'assistant' as const : 'user' as const, content: msg.text })),
+];
+
+/**
+ * Creates an adapter for any server implementing the OpenAI `/chat/completions` API,
+ * such as a local Ollama or llama.cpp server. Web search is not part of that API, so
+ * search-grounded calls fall back to plain generation without sources. Embeddings are only
+ * offered when an embedding model is configured.
+ */
+export const createOpenAICompatibleProvider = (config: ProviderConfig): LLMProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const model = config.model || DEFAULT_MODEL;
+
+  const request = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`LLM endpoint returned ${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`);
+    }
+    return response;
+  };
+
+  const complete = async (messages: ChatCompletionMessage[], signal?: AbortSignal, onUsage?: (usage: TokenUsage) => void): Promise<string> => {
+    const data = await (await request('/chat/completions', { model, messages, stream: false }, signal)).json();
+    if (data.usage) onUsage?.(toTokenUsage(data.usage));
+    return data.choices?.[0]?.message?.content ?? '';
+  };
+
+  // Parses the server-sent events of a streaming completion, yielding each content delta.
+  // Servers that honour `include_usage` send the token counts in a final chunk.
+  async function* stream(messages: ChatCompletionMessage[], signal?: AbortSignal, onUsage?: (usage: TokenUsage) => void) {
+    const response = await request('/chat/completions', { model, messages, stream: true, stream_options: { include_usage: true } }, signal);
+    if (!response.body) throw new Error("LLM endpoint returned an empty stream.");
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data) continue;
+          if (data === '[DONE]') return;
+          const event = JSON.parse(data);
+          if (event.usage) onUsage?.(toTokenUsage(event.usage));
+          const delta = event.choices?.[0]?.delta?.content;
+          if (delta) yield delta as string;
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  return {
+    name: 'OpenAI-compatible',
+    model,
+
+    generate: async ({ prompt, systemInstruction, signal, onUsage }) => ({
+      text: await complete(toChatMessages([{ role: 'user', text: prompt }], systemInstruction), signal, onUsage),
+    }),
+
+    chat: async ({ messages, systemInstruction, signal, onUsage }) => ({
+      text: await complete(toChatMessages(messages, systemInstruction), signal, onUsage),
+    }),
+
+    generateStream: ({ prompt, systemInstruction, signal, onUsage }) =>
+      stream(toChatMessages([{ role: 'user', text: prompt }], systemInstruction), signal, onUsage),
+
+    chatStream: ({ messages, systemInstruction, signal, onUsage }) =>
+      stream(toChatMessages(messages, systemInstruction), signal, onUsage),
+
+    // `response_format: json_object` only allows top-level objects, and our callers expect
+    // arrays too, so JSON mode is requested through the system instruction instead.
+    generateJSON: async ({ prompt, systemInstruction, signal, onUsage }) => ({
+      text: await complete(toChatMessages(
+        [{ role: 'user', text: prompt }],
+        `${systemInstruction || ''}\nRespond with valid JSON only, without code fences or commentary.`.trim()
+      ), signal, onUsage),
+    }),
+
+    searchGrounded: async ({ prompt, systemInstruction, signal, onUsage }) => {
+      console.warn("Web search grounding is not available for OpenAI-compatible endpoints; answering without it.");
+      return {
+        text: await complete(toChatMessages([{ role: 'user', text: prompt }], systemInstruction), signal, onUsage),
+        sources: [],
+      };
+    },
+
+    embeddingModel: config.embeddingModel,
+    embed: config.embeddingModel
+      ? async (texts) => {
+          const data = await (await request('/embeddings', { model: config.embeddingModel, input: texts })).json();
+          return (data.data || [])
+            .sort((a: any, b: any) => a.index - b.index)
+            .map((item: any) => item.embedding as number[]);
+        }
+      : undefined,
+  };
+};
@@ -0,0 +1,93 @@
+/**
+ * The agents that talk to a language model. Providers receive this on every request so
+ * that adapters such as the mock can shape their answers for the calling agent.
+ */
+export type AgentRole = 'coordinator' | 'outliner' | 'writer' | 'research' | 'outlineParser' | 'reviewer' | 'consistency';
+
+export interface LLMMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/** Token counts reported by the backend for one call. */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** What a call is attributed to in usage accounting. */
+export interface UsageScope {
+  projectId: string;
+  flowId?: string;
+  sectionId?: string;
+}
+
+export interface LLMRequest {
+  agent: AgentRole;
+  systemInstruction?: string;
+  /** Aborts the underlying request. Streams stop yielding once this fires. */
+  signal?: AbortSignal;
+  /** The project, flow and section the call is made for. Unscoped calls are not recorded. */
+  scope?: UsageScope;
+  /**
+   * Called by the provider with the token counts the backend reported, once they are known
+   * (after the last chunk for streams). Providers that cannot report usage never call it.
+   */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface GenerateRequest extends LLMRequest {
+  prompt: string;
+}
+
+export interface ChatRequest extends LLMRequest {
+  messages: LLMMessage[];
+}
+
+export interface LLMResponse {
+  text: string;
+}
+
+export interface GroundingSource {
+  title: string;
+  uri: string;
+}
+
+export interface GroundedResponse extends LLMResponse {
+  sources: GroundingSource[];
+}
+
+/**
+ * A language model backend. Every agent call in the app goes through one of these methods,
+ * so supporting a new backend only requires implementing this interface.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  /** Single-turn text generation. */
+  generate(request: GenerateRequest): Promise<LLMResponse>;
+  /** Multi-turn generation; the last message is the one being answered. */
+  chat(request: ChatRequest): Promise<LLMResponse>;
+  /** Like `generate`, but yields the response text incrementally as it is produced. */
+  generateStream(request: GenerateRequest): AsyncIterable<string>;
+  /** Like `chat`, but yields the response text incrementally as it is produced. */
+  chatStream(request: ChatRequest): AsyncIterable<string>;
+  /** Single-turn generation constrained to a JSON response. Returns the raw JSON text. */
+  generateJSON(request: GenerateRequest): Promise<LLMResponse>;
+  /** Single-turn generation grounded in web search results, where the backend supports it. */
+  searchGrounded(request: GenerateRequest): Promise<GroundedResponse>;
+  /** The model used by `embed`, if the backend has one. */
+  readonly embeddingModel?: string;
+  /** Embeds texts for retrieval, one vector per input. Absent when no embedding model is available. */
+  embed?(texts: string[]): Promise<number[][]>;
+}
+
+export type ProviderKind = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  model?: string;
+  embeddingModel?: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
@@ -0,0 +1,89 @@
+import type { ChatRequest, GenerateRequest, LLMProvider, LLMResponse, TokenUsage } from './types';
+import type { UsageRecord } from '../../types';
+import { checkUsageGuard, estimateCost, recordUsage } from '../usageService';
+import { estimateTokens } from '../contextBudgetService';
+
+let recordCounter = 0;
+
+const inputText = (request: GenerateRequest | ChatRequest): string =>
+  [request.systemInstruction || '', 'prompt' in request ? request.prompt : request.messages.map(msg => msg.text).join('\n')].join('\n');
+
+/**
+ * Wraps a provider so every scoped call is checked against the usage guard first and recorded
+ * afterwards with its token counts, latency and cost. Counts the backend does not report are
+ * estimated from the text. Embeddings are not agent calls and pass through unrecorded.
+ */
+export const withUsageMetering = (provider: LLMProvider): LLMProvider => {
+  const begin = (request: GenerateRequest | ChatRequest) => {
+    if (request.scope) checkUsageGuard(request.scope, request.agent);
+    const startedAt = Date.now();
+    let reported: TokenUsage | undefined;
+    const onUsage = (usage: TokenUsage) => {
+      reported = usage;
+      request.onUsage?.(usage);
+    };
+    const finish = (outputText: string, status: UsageRecord['status']) => {
+      if (!request.scope) return;
+      // A failed call is not billed unless the backend says otherwise.
+      const usage = reported || (status === 'error'
+        ? { inputTokens: 0, outputTokens: 0 }
+        : { inputTokens: estimateTokens(inputText(request)), outputTokens: estimateTokens(outputText) });
+      recordUsage(request.scope, {
+        id: `use${startedAt}-${recordCounter++}`,
+        timestamp: startedAt,
+        agent: request.agent,
+        provider: provider.name,
+        model: provider.model,
+        ...(request.scope.flowId ? { flowId: request.scope.flowId } : {}),
+        ...(request.scope.sectionId ? { sectionId: request.scope.sectionId } : {}),
+        ...usage,
+        estimated: !reported,
+        latencyMs: Date.now() - startedAt,
+        costUsd: estimateCost(provider.model, usage),
+        status,
+      });
+    };
+    return { onUsage, finish };
+  };
+
+  const metered = async <R extends LLMResponse>(request: GenerateRequest | ChatRequest, call: (onUsage: (usage: TokenUsage) => void) => Promise<R>): Promise<R> => {
+    const { onUsage, finish } = begin(request);
+    try {
+      const response = await call(onUsage);
+      finish(response.text, 'ok');
+      return response;
+    } catch (error) {
+      finish('', request.signal?.aborted ? 'aborted' : 'error');
+      throw error;
+    }
+  };
+
+  async function* meteredStream(request: GenerateRequest | ChatRequest, open: (onUsage: (usage: TokenUsage) => void) => AsyncIterable<string>) {
+    const { onUsage, finish } = begin(request);
+    let text = '';
+    // Stays 'aborted' if the consumer stops reading before the stream ends.
+    let status: UsageRecord['status'] = 'aborted';
+    try {
+      for await (const chunk of open(onUsage)) {
+        text += chunk;
+        yield chunk;
+      }
+      status = 'ok';
+    } catch (error) {
+      status = request.signal?.aborted ? 'aborted' : 'error';
+      throw error;
+    } finally {
+      finish(text, status);
+    }
+  }
+
+  return {
+    ...provider,
+    generate: request => metered(request, onUsage => provider.generate({ ...request, onUsage })),
+    chat: request => metered(request, onUsage => provider.chat({ ...request, onUsage })),
+    generateStream: request => meteredStream(request, onUsage => provider.generateStream({ ...request, onUsage })),
+    chatStream: request => meteredStream(request, onUsage => provider.chatStream({ ...request, onUsage })),
+    generateJSON: request => metered(request, onUsage => provider.generateJSON({ ...request, onUsage })),
+    searchGrounded: request => metered(request, onUsage => provider.searchGrounded({ ...request, onUsage })),
+  };
+};
@@ -0,0 +1,461 @@
+// Pure text transformations behind the Markdown editor. Every edit is described as a single
+// replacement, so the editor can apply it through the browser and keep native undo working.
+
+/**
+ * Replaces `text[from, to)` with `insert`, then selects `[selectionStart, selectionEnd)`.
+ */
+export interface TextChange {
+  from: number;
+  to: number;
+  insert: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+export const applyTextChange = (text: string, change: TextChange): string =>
+  text.slice(0, change.from) + change.insert + text.slice(change.to);
+
+const TAB_WIDTH = 4;
+const LIST_LINE_PATTERN = /^(\s*)([-*+]|\d+[.)])(\s+|$)/;
+const TABLE_DIVIDER_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+const lineStartOf = (text: string, pos: number): number => text.lastIndexOf('\n', pos - 1) + 1;
+
+const lineEndOf = (text: string, pos: number): number => {
+  const end = text.indexOf('\n', pos);
+  return end < 0 ? text.length : end;
+};
+
+// The whole lines a selection touches. A selection ending right after a line break leaves the
+// next line out.
+const selectedLines = (text: string, start: number, end: number) => {
+  const from = lineStartOf(text, start);
+  const to = lineEndOf(text, end > start && text[end - 1] === '\n' ? end - 1 : end);
+  return { from, to, lines: text.slice(from, to).split('\n') };
+};
+
+const measureIndent = (whitespace: string): number =>
+  [...whitespace].reduce((width, char) => (char === '\t' ? width + TAB_WIDTH - (width % TAB_WIDTH) : width + 1), 0);
+
+/**
+ * Wraps the selection in an inline marker such as `**`, or unwraps it if it is already wrapped.
+ * @param placeholder Inserted and selected when nothing is selected.
+ */
+export const toggleWrap = (text: string, start: number, end: number, marker: string, placeholder: string): TextChange => {
+  const m = marker.length;
+  const selected = text.slice(start, end);
+  if (text.slice(start - m, start) === marker && text.slice(end, end + m) === marker) {
+    return { from: start - m, to: end + m, insert: selected, selectionStart: start - m, selectionEnd: end - m };
+  }
+  if (selected.length >= 2 * m && selected.startsWith(marker) && selected.endsWith(marker)) {
+    const inner = selected.slice(m, -m);
+    return { from: start, to: end, insert: inner, selectionStart: start, selectionEnd: start + inner.length };
+  }
+  const inner = selected || placeholder;
+  return { from: start, to: end, insert: `${marker}${inner}${marker}`, selectionStart: start + m, selectionEnd: start + m + inner.length };
+};
+
+/**
+ * Turns the selection into a link and selects the URL placeholder.
+ */
+export const insertLink = (text: string, start: number, end: number): TextChange => {
+  const label = text.slice(start, end) || 'link text';
+  const url = 'https://';
+  const insert = `[${label}](${url})`;
+  const urlStart = start + label.length + 3;
+  return { from: start, to: end, insert, selectionStart: urlStart, selectionEnd: urlStart + url.length };
+};
+
+export type LinePrefix = 'heading' | 'bullet' | 'numbered' | 'quote';
+
+const PREFIX_PATTERNS: Record<LinePrefix, RegExp> = {
+  heading: /^()#{1,6}\s+/,
+  bullet: /^(\s*)[-*+]\s+/,
+  numbered: /^(\s*)\d+[.)]\s+/,
+  quote: /^(\s*)>\s?/,
+};
+
+/**
+ * Adds a block prefix (heading, list marker or quote) to every selected line, or removes it if
+ * all of them already have it. Bullets and numbers replace each other.
+ */
+export const toggleLinePrefix = (text: string, start: number, end: number, kind: LinePrefix): TextChange => {
+  const { from, to, lines } = selectedLines(text, start, end);
+  const pattern = PREFIX_PATTERNS[kind];
+  const filled = lines.filter(line => line.trim());
+  const remove = filled.length > 0 && filled.every(line => pattern.test(line));
+  let number = 0;
+  const insert = lines.map(line => {
+    if (!line.trim()) return line;
+    if (remove) return line.replace(pattern, (_, indent: string) => indent);
+    const indent = line.match(/^\s*/)![0];
+    const body = line.slice(indent.length);
+    switch (kind) {
+      case 'heading': return `## ${body.replace(/^#{1,6}\s+/, '')}`;
+      case 'quote': return `${indent}> ${body}`;
+      case 'bullet': return `${indent}- ${body.replace(/^(?:[-*+]|\d+[.)])\s+/, '')}`;
+      case 'numbered': return `${indent}${++number}. ${body.replace(/^(?:[-*+]|\d+[.)])\s+/, '')}`;
+    }
+  }).join('\n');
+  return { from, to, insert, selectionStart: from, selectionEnd: from + insert.length };
+};
+
+export const isListLine = (line: string): boolean => LIST_LINE_PATTERN.test(line);
+
+/**
+ * Indents or outdents the selected lines by one list level. Indenting nests an item under its
+ * previous sibling, aligned with that sibling's text, and does nothing for a first item;
+ * outdenting moves it back to its parent's level.
+ * @returns The change, or null if the lines cannot move.
+ */
+export const shiftListLines = (text: string, start: number, end: number, outdent: boolean): TextChange | null => {
+  const { from, to, lines } = selectedLines(text, start, end);
+  const first = lines.find(line => line.trim());
+  if (first === undefined) return null;
+  const width = measureIndent(first.match(/^\s*/)![0]);
+
+  // The list lines above the selection, nearest first.
+  const above = text.slice(0, Math.max(0, from - 1)).split('\n').reverse()
+    .map(line => line.match(LIST_LINE_PATTERN))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(match => ({ indent: measureIndent(match[1]), content: measureIndent(match[1]) + match[2].length + Math.max(1, match[3].length) }));
+
+  let target: number;
+  if (outdent) {
+    if (width === 0) return null;
+    target = above.find(line => line.indent < width)?.indent ?? 0;
+  } else {
+    const sibling = above.find(line => line.indent <= width);
+    if (!sibling || sibling.indent !== width) return null;
+    target = sibling.content;
+  }
+  const delta = target - width;
+  const shifted = lines.map(line => {
+    if (!line.trim()) return line;
+    const indent = line.match(/^\s*/)![0];
+    return ' '.repeat(Math.max(0, measureIndent(indent) + delta)) + line.slice(indent.length);
+  });
+  const insert = shifted.join('\n');
+  if (start === end) {
+    const caret = Math.max(from, start + (shifted[0].length - lines[0].length));
+    return { from, to, insert, selectionStart: caret, selectionEnd: caret };
+  }
+  return { from, to, insert, selectionStart: from, selectionEnd: from + insert.length };
+};
+
+/**
+ * Handles Enter at the end of a list item: starts the next item with the same marker, numbered
+ * one higher. Enter on an empty item ends the list instead.
+ * @returns The change, or null if the caret is not in a list item.
+ */
+export const continueList = (text: string, pos: number): TextChange | null => {
+  const from = lineStartOf(text, pos);
+  const line = text.slice(from, pos);
+  const match = line.match(/^(\s*)([-*+]|\d+[.)])(\s+)(.*)$/);
+  if (!match) return null;
+  const [, indent, marker, space, body] = match;
+  if (!body.trim() && !text.slice(pos, lineEndOf(text, pos)).trim()) {
+    return { from, to: lineEndOf(text, pos), insert: '', selectionStart: from, selectionEnd: from };
+  }
+  const ordered = marker.match(/^(\d+)([.)])$/);
+  const next = ordered ? `${Number(ordered[1]) + 1}${ordered[2]}` : marker;
+  const insert = `\n${indent}${next}${space}`;
+  return { from: pos, to: pos, insert, selectionStart: pos + insert.length, selectionEnd: pos + insert.length };
+};
+
+/**
+ * Inserts a code fence around the selection, or an empty one.
+ */
+export const insertCodeBlock = (text: string, start: number, end: number): TextChange => {
+  const selected = text.slice(start, end);
+  const before = start > 0 && text[start - 1] !== '\n' ? '\n' : '';
+  const insert = `${before}\`\`\`\n${selected}\n\`\`\`\n`;
+  const bodyStart = start + before.length + 4;
+  return { from: start, to: end, insert, selectionStart: bodyStart, selectionEnd: bodyStart + selected.length };
+};
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export interface MarkdownTable {
+  from: number;
+  to: number;
+  header: string[];
+  alignments: TableAlignment[];
+  rows: string[][];
+}
+
+export interface TableCursor {
+  table: MarkdownTable;
+  // 0 is the header; body rows start at 1.
+  row: number;
+  column: number;
+}
+
+const splitTableRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim());
+
+const parseAlignment = (cell: string): TableAlignment => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+};
+
+/**
+ * Finds the Markdown table around a position, and the cell the position is in.
+ * @returns The table and cell, or null if the position is not inside a table.
+ */
+export const findTableAt = (text: string, pos: number): TableCursor | null => {
+  const lines = text.split('\n');
+  let offset = 0;
+  let current = 0;
+  while (current < lines.length - 1 && offset + lines[current].length < pos) offset += lines[current++].length + 1;
+  const isRow = (i: number) => i >= 0 && i < lines.length && lines[i].trim().startsWith('|');
+  if (!isRow(current)) return null;
+
+  let first = current;
+  while (isRow(first - 1)) first--;
+  let last = current;
+  while (isRow(last + 1)) last++;
+  if (last === first || !TABLE_DIVIDER_PATTERN.test(lines[first + 1])) return null;
+
+  const from = lines.slice(0, first).reduce((sum, line) => sum + line.length + 1, 0);
+  const to = from + lines.slice(first, last + 1).join('\n').length;
+  const header = splitTableRow(lines[first]);
+  const table: MarkdownTable = {
+    from,
+    to,
+    header,
+    alignments: splitTableRow(lines[first + 1]).map(parseAlignment),
+    rows: lines.slice(first + 2, last + 1).map(splitTableRow),
+  };
+  const beforeCaret = lines[current].slice(0, pos - offset);
+  const pipes = (beforeCaret.match(/(?<!\\)\|/g) || []).length;
+  const column = Math.max(0, pipes - (beforeCaret.trimStart().startsWith('|') ? 1 : 0));
+  const lineInTable = current - first;
+  return { table, row: lineInTable === 0 ? 0 : Math.max(1, lineInTable - 1), column };
+};
+
+const colonCount = (alignment: TableAlignment): number => (alignment === 'center' ? 2 : alignment ? 1 : 0);
+
+// Dividers need at least three dashes besides the alignment colons.
+const formatDivider = (alignment: TableAlignment, width: number): string => {
+  const dashes = '-'.repeat(width - colonCount(alignment));
+  if (alignment === 'center') return `:${dashes}:`;
+  if (alignment === 'left') return `:${dashes}`;
+  if (alignment === 'right') return `${dashes}:`;
+  return dashes;
+};
+
+/**
+ * Writes a table out with every column padded to the same width.
+ * @returns The table text and the offset of every cell's text, by row (header first) and column.
+ */
+export const formatTable = (table: Omit<MarkdownTable, 'from' | 'to'>): { text: string; cells: number[][] } => {
+  const columns = Math.max(table.header.length, ...table.rows.map(row => row.length), 1);
+  const grid = [table.header, ...table.rows].map(row => Array.from({ length: columns }, (_, i) => row[i] || ''));
+  const widths = Array.from({ length: columns }, (_, i) => Math.max(3 + colonCount(table.alignments[i] ?? null), ...grid.map(row => row[i].length)));
+  const cells: number[][] = [];
+  const lines: string[] = [];
+  let offset = 0;
+  const writeRow = (row: string[], record: boolean) => {
+    const positions: number[] = [];
+    let line = '|';
+    row.forEach((cell, i) => {
+      line += ' ';
+      positions.push(offset + line.length);
+      line += `${cell.padEnd(widths[i])} |`;
+    });
+    if (record) cells.push(positions);
+    lines.push(line);
+    offset += line.length + 1;
+  };
+  writeRow(grid[0], true);
+  writeRow(widths.map((width, i) => formatDivider(table.alignments[i] ?? null, width)), false);
+  grid.slice(1).forEach(row => writeRow(row, true));
+  return { text: lines.join('\n'), cells };
+};
+
+export type TableAction = 'addRow' | 'deleteRow' | 'addColumn' | 'deleteColumn' | 'format';
+
+const rewriteTable = (cursor: TableCursor, table: Omit<MarkdownTable, 'from' | 'to'>, row: number, column: number): TextChange => {
+  const { text, cells } = formatTable(table);
+  const r = Math.min(row, cells.length - 1);
+  const c = Math.min(column, cells[r].length - 1);
+  const caret = cursor.table.from + cells[r][c];
+  const cellText = [table.header, ...table.rows][r]?.[c] || '';
+  return { from: cursor.table.from, to: cursor.table.to, insert: text, selectionStart: caret, selectionEnd: caret + cellText.length };
+};
+
+/**
+ * Adds or removes a row or column at the cell the caret is in, or tidies the table's layout.
+ * @returns The change, or null if the caret is not in a table or the table cannot shrink further.
+ */
+export const editTable = (text: string, pos: number, action: TableAction): TextChange | null => {
+  const cursor = findTableAt(text, pos);
+  if (!cursor) return null;
+  const { table, row, column } = cursor;
+  const columns = Math.max(table.header.length, ...table.rows.map(r => r.length));
+  switch (action) {
+    case 'addRow': {
+      const at = Math.max(row, 0);
+      const rows = [...table.rows.slice(0, at), Array(columns).fill(''), ...table.rows.slice(at)];
+      return rewriteTable(cursor, { ...table, rows }, at + 1, column);
+    }
+    case 'deleteRow': {
+      if (row === 0 || table.rows.length <= 1) return null;
+      return rewriteTable(cursor, { ...table, rows: table.rows.filter((_, i) => i !== row - 1) }, row - 1 || 1, column);
+    }
+    case 'addColumn': {
+      const insertAt = (cells: string[]) => [...cells.slice(0, column + 1), '', ...cells.slice(column + 1)];
+      return rewriteTable(cursor, {
+        header: insertAt(table.header),
+        alignments: [...table.alignments.slice(0, column + 1), null, ...table.alignments.slice(column + 1)],
+        rows: table.rows.map(insertAt),
+      }, row, column + 1);
+    }
+    case 'deleteColumn': {
+      if (columns <= 1) return null;
+      const without = <T>(cells: T[]) => cells.filter((_, i) => i !== column);
+      return rewriteTable(cursor, { header: without(table.header), alignments: without(table.alignments), rows: table.rows.map(without) }, row, Math.max(0, column - 1));
+    }
+    case 'format':
+      return rewriteTable(cursor, table, row, column);
+  }
+};
+
+/**
+ * Handles Tab and Shift-Tab inside a table: tidies it and selects the next or previous cell.
+ * Tab in the last cell adds a row.
+ * @returns The change, or null if the caret is not in a table.
+ */
+export const moveTableCell = (text: string, pos: number, backwards: boolean): TextChange | null => {
+  const cursor = findTableAt(text, pos);
+  if (!cursor) return null;
+  const { table, row, column } = cursor;
+  const columns = Math.max(table.header.length, ...table.rows.map(r => r.length));
+  let index = row * columns + Math.min(column, columns - 1) + (backwards ? -1 : 1);
+  let rows = table.rows;
+  if (index < 0) index = 0;
+  if (index >= (rows.length + 1) * columns) rows = [...rows, Array(columns).fill('')];
+  return rewriteTable(cursor, { ...table, rows }, Math.floor(index / columns), index % columns);
+};
+
+/**
+ * Inserts an empty table on its own lines and selects its first header cell.
+ */
+export const insertTable = (text: string, start: number, end: number, columns = 3, rows = 2): TextChange => {
+  const { text: tableText, cells } = formatTable({
+    header: Array.from({ length: columns }, (_, i) => `Column ${i + 1}`),
+    alignments: Array(columns).fill(null),
+    rows: Array.from({ length: rows }, () => Array(columns).fill('')),
+  });
+  const before = start === 0 ? '' : text[start - 1] === '\n' ? (text[start - 2] === '\n' || start === 1 ? '' : '\n') : '\n\n';
+  const after = text[end] === '\n' ? '\n' : '\n\n';
+  const insert = `${before}${tableText}${after}`;
+  const caret = start + before.length + cells[0][0];
+  return { from: start, to: end, insert, selectionStart: caret, selectionEnd: caret + 'Column 1'.length };
+};
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Finds every non-overlapping occurrence of a search string.
+ */
+export const findMatches = (text: string, query: string, matchCase: boolean): TextRange[] => {
+  if (!query) return [];
+  const haystack = matchCase ? text : text.toLowerCase();
+  const needle = matchCase ? query : query.toLowerCase();
+  const matches: TextRange[] = [];
+  let index = haystack.indexOf(needle);
+  while (index >= 0) {
+    matches.push({ start: index, end: index + needle.length });
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return matches;
+};
+
+/**
+ * Replaces the given matches in one change, leaving the caret after the last replacement.
+ */
+export const replaceMatches = (text: string, matches: TextRange[], replacement: string): TextChange | null => {
+  if (matches.length === 0) return null;
+  const from = matches[0].start;
+  const to = matches[matches.length - 1].end;
+  let insert = '';
+  let position = from;
+  for (const match of matches) {
+    insert += text.slice(position, match.start) + replacement;
+    position = match.end;
+  }
+  const caret = from + insert.length;
+  return { from, to, insert, selectionStart: caret, selectionEnd: caret };
+};
+
+export type MarkdownTokenKind =
+  | 'text' | 'heading' | 'marker' | 'strong' | 'emphasis' | 'code' | 'link' | 'citation' | 'quote' | 'table';
+
+export interface MarkdownToken {
+  text: string;
+  kind: MarkdownTokenKind;
+}
+
+const INLINE_TOKEN_PATTERN = /(`[^`\n]+`)|(\[@[^\]\n]+\])|(\[[^\]\n]+\]\([^)\s]+(?:\s+"[^"]*")?\))|(\*\*[^*\n]+\*\*|__[^_\n]+__)|(\*[^*\s][^*\n]*\*|\b_[^_\s][^_\n]*_\b)/g;
+const INLINE_KINDS: MarkdownTokenKind[] = ['code', 'citation', 'link', 'strong', 'emphasis'];
+
+const tokenizeInline = (line: string, tokens: MarkdownToken[]) => {
+  let position = 0;
+  for (const match of line.matchAll(INLINE_TOKEN_PATTERN)) {
+    if (match.index! > position) tokens.push({ text: line.slice(position, match.index), kind: 'text' });
+    tokens.push({ text: match[0], kind: INLINE_KINDS[match.slice(1).findIndex(Boolean)] });
+    position = match.index! + match[0].length;
+  }
+  if (position < line.length) tokens.push({ text: line.slice(position), kind: 'text' });
+};
+
+/**
+ * Splits Markdown into tokens for syntax highlighting. Joining the token texts gives back the
+ * input exactly, so the highlighted copy lines up with the editable one.
+ */
+export const highlightMarkdown = (text: string): MarkdownToken[] => {
+  const tokens: MarkdownToken[] = [];
+  let inFence: string | null = null;
+  text.split('\n').forEach((line, i) => {
+    if (i > 0) tokens.push({ text: '\n', kind: 'text' });
+    const fence = line.trim().match(/^(```|~~~)/)?.[1];
+    if (inFence || fence) {
+      tokens.push({ text: line, kind: 'code' });
+      if (fence && (!inFence || fence === inFence)) inFence = inFence ? null : fence;
+      return;
+    }
+    if (/^#{1,6}\s/.test(line)) {
+      tokens.push({ text: line, kind: 'heading' });
+      return;
+    }
+    if (/^\s*>/.test(line)) {
+      tokens.push({ text: line, kind: 'quote' });
+      return;
+    }
+    if (line.trim().startsWith('|')) {
+      if (TABLE_DIVIDER_PATTERN.test(line)) {
+        tokens.push({ text: line, kind: 'table' });
+        return;
+      }
+      line.split(/((?<!\\)\|)/).forEach(part => {
+        if (part === '|') tokens.push({ text: part, kind: 'table' });
+        else if (part) tokenizeInline(part, tokens);
+      });
+      return;
+    }
+    const list = line.match(LIST_LINE_PATTERN);
+    if (list) {
+      tokens.push({ text: list[0], kind: 'marker' });
+      tokenizeInline(line.slice(list[0].length), tokens);
+      return;
+    }
+    tokenizeInline(line, tokens);
+  });
+  return tokens;
+};
@@ -0,0 +1,272 @@
+import { SectionStatus, type OutlineItem } from '../types';
+
+const TAB_WIDTH = 4;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM_PATTERN = /^([-*+]|\d+[.)])(?:\s+(.*))?$/;
+// Hierarchical numbers such as "2.", "1.3." or "1.3.2 Scope" at the start of a title. Without a
+// trailing dot, a dotted number only counts before a capitalized word, so years ("2024 results")
+// and decimals ("3.5 million users") stay part of the title.
+const NUMBERING_PATTERN = /^(?:\d+(?:\.\d+)*\.|\d+(?:\.\d+)+(?=\s+[^\s\da-z]))\s+/;
+
+export interface OutlineParseError {
+  line: number; // 1-based
+  message: string;
+}
+
+export interface OutlineParseResult {
+  items: OutlineItem[];
+  errors: OutlineParseError[];
+  // True when the text contains no list items or headings at all, e.g. a prose description.
+  isFreeForm: boolean;
+}
+
+type StackEntry =
+  | { kind: 'heading'; depth: number; item: OutlineItem }
+  | { kind: 'list'; indent: number; item: OutlineItem };
+
+const measureIndent = (whitespace: string): number =>
+  [...whitespace].reduce((width, char) => (char === '\t' ? width + TAB_WIDTH - (width % TAB_WIDTH) : width + 1), 0);
+
+const cleanTitle = (raw: string): string =>
+  raw
+    .replace(/^\*\*(.*)\*\*$/, '$1')
+    .replace(/^__(.*)__$/, '$1')
+    .replace(NUMBERING_PATTERN, '')
+    .trim();
+
+/**
+ * Strips any existing numbering from a title, e.g. "1.2. Scope" becomes "Scope".
+ */
+export const stripNumbering = (title: string): string => title.replace(NUMBERING_PATTERN, '').trim();
+
+/**
+ * Recomputes `level` and the hierarchical numbering prefix ("1.", "1.1.", ...) of every item
+ * from its position in the tree. Ids, statuses and children are kept.
+ */
+export const renumberOutline = (items: OutlineItem[], level = 0, prefix = ''): OutlineItem[] =>
+  items.map((item, index) => {
+    const number = `${prefix}${index + 1}.`;
+    return {
+      ...item,
+      level,
+      title: `${number} ${stripNumbering(item.title) || 'Untitled'}`,
+      children: renumberOutline(item.children, level + 1, number),
+    };
+  });
+
+// Ids follow the position in the finalized outline ("1", "1.2", ...), so re-finalizing an
+// edited draft keeps the content written for each position.
+const assignIds = (items: OutlineItem[], parentId = ''): OutlineItem[] =>
+  items.map((item, index) => {
+    const id = parentId ? `${parentId}.${index + 1}` : `${index + 1}`;
+    return { ...item, id, children: assignIds(item.children, id) };
+  });
+
+/**
+ * Parses a Markdown outline into outline items without calling an agent.
+ * Supports `#` headings and nested `-`, `*`, `+` and `1.` list items; list items nest by
+ * indentation and sit below the closest preceding heading.
+ * @param text The outline draft.
+ * @returns The parsed items (numbered, with ids) and any line-level errors found.
+ */
+export const parseMarkdownOutline = (text: string): OutlineParseResult => {
+  const roots: OutlineItem[] = [];
+  const errors: OutlineParseError[] = [];
+  const stack: StackEntry[] = [];
+  let structuralLines = 0;
+  let inCodeBlock = false;
+
+  const newItem = (title: string): OutlineItem => ({ id: '', title, level: 0, status: SectionStatus.Outline, children: [] });
+  const attach = (item: OutlineItem) => {
+    const parent = stack[stack.length - 1]?.item;
+    (parent ? parent.children : roots).push(item);
+  };
+
+  text.replace(/\r\n?/g, '\n').split('\n').forEach((line, i) => {
+    const lineNumber = i + 1;
+    if (/^\s*```/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      return;
+    }
+    if (inCodeBlock || !line.trim()) return;
+
+    const [, whitespace, rest] = line.match(/^(\s*)(.*)$/)!;
+    const indent = measureIndent(whitespace);
+    const heading = indent < TAB_WIDTH ? rest.match(HEADING_PATTERN) : null;
+    const listItem = heading ? null : rest.match(LIST_ITEM_PATTERN);
+
+    if (heading) {
+      structuralLines++;
+      const depth = heading[1].length;
+      const title = cleanTitle(heading[2]);
+      if (!title) errors.push({ line: lineNumber, message: 'Heading has no title.' });
+      while (stack.length > 0) {
+        const top = stack[stack.length - 1];
+        if (top.kind === 'heading' && top.depth < depth) break;
+        stack.pop();
+      }
+      const item = newItem(title);
+      attach(item);
+      stack.push({ kind: 'heading', depth, item });
+      return;
+    }
+
+    if (!listItem) {
+      errors.push({ line: lineNumber, message: 'Line is not a list item or heading. Start it with "-", "*", "1." or "#".' });
+      return;
+    }
+
+    structuralLines++;
+    const title = cleanTitle(listItem[2] || '');
+    if (!title) errors.push({ line: lineNumber, message: 'List item has no title.' });
+
+    // Close every list level indented deeper than this item.
+    let closedIndent: number | null = null;
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      if (top.kind !== 'list' || top.indent < indent) break;
+      closedIndent = top.indent;
+      stack.pop();
+      if (top.indent === indent) break;
+    }
+    // Dedenting to a column that no open list level started at is ambiguous.
+    if (closedIndent !== null && closedIndent !== indent) {
+      const top = stack[stack.length - 1];
+      const expected = [closedIndent, ...(top?.kind === 'list' ? [top.indent] : [])].sort((a, b) => a - b);
+      errors.push({
+        line: lineNumber,
+        message: `Indentation of ${indent} space(s) does not match an enclosing list level (expected ${expected.join(' or ')}).`,
+      });
+    }
+
+    const item = newItem(title);
+    attach(item);
+    stack.push({ kind: 'list', indent, item });
+  });
+
+  return {
+    items: renumberOutline(assignIds(roots)),
+    errors,
+    isFreeForm: structuralLines === 0,
+  };
+};
+
+// --- Tree editing ---
+// Every operation returns a renumbered copy of the outline. Items keep their ids, so their
+// content and status stay attached wherever they move.
+
+export type DropPosition = 'before' | 'after' | 'inside';
+
+let itemCounter = 0;
+
+/**
+ * Creates a new outline item with an id that cannot collide with positional ids like "1.2".
+ */
+export const createOutlineItem = (title: string): OutlineItem => ({
+  id: `s${Date.now().toString(36)}${(itemCounter++).toString(36)}`,
+  title,
+  level: 0,
+  status: SectionStatus.Outline,
+  children: [],
+});
+
+/**
+ * Lists the ids of an item and all of its descendants.
+ */
+export const collectItemIds = (item: OutlineItem): string[] => [item.id, ...item.children.flatMap(collectItemIds)];
+
+const containsId = (item: OutlineItem, id: string): boolean => item.id === id || item.children.some(child => containsId(child, id));
+
+// Applies `edit` to the sibling list that contains `id`, wherever it is in the tree.
+const editSiblings = (
+  items: OutlineItem[],
+  id: string,
+  edit: (siblings: OutlineItem[], index: number) => OutlineItem[]
+): OutlineItem[] => {
+  const index = items.findIndex(item => item.id === id);
+  if (index >= 0) return edit(items, index);
+  return items.map(item => ({ ...item, children: editSiblings(item.children, id, edit) }));
+};
+
+const removeFromTree = (items: OutlineItem[], id: string): { items: OutlineItem[]; removed: OutlineItem | null } => {
+  let removed: OutlineItem | null = null;
+  const next = editSiblings(items, id, (siblings, index) => {
+    removed = siblings[index];
+    return siblings.filter((_, i) => i !== index);
+  });
+  return { items: next, removed };
+};
+
+export const addChildItem = (items: OutlineItem[], parentId: string, child: OutlineItem): OutlineItem[] =>
+  renumberOutline(editSiblings(items, parentId, (siblings, index) =>
+    siblings.map((item, i) => (i === index ? { ...item, children: [...item.children, child] } : item))));
+
+export const addSiblingItem = (items: OutlineItem[], siblingId: string, sibling: OutlineItem): OutlineItem[] =>
+  renumberOutline(editSiblings(items, siblingId, (siblings, index) =>
+    [...siblings.slice(0, index + 1), sibling, ...siblings.slice(index + 1)]));
+
+export const appendItem = (items: OutlineItem[], item: OutlineItem): OutlineItem[] => renumberOutline([...items, item]);
+
+export const renameItem = (items: OutlineItem[], id: string, title: string): OutlineItem[] =>
+  renumberOutline(editSiblings(items, id, (siblings, index) =>
+    siblings.map((item, i) => (i === index ? { ...item, title } : item))));
+
+export const removeItem = (items: OutlineItem[], id: string): OutlineItem[] => renumberOutline(removeFromTree(items, id).items);
+
+/**
+ * Makes an item the last child of its previous sibling. Does nothing for a first sibling.
+ */
+export const indentItem = (items: OutlineItem[], id: string): OutlineItem[] =>
+  renumberOutline(editSiblings(items, id, (siblings, index) => {
+    if (index === 0) return siblings;
+    const previous = siblings[index - 1];
+    return [
+      ...siblings.slice(0, index - 1),
+      { ...previous, children: [...previous.children, siblings[index]] },
+      ...siblings.slice(index + 1),
+    ];
+  }));
+
+/**
+ * Moves an item out of its parent, placing it right after the parent. Does nothing at the top level.
+ */
+export const outdentItem = (items: OutlineItem[], id: string): OutlineItem[] => {
+  const parent = findParentItem(items, id);
+  if (!parent) return items;
+  const { items: without, removed } = removeFromTree(items, id);
+  return removed ? addSiblingItem(without, parent.id, removed) : items;
+};
+
+/**
+ * Moves an item before, after or inside (as the last child of) another item.
+ * Dropping an item onto itself or one of its descendants does nothing.
+ */
+export const moveItem = (items: OutlineItem[], id: string, targetId: string, position: DropPosition): OutlineItem[] => {
+  const moving = findOutlineItem(items, id);
+  if (!moving || containsId(moving, targetId)) return items;
+  const { items: without, removed } = removeFromTree(items, id);
+  if (!removed) return items;
+  if (position === 'inside') return addChildItem(without, targetId, removed);
+  return renumberOutline(editSiblings(without, targetId, (siblings, index) => {
+    const at = position === 'before' ? index : index + 1;
+    return [...siblings.slice(0, at), removed, ...siblings.slice(at)];
+  }));
+};
+
+const findOutlineItem = (items: OutlineItem[], id: string): OutlineItem | null => {
+  for (const item of items) {
+    if (item.id === id) return item;
+    const found = findOutlineItem(item.children, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+const findParentItem = (items: OutlineItem[], id: string): OutlineItem | null => {
+  for (const item of items) {
+    if (item.children.some(child => child.id === id)) return item;
+    const found = findParentItem(item.children, id);
+    if (found) return found;
+  }
+  return null;
+};
@@ -0,0 +1,43 @@
+import type { CachedPrompt } from '../types';
+
+// Older entries are dropped beyond this, so outline edits do not grow the cache without bound.
+export const MAX_CACHED_PROMPTS = 100;
+
+// The inputs the Coordinator Agent writes a section's Writer prompt from.
+export interface WriterPromptInputs {
+  documentTitle: string;
+  outlineStructure: string;
+  sectionTitle: string;
+  coordinatorPrompt: string;
+}
+
+// cyrb53: a fast 53-bit string hash, wide enough that distinct inputs do not share a key in practice.
+const hash = (text: string): string => {
+  let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+export const getOutlinerPromptKey = (coordinatorPrompt: string): string => `outliner:${hash(coordinatorPrompt)}`;
+
+export const getWriterPromptKey = (inputs: WriterPromptInputs): string =>
+  `writer:${hash(JSON.stringify([inputs.coordinatorPrompt, inputs.documentTitle, inputs.outlineStructure, inputs.sectionTitle]))}`;
+
+export const getCachedPrompt = (cache: Record<string, CachedPrompt> | undefined, key: string): string | undefined => cache?.[key]?.text;
+
+/**
+ * Stores a prompt under its key, replacing any earlier one, and drops the oldest entries once
+ * the cache is full.
+ * @returns The new cache.
+ */
+export const cachePrompt = (cache: Record<string, CachedPrompt> | undefined, key: string, text: string): Record<string, CachedPrompt> => {
+  const entries = Object.entries({ ...cache, [key]: { text, createdAt: Date.now() } });
+  if (entries.length <= MAX_CACHED_PROMPTS) return Object.fromEntries(entries);
+  return Object.fromEntries(entries.sort(([, a], [, b]) => a.createdAt - b.createdAt).slice(entries.length - MAX_CACHED_PROMPTS));
+};
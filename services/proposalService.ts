@@ -0,0 +1,57 @@
+import type { ProposedChange } from '../types';
+import { applySelectedHunks, diffLines, mergeLines, toDiffBlocks, type DiffBlock } from './diffService';
+
+let proposalCounter = 0;
+
+/**
+ * Wraps agent output as a change to review. If the text was edited while the agent worked, the
+ * output is merged into the edited text first, so the review shows changes against what the
+ * user sees now.
+ * @param base The text the agent worked from.
+ * @param proposed The agent's output.
+ * @param current The text as it is now.
+ * @returns The proposal, or undefined if the output changes nothing.
+ */
+export const createProposal = (base: string, proposed: string, current = base, prompt?: string): ProposedChange | undefined => {
+  const target = current === base ? proposed : mergeLines(base, current, proposed).text;
+  return target === current ? undefined : {
+    id: `${Date.now()}-${proposalCounter++}`,
+    createdAt: Date.now(),
+    base: current,
+    proposed: target,
+    ...(prompt ? { prompt } : {}),
+  };
+};
+
+export const getProposalBlocks = (proposal: ProposedChange): DiffBlock[] =>
+  toDiffBlocks(diffLines(proposal.base, proposal.proposed));
+
+export const countProposalHunks = (proposal: ProposedChange): number =>
+  getProposalBlocks(proposal).filter(block => block.type === 'change').length;
+
+const allHunks = (proposal: ProposedChange): number[] =>
+  Array.from({ length: countProposalHunks(proposal) }, (_, i) => i);
+
+/**
+ * Takes some hunks of a proposal into the text. The hunks are merged into `current` rather than
+ * copied over it, so edits made since the proposal was created are kept where they do not overlap.
+ * @param hunks The hunks to accept; all of them if omitted.
+ * @returns The new text, and the proposal with the hunks still undecided (undefined once none are left).
+ */
+export const acceptHunks = (current: string, proposal: ProposedChange, hunks = allHunks(proposal)): { text: string; proposal?: ProposedChange } => {
+  const accepted = applySelectedHunks(proposal.base, proposal.proposed, hunks);
+  const { text } = mergeLines(proposal.base, current, accepted);
+  return { text, proposal: accepted === proposal.proposed ? undefined : { ...proposal, base: accepted } };
+};
+
+/**
+ * Drops some hunks of a proposal; the text itself is not touched.
+ * @param hunks The hunks to reject; all of them if omitted.
+ * @returns The proposal with the remaining hunks, or undefined once none are left.
+ */
+export const rejectHunks = (proposal: ProposedChange, hunks = allHunks(proposal)): ProposedChange | undefined => {
+  const rejected = new Set(hunks);
+  const kept = allHunks(proposal).filter(i => !rejected.has(i));
+  const proposed = applySelectedHunks(proposal.base, proposal.proposed, kept);
+  return proposed === proposal.base ? undefined : { ...proposal, proposed };
+};
@@ -0,0 +1,56 @@
+import type { CrossFlowReference, CrossFlowReferenceState, OutlineItem, Project } from '../types';
+import { getCompletedSections, type CheckedSection } from './consistencyService';
+import { stripNumbering } from './outlineService';
+
+export interface ReferenceableFlow {
+  id: string;
+  name: string;
+  sections: CheckedSection[];
+}
+
+/**
+ * The other flows of the project that have completed sections to reference, in project order.
+ */
+export const listReferenceableFlows = (project: Project, currentFlowId: string): ReferenceableFlow[] =>
+  project.flows
+    .filter(flow => flow.id !== currentFlowId)
+    .map(flow => ({ id: flow.id, name: flow.name, sections: getCompletedSections(flow) }))
+    .filter(flow => flow.sections.length > 0);
+
+const containsItem = (items: OutlineItem[], id: string): boolean =>
+  items.some(item => item.id === id || containsItem(item.children, id));
+
+export const isSameReference = (ref: Pick<CrossFlowReference, 'flowId' | 'sectionId'>, flowId: string, sectionId: string): boolean =>
+  ref.flowId === flowId && ref.sectionId === sectionId;
+
+/**
+ * Snapshots a section of another flow as a reference.
+ * @returns The reference, or null if the section no longer exists or is empty.
+ */
+export const createReference = (project: Project, flowId: string, sectionId: string): CrossFlowReference | null => {
+  const flow = project.flows.find(f => f.id === flowId);
+  const section = flow && getCompletedSections(flow).find(s => s.id === sectionId);
+  if (!flow || !section) return null;
+  return { flowId, sectionId, flowName: flow.name, sectionTitle: section.title, content: section.content, selectedAt: Date.now() };
+};
+
+/**
+ * Compares a reference with its source. A reference whose section was finalized again under
+ * a new title counts as stale, since positional section ids can be reused.
+ */
+export const getReferenceState = (ref: CrossFlowReference, project: Project): CrossFlowReferenceState => {
+  const flow = project.flows.find(f => f.id === ref.flowId);
+  const section = flow && getCompletedSections(flow).find(s => s.id === ref.sectionId);
+  if (!section) {
+    // A section that is still in the outline but being rewritten, or emptied, is stale rather than gone.
+    return flow && containsItem(flow.outline, ref.sectionId) ? 'stale' : 'broken';
+  }
+  const renamed = stripNumbering(section.title) !== stripNumbering(ref.sectionTitle);
+  return renamed || section.content !== ref.content ? 'stale' : 'current';
+};
+
+/**
+ * Labels a reference with its source flow for the Writer's context.
+ */
+export const formatCrossFlowReference = (ref: CrossFlowReference): string =>
+  `--- REF: ${ref.sectionTitle} (from the flow "${ref.flowName}") ---\n${ref.content}`;
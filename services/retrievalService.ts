@@ -0,0 +1,212 @@
+import type { KnowledgeChunk, KnowledgeIndex, RetrievedChunk } from '../types';
+import { getLLMProvider } from './llm';
+
+const CHUNK_SIZE = 1200; // characters
+const CHUNK_OVERLAP = 200;
+const EMBEDDING_BATCH_SIZE = 50;
+const BM25_K1 = 1.5;
+const BM25_B = 0.75;
+
+export const RETRIEVAL_TOP_K = 6;
+
+const STOPWORDS = new Set(
+  'a an and are as at be by for from has have in is it its of on or that the this to was were will with which'.split(' ')
+);
+
+export interface KnowledgeSource {
+  fileId: string;
+  fileName: string;
+  text: string;
+}
+
+/**
+ * Splits text into overlapping chunks of roughly CHUNK_SIZE characters, preferring to break
+ * at paragraph, then sentence, then word boundaries.
+ */
+export const chunkText = (text: string): string[] => {
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + CHUNK_SIZE, text.length);
+    if (end < text.length) {
+      const window = text.slice(start, end);
+      const breakAt = [window.lastIndexOf('\n\n'), window.lastIndexOf('. '), window.lastIndexOf(' ')]
+        .find(i => i > CHUNK_SIZE / 2);
+      if (breakAt !== undefined) end = start + breakAt + 1;
+    }
+    const chunk = text.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= text.length) break;
+    start = Math.max(end - CHUNK_OVERLAP, start + 1);
+  }
+  return chunks;
+};
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 1 && !STOPWORDS.has(token));
+
+const signatureOf = (method: string, sources: { fileId: string }[]): string =>
+  [method, ...sources.map(s => s.fileId).sort()].join('|');
+
+/**
+ * A stable identifier for a set of knowledge sources. The index is rebuilt whenever it changes.
+ */
+export const getSourceSignature = (sources: { fileId: string }[]): string => {
+  const provider = getLLMProvider();
+  return signatureOf(provider.embed ? provider.embeddingModel || 'embedding' : 'bm25', sources);
+};
+
+const embedAll = async (texts: string[]): Promise<number[][]> => {
+  const provider = getLLMProvider();
+  if (!provider.embed) throw new Error("The active LLM provider does not support embeddings.");
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    vectors.push(...await provider.embed(texts.slice(i, i + EMBEDDING_BATCH_SIZE)));
+  }
+  if (vectors.length !== texts.length) throw new Error("The embedding endpoint returned an unexpected number of vectors.");
+  return vectors;
+};
+
+/**
+ * Chunks every knowledge source and, when the active provider supports it, embeds the chunks.
+ * Falls back to a keyword (BM25) index when embeddings are unavailable or fail. A fallback
+ * index is signed as BM25, so `retryEmbeddingIndex` and the next rebuild try embedding again.
+ * @param sources The extracted text of each knowledge file.
+ * @returns The index to store on the project.
+ */
+export const buildKnowledgeIndex = async (sources: KnowledgeSource[]): Promise<KnowledgeIndex> => {
+  const chunks: KnowledgeChunk[] = sources.flatMap(source =>
+    chunkText(source.text).map((text, index) => ({
+      id: `${source.fileId}#${index}`,
+      fileId: source.fileId,
+      fileName: source.fileName,
+      index,
+      text,
+    }))
+  );
+  const base = { sourceSignature: getSourceSignature(sources), builtAt: Date.now() };
+
+  const provider = getLLMProvider();
+  if (provider.embed && chunks.length > 0) {
+    try {
+      const vectors = await embedAll(chunks.map(chunk => chunk.text));
+      return {
+        ...base,
+        method: 'embedding',
+        embeddingModel: provider.embeddingModel,
+        chunks: chunks.map((chunk, i) => ({ ...chunk, embedding: vectors[i] })),
+      };
+    } catch (error) {
+      console.warn("Embedding the knowledge base failed; falling back to BM25 keyword search.", error);
+      return { ...base, sourceSignature: signatureOf('bm25', sources), method: 'bm25', chunks };
+    }
+  }
+  return { ...base, method: 'bm25', chunks };
+};
+
+/**
+ * Retries embedding an index that fell back to BM25 because embedding failed.
+ * @returns An embedding index over the same chunks, or `index` itself when it is not a
+ * fallback index or embedding fails again.
+ */
+export const retryEmbeddingIndex = async (index: KnowledgeIndex): Promise<KnowledgeIndex> => {
+  const sources = index.sourceSignature.split('|').slice(1).map(fileId => ({ fileId }));
+  if (index.method !== 'bm25' || index.chunks.length === 0 || index.sourceSignature === getSourceSignature(sources)) return index;
+  try {
+    const vectors = await embedAll(index.chunks.map(chunk => chunk.text));
+    return {
+      ...index,
+      sourceSignature: getSourceSignature(sources),
+      builtAt: Date.now(),
+      method: 'embedding',
+      embeddingModel: getLLMProvider().embeddingModel,
+      chunks: index.chunks.map((chunk, i) => ({ ...chunk, embedding: vectors[i] })),
+    };
+  } catch (error) {
+    console.warn("Embedding the knowledge base failed again; keeping BM25 keyword search.", error);
+    return index;
+  }
+};
+
+const scoreBm25 = (chunks: KnowledgeChunk[], query: string): number[] => {
+  const queryTerms = [...new Set(tokenize(query))];
+  const docs = chunks.map(chunk => tokenize(chunk.text));
+  const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / (docs.length || 1);
+  const docFrequency = new Map<string, number>();
+  for (const doc of docs) {
+    for (const term of new Set(doc)) docFrequency.set(term, (docFrequency.get(term) || 0) + 1);
+  }
+
+  return docs.map(doc => {
+    const termFrequency = new Map<string, number>();
+    for (const term of doc) termFrequency.set(term, (termFrequency.get(term) || 0) + 1);
+    return queryTerms.reduce((score, term) => {
+      const tf = termFrequency.get(term) || 0;
+      if (tf === 0) return score;
+      const df = docFrequency.get(term) || 0;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      return score + idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / avgLength));
+    }, 0);
+  });
+};
+
+const cosine = (a: number[], b: number[]): number => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Finds the chunks of the knowledge index most relevant to a query.
+ * @param index The project's knowledge index.
+ * @param query What the agent is about to write (e.g. section title plus instruction).
+ * @param topK The maximum number of chunks to return.
+ * @returns The best-scoring chunks, highest first. Chunks with no keyword overlap are omitted.
+ */
+export const retrieveKnowledge = async (index: KnowledgeIndex, query: string, topK = RETRIEVAL_TOP_K): Promise<RetrievedChunk[]> => {
+  if (index.chunks.length === 0 || !query.trim()) return [];
+
+  let method = index.method;
+  let scores: number[] | null = null;
+  if (method === 'embedding') {
+    try {
+      const [queryVector] = await embedAll([query]);
+      scores = index.chunks.map(chunk => (chunk.embedding ? cosine(queryVector, chunk.embedding) : 0));
+    } catch (error) {
+      console.warn("Embedding the query failed; falling back to BM25 keyword search.", error);
+      method = 'bm25';
+    }
+  }
+  if (!scores) scores = scoreBm25(index.chunks, query);
+
+  return index.chunks
+    .map((chunk, i) => ({ chunk, score: scores![i] }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map(({ chunk, score }) => ({
+      chunkId: chunk.id,
+      fileName: chunk.fileName,
+      index: chunk.index,
+      text: chunk.text,
+      score,
+      method,
+    }));
+};
+
+/**
+ * Formats retrieved chunks for inclusion in an agent prompt.
+ * @param citationKeys Citation keys by file id, shown in each passage's label.
+ */
+export const formatRetrievedKnowledge = (chunks: RetrievedChunk[], citationKeys: Record<string, string> = {}): string =>
+  chunks
+    .map(chunk => {
+      // Chunk ids are `${fileId}#${index}`.
+      const key = citationKeys[chunk.chunkId.slice(0, chunk.chunkId.lastIndexOf('#'))];
+      return `--- GLOBAL KNOWLEDGE${key ? ` [@${key}]` : ''}: ${chunk.fileName} (passage ${chunk.index + 1}) ---\n${chunk.text}`;
+    })
+    .join('\n\n');
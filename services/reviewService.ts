@@ -0,0 +1,104 @@
+import type { ReviewComment, RubricCriterion, SectionReview } from '../types';
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 5;
+
+export const DEFAULT_REVIEW_RUBRIC: RubricCriterion[] = [
+  { id: 'clarity', label: 'Clarity', description: 'The text is easy to follow, well organized and free of ambiguity.' },
+  { id: 'accuracy', label: 'Accuracy', description: 'Claims are correct, precise and supported by the provided sources.' },
+  { id: 'tone', label: 'Tone', description: "The register and voice match the coordinator's instructions and the audience." },
+  { id: 'coverage', label: 'Coverage', description: "The section covers what its place in the outline calls for, without straying into other sections' topics." },
+];
+
+export type ReviewResult = Pick<SectionReview, 'scores' | 'summary' | 'comments'>;
+
+/**
+ * Prefixes every line with its number, so the reviewer can anchor comments to lines.
+ */
+export const numberLines = (content: string): string =>
+  content.split('\n').map((line, i) => `${i + 1}| ${line}`).join('\n');
+
+export const formatRubric = (rubric: RubricCriterion[]): string =>
+  rubric.map(criterion => `- ${criterion.id} (${criterion.label}): ${criterion.description}`).join('\n');
+
+export const getReviewedLines = (review: SectionReview, comment: ReviewComment): string =>
+  review.content.split('\n').slice(comment.startLine - 1, comment.endLine).join('\n');
+
+export const isReviewStale = (review: SectionReview, content: string): boolean => review.content !== content;
+
+export const averageScore = (review: SectionReview): number | null =>
+  review.scores.length > 0 ? review.scores.reduce((sum, s) => sum + s.score, 0) / review.scores.length : null;
+
+const clampLine = (value: unknown, lineCount: number): number | null => {
+  const line = Math.round(Number(value));
+  return Number.isFinite(line) && line >= 1 ? Math.min(line, lineCount) : null;
+};
+
+/**
+ * Reads the reviewer's JSON answer. Scores for criteria outside the rubric are dropped and the
+ * rest are clamped to the scale; comments are kept only if they point at existing lines.
+ */
+export const parseReviewResponse = (text: string, rubric: RubricCriterion[], content: string): ReviewResult => {
+  let jsonString = text.trim();
+  // The model might still wrap the JSON in ```json ... ```, so we clean it.
+  const fenced = jsonString.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  if (fenced) jsonString = fenced[1];
+  const parsed = JSON.parse(jsonString);
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.scores)) {
+    throw new Error('The review is missing its scores.');
+  }
+
+  const lineCount = content.split('\n').length;
+  const scores = rubric.flatMap(criterion => {
+    const entry = parsed.scores.find((s: any) => s?.criterionId === criterion.id);
+    const score = Number(entry?.score);
+    if (!entry || !Number.isFinite(score)) return [];
+    return [{
+      criterionId: criterion.id,
+      score: Math.min(MAX_SCORE, Math.max(MIN_SCORE, Math.round(score))),
+      rationale: typeof entry.rationale === 'string' ? entry.rationale : '',
+    }];
+  });
+  const comments = (Array.isArray(parsed.comments) ? parsed.comments : []).flatMap((c: any): ReviewComment[] => {
+    const startLine = clampLine(c?.startLine, lineCount);
+    if (startLine === null || typeof c?.comment !== 'string' || !c.comment.trim()) return [];
+    const endLine = Math.max(startLine, clampLine(c.endLine, lineCount) ?? startLine);
+    return [{
+      startLine,
+      endLine,
+      ...(rubric.some(criterion => criterion.id === c.criterionId) ? { criterionId: c.criterionId } : {}),
+      comment: c.comment.trim(),
+      ...(typeof c.suggestion === 'string' && c.suggestion.trim() ? { suggestion: c.suggestion } : {}),
+    }];
+  });
+  return {
+    scores,
+    summary: typeof parsed.summary === 'string' ? parsed.summary : '',
+    comments: comments.sort((a: ReviewComment, b: ReviewComment) => a.startLine - b.startLine),
+  };
+};
+
+/**
+ * Turns the chosen parts of a review into an instruction for the Writer Agent.
+ */
+export const formatReviewFeedback = (review: SectionReview, rubric: RubricCriterion[], comments: ReviewComment[]): string => {
+  const labelOf = (id?: string) => rubric.find(criterion => criterion.id === id)?.label;
+  const weak = review.scores.filter(s => s.score < MAX_SCORE && s.rationale);
+  const parts = ['Revise the section based on the following review feedback. Keep everything the feedback does not mention as it is.'];
+  if (weak.length > 0) {
+    parts.push(`Scores below ${MAX_SCORE}/${MAX_SCORE}:\n${weak.map(s => `- ${labelOf(s.criterionId) || s.criterionId} (${s.score}/${MAX_SCORE}): ${s.rationale}`).join('\n')}`);
+  }
+  if (comments.length > 0) {
+    parts.push(`Comments:\n${comments.map(c => {
+      const lines = c.startLine === c.endLine ? `Line ${c.startLine}` : `Lines ${c.startLine}-${c.endLine}`;
+      const quote = getReviewedLines(review, c).trim();
+      const criterion = labelOf(c.criterionId);
+      return [
+        `- ${lines}${criterion ? ` [${criterion}]` : ''}: ${c.comment}`,
+        quote && `  Original: "${quote}"`,
+        c.suggestion && `  Suggested rewrite: "${c.suggestion.trim()}"`,
+      ].filter(Boolean).join('\n');
+    }).join('\n')}`);
+  }
+  return parts.join('\n\n');
+};
@@ -0,0 +1,62 @@
+// How much text on each side of a selection goes along as context.
+const SURROUNDING_CHARS = 3000;
+
+export type SelectionAction = 'rewrite' | 'expand' | 'shorten' | 'simplify' | 'tone' | 'custom';
+
+export interface SelectionRange {
+  start: number;
+  end: number;
+}
+
+export const SELECTION_ACTIONS: { id: SelectionAction; label: string; instruction: string }[] = [
+  { id: 'rewrite', label: 'Rewrite', instruction: 'Rewrite the selected text to read better, keeping its meaning.' },
+  { id: 'expand', label: 'Expand', instruction: 'Expand the selected text with more detail, explanation or examples.' },
+  { id: 'shorten', label: 'Shorten', instruction: 'Shorten the selected text, keeping its key points.' },
+  { id: 'simplify', label: 'Simplify', instruction: 'Simplify the selected text so a non-specialist can follow it.' },
+  { id: 'tone', label: 'Change tone', instruction: 'Rewrite the selected text in a {detail} tone.' },
+  { id: 'custom', label: 'Custom', instruction: '{detail}' },
+];
+
+export const TONE_OPTIONS = ['formal', 'neutral', 'friendly', 'persuasive', 'academic', 'concise'];
+
+/**
+ * The instruction for an action; `detail` is the tone or the custom instruction.
+ */
+export const getSelectionInstruction = (action: SelectionAction, detail = ''): string =>
+  (SELECTION_ACTIONS.find(a => a.id === action)?.instruction || '{detail}').replace('{detail}', detail.trim());
+
+/**
+ * The text before and after a selection, cut at the nearest paragraph break once it gets long.
+ */
+export const getSurroundingText = (content: string, range: SelectionRange): { before: string; after: string } => {
+  let before = content.slice(0, range.start);
+  let after = content.slice(range.end);
+  if (before.length > SURROUNDING_CHARS) {
+    const cut = before.length - SURROUNDING_CHARS;
+    const paragraph = before.indexOf('\n\n', cut);
+    before = `[...]\n${before.slice(paragraph >= 0 ? paragraph + 2 : cut)}`;
+  }
+  if (after.length > SURROUNDING_CHARS) {
+    const paragraph = after.lastIndexOf('\n\n', SURROUNDING_CHARS);
+    after = `${after.slice(0, paragraph > 0 ? paragraph : SURROUNDING_CHARS)}\n[...]`;
+  }
+  return { before, after };
+};
+
+/**
+ * Replaces the selected span with the agent's text. Leading and trailing whitespace of the
+ * selection is kept, since models tend to drop it. If the content changed while the agent was
+ * working, the original text is looked up again and replaced only if it occurs exactly once.
+ * @returns The patched content, or null if the selected text can no longer be found.
+ */
+export const patchSelection = (content: string, range: SelectionRange, original: string, replacement: string): string | null => {
+  const leading = original.match(/^\s*/)?.[0] || '';
+  const trailing = original.slice(leading.length).match(/\s*$/)?.[0] || '';
+  const text = `${leading}${replacement.trim()}${trailing}`;
+  let start = range.start;
+  if (content.slice(range.start, range.end) !== original) {
+    start = content.indexOf(original);
+    if (start < 0 || content.indexOf(original, start + 1) >= 0) return null;
+  }
+  return content.slice(0, start) + text + content.slice(start + original.length);
+};
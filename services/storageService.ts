@@ -0,0 +1,346 @@
+import type { Project, Flow, FlowTemplate, SectionContent } from '../types';
+
+// Projects are stored as plain records; the File objects they reference are stored
+// separately in the `files` store and linked by id, so autosaving a project after a
+// keystroke does not rewrite every uploaded blob.
+const DB_NAME = 'mas-writer';
+const DB_VERSION = 2;
+const PROJECTS_STORE = 'projects';
+const FILES_STORE = 'files';
+// The user's flow templates, shared by all projects. Added in version 2 of the database.
+const TEMPLATES_STORE = 'templates';
+
+/**
+ * The shape version of persisted project records.
+ * Bump this whenever `types.ts` changes in a way that affects stored data, and register
+ * a migration in `migrations` that upgrades records from the previous version.
+ */
+export const CURRENT_SCHEMA_VERSION = 1;
+
+export interface StoredFileRef {
+  id: string;
+  name: string;
+  type: string;
+  lastModified: number;
+}
+
+interface StoredFile {
+  id: string;
+  file: File;
+}
+
+type StoredSectionContent = Omit<SectionContent, 'sessionFiles'> & { sessionFiles: StoredFileRef[] };
+type StoredFlow = Omit<Flow, 'contents'> & { contents: Record<string, StoredSectionContent> };
+
+export interface StoredProject extends Omit<Project, 'globalKnowledgeFiles' | 'flows'> {
+  schemaVersion: number;
+  updatedAt: number;
+  globalKnowledgeFiles: StoredFileRef[];
+  flows: StoredFlow[];
+}
+
+/**
+ * Upgrades a raw project record by one schema version.
+ * `migrations[n]` receives a record at version `n` and must return it at version `n + 1`.
+ */
+const migrations: Record<number, (record: any) => any> = {};
+
+// File objects have no identity of their own, so we attach a stable id to each one the
+// first time it is persisted (or when it is rehydrated from the database).
+const fileIds = new WeakMap<File, string>();
+// Project objects are replaced (never mutated) on update, so an unchanged reference means
+// the stored record is still current and can be skipped.
+const savedProjects = new WeakSet<Project>();
+// Records that could not be loaded (newer schema or a failed migration) and the files they
+// reference. They are not in the app's project list, so saving must leave them alone.
+const skippedProjectIds = new Set<string>();
+const skippedFileIds = new Set<string>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completeTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted.'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(FILES_STORE)) {
+          db.createObjectStore(FILES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
+          db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const getFileId = (file: File): string => {
+  let id = fileIds.get(file);
+  if (!id) {
+    id = `file${Date.now()}${Math.random().toString(36).slice(2, 8)}`;
+    fileIds.set(file, id);
+  }
+  return id;
+};
+
+/**
+ * Associates a known id with a File, e.g. one recreated from an imported bundle.
+ */
+export const registerFileId = (file: File, id: string) => {
+  fileIds.set(file, id);
+};
+
+const toFileRef = (file: File): StoredFileRef => ({
+  id: getFileId(file),
+  name: file.name,
+  type: file.type,
+  lastModified: file.lastModified,
+});
+
+export const serializeProject = (project: Project): StoredProject => ({
+  ...project,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  updatedAt: Date.now(),
+  globalKnowledgeFiles: project.globalKnowledgeFiles.map(toFileRef),
+  flows: project.flows.map(flow => ({
+    ...flow,
+    contents: Object.fromEntries(
+      Object.entries(flow.contents).map(([id, content]) => [
+        id,
+        { ...content, sessionFiles: content.sessionFiles.map(toFileRef) },
+      ])
+    ),
+  })),
+});
+
+export const collectFiles = (project: Project): File[] => [
+  ...project.globalKnowledgeFiles,
+  ...project.flows.flatMap(flow => Object.values(flow.contents).flatMap(content => content.sessionFiles)),
+];
+
+/**
+ * Brings a raw record up to the current schema version and fills in any fields that
+ * older records may be missing. Returns null for records written by a newer version of
+ * the app, which we refuse to touch rather than risk corrupting.
+ */
+export const migrateProjectRecord = (record: any): StoredProject | null => {
+  let version: number = typeof record.schemaVersion === 'number' ? record.schemaVersion : 1;
+  if (version > CURRENT_SCHEMA_VERSION) {
+    console.warn(`Skipping project "${record.name}" stored with newer schema version ${version}.`);
+    return null;
+  }
+  let migrated = record;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`No migration registered for schema version ${version}.`);
+    migrated = migrate(migrated);
+    version++;
+  }
+
+  return {
+    ...migrated,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    globalKnowledgeFiles: migrated.globalKnowledgeFiles || [],
+    globalKnowledgeContext: migrated.globalKnowledgeContext || '',
+    flows: (migrated.flows || []).map((flow: any) => ({
+      ...flow,
+      outline: flow.outline || [],
+      contents: Object.fromEntries(
+        Object.entries(flow.contents || {}).map(([id, content]: [string, any]) => [
+          id,
+          {
+            ...content,
+            content: content.content || '',
+            messages: content.messages || [],
+            sessionFiles: content.sessionFiles || [],
+            contextIds: content.contextIds || [],
+          },
+        ])
+      ),
+      outlineDraft: flow.outlineDraft || '',
+      outlinerMessages: flow.outlinerMessages || [],
+    })),
+  };
+};
+
+// Best effort, since the record could not be read as a StoredProject.
+const collectRawFileIds = (raw: any): string[] => {
+  const refs: any[] = [
+    ...(Array.isArray(raw?.globalKnowledgeFiles) ? raw.globalKnowledgeFiles : []),
+    ...(Array.isArray(raw?.flows) ? raw.flows : []).flatMap((flow: any) =>
+      Object.values(flow?.contents || {}).flatMap((content: any) => (Array.isArray(content?.sessionFiles) ? content.sessionFiles : []))),
+  ];
+  return refs.map(ref => ref?.id).filter((id): id is string => typeof id === 'string');
+};
+
+const skipRecord = (raw: any) => {
+  if (raw?.id === undefined) return;
+  skippedProjectIds.add(String(raw.id));
+  collectRawFileIds(raw).forEach(id => skippedFileIds.add(id));
+};
+
+export const hydrateProject = (record: StoredProject, files: Map<string, File>): Project => {
+  const resolve = (refs: StoredFileRef[]): File[] =>
+    refs.map(ref => files.get(ref.id)).filter((file): file is File => !!file);
+
+  const { schemaVersion, updatedAt, ...rest } = record;
+  return {
+    ...rest,
+    globalKnowledgeFiles: resolve(record.globalKnowledgeFiles),
+    flows: record.flows.map(flow => ({
+      ...flow,
+      contents: Object.fromEntries(
+        Object.entries(flow.contents).map(([id, content]) => [
+          id,
+          { ...content, sessionFiles: resolve(content.sessionFiles) },
+        ])
+      ),
+    })),
+  };
+};
+
+/**
+ * Loads every persisted project, migrating old records and reattaching their files.
+ * Records that cannot be loaded are kept in the database, along with their files.
+ * @returns The projects in the order they were created.
+ */
+export const loadProjects = async (): Promise<Project[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, FILES_STORE], 'readonly');
+  const [rawProjects, storedFiles] = await Promise.all([
+    promisifyRequest(tx.objectStore(PROJECTS_STORE).getAll()),
+    promisifyRequest(tx.objectStore(FILES_STORE).getAll() as IDBRequest<StoredFile[]>),
+  ]);
+
+  const files = new Map<string, File>();
+  for (const { id, file } of storedFiles) {
+    fileIds.set(file, id);
+    files.set(id, file);
+  }
+
+  skippedProjectIds.clear();
+  skippedFileIds.clear();
+  const projects: Project[] = [];
+  for (const raw of rawProjects) {
+    try {
+      const record = migrateProjectRecord(raw);
+      if (!record) {
+        skipRecord(raw);
+        continue;
+      }
+      const project = hydrateProject(record, files);
+      savedProjects.add(project);
+      projects.push(project);
+    } catch (error) {
+      console.error(`Failed to load stored project "${raw?.name}":`, error);
+      skipRecord(raw);
+    }
+  }
+  return projects.sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+};
+
+/**
+ * Persists the given projects. Projects that have not changed since the last save are
+ * skipped, and projects or files that are no longer referenced are deleted. Records that
+ * `loadProjects` could not load, and their files, are never deleted.
+ * @param projects The complete, current list of projects.
+ */
+export const saveProjects = async (projects: Project[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, FILES_STORE], 'readwrite');
+  const projectStore = tx.objectStore(PROJECTS_STORE);
+  const fileStore = tx.objectStore(FILES_STORE);
+  const done = completeTransaction(tx);
+
+  const [projectKeys, fileKeys] = await Promise.all([
+    promisifyRequest(projectStore.getAllKeys()),
+    promisifyRequest(fileStore.getAllKeys()),
+  ]);
+  const existingFileIds = new Set(fileKeys.map(String));
+  const liveProjectIds = new Set(projects.map(p => p.id));
+  const liveFileIds = new Set<string>();
+
+  for (const project of projects) {
+    for (const file of collectFiles(project)) {
+      const id = getFileId(file);
+      liveFileIds.add(id);
+      if (!existingFileIds.has(id)) {
+        fileStore.put({ id, file } as StoredFile);
+        existingFileIds.add(id);
+      }
+    }
+    if (!savedProjects.has(project)) {
+      projectStore.put(serializeProject(project));
+    }
+  }
+
+  for (const key of projectKeys) {
+    if (!liveProjectIds.has(String(key)) && !skippedProjectIds.has(String(key))) projectStore.delete(key);
+  }
+  for (const key of fileKeys) {
+    if (!liveFileIds.has(String(key)) && !skippedFileIds.has(String(key))) fileStore.delete(key);
+  }
+
+  await done;
+  projects.forEach(project => savedProjects.add(project));
+};
+
+/**
+ * Loads the user's saved flow templates.
+ * @returns The templates, oldest first.
+ */
+export const loadTemplates = async (): Promise<FlowTemplate[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(TEMPLATES_STORE, 'readonly');
+  const templates = await promisifyRequest(tx.objectStore(TEMPLATES_STORE).getAll() as IDBRequest<FlowTemplate[]>);
+  return templates.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Replaces the stored flow templates with the given list.
+ * @param templates The complete, current list of user templates.
+ */
+export const saveTemplates = async (templates: FlowTemplate[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(TEMPLATES_STORE, 'readwrite');
+  const store = tx.objectStore(TEMPLATES_STORE);
+  const done = completeTransaction(tx);
+  store.clear();
+  templates.forEach(template => store.put(template));
+  await done;
+};
+
+/**
+ * Asks the browser not to evict our database under storage pressure.
+ * This is best-effort: browsers may decline without telling the user.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  try {
+    return (await navigator.storage?.persist?.()) ?? false;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,272 @@
+import type { HeadingCase, NarrativePerson, SpellingLocale, StyleGuide } from '../types';
+import { maskNonProse } from './consistencyService';
+
+export type StyleRule = 'glossary' | 'banned' | 'spelling' | 'person' | 'voice' | 'heading';
+
+// A violation of the style guide, as a span of the checked text.
+export interface StyleIssue {
+  rule: StyleRule;
+  start: number;
+  end: number;
+  text: string;
+  message: string;
+  // The replacement for the span, when there is an unambiguous one.
+  suggestion?: string;
+}
+
+export const STYLE_RULE_LABELS: Record<StyleRule, string> = {
+  glossary: 'Terminology',
+  banned: 'Banned phrase',
+  spelling: 'Spelling',
+  person: 'Person',
+  voice: 'Voice',
+  heading: 'Heading',
+};
+
+export const SPELLING_LOCALES: { id: SpellingLocale; label: string }[] = [
+  { id: 'en-US', label: 'American English' },
+  { id: 'en-GB', label: 'British English' },
+];
+
+export const NARRATIVE_PERSONS: { id: NarrativePerson; label: string; instruction: string }[] = [
+  { id: 'first-singular', label: 'First person singular ("I")', instruction: 'Write in the first person singular ("I"); do not address the reader as "you".' },
+  { id: 'first-plural', label: 'First person plural ("we")', instruction: 'Write in the first person plural ("we"); do not use "I" or address the reader as "you".' },
+  { id: 'second', label: 'Second person ("you")', instruction: 'Address the reader directly as "you"; do not use "I".' },
+  { id: 'third', label: 'Third person (impersonal)', instruction: 'Write in the third person; do not use "I", "we" or "you".' },
+];
+
+export const HEADING_CASES: { id: HeadingCase; label: string; instruction: string }[] = [
+  { id: 'sentence', label: 'Sentence case', instruction: 'Write headings in sentence case: capitalize only the first word and proper nouns.' },
+  { id: 'title', label: 'Title case', instruction: 'Write headings in title case: capitalize every word except short articles, conjunctions and prepositions.' },
+];
+
+export const EMPTY_STYLE_GUIDE: StyleGuide = { glossary: [], bannedPhrases: [] };
+
+// Each agent gets the rules that apply to what it writes.
+type StyleGuideAudience = 'writer' | 'outliner' | 'research';
+
+/**
+ * Writes the style guide as instructions for an agent.
+ * @returns The instructions, or an empty string if no rule applies to the agent.
+ */
+export const formatStyleGuideForPrompt = (guide: StyleGuide | undefined, audience: StyleGuideAudience): string => {
+  if (!guide) return '';
+  const lines: string[] = [];
+  const locale = SPELLING_LOCALES.find(l => l.id === guide.locale);
+  if (locale) lines.push(`Use ${locale.label} spelling (${locale.id}).`);
+  if (audience === 'writer') {
+    const person = NARRATIVE_PERSONS.find(p => p.id === guide.person);
+    if (person) lines.push(person.instruction);
+    if (guide.activeVoice) lines.push('Prefer the active voice; use the passive only when the actor is unknown or irrelevant.');
+  }
+  if (audience !== 'research') {
+    const headingCase = HEADING_CASES.find(h => h.id === guide.headingCase);
+    if (headingCase) lines.push(audience === 'outliner' ? headingCase.instruction.replace('headings', 'section titles') : headingCase.instruction);
+  }
+  const terms = guide.glossary.filter(term => term.preferred.trim());
+  if (terms.length > 0) {
+    lines.push('Terminology (always use the preferred term, never the variants):');
+    terms.forEach(term => {
+      const variants = term.forbidden.filter(v => v.trim());
+      lines.push(`- "${term.preferred}"${variants.length > 0 ? ` (not: ${variants.map(v => `"${v}"`).join(', ')})` : ''}${term.note?.trim() ? `: ${term.note.trim()}` : ''}`);
+    });
+  }
+  const banned = guide.bannedPhrases.filter(phrase => phrase.trim());
+  if (banned.length > 0 && audience !== 'research') lines.push(`Never use these phrases: ${banned.map(p => `"${p.trim()}"`).join(', ')}.`);
+  if (guide.notes?.trim() && audience !== 'research') lines.push(guide.notes.trim());
+  return lines.length > 0 ? `--- STYLE GUIDE ---\n${lines.join('\n')}\n--- END STYLE GUIDE ---` : '';
+};
+
+/**
+ * Appends the style guide to an agent's system instruction or prompt.
+ */
+export const withStyleGuide = (instruction: string, guide: StyleGuide | undefined, audience: StyleGuideAudience): string => {
+  const rules = formatStyleGuideForPrompt(guide, audience);
+  if (!rules) return instruction;
+  return instruction ? `${instruction}\n\n${rules}` : rules;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches a phrase as whole words, whatever its case and however its words are spaced.
+const phrasePattern = (phrase: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${phrase.trim().split(/\s+/).map(escapeRegExp).join('\\s+')}(?![\\p{L}\\p{N}])`, 'giu');
+
+// Keeps a leading capital when a word is replaced, so sentence starts stay capitalized.
+const matchCase = (original: string, replacement: string) =>
+  /^[A-Z]/.test(original) && /^[a-z]/.test(replacement) ? replacement[0].toUpperCase() + replacement.slice(1) : replacement;
+
+// American and British stems, and the endings they take. Only unambiguous words are listed.
+const SPELLING_VARIANTS: [string, string, string][] = [
+  ['color', 'colour', '|s|ed|ing|ful'],
+  ['behavior', 'behaviour', '|s|al'],
+  ['favor', 'favour', '|s|ed|ing|able|ite|ites'],
+  ['honor', 'honour', '|s|ed|ing|able'],
+  ['labor', 'labour', '|s|ed|ing'],
+  ['neighbor', 'neighbour', '|s|hood|hoods|ing'],
+  ['rumor', 'rumour', '|s|ed'],
+  ['center', 'centre', '|s'],
+  ['fiber', 'fibre', '|s'],
+  ['theater', 'theatre', '|s'],
+  ['defense', 'defence', '|s'],
+  ['offense', 'offence', '|s'],
+  ['catalog', 'catalogue', '|s'],
+  ['dialog', 'dialogue', '|s'],
+  ['gray', 'grey', '|s|ed|ing'],
+  ['aluminum', 'aluminium', ''],
+  ['analyz', 'analys', 'e|ed|ing|er|ers'],
+  ['organiz', 'organis', 'e|es|ed|ing|ation|ations|er|ers'],
+  ['realiz', 'realis', 'e|es|ed|ing|ation'],
+  ['recogniz', 'recognis', 'e|es|ed|ing|able'],
+  ['optimiz', 'optimis', 'e|es|ed|ing|ation|ations|er'],
+  ['prioritiz', 'prioritis', 'e|es|ed|ing|ation'],
+  ['utiliz', 'utilis', 'e|es|ed|ing|ation'],
+  ['customiz', 'customis', 'e|es|ed|ing|ation|ations'],
+  ['standardiz', 'standardis', 'e|es|ed|ing|ation'],
+  ['summariz', 'summaris', 'e|es|ed|ing'],
+  ['minimiz', 'minimis', 'e|es|ed|ing'],
+  ['maximiz', 'maximis', 'e|es|ed|ing'],
+  ['categoriz', 'categoris', 'e|es|ed|ing|ation'],
+  ['emphasiz', 'emphasis', 'e|es|ed|ing'],
+  ['modeling', 'modelling', ''],
+  ['modeled', 'modelled', ''],
+  ['labeled', 'labelled', ''],
+  ['labeling', 'labelling', ''],
+  ['traveled', 'travelled', ''],
+  ['traveling', 'travelling', ''],
+  ['canceled', 'cancelled', ''],
+  ['canceling', 'cancelling', ''],
+];
+
+const PERSON_WORDS: Record<'first-singular' | 'first-plural' | 'second', string[]> = {
+  'first-singular': ['I', 'me', 'my', 'mine', 'myself'],
+  'first-plural': ['we', 'us', 'our', 'ours', 'ourselves'],
+  second: ['you', 'your', 'yours', 'yourself', 'yourselves'],
+};
+
+// The persons each choice rules out; "we" stays acceptable next to "I" and "you".
+const FORBIDDEN_PERSONS: Record<NarrativePerson, (keyof typeof PERSON_WORDS)[]> = {
+  'first-singular': ['second'],
+  'first-plural': ['first-singular', 'second'],
+  second: ['first-singular'],
+  third: ['first-singular', 'first-plural', 'second'],
+};
+
+const PASSIVE_PATTERN = /\b(?:am|is|are|was|were|be|been|being)\s+(?:\w+ed|known|made|done|given|taken|seen|shown|written|built|found|held|kept|told|chosen|driven|drawn|grown|thrown|sent|spent|brought|bought|caught|taught|thought)\b/gi;
+
+// Short words that title case leaves in lowercase.
+const TITLE_CASE_MINOR_WORDS = new Set(['a', 'an', 'the', 'and', 'but', 'or', 'nor', 'for', 'so', 'yet', 'as', 'at', 'by', 'in', 'of', 'off', 'on', 'per', 'to', 'up', 'via', 'vs', 'with', 'from', 'into', 'over']);
+
+// Quoted speech and titles keep their own wording, so the person and voice checks skip them.
+const maskQuotes = (text: string) => text.replace(/"[^"\n]*"|“[^”\n]*”/g, match => ' '.repeat(match.length));
+
+const lintHeading = (heading: string, offset: number, headingCase: HeadingCase, preferredTerms: Set<string>): StyleIssue | null => {
+  const words = [...heading.matchAll(/[\p{L}][\p{L}\p{N}'’-]*/gu)];
+  const fixed = words.map((match, i) => {
+    const word = match[0];
+    // Acronyms, mixed-case names and glossary terms are left as they are.
+    if (word.length > 1 && (word === word.toUpperCase() || /[A-Z]/.test(word.slice(1)))) return word;
+    if (preferredTerms.has(word.toLowerCase())) return word;
+    if (headingCase === 'sentence') return i === 0 ? word[0].toUpperCase() + word.slice(1) : word.toLowerCase();
+    const isMinor = i > 0 && i < words.length - 1 && TITLE_CASE_MINOR_WORDS.has(word.toLowerCase());
+    return isMinor ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1);
+  });
+  let suggestion = heading;
+  for (let i = words.length - 1; i >= 0; i--) {
+    const start = words[i].index!;
+    suggestion = suggestion.slice(0, start) + fixed[i] + suggestion.slice(start + words[i][0].length);
+  }
+  if (suggestion === heading) return null;
+  return {
+    rule: 'heading',
+    start: offset,
+    end: offset + heading.length,
+    text: heading,
+    message: `Headings are written in ${headingCase === 'sentence' ? 'sentence' : 'title'} case.`,
+    suggestion,
+  };
+};
+
+/**
+ * Checks text against the style guide. The checks are local and heuristic: they catch the
+ * mechanical rules, while the agents are asked to follow the whole guide.
+ * @returns The issues, ordered by position.
+ */
+export const lintContent = (content: string, guide: StyleGuide | undefined): StyleIssue[] => {
+  if (!guide || !content.trim()) return [];
+  const prose = maskNonProse(content);
+  const issues: StyleIssue[] = [];
+  const report = (rule: StyleRule, start: number, end: number, message: string, suggestion?: string) =>
+    issues.push({ rule, start, end, text: content.slice(start, end), message, ...(suggestion !== undefined ? { suggestion } : {}) });
+
+  const preferredTerms = new Set(guide.glossary.map(term => term.preferred.trim().toLowerCase()).filter(Boolean));
+  for (const term of guide.glossary) {
+    const preferred = term.preferred.trim();
+    if (!preferred) continue;
+    for (const variant of term.forbidden.map(v => v.trim()).filter(Boolean)) {
+      // A variant that only differs in case would also match the preferred spelling itself.
+      const caseSensitive = variant.toLowerCase() === preferred.toLowerCase();
+      const pattern = caseSensitive ? new RegExp(phrasePattern(variant).source, 'gu') : phrasePattern(variant);
+      for (const match of prose.matchAll(pattern)) {
+        report('glossary', match.index!, match.index! + match[0].length, `Use "${preferred}" instead of "${match[0]}".`, caseSensitive ? preferred : matchCase(match[0], preferred));
+      }
+    }
+  }
+
+  for (const phrase of guide.bannedPhrases.map(p => p.trim()).filter(Boolean)) {
+    for (const match of prose.matchAll(phrasePattern(phrase))) {
+      report('banned', match.index!, match.index! + match[0].length, `"${phrase}" is on the list of banned phrases.`);
+    }
+  }
+
+  if (guide.locale) {
+    const american = guide.locale === 'en-US';
+    for (const [us, gb, endings] of SPELLING_VARIANTS) {
+      const [wrong, right] = american ? [gb, us] : [us, gb];
+      const pattern = new RegExp(`\\b${wrong}(${endings})\\b`, 'gi');
+      for (const match of prose.matchAll(pattern)) {
+        const locale = SPELLING_LOCALES.find(l => l.id === guide.locale)!;
+        const replacement = matchCase(match[0], right + match[1].toLowerCase());
+        report('spelling', match.index!, match.index! + match[0].length, `${locale.label} spelling is "${replacement}".`, replacement);
+      }
+    }
+  }
+
+  const unquoted = maskQuotes(prose);
+  if (guide.person) {
+    const forbidden = new Set(FORBIDDEN_PERSONS[guide.person].flatMap(person => PERSON_WORDS[person]));
+    const label = NARRATIVE_PERSONS.find(p => p.id === guide.person)!.label;
+    for (const match of unquoted.matchAll(/[A-Za-z]+/g)) {
+      // "I" only counts as a capital, and acronyms such as "US" are not pronouns.
+      if (match[0].length > 1 && match[0] === match[0].toUpperCase()) continue;
+      if (forbidden.has(match[0] === 'I' ? 'I' : match[0].toLowerCase())) {
+        report('person', match.index!, match.index! + match[0].length, `The style guide asks for: ${label}.`);
+      }
+    }
+  }
+
+  if (guide.activeVoice) {
+    for (const match of unquoted.matchAll(PASSIVE_PATTERN)) {
+      report('voice', match.index!, match.index! + match[0].length, 'Possibly passive voice. The style guide prefers the active voice.');
+    }
+  }
+
+  if (guide.headingCase) {
+    for (const match of prose.matchAll(/^(#{1,6}[ \t]+)(.*\S)/gm)) {
+      const heading = match[2].replace(/[ \t]+#+$/, '');
+      const issue = lintHeading(heading, match.index! + match[1].length, guide.headingCase, preferredTerms);
+      if (issue) issues.push(issue);
+    }
+  }
+
+  return issues.sort((a, b) => a.start - b.start || a.end - b.end);
+};
+
+/**
+ * Applies an issue's suggestion to the text it was found in.
+ * @returns The new text, or null if the issue has no suggestion or the text has changed under it.
+ */
+export const applyStyleSuggestion = (content: string, issue: StyleIssue): string | null => {
+  if (issue.suggestion === undefined || content.slice(issue.start, issue.end) !== issue.text) return null;
+  return content.slice(0, issue.start) + issue.suggestion + content.slice(issue.end);
+};
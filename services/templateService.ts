@@ -0,0 +1,138 @@
+import type { Flow, FlowTemplate, OutlineItem, SectionContent, TemplateSection } from '../types';
+import { createOutlineItem, renumberOutline, stripNumbering } from './outlineService';
+
+const section = (title: string, guidance: string, children: TemplateSection[] = []): TemplateSection => ({ title, guidance, children });
+
+export const BUILT_IN_TEMPLATES: FlowTemplate[] = [
+  {
+    id: 'builtin-research-paper',
+    name: 'Research paper',
+    description: 'An empirical paper in the IMRaD structure, with an abstract and references to the literature.',
+    coordinatorPrompt: `You are the Coordinator Agent for an academic research paper. The paper must be precise, evidence-based and written for expert readers in the field. Every claim is supported by the results or by a cited source, limitations are stated openly, and the sections follow the IMRaD structure without repeating each other.`,
+    outline: [
+      section('Abstract', 'Summarize the problem, method, main results and conclusion in 150-250 words. No citations.'),
+      section('Introduction', 'Motivate the problem, review the closest prior work and end with the research questions and contributions.', [
+        section('Background', 'Explain the concepts and prior results the reader needs, citing the key sources.'),
+        section('Research questions', 'State the questions or hypotheses the paper answers, as a short numbered list.'),
+      ]),
+      section('Methods', 'Describe the data, participants or materials, and the procedure in enough detail to reproduce the study.'),
+      section('Results', 'Report the findings with figures and statistics, in the order of the research questions. Do not interpret them here.'),
+      section('Discussion', 'Interpret the results against the research questions and prior work, and state the limitations.'),
+      section('Conclusion', 'Restate the main contribution in a paragraph and name directions for future work.'),
+    ],
+    styleGuide: { glossary: [], bannedPhrases: ['very unique', 'it goes without saying', 'needless to say'], person: 'first-plural', headingCase: 'sentence' },
+    builtIn: true,
+    createdAt: 0,
+  },
+  {
+    id: 'builtin-design-doc',
+    name: 'Technical design doc',
+    description: 'A design proposal for engineers: context, goals, the proposed design, alternatives and rollout.',
+    coordinatorPrompt: `You are the Coordinator Agent for a technical design document read by software engineers and reviewers. Be concrete and concise: prefer diagrams described in words, interfaces, data shapes and numbers over general statements. Make trade-offs explicit and keep every section focused on decisions the reviewers must make.`,
+    outline: [
+      section('Context', 'Describe the current system and the problem in a few paragraphs, with the numbers that show why it matters.'),
+      section('Goals and non-goals', 'List what the design must achieve and, separately, what it deliberately does not address.'),
+      section('Proposed design', 'Explain the design top-down: components, data flow and interfaces.', [
+        section('Architecture', 'Describe the components and how they interact. Name every new service, store or queue.'),
+        section('Data model', 'Give the new or changed schemas and their migrations.'),
+        section('API', 'Specify the new or changed interfaces with request and response shapes and error cases.'),
+      ]),
+      section('Alternatives considered', 'For each alternative, summarize it and say why it was not chosen.'),
+      section('Security and privacy', 'Cover authentication, authorization, data exposure and abuse cases.'),
+      section('Rollout plan', 'Describe milestones, feature flags, migration steps, monitoring and the rollback plan.'),
+      section('Open questions', 'List the decisions still open, each with an owner if known.'),
+    ],
+    styleGuide: { glossary: [], bannedPhrases: ['simply', 'obviously', 'trivially'], person: 'first-plural', activeVoice: true, headingCase: 'sentence' },
+    builtIn: true,
+    createdAt: 0,
+  },
+  {
+    id: 'builtin-grant-proposal',
+    name: 'Grant proposal',
+    description: 'A funding proposal with aims, significance, approach, budget justification and evaluation.',
+    coordinatorPrompt: `You are the Coordinator Agent for a grant proposal. The readers are reviewers scoring the proposal against the funder's criteria. Be persuasive but specific: tie every aim to a measurable outcome, show feasibility with preliminary work and a realistic timeline, and keep the significance of the work visible in every section.`,
+    outline: [
+      section('Project summary', 'Summarize the need, the aims, the approach and the expected impact in one page or less.'),
+      section('Specific aims', 'State two to four aims, each with its hypothesis or objective and a measurable outcome.'),
+      section('Significance', 'Explain the gap this project fills and who benefits, with evidence of the need.'),
+      section('Approach', 'For each aim, describe the methods, the expected results and the alternatives if it fails.', [
+        section('Preliminary work', 'Show the results or pilots that prove the team can deliver.'),
+        section('Timeline', 'Give the milestones per quarter or year, aligned with the aims.'),
+      ]),
+      section('Team and resources', 'Introduce the key people, their roles and the facilities available.'),
+      section('Budget justification', 'Justify every major budget line by the work it enables.'),
+      section('Evaluation and dissemination', 'Describe how success is measured and how results will be shared.'),
+    ],
+    styleGuide: { glossary: [], bannedPhrases: ['world-class', 'cutting-edge', 'paradigm shift'], person: 'first-plural', activeVoice: true, headingCase: 'title' },
+    builtIn: true,
+    createdAt: 0,
+  },
+  {
+    id: 'builtin-blog-post',
+    name: 'Blog post',
+    description: 'A readable article with a hook, a few key points, practical examples and a call to action.',
+    coordinatorPrompt: `You are the Coordinator Agent for a blog post written for a broad, curious audience. Keep the tone conversational and the paragraphs short. Open with a hook, make each section deliver one clear point with a concrete example, and avoid jargon unless it is explained.`,
+    outline: [
+      section('Introduction', 'Open with a hook (a question, a surprising fact or a short story) and promise what the reader will learn.'),
+      section('Key point 1', 'Make the first main point with one concrete example.'),
+      section('Key point 2', 'Make the second main point with one concrete example.'),
+      section('Key point 3', 'Make the third main point with one concrete example.'),
+      section('Conclusion', 'Recap the points in two or three sentences and end with a call to action.'),
+    ],
+    styleGuide: { glossary: [], bannedPhrases: ['in this day and age', 'at the end of the day'], person: 'second', activeVoice: true, headingCase: 'sentence' },
+    builtIn: true,
+    createdAt: 0,
+  },
+];
+
+/**
+ * Wraps section guidance for the Writer's system prompt.
+ */
+export const formatSectionGuidance = (guidance?: string): string =>
+  guidance?.trim() ? `--- SECTION GUIDANCE ---\n${guidance.trim()}\n--- END SECTION GUIDANCE ---` : '';
+
+const emptyContent = (): SectionContent => ({ content: '', messages: [], sessionFiles: [], contextIds: [], research_results: [] });
+
+/**
+ * The parts of a new flow that come from a template: the coordinator prompt, the outline,
+ * already finalized, each section's guidance and the style guide.
+ */
+export const instantiateTemplate = (template: FlowTemplate): Pick<Flow, 'coordinatorPrompt' | 'outline' | 'contents' | 'styleGuide'> => {
+  const contents: Record<string, SectionContent> = {};
+  const toItems = (sections: TemplateSection[]): OutlineItem[] =>
+    sections.map(s => {
+      const item = createOutlineItem(s.title);
+      if (s.guidance?.trim()) contents[item.id] = { ...emptyContent(), guidance: s.guidance.trim() };
+      return { ...item, children: toItems(s.children) };
+    });
+  return {
+    coordinatorPrompt: template.coordinatorPrompt,
+    outline: renumberOutline(toItems(template.outline)),
+    contents,
+    ...(template.styleGuide ? { styleGuide: template.styleGuide } : {}),
+  };
+};
+
+/**
+ * Saves a flow's setup as a template. Only the structure is kept: the outline titles, section
+ * guidance, coordinator prompt and style guide. Written content, chats and research are not.
+ */
+export const createTemplateFromFlow = (flow: Flow, name: string, description: string): FlowTemplate => {
+  const toSections = (items: OutlineItem[]): TemplateSection[] =>
+    items.map(item => {
+      const guidance = flow.contents[item.id]?.guidance;
+      return { title: stripNumbering(item.title), ...(guidance ? { guidance } : {}), children: toSections(item.children) };
+    });
+  return {
+    id: `template-${Date.now()}`,
+    name,
+    description,
+    coordinatorPrompt: flow.coordinatorPrompt,
+    outline: toSections(flow.outline),
+    ...(flow.styleGuide ? { styleGuide: flow.styleGuide } : {}),
+    createdAt: Date.now(),
+  };
+};
+
+export const countTemplateSections = (sections: TemplateSection[]): number =>
+  sections.reduce((count, s) => count + 1 + countTemplateSections(s.children), 0);
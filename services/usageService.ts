@@ -0,0 +1,149 @@
+import type { OutlineItem, Project, UsageRecord } from '../types';
+import type { AgentRole, TokenUsage, UsageScope } from './llm/types';
+
+// USD per million tokens, matched by model name prefix (the longest match wins). Models not
+// listed, such as local ones, are counted as free.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+};
+
+export const AGENT_LABELS: Record<AgentRole, string> = {
+  coordinator: 'Coordinator',
+  outliner: 'Outliner',
+  writer: 'Writer',
+  research: 'Research',
+  outlineParser: 'Outline parser',
+  reviewer: 'Reviewer',
+  consistency: 'Consistency checker',
+};
+
+/**
+ * Thrown instead of making a call once a project's monthly budget is used up in 'block' mode.
+ */
+export class UsageLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageLimitError';
+  }
+}
+
+export const estimateCost = (model: string, usage: TokenUsage): number => {
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter(p => model.startsWith(p))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!prefix) return 0;
+  const price = MODEL_PRICING[prefix];
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+};
+
+type UsageListener = (scope: UsageScope, record: UsageRecord) => void;
+type UsageGuard = (scope: UsageScope, agent: AgentRole) => void;
+
+const listeners = new Set<UsageListener>();
+let usageGuard: UsageGuard | null = null;
+
+/**
+ * Registers a listener for every recorded call.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToUsage = (listener: UsageListener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const recordUsage = (scope: UsageScope, record: UsageRecord) => {
+  listeners.forEach(listener => listener(scope, record));
+};
+
+/**
+ * Sets the check run before every scoped call. It may throw a `UsageLimitError` to stop the call.
+ */
+export const setUsageGuard = (guard: UsageGuard | null) => {
+  usageGuard = guard;
+};
+
+export const checkUsageGuard = (scope: UsageScope, agent: AgentRole) => usageGuard?.(scope, agent);
+
+const isSameMonth = (timestamp: number, now: Date) => {
+  const date = new Date(timestamp);
+  return date.getFullYear() === now.getFullYear() && date.getMonth() === now.getMonth();
+};
+
+/**
+ * The project's spend in the calendar month of `now`, in USD.
+ */
+export const getMonthlySpend = (records: UsageRecord[] = [], now = new Date()): number =>
+  records.filter(record => isSameMonth(record.timestamp, now)).reduce((sum, record) => sum + record.costUsd, 0);
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  latencyMs: number;
+}
+
+/**
+ * Totals the records per group, e.g. per flow or per agent.
+ */
+export const summarizeUsage = (records: UsageRecord[], groupOf: (record: UsageRecord) => string): Map<string, UsageTotals> => {
+  const totals = new Map<string, UsageTotals>();
+  records.forEach(record => {
+    const group = groupOf(record);
+    const total = totals.get(group) || { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, latencyMs: 0 };
+    totals.set(group, {
+      calls: total.calls + 1,
+      inputTokens: total.inputTokens + record.inputTokens,
+      outputTokens: total.outputTokens + record.outputTokens,
+      costUsd: total.costUsd + record.costUsd,
+      latencyMs: total.latencyMs + record.latencyMs,
+    });
+  });
+  return totals;
+};
+
+const findTitle = (items: OutlineItem[], id: string): string | undefined => {
+  for (const item of items) {
+    if (item.id === id) return item.title;
+    const title = findTitle(item.children, id);
+    if (title) return title;
+  }
+  return undefined;
+};
+
+const csvCell = (value: string | number | boolean | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Every recorded call of the project as CSV, one row per call, with flow and section names.
+ */
+export const usageToCsv = (project: Project): string => {
+  const header = ['timestamp', 'project', 'flow', 'section', 'agent', 'provider', 'model', 'input_tokens', 'output_tokens', 'estimated_tokens', 'latency_ms', 'cost_usd', 'status'];
+  const rows = (project.usage || []).map(record => {
+    const flow = project.flows.find(f => f.id === record.flowId);
+    return [
+      new Date(record.timestamp).toISOString(),
+      project.name,
+      flow?.name ?? (record.flowId ? '(deleted flow)' : ''),
+      record.sectionId ? (flow && findTitle(flow.outline, record.sectionId)) ?? '(deleted section)' : '',
+      record.agent,
+      record.provider,
+      record.model,
+      record.inputTokens,
+      record.outputTokens,
+      record.estimated,
+      record.latencyMs,
+      record.costUsd.toFixed(6),
+      record.status,
+    ].map(csvCell).join(',');
+  });
+  return [header.join(','), ...rows].join('\n') + '\n';
+};
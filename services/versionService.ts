@@ -0,0 +1,67 @@
+import { SectionStatus, type ExportSource, type OutlineItem, type SectionContent, type SectionVersion, type SectionVersionKind } from '../types';
+
+// Older versions are dropped beyond this, but the latest commit is always kept.
+export const MAX_SECTION_VERSIONS = 50;
+
+let versionCounter = 0;
+
+/**
+ * Creates a version snapshot of a section's content.
+ */
+export const createVersion = (kind: SectionVersionKind, content: string, prompt?: string): SectionVersion => ({
+  id: `${Date.now()}-${versionCounter++}`,
+  kind,
+  content,
+  ...(prompt ? { prompt } : {}),
+  createdAt: Date.now(),
+});
+
+export const getLatestVersion = (section: Pick<SectionContent, 'versions'>): SectionVersion | undefined =>
+  section.versions?.[section.versions.length - 1];
+
+/**
+ * The text the Writer Agent last produced for the section, which its chat history builds on.
+ */
+export const getLatestGeneration = (section: Pick<SectionContent, 'versions'>): SectionVersion | undefined =>
+  [...(section.versions || [])].reverse().find(version => version.kind === 'generation');
+
+export const getLastCommittedVersion = (section: Pick<SectionContent, 'versions'>): SectionVersion | undefined =>
+  [...(section.versions || [])].reverse().find(version => version.kind === 'commit');
+
+/**
+ * Whether the section's current content has changed since its latest version was saved.
+ */
+export const hasUnsavedEdits = (section: Pick<SectionContent, 'content' | 'versions'>): boolean =>
+  !!section.content && section.content !== getLatestVersion(section)?.content;
+
+/**
+ * Appends a version, trimming the oldest entries once the history is full.
+ * @returns The new version list.
+ */
+export const appendVersion = (versions: SectionVersion[] | undefined, version: SectionVersion): SectionVersion[] => {
+  const next = [...(versions || []), version];
+  if (next.length <= MAX_SECTION_VERSIONS) return next;
+  const lastCommit = getLastCommittedVersion({ versions: next });
+  const trimmed = next.slice(next.length - MAX_SECTION_VERSIONS);
+  return lastCommit && !trimmed.includes(lastCommit) ? [lastCommit, ...trimmed.slice(1)] : trimmed;
+};
+
+/**
+ * Saves the section's current content as a manual checkpoint if it has been edited since the
+ * latest version, so that it is not lost when the content is replaced.
+ * @returns The version list, unchanged if there was nothing to save.
+ */
+export const checkpointManualEdits = (section: Pick<SectionContent, 'content' | 'versions'>): SectionVersion[] | undefined =>
+  hasUnsavedEdits(section) ? appendVersion(section.versions, createVersion('manual', section.content)) : section.versions;
+
+/**
+ * Picks the content of a section to export: the latest draft, or the last committed version.
+ * Sections committed before version history existed fall back to their current content.
+ */
+export const getExportContent = (item: OutlineItem, section: SectionContent | undefined, source: ExportSource): string => {
+  if (!section) return '';
+  if (source === 'latest') return section.content;
+  const committed = getLastCommittedVersion(section);
+  if (committed) return committed.content;
+  return item.status === SectionStatus.Completed && !section.versions?.length ? section.content : '';
+};
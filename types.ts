@@ -1,3 +1,5 @@
+import type { AgentRole } from './services/llm/types';
+
 export enum SectionStatus {
   Outline = 'outline',
   Writing = 'writing',
@@ -12,13 +14,168 @@ export interface OutlineItem {
   children: OutlineItem[];
 }
 
+// A completed section of another flow in the project, selected as context for the Writer.
+// The text is a snapshot taken when it was selected, so later edits to the source are noticed.
+export interface CrossFlowReference {
+  flowId: string;
+  sectionId: string;
+  flowName: string;
+  sectionTitle: string;
+  content: string;
+  selectedAt: number;
+}
+
+// 'stale' once the source section has been edited or renamed; 'broken' once it, or its flow, is deleted.
+export type CrossFlowReferenceState = 'current' | 'stale' | 'broken';
+
 export interface SectionContent {
   content: string;
   messages: Message[];
   sessionFiles: File[];
+  // Ids of session files the user has switched off; they stay attached but are not sent to the agent.
+  excludedSessionFileIds?: string[];
   contextIds: string[];
+  // Completed sections of other flows in the project, sent alongside `contextIds`.
+  crossFlowRefs?: CrossFlowReference[];
   research_results?: ResearchResult[];
   systemPrompt?: string;
+  // The prompt cache key of the inputs `systemPrompt` was written from. When the flow's current
+  // inputs give another key, the prompt is out of date.
+  systemPromptKey?: string;
+  // The knowledge base chunks injected into the most recent Writer Agent call.
+  retrievedChunks?: RetrievedChunk[];
+  // Snapshots of `content`, oldest first.
+  versions?: SectionVersion[];
+  // The Reviewer Agent's latest review of the section.
+  review?: SectionReview;
+  // Agent output waiting to be accepted into `content`.
+  proposal?: ProposedChange;
+  // What the section should cover, from the flow's template; added to the Writer's system prompt.
+  guidance?: string;
+}
+
+// An agent's suggested text, reviewed as tracked changes: each hunk of the diff from `base` to
+// `proposed` is accepted or rejected on its own.
+export interface ProposedChange {
+  id: string;
+  createdAt: number;
+  // The text the changes were computed against.
+  base: string;
+  proposed: string;
+  // The instruction that produced the proposal.
+  prompt?: string;
+}
+
+// Which content of each section a document export uses.
+export type ExportSource = 'committed' | 'latest';
+
+export type SectionVersionKind = 'generation' | 'edit' | 'manual' | 'commit';
+
+// A saved state of a section's content: an agent generation, an agent edit of a selection,
+// a manual checkpoint, or a commit.
+export interface SectionVersion {
+  id: string;
+  kind: SectionVersionKind;
+  content: string;
+  // The instruction that produced a generated version.
+  prompt?: string;
+  createdAt: number;
+}
+
+// One dimension of the Reviewer Agent's rubric, scored from 1 to 5.
+export interface RubricCriterion {
+  id: string;
+  label: string;
+  description: string;
+}
+
+// A remark on a range of lines of the reviewed content, numbered from 1.
+export interface ReviewComment {
+  startLine: number;
+  endLine: number;
+  criterionId?: string;
+  comment: string;
+  // Replacement text for the lines, if the reviewer proposes one.
+  suggestion?: string;
+}
+
+export interface SectionReview {
+  id: string;
+  createdAt: number;
+  scores: { criterionId: string; score: number; rationale: string }[];
+  summary: string;
+  comments: ReviewComment[];
+  // The content as reviewed; line numbers refer to it.
+  content: string;
+}
+
+export type ConsistencyIssueKind = 'terminology' | 'figure' | 'duplicate' | 'reference';
+
+// A problem found by the flow's consistency check, anchored to a span of one section's content.
+export interface ConsistencyFinding {
+  id: string;
+  kind: ConsistencyIssueKind;
+  sectionId: string;
+  // Offsets into the section's content when the check ran; `excerpt` is the text between them.
+  start: number;
+  end: number;
+  excerpt: string;
+  message: string;
+  // The instruction sent to the Writer Agent when the user asks for a fix.
+  fix: string;
+  // The section the finding conflicts with or repeats.
+  relatedSectionId?: string;
+}
+
+export interface ConsistencyReport {
+  createdAt: number;
+  // The completed sections that were checked, in outline order.
+  sectionIds: string[];
+  findings: ConsistencyFinding[];
+}
+
+export type SpellingLocale = 'en-US' | 'en-GB';
+// The grammatical person the prose is written in; 'third' means impersonal, with no "I", "we" or "you".
+export type NarrativePerson = 'first-singular' | 'first-plural' | 'second' | 'third';
+export type HeadingCase = 'sentence' | 'title';
+
+// A term the flow always spells one way. The forbidden variants are flagged and never written.
+export interface GlossaryTerm {
+  id: string;
+  preferred: string;
+  forbidden: string[];
+  note?: string;
+}
+
+// House rules for a flow, added to the agents' prompts and checked locally in the workspace.
+export interface StyleGuide {
+  glossary: GlossaryTerm[];
+  bannedPhrases: string[];
+  locale?: SpellingLocale;
+  person?: NarrativePerson;
+  activeVoice?: boolean;
+  headingCase?: HeadingCase;
+  // Other rules, passed to the agents as written but not checked.
+  notes?: string;
+}
+
+// A section of a template's seed outline. Titles carry no numbering; it is added on use.
+export interface TemplateSection {
+  title: string;
+  guidance?: string;
+  children: TemplateSection[];
+}
+
+// A starting point for new flows. Built-in templates ship with the app; the others are saved by the user.
+export interface FlowTemplate {
+  id: string;
+  name: string;
+  description: string;
+  coordinatorPrompt: string;
+  outline: TemplateSection[];
+  styleGuide?: StyleGuide;
+  builtIn?: boolean;
+  createdAt: number;
 }
 
 export interface Message {
@@ -32,6 +189,21 @@ export enum AgentStatus {
     Error = 'error',
 }
 
+export enum ExtractionStatus {
+    Pending = 'pending',
+    Done = 'done',
+    Empty = 'empty',
+    Error = 'error',
+}
+
+// The plain text pulled out of an uploaded knowledge file, as fed to the agents.
+export interface FileExtraction {
+  status: ExtractionStatus;
+  format: string;
+  text: string;
+  detail?: string;
+}
+
 export interface ResearchResult {
   id: string;
   title: string;
@@ -39,6 +211,34 @@ export interface ResearchResult {
   summary: string;
 }
 
+// A passage of a global knowledge file, as stored in the project's retrieval index.
+export interface KnowledgeChunk {
+  id: string;
+  fileId: string;
+  fileName: string;
+  index: number;
+  text: string;
+  embedding?: number[];
+}
+
+export interface KnowledgeIndex {
+  method: 'embedding' | 'bm25';
+  embeddingModel?: string;
+  // Identifies the set of files the index was built from, so it can be rebuilt when they change.
+  sourceSignature: string;
+  chunks: KnowledgeChunk[];
+  builtAt: number;
+}
+
+export interface RetrievedChunk {
+  chunkId: string;
+  fileName: string;
+  index: number;
+  text: string;
+  score: number;
+  method: KnowledgeIndex['method'];
+}
+
 export interface ContextData {
   coordinatorPrompt?: string;
   globalKnowledge: string[];
@@ -48,9 +248,52 @@ export interface ContextData {
   sessionKnowledge: string[];
   selectedReferences: { title: string; content: string }[];
   researchContext?: ResearchResult[];
+  retrievedKnowledge?: RetrievedChunk[];
+}
+
+export type CitationStyle = 'apa' | 'ieee' | 'chicago';
+
+// A source the flow's content can cite inline as `[@key]`. The descriptive fields are
+// editable so references can be completed before export.
+export interface BibliographyEntry {
+  key: string;
+  sourceType: 'research' | 'file';
+  // The research result id or knowledge file id the entry was created from.
+  sourceId: string;
+  title: string;
+  url?: string;
+  // Semicolon-separated, each as "Last, First" or "First Last".
+  authors?: string;
+  year?: string;
+  // Website, journal or publisher.
+  publisher?: string;
+  addedAt: number;
+}
+
+// The parts of a Writer Agent request that are counted against the context budget.
+export type ContextComponentId = 'systemPrompt' | 'citations' | 'knowledge' | 'sessionFiles' | 'research' | 'references' | 'history' | 'instruction';
+
+// How a component is shortened when the context is over budget.
+export type ContextStrategy = 'keep' | 'trim-end' | 'trim-start' | 'drop';
+
+export interface ContextBudgetSettings {
+  maxTokens: number;
+  components: Record<ContextComponentId, { strategy: ContextStrategy; priority: number }>;
 }
 
 // New Flow interface for a single authoring document
+export interface CachedPrompt {
+  text: string;
+  createdAt: number;
+}
+
+// The flow a fork was copied from. The name is kept in case that flow is deleted later.
+export interface FlowLineage {
+  flowId: string;
+  flowName: string;
+  createdAt: number;
+}
+
 export interface Flow {
   id: string;
   name: string;
@@ -58,7 +301,44 @@ export interface Flow {
   outline: OutlineItem[];
   contents: Record<string, SectionContent>;
   outlineDraft: string;
+  // The Outliner Agent's changes to `outlineDraft`, waiting for review.
+  outlineProposal?: ProposedChange;
   outlinerMessages: Message[];
+  bibliography?: BibliographyEntry[];
+  citationStyle?: CitationStyle;
+  contextBudget?: ContextBudgetSettings;
+  reviewRubric?: RubricCriterion[];
+  // The latest consistency check across the completed sections.
+  consistencyReport?: ConsistencyReport;
+  styleGuide?: StyleGuide;
+  // Set on a fork, so it can be compared with the flow it was copied from.
+  forkedFrom?: FlowLineage;
+  // System prompts written by the Coordinator Agent, by a hash of the inputs they were written from.
+  promptCache?: Record<string, CachedPrompt>;
+}
+
+// One language model call, as recorded for usage and cost accounting.
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  agent: AgentRole;
+  provider: string;
+  model: string;
+  flowId?: string;
+  sectionId?: string;
+  inputTokens: number;
+  outputTokens: number;
+  // True when the backend did not report token counts and they were estimated from the text.
+  estimated: boolean;
+  latencyMs: number;
+  costUsd: number;
+  status: 'ok' | 'aborted' | 'error';
+}
+
+export interface UsageBudget {
+  monthlyLimitUsd: number;
+  // 'warn' only notifies once the limit is reached; 'block' refuses further calls that month.
+  mode: 'warn' | 'block';
 }
 
 // Project interface updated to hold multiple flows
@@ -67,5 +347,8 @@ export interface Project {
   name: string;
   globalKnowledgeFiles: File[];
   globalKnowledgeContext: string;
+  knowledgeIndex?: KnowledgeIndex;
   flows: Flow[];
+  usage?: UsageRecord[];
+  usageBudget?: UsageBudget;
 }
\ No newline at end of file